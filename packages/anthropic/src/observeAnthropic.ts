@@ -0,0 +1,123 @@
+import { withTracing } from "./traceMethod.js";
+import type { AntsPlatformConfig } from "./types.js";
+
+/**
+ * Wraps an Anthropic SDK client with automatic AntsPlatform tracing.
+ *
+ * This function creates a proxy around the Anthropic SDK that automatically
+ * traces calls of `messages.create`, including `beta.messages.create`, as
+ * AntsPlatform generations. It captures the request, the response content
+ * including `tool_use` and `thinking` blocks, the stop reason and the token
+ * usage including prompt cache reads and writes. It works with both streaming
+ * and non-streaming calls.
+ *
+ * All other methods of the SDK, e.g. `models.list` or
+ * `messages.countTokens`, are passed through without tracing.
+ *
+ * @param sdk - The Anthropic SDK client instance to wrap with tracing
+ * @param antsPlatformConfig - Optional configuration for tracing behavior
+ * @returns A proxied version of the Anthropic SDK with automatic tracing
+ *
+ * @example
+ * ```typescript
+ * import Anthropic from '@anthropic-ai/sdk';
+ * import { observeAnthropic } from '@antsplatform/anthropic';
+ *
+ * const anthropic = observeAnthropic(new Anthropic({
+ *   apiKey: process.env.ANTHROPIC_API_KEY,
+ * }));
+ *
+ * // All message calls are now automatically traced
+ * const message = await anthropic.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: [{ role: 'user', content: 'Hello!' }],
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // With custom tracing configuration
+ * const anthropic = observeAnthropic(new Anthropic(), {
+ *   traceName: 'AI-Assistant-Chat',
+ *   userId: 'user-123',
+ *   sessionId: 'session-456',
+ *   tags: ['production', 'chat-feature'],
+ *   generationName: 'claude-chat-message'
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Streaming responses are also automatically traced
+ * const stream = await anthropic.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: [{ role: 'user', content: 'Write a story' }],
+ *   stream: true
+ * });
+ *
+ * for await (const event of stream) {
+ *   if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+ *     process.stdout.write(event.delta.text);
+ *   }
+ * }
+ * // The complete message and usage details are captured automatically
+ * ```
+ *
+ * @public
+ */
+export const observeAnthropic = <SDKType extends object>(
+  sdk: SDKType,
+  antsPlatformConfig?: AntsPlatformConfig,
+): SDKType => {
+  return observeNestedObject(sdk, antsPlatformConfig, [
+    sdk.constructor?.name ?? "Anthropic",
+  ]);
+};
+
+const observeNestedObject = <T extends object>(
+  target: T,
+  antsPlatformConfig: AntsPlatformConfig | undefined,
+  path: string[],
+): T => {
+  return new Proxy(target, {
+    get(wrappedTarget, propKey, proxy) {
+      const originalProperty = wrappedTarget[propKey as keyof T];
+      const propertyPath = [...path, propKey.toString()];
+
+      if (typeof originalProperty === "function") {
+        const boundMethod = originalProperty.bind(wrappedTarget);
+
+        // Trace message creation of the Anthropic SDK
+        if (propKey === "create" && path[path.length - 1] === "messages") {
+          return withTracing(boundMethod, {
+            ...antsPlatformConfig,
+            generationName:
+              antsPlatformConfig?.generationName ?? propertyPath.join("."),
+          });
+        }
+
+        return boundMethod;
+      }
+
+      const isNestedAnthropicObject =
+        originalProperty &&
+        !Array.isArray(originalProperty) &&
+        !(originalProperty instanceof Date) &&
+        typeof originalProperty === "object";
+
+      // Recursively wrap nested objects to reach nested resources like `beta.messages`
+      if (isNestedAnthropicObject) {
+        return observeNestedObject(
+          originalProperty,
+          antsPlatformConfig,
+          propertyPath,
+        );
+      }
+
+      // Fallback to returning the original value
+      return Reflect.get(wrappedTarget, propKey, proxy);
+    },
+  });
+};
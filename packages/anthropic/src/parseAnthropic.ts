@@ -0,0 +1,251 @@
+/**
+ * Token usage of a message as returned by the Anthropic API.
+ */
+type AnthropicUsage = {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+/**
+ * Content block of a message, e.g. `text`, `tool_use` or `thinking`.
+ */
+type AnthropicContentBlock = {
+  type: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Message as returned by `messages.create`.
+ */
+type AnthropicMessage = {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+};
+
+type ParsedAnthropicArguments = {
+  model: string;
+  input: Record<string, any>;
+  modelParameters: Record<string, any>;
+};
+
+export const parseInputArgs = (
+  args: Record<string, any>,
+): ParsedAnthropicArguments => {
+  const params: Record<string, any> = {};
+  const modelParamKeys = [
+    "max_tokens",
+    "temperature",
+    "top_p",
+    "top_k",
+    "stop_sequences",
+    "stream",
+    "thinking",
+    "service_tier",
+  ];
+
+  for (const key of modelParamKeys) {
+    if (args[key] !== undefined) {
+      params[key] = args[key];
+    }
+  }
+
+  const input: Record<string, any> = {};
+  if (args.system !== undefined) {
+    input.system = args.system;
+  }
+  input.messages = args.messages;
+  if (args.tools !== undefined) {
+    input.tools = args.tools;
+  }
+  if (args.tool_choice !== undefined) {
+    input.tool_choice = args.tool_choice;
+  }
+
+  return {
+    model: args.model,
+    input,
+    modelParameters: params,
+  };
+};
+
+export const isAnthropicMessage = (res: unknown): res is AnthropicMessage =>
+  typeof res === "object" &&
+  res !== null &&
+  "type" in res &&
+  res.type === "message" &&
+  "content" in res &&
+  Array.isArray(res.content);
+
+/**
+ * Parses the output of a message: its role and content blocks, including
+ * `tool_use` and `thinking` blocks.
+ */
+export const parseMessageOutput = (
+  message: AnthropicMessage,
+): { role: string; content: AnthropicContentBlock[] } => {
+  return { role: message.role, content: message.content };
+};
+
+/**
+ * Parses the token usage of a message.
+ *
+ * Anthropic reports input tokens read from and written to the prompt cache
+ * separately from the uncached input tokens, so all of them add up to the
+ * total.
+ */
+export const parseUsageDetails = (
+  usage: AnthropicUsage,
+): Record<string, number> | undefined => {
+  if (typeof usage.input_tokens !== "number") {
+    return undefined;
+  }
+
+  const usageDetails: Record<string, number> = {
+    input: usage.input_tokens,
+    output: usage.output_tokens ?? 0,
+  };
+
+  if (typeof usage.cache_read_input_tokens === "number") {
+    usageDetails.input_cache_read = usage.cache_read_input_tokens;
+  }
+  if (typeof usage.cache_creation_input_tokens === "number") {
+    usageDetails.input_cache_creation = usage.cache_creation_input_tokens;
+  }
+
+  usageDetails.total =
+    usageDetails.input +
+    usageDetails.output +
+    (usageDetails.input_cache_read ?? 0) +
+    (usageDetails.input_cache_creation ?? 0);
+
+  return usageDetails;
+};
+
+export const parseMetadataFromMessage = (
+  message: AnthropicMessage,
+): Record<string, unknown> => {
+  const metadata: Record<string, unknown> = { id: message.id };
+
+  if (message.stop_reason) {
+    metadata.stop_reason = message.stop_reason;
+  }
+  if (message.stop_sequence) {
+    metadata.stop_sequence = message.stop_sequence;
+  }
+
+  return metadata;
+};
+
+/**
+ * Rebuilds a message from the events of a streamed `messages.create` call.
+ *
+ * Text, thinking and signature deltas are appended to their content blocks,
+ * partial JSON of `tool_use` blocks is parsed once the block is complete, and
+ * usage and stop reason of `message_delta` events are merged into the message.
+ */
+export class MessageStreamAccumulator {
+  private message: AnthropicMessage | null = null;
+  private partialJsonByIndex = new Map<number, string>();
+
+  public add(event: unknown): void {
+    if (typeof event !== "object" || event === null || !("type" in event)) {
+      return;
+    }
+
+    const data = event as Record<string, any>;
+
+    switch (data.type) {
+      case "message_start":
+        this.message = {
+          ...data.message,
+          content: [...(data.message?.content ?? [])],
+          usage: { ...data.message?.usage },
+        };
+        break;
+
+      case "content_block_start":
+        if (this.message) {
+          this.message.content[data.index] = { ...data.content_block };
+        }
+        break;
+
+      case "content_block_delta":
+        this.applyDelta(data.index, data.delta ?? {});
+        break;
+
+      case "content_block_stop":
+        this.completeBlock(data.index);
+        break;
+
+      case "message_delta":
+        if (this.message) {
+          this.message.stop_reason =
+            data.delta?.stop_reason ?? this.message.stop_reason;
+          this.message.stop_sequence =
+            data.delta?.stop_sequence ?? this.message.stop_sequence;
+
+          for (const [key, value] of Object.entries(data.usage ?? {})) {
+            if (value != null) {
+              (this.message.usage as Record<string, unknown>)[key] = value;
+            }
+          }
+        }
+        break;
+    }
+  }
+
+  public getMessage(): AnthropicMessage | null {
+    return this.message;
+  }
+
+  private applyDelta(index: number, delta: Record<string, any>): void {
+    const block = this.message?.content[index];
+    if (!block) return;
+
+    switch (delta.type) {
+      case "text_delta":
+        block.text = ((block.text as string) ?? "") + delta.text;
+        break;
+      case "thinking_delta":
+        block.thinking = ((block.thinking as string) ?? "") + delta.thinking;
+        break;
+      case "signature_delta":
+        block.signature = delta.signature;
+        break;
+      case "citations_delta":
+        block.citations = [
+          ...((block.citations as unknown[]) ?? []),
+          delta.citation,
+        ];
+        break;
+      case "input_json_delta":
+        this.partialJsonByIndex.set(
+          index,
+          (this.partialJsonByIndex.get(index) ?? "") + delta.partial_json,
+        );
+        break;
+    }
+  }
+
+  private completeBlock(index: number): void {
+    const block = this.message?.content[index];
+    const partialJson = this.partialJsonByIndex.get(index);
+    if (!block || partialJson === undefined) return;
+
+    this.partialJsonByIndex.delete(index);
+
+    try {
+      block.input = partialJson ? JSON.parse(partialJson) : {};
+    } catch {
+      block.input = partialJson;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  AntsPlatformGeneration,
+  startObservation,
+} from "@antsplatform/tracing";
+
+import {
+  MessageStreamAccumulator,
+  isAnthropicMessage,
+  parseInputArgs,
+  parseMessageOutput,
+  parseMetadataFromMessage,
+  parseUsageDetails,
+} from "./parseAnthropic.js";
+import type { AntsPlatformConfig } from "./types.js";
+import { isAsyncIterable } from "./utils.js";
+
+/**
+ * Generic method type for any function that can be traced.
+ * @internal
+ */
+type GenericMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Wraps a method with AntsPlatform tracing functionality.
+ *
+ * This function creates a wrapper around Anthropic SDK methods that
+ * automatically creates AntsPlatform generations, captures input/output data,
+ * handles streaming responses, and records usage metrics and errors.
+ *
+ * @param tracedMethod - The Anthropic SDK method to wrap with tracing
+ * @param config - Configuration for the trace and generation
+ * @returns A wrapped version of the method that creates AntsPlatform traces
+ *
+ * @internal
+ */
+export const withTracing = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: AntsPlatformConfig & Required<{ generationName: string }>,
+): ((...args: Parameters<T>) => Promise<ReturnType<T>>) => {
+  return (...args) => wrapMethod(tracedMethod, config, ...args);
+};
+
+/**
+ * Internal method that handles the actual tracing logic for Anthropic SDK
+ * methods.
+ *
+ * This function creates a AntsPlatform generation, executes the original
+ * method, and captures all relevant data including input, output, usage, and
+ * errors. It handles both streaming and non-streaming responses appropriately.
+ *
+ * @param tracedMethod - The original Anthropic SDK method to execute
+ * @param config - AntsPlatform configuration options
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method, potentially wrapped for streaming
+ *
+ * @internal
+ */
+const wrapMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  config?: AntsPlatformConfig,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const { model, input, modelParameters } = parseInputArgs(args[0] ?? {});
+
+  const generation = startObservation(
+    config?.generationName ?? "Anthropic-message",
+    {
+      model,
+      input,
+      modelParameters,
+      prompt: config?.antsPlatformPrompt,
+      metadata: config?.generationMetadata,
+    },
+    {
+      asType: "generation",
+      parentSpanContext: config?.parentSpanContext,
+    },
+  ).updateTrace({
+    userId: config?.userId,
+    sessionId: config?.sessionId,
+    tags: config?.tags,
+    name: config?.traceName,
+  });
+
+  try {
+    const res = tracedMethod(...args);
+
+    // Handle stream responses
+    if (isAsyncIterable(res)) {
+      return wrapAsyncIterable(res, generation);
+    }
+
+    if (res instanceof Promise) {
+      const wrappedPromise = res
+        .then((result) => {
+          if (isAsyncIterable(result)) {
+            return wrapAsyncIterable(result, generation);
+          }
+
+          if (isAnthropicMessage(result)) {
+            generation.update({
+              output: parseMessageOutput(result),
+              usageDetails: parseUsageDetails(result.usage),
+              model: result.model,
+              metadata: parseMetadataFromMessage(result),
+            });
+          } else {
+            generation.update({ output: result });
+          }
+
+          generation.end();
+
+          return result;
+        })
+        .catch((err) => {
+          endWithError(generation, err);
+
+          throw err;
+        });
+
+      return wrappedPromise;
+    }
+
+    return res;
+  } catch (error) {
+    endWithError(generation, error);
+
+    throw error;
+  }
+};
+
+function endWithError(generation: AntsPlatformGeneration, error: unknown) {
+  generation
+    .update({
+      statusMessage: String(error),
+      level: "ERROR",
+      costDetails: {
+        input: 0,
+        output: 0,
+        total: 0,
+      },
+    })
+    .end();
+}
+
+/**
+ * Wraps an async iterable (streaming response) with AntsPlatform tracing.
+ *
+ * This function handles streaming Anthropic responses by rebuilding the
+ * message from its events and updating the AntsPlatform generation with the
+ * complete output, usage details and stop reason once the stream is consumed.
+ * Streams that fail or are not consumed to the end still end the generation
+ * with the content received so far.
+ *
+ * @param iterable - The async iterable from Anthropic (streaming response)
+ * @param generation - The AntsPlatform generation to update with stream data
+ * @returns An async generator that yields original events while collecting data
+ *
+ * @internal
+ */
+function wrapAsyncIterable<R>(
+  iterable: AsyncIterable<unknown>,
+  generation: AntsPlatformGeneration,
+): R {
+  async function* tracedOutputGenerator(): AsyncGenerator<
+    unknown,
+    void,
+    unknown
+  > {
+    const accumulator = new MessageStreamAccumulator();
+    let completionStartTime: Date | undefined = undefined;
+    let error: unknown = undefined;
+
+    try {
+      for await (const rawEvent of iterable) {
+        if (
+          completionStartTime === undefined &&
+          typeof rawEvent === "object" &&
+          rawEvent !== null &&
+          "type" in rawEvent &&
+          rawEvent.type === "content_block_delta"
+        ) {
+          completionStartTime = new Date();
+        }
+
+        accumulator.add(rawEvent);
+
+        yield rawEvent;
+      }
+    } catch (err) {
+      error = err;
+
+      throw err;
+    } finally {
+      const message = accumulator.getMessage();
+
+      if (message) {
+        generation.update({
+          output: parseMessageOutput(message),
+          completionStartTime,
+          usageDetails: parseUsageDetails(message.usage),
+          model: message.model,
+          metadata: parseMetadataFromMessage(message),
+        });
+      }
+
+      if (error !== undefined) {
+        endWithError(generation, error);
+      } else {
+        generation.end();
+      }
+    }
+  }
+
+  return tracedOutputGenerator() as R;
+}
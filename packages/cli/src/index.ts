@@ -0,0 +1,22 @@
+export { runCli } from "./runCli.js";
+export type { CliOutput } from "./runCli.js";
+export { PromptSync } from "./prompts/promptSync.js";
+export { generatePromptTypes } from "./prompts/codegen.js";
+export type {
+  PromptSyncParams,
+  PromptDiff,
+  PromptDiffStatus,
+  PromptSyncResult,
+} from "./prompts/promptSync.js";
+export {
+  parsePromptFile,
+  promptToFile,
+  readPromptFiles,
+  serializePromptFile,
+} from "./prompts/promptFile.js";
+export type {
+  LocalPromptFile,
+  PromptFile,
+  PromptFileFormat,
+  PromptFileMessage,
+} from "./prompts/promptFile.js";
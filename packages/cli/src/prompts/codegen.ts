@@ -0,0 +1,101 @@
+import { ChatPromptClient, TextPromptClient } from "@antsplatform/client";
+
+import { PromptFile } from "./promptFile.js";
+
+const HEADER = `// This file is generated by \`ants-platform prompts codegen\`. Do not edit.
+// Regenerate it after changing prompts to keep \`compile()\` type-checked.
+`;
+
+/**
+ * Generates TypeScript declarations that register the variables and
+ * placeholders of each prompt in the PromptTypeRegistry of `@antsplatform/client`.
+ *
+ * Once the generated file is part of the compilation, prompts retrieved via
+ * `antsPlatform.prompt.get` only accept their own variables in `compile`.
+ *
+ * @param files - The prompt files to generate types for
+ * @returns The content of the generated TypeScript file
+ *
+ * @example
+ * ```typescript
+ * const files = await readPromptFiles("./prompts");
+ * await writeFile(
+ *   "src/prompts.generated.ts",
+ *   generatePromptTypes(files.map(({ file }) => file)),
+ * );
+ * ```
+ *
+ * @public
+ */
+export function generatePromptTypes(files: PromptFile[]): string {
+  const entries = [...files]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((file) => {
+      const client = createPromptClient(file);
+
+      const variables = [
+        ...client.variables.map((name) => `${JSON.stringify(name)}: string`),
+        ...client.optionalVariables.map(
+          (name) => `${JSON.stringify(name)}?: string`,
+        ),
+      ];
+      const placeholders = client.placeholders.map(
+        (name) =>
+          `${JSON.stringify(name)}: { role: string; content: string }[]`,
+      );
+
+      return [
+        `    ${JSON.stringify(file.name)}: {`,
+        `      variables: ${formatObjectType(variables)};`,
+        `      placeholders: ${formatObjectType(placeholders)};`,
+        `    };`,
+      ].join("\n");
+    });
+
+  return [
+    HEADER,
+    `import "@antsplatform/client";`,
+    ``,
+    `declare module "@antsplatform/client" {`,
+    `  interface PromptTypeRegistry {`,
+    ...entries,
+    `  }`,
+    `}`,
+    ``,
+  ].join("\n");
+}
+
+function formatObjectType(members: string[]): string {
+  return members.length > 0 ? `{ ${members.join("; ")} }` : "{}";
+}
+
+function createPromptClient(
+  file: PromptFile,
+): TextPromptClient | ChatPromptClient {
+  const base = {
+    name: file.name,
+    version: file.version ?? 0,
+    labels: file.labels ?? [],
+    tags: file.tags ?? [],
+    config: file.config,
+  };
+
+  if (file.type === "text") {
+    return new TextPromptClient({
+      ...base,
+      type: "text",
+      prompt: file.prompt as string,
+    });
+  }
+
+  return new ChatPromptClient({
+    ...base,
+    type: "chat",
+    prompt: (file.prompt as Exclude<PromptFile["prompt"], string>).map(
+      (message) =>
+        "role" in message
+          ? { type: "chatmessage", ...message }
+          : { type: "placeholder", name: message.name },
+    ),
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Computes a line-based diff between two texts.
+ *
+ * Unchanged lines are prefixed with `"  "`, removed lines with `"- "` and added
+ * lines with `"+ "`. Prompts are small, so the quadratic longest common
+ * subsequence algorithm is sufficient.
+ *
+ * @param before - The original text
+ * @param after - The changed text
+ * @returns The diff lines
+ *
+ * @internal
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lengths[i][j] is the length of the longest common subsequence of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      lines.push(`+ ${b[j++]}`);
+    } else {
+      lines.push(`- ${a[i++]}`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,283 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import {
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+
+import { Prompt } from "@antsplatform/core";
+import { parse, stringify } from "yaml";
+
+/**
+ * Serialization format of prompt files.
+ *
+ * @public
+ */
+export type PromptFileFormat = "yaml" | "json";
+
+/**
+ * A chat message or placeholder in a prompt file.
+ *
+ * @public
+ */
+export type PromptFileMessage =
+  { role: string; content: string } | { type: "placeholder"; name: string };
+
+/**
+ * A prompt stored as a local file.
+ *
+ * @public
+ */
+export type PromptFile = {
+  /** Name of the prompt, may contain `/` to group prompts into folders */
+  name: string;
+  /** Type of the prompt */
+  type: "text" | "chat";
+  /** Server version the file was last pulled or pushed as */
+  version?: number;
+  /** Deployment labels of the server version. Not pushed, labels are moved with `promote`. */
+  labels?: string[];
+  /** Tags of the prompt */
+  tags?: string[];
+  /** Prompt config, e.g. model parameters */
+  config?: unknown;
+  /** Commit message of the server version. Not pushed, pass a commit message to `push` instead. */
+  commitMessage?: string;
+  /** Text of a text prompt, or messages of a chat prompt */
+  prompt: string | PromptFileMessage[];
+};
+
+/**
+ * A prompt file read from disk.
+ *
+ * @public
+ */
+export type LocalPromptFile = {
+  /** Absolute or directory-relative path of the file */
+  path: string;
+  /** Format of the file */
+  format: PromptFileFormat;
+  /** Parsed file content */
+  file: PromptFile;
+};
+
+const FILE_EXTENSIONS: Record<string, PromptFileFormat> = {
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".json": "json",
+};
+
+/** Label that the server manages itself and that cannot be assigned */
+export const LATEST_LABEL = "latest";
+
+/**
+ * Converts a prompt returned by the API into its file representation.
+ *
+ * @param prompt - The prompt as returned by the API
+ * @returns The prompt file
+ *
+ * @public
+ */
+export function promptToFile(prompt: Prompt): PromptFile {
+  const file: PromptFile = {
+    name: prompt.name,
+    type: prompt.type,
+    version: prompt.version,
+    labels: prompt.labels.filter((label) => label !== LATEST_LABEL),
+    tags: prompt.tags,
+    config: prompt.config ?? {},
+    prompt:
+      prompt.type === "chat"
+        ? prompt.prompt.map((message) =>
+            message.type === "placeholder"
+              ? { type: "placeholder", name: message.name }
+              : { role: message.role, content: message.content },
+          )
+        : prompt.prompt,
+  };
+
+  if (prompt.commitMessage) {
+    file.commitMessage = prompt.commitMessage;
+  }
+
+  return file;
+}
+
+/**
+ * Serializes a prompt file.
+ *
+ * @param file - The prompt file
+ * @param format - The serialization format
+ * @returns The file content
+ *
+ * @public
+ */
+export function serializePromptFile(
+  file: PromptFile,
+  format: PromptFileFormat,
+): string {
+  return format === "json"
+    ? JSON.stringify(file, null, 2) + "\n"
+    : stringify(file, { lineWidth: 0 });
+}
+
+/**
+ * Parses and validates the content of a prompt file.
+ *
+ * @param content - The file content
+ * @param format - The serialization format
+ * @param path - Path of the file, used in error messages
+ * @returns The prompt file
+ * @throws If the content is not a valid prompt file
+ *
+ * @public
+ */
+export function parsePromptFile(
+  content: string,
+  format: PromptFileFormat,
+  path = "<prompt file>",
+): PromptFile {
+  const data = format === "json" ? JSON.parse(content) : parse(content);
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid prompt file '${path}': ${reason}`);
+  };
+
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    fail("expected an object");
+  }
+  if (typeof data.name !== "string" || !data.name) {
+    fail("'name' must be a non-empty string");
+  }
+  if (data.type !== "text" && data.type !== "chat") {
+    fail("'type' must be 'text' or 'chat'");
+  }
+  if (data.type === "text" && typeof data.prompt !== "string") {
+    fail("'prompt' of a text prompt must be a string");
+  }
+  if (data.type === "chat") {
+    if (!Array.isArray(data.prompt)) {
+      fail("'prompt' of a chat prompt must be a list of messages");
+    }
+
+    data.prompt.forEach((message: Record<string, unknown>, index: number) => {
+      const isPlaceholder =
+        message?.type === "placeholder" && typeof message.name === "string";
+      const isMessage =
+        typeof message?.role === "string" &&
+        typeof message?.content === "string";
+
+      if (!isPlaceholder && !isMessage) {
+        fail(
+          `message ${index} must have 'role' and 'content' or be a placeholder with 'name'`,
+        );
+      }
+    });
+  }
+  for (const key of ["labels", "tags"]) {
+    if (
+      data[key] !== undefined &&
+      (!Array.isArray(data[key]) ||
+        data[key].some((item: unknown) => typeof item !== "string"))
+    ) {
+      fail(`'${key}' must be a list of strings`);
+    }
+  }
+  if (data.version !== undefined && !Number.isInteger(data.version)) {
+    fail("'version' must be an integer");
+  }
+
+  return data as PromptFile;
+}
+
+/**
+ * Returns the path of the file for a prompt. Prompt names containing `/` are
+ * mapped to subdirectories.
+ *
+ * @throws If the path of the prompt is outside of the directory, e.g. because its name contains `..`
+ * @internal
+ */
+export function getPromptFilePath(
+  directory: string,
+  name: string,
+  format: PromptFileFormat,
+): string {
+  const path = join(directory, ...name.split("/")) + `.${format}`;
+  const relativePath = relative(resolve(directory), resolve(path));
+
+  if (
+    relativePath === ".." ||
+    relativePath.startsWith(`..${sep}`) ||
+    isAbsolute(relativePath)
+  ) {
+    throw new Error(
+      `Prompt '${name}' cannot be stored outside of the directory '${directory}'`,
+    );
+  }
+
+  return path;
+}
+
+/**
+ * Reads all prompt files in a directory and its subdirectories.
+ *
+ * @param directory - The prompts directory
+ * @returns The prompt files, sorted by prompt name
+ * @throws If a file is invalid or two files define the same prompt
+ *
+ * @public
+ */
+export async function readPromptFiles(
+  directory: string,
+): Promise<LocalPromptFile[]> {
+  const entries = await readdir(directory, {
+    recursive: true,
+    withFileTypes: true,
+  }).catch((err) => {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+
+    throw err;
+  });
+
+  const files: LocalPromptFile[] = [];
+
+  for (const entry of entries) {
+    const format = FILE_EXTENSIONS[extname(entry.name)];
+    if (!entry.isFile() || !format) continue;
+
+    // Node.js before 20.12 only provides the deprecated `path` property
+    const parentPath =
+      entry.parentPath ?? (entry as { path?: string }).path ?? directory;
+    const path = join(parentPath, entry.name);
+    const file = parsePromptFile(await readFile(path, "utf8"), format, path);
+
+    const duplicate = files.find((other) => other.file.name === file.name);
+    if (duplicate) {
+      throw new Error(
+        `Prompt '${file.name}' is defined in both '${duplicate.path}' and '${path}'`,
+      );
+    }
+
+    files.push({ path, format, file });
+  }
+
+  return files.sort((a, b) => a.file.name.localeCompare(b.file.name));
+}
+
+/**
+ * Writes a prompt file, creating parent directories as needed.
+ *
+ * @internal
+ */
+export async function writePromptFile(
+  path: string,
+  file: PromptFile,
+  format: PromptFileFormat,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, serializePromptFile(file, format), "utf8");
+}
@@ -0,0 +1,399 @@
+import type { AntsPlatformClient } from "@antsplatform/client";
+import {
+  AntsPlatformAPIError,
+  Prompt,
+  getGlobalLogger,
+} from "@antsplatform/core";
+import { stringify } from "yaml";
+
+import { diffLines } from "./diffLines.js";
+import {
+  LATEST_LABEL,
+  LocalPromptFile,
+  PromptFile,
+  PromptFileFormat,
+  PromptFileMessage,
+  getPromptFilePath,
+  promptToFile,
+  readPromptFiles,
+  writePromptFile,
+} from "./promptFile.js";
+
+/**
+ * Configuration parameters for PromptSync.
+ *
+ * @public
+ */
+export interface PromptSyncParams {
+  /** Client used to access the Ants Platform API */
+  client: AntsPlatformClient;
+  /** Directory containing the prompt files */
+  directory: string;
+  /**
+   * Format of newly pulled prompt files. Existing files keep their format.
+   *
+   * @defaultValue "yaml"
+   */
+  format?: PromptFileFormat;
+  /**
+   * Label selecting the server version that is pulled and compared against.
+   *
+   * @defaultValue "latest"
+   */
+  label?: string;
+}
+
+/**
+ * Status of a prompt when comparing local files with the server.
+ *
+ * - `unchanged`: the local file matches the server version
+ * - `modified`: the local file differs from the server version
+ * - `new`: the prompt does not exist on the server
+ * - `remoteOnly`: the prompt exists on the server but has no local file
+ *
+ * @public
+ */
+export type PromptDiffStatus = "unchanged" | "modified" | "new" | "remoteOnly";
+
+/**
+ * Result of comparing a prompt with the server.
+ *
+ * @public
+ */
+export type PromptDiff = {
+  /** Name of the prompt */
+  name: string;
+  /** Comparison status */
+  status: PromptDiffStatus;
+  /** Path of the local file, if any */
+  path?: string;
+  /** Compared server version, if any */
+  remoteVersion?: number;
+  /** Line diff of the prompt content, empty if unchanged */
+  lines: string[];
+};
+
+/**
+ * Result of pulling or pushing a prompt.
+ *
+ * @public
+ */
+export type PromptSyncResult = {
+  /** Name of the prompt */
+  name: string;
+  /** Server version that was pulled or created */
+  version: number;
+  /** Path of the local file */
+  path: string;
+};
+
+/**
+ * Synchronizes prompts between Ants Platform and a local directory of YAML or
+ * JSON files, so that prompts can be versioned and reviewed alongside code.
+ *
+ * Content changes (prompt, type, config and tags) are pushed as new prompt
+ * versions. Deployment labels are moved with {@link PromptSync.promote}.
+ *
+ * @example
+ * ```typescript
+ * const sync = new PromptSync({
+ *   client: new AntsPlatformClient(),
+ *   directory: "./prompts",
+ * });
+ *
+ * await sync.pull();
+ *
+ * for (const diff of await sync.diff()) {
+ *   console.log(diff.name, diff.status);
+ * }
+ *
+ * await sync.push({ commitMessage: "Tighten summarizer instructions" });
+ * await sync.promote({ name: "summarizer", labels: ["production"] });
+ * ```
+ *
+ * @public
+ */
+export class PromptSync {
+  private client: AntsPlatformClient;
+  private directory: string;
+  private format: PromptFileFormat;
+  private label: string;
+
+  constructor(params: PromptSyncParams) {
+    this.client = params.client;
+    this.directory = params.directory;
+    this.format = params.format ?? "yaml";
+    this.label = params.label ?? LATEST_LABEL;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("PromptSync");
+  }
+
+  /**
+   * Writes server prompts into the local directory, overwriting local changes.
+   *
+   * @param params - Optional pull parameters
+   * @param params.names - Prompts to pull, defaults to all prompts on the server
+   * @returns The pulled prompts
+   */
+  async pull(params?: { names?: string[] }): Promise<PromptSyncResult[]> {
+    const localFiles = await readPromptFiles(this.directory);
+    const names = params?.names ?? (await this.listRemoteNames());
+    const results: PromptSyncResult[] = [];
+
+    for (const name of names) {
+      const remote = await this.fetchRemote(name);
+      if (!remote) {
+        throw new Error(
+          `Prompt '${name}' with label '${this.label}' not found on the server`,
+        );
+      }
+
+      const local = localFiles.find((local) => local.file.name === name);
+      const format = local?.format ?? this.format;
+      const path =
+        local?.path ?? getPromptFilePath(this.directory, name, format);
+
+      await writePromptFile(path, promptToFile(remote), format);
+      results.push({ name, version: remote.version, path });
+    }
+
+    return results;
+  }
+
+  /**
+   * Compares local prompt files with the server.
+   *
+   * @param params - Optional diff parameters
+   * @param params.names - Prompts to compare, defaults to all local and server prompts
+   * @returns The comparison result per prompt, sorted by name
+   */
+  async diff(params?: { names?: string[] }): Promise<PromptDiff[]> {
+    const localFiles = await readPromptFiles(this.directory);
+    const names =
+      params?.names ??
+      [
+        ...new Set([
+          ...localFiles.map((local) => local.file.name),
+          ...(await this.listRemoteNames()),
+        ]),
+      ].sort((a, b) => a.localeCompare(b));
+
+    const diffs: PromptDiff[] = [];
+
+    for (const name of names) {
+      const local = localFiles.find((local) => local.file.name === name);
+      const remote = await this.fetchRemote(name);
+
+      diffs.push(this.compare(name, local, remote));
+    }
+
+    return diffs;
+  }
+
+  /**
+   * Creates new prompt versions for local files that differ from the server.
+   *
+   * Created versions carry no deployment labels, use {@link PromptSync.promote}
+   * to label them. The version, labels and commit message of each pushed file
+   * are updated to the created version.
+   *
+   * @param params - Optional push parameters
+   * @param params.names - Prompts to push, defaults to all local prompts
+   * @param params.commitMessage - Commit message of the created versions
+   * @param params.dryRun - Only return the prompts that would be pushed
+   * @returns The pushed prompts
+   */
+  async push(params?: {
+    names?: string[];
+    commitMessage?: string;
+    dryRun?: boolean;
+  }): Promise<PromptSyncResult[]> {
+    const localFiles = await readPromptFiles(this.directory);
+    const names = params?.names ?? localFiles.map((local) => local.file.name);
+    const results: PromptSyncResult[] = [];
+
+    for (const name of names) {
+      const local = localFiles.find((local) => local.file.name === name);
+      if (!local) {
+        throw new Error(`No local file found for prompt '${name}'`);
+      }
+
+      const remote = await this.fetchRemote(name);
+      const { status } = this.compare(name, local, remote);
+      if (status === "unchanged") continue;
+
+      if (params?.dryRun) {
+        results.push({
+          name,
+          version: (remote?.version ?? 0) + 1,
+          path: local.path,
+        });
+
+        continue;
+      }
+
+      // Labels are only moved by promote, so that a push never deploys a
+      // version, and the commit message of the pulled version is not reused
+      const { file } = local;
+      const commitMessage = params?.commitMessage;
+      const body = {
+        name: file.name,
+        config: file.config,
+        tags: file.tags,
+        ...(commitMessage ? { commitMessage } : {}),
+      };
+
+      const created =
+        file.type === "chat"
+          ? await this.client.prompt.create({
+              ...body,
+              type: "chat",
+              prompt: file.prompt as PromptFileMessage[],
+            })
+          : await this.client.prompt.create({
+              ...body,
+              type: "text",
+              prompt: file.prompt as string,
+            });
+
+      this.logger.debug(
+        `Pushed prompt '${name}' as version ${created.version}`,
+      );
+
+      await writePromptFile(
+        local.path,
+        {
+          ...file,
+          version: created.version,
+          labels: created.labels.filter((label) => label !== LATEST_LABEL),
+          commitMessage,
+        },
+        local.format,
+      );
+      results.push({ name, version: created.version, path: local.path });
+    }
+
+    return results;
+  }
+
+  /**
+   * Adds deployment labels to a prompt version.
+   *
+   * @param params - Promote parameters
+   * @param params.name - Name of the prompt
+   * @param params.labels - Labels to add, e.g. `["production"]`
+   * @param params.version - Version to label, defaults to the latest version
+   * @returns The updated prompt
+   */
+  async promote(params: {
+    name: string;
+    labels: string[];
+    version?: number;
+  }): Promise<Prompt> {
+    const { name, labels } = params;
+
+    const current = await this.client.api.prompts.get(
+      name,
+      params.version !== undefined
+        ? { version: params.version }
+        : { label: LATEST_LABEL },
+    );
+
+    const newLabels = [...new Set([...current.labels, ...labels])].filter(
+      (label) => label !== LATEST_LABEL,
+    );
+
+    return this.client.prompt.update({
+      name,
+      version: current.version,
+      newLabels,
+    });
+  }
+
+  private compare(
+    name: string,
+    local: LocalPromptFile | undefined,
+    remote: Prompt | undefined,
+  ): PromptDiff {
+    if (!local) {
+      return {
+        name,
+        status: "remoteOnly",
+        remoteVersion: remote?.version,
+        lines: [],
+      };
+    }
+
+    const localContent = this.getComparableContent(local.file);
+
+    if (!remote) {
+      return {
+        name,
+        status: "new",
+        path: local.path,
+        lines: localContent.split("\n").map((line) => `+ ${line}`),
+      };
+    }
+
+    const remoteContent = this.getComparableContent(promptToFile(remote));
+
+    return {
+      name,
+      status: localContent === remoteContent ? "unchanged" : "modified",
+      path: local.path,
+      remoteVersion: remote.version,
+      lines:
+        localContent === remoteContent
+          ? []
+          : diffLines(remoteContent, localContent),
+    };
+  }
+
+  /**
+   * Serializes the fields that make up a prompt version, ignoring version,
+   * labels and commit message.
+   */
+  private getComparableContent(file: PromptFile): string {
+    return stringify(
+      {
+        type: file.type,
+        prompt: file.prompt,
+        config: file.config ?? {},
+        tags: [...(file.tags ?? [])].sort(),
+      },
+      { lineWidth: 0 },
+    ).trimEnd();
+  }
+
+  private async fetchRemote(name: string): Promise<Prompt | undefined> {
+    try {
+      return await this.client.api.prompts.get(name, { label: this.label });
+    } catch (err) {
+      if (err instanceof AntsPlatformAPIError && err.statusCode === 404) {
+        return undefined;
+      }
+
+      throw err;
+    }
+  }
+
+  private async listRemoteNames(): Promise<string[]> {
+    const names: string[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.client.api.prompts.list({
+        page,
+        limit: 100,
+        ...(this.label !== LATEST_LABEL ? { label: this.label } : {}),
+      });
+
+      names.push(...response.data.map((prompt) => prompt.name));
+
+      if (page >= response.meta.totalPages) break;
+    }
+
+    return names;
+  }
+}
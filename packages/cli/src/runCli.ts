@@ -0,0 +1,415 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { ParseArgsConfig, parseArgs } from "node:util";
+
+import { AntsPlatformClient, DatasetFileFormat } from "@antsplatform/client";
+
+import { generatePromptTypes } from "./prompts/codegen.js";
+import { PromptFileFormat, readPromptFiles } from "./prompts/promptFile.js";
+import { PromptDiff, PromptSync } from "./prompts/promptSync.js";
+
+const USAGE = `Usage: ants-platform <prompts|datasets> <command> [options]
+
+Prompt commands:
+  pull [names...]              Write prompts from the server into local files
+  diff [names...]              Show differences between local files and the server
+  push [names...]              Create new versions for changed local files
+  promote <name> <labels...>   Add labels to a prompt version
+  codegen                      Generate TypeScript types for prompt variables from local files
+
+Dataset commands:
+  import <name> <file>         Upsert items from a CSV or JSONL file into a dataset
+  export <name> <file>         Write the items of a dataset to a CSV or JSONL file
+  compare <name> <runs...>     Print a Markdown comparison of runs, the first run is the baseline
+
+Prompt options:
+  --dir <path>          Prompts directory (default: ./prompts)
+  --format <yaml|json>  Format of newly pulled files (default: yaml)
+  --label <label>       Server version to pull and compare against (default: latest)
+  --message <message>   Commit message of pushed versions
+  --version <number>    Version to promote (default: latest)
+  --out <path>          Output file of codegen (default: prompts.generated.ts)
+  --dry-run             Show what push would do without creating versions
+  --exit-code           Exit with code 1 if diff finds differences
+
+Dataset options:
+  --format <csv|jsonl>            File format (default: from the file extension)
+  --id-column <column>            Column with item ids used for upserts (default: id)
+  --input-column <column>         Input column, repeat to combine columns (default: input)
+  --expected-output-column <col>  Expected output column, repeatable (default: expectedOutput)
+  --metadata-column <column>      Metadata column, repeatable (default: metadata)
+  --concurrency <number>          Items imported in parallel (default: 5)
+  --include-runs                  Export the run items of all runs
+  --run <name>                    Export the run items of this run, repeatable
+  --include-scores                Export the scores of exported run items
+  --score <name>                  Compare only this score, repeatable
+  --lower-is-better <name>        Score where lower values win, e.g. latency, repeatable
+  --items                         Add the per-item table to the comparison
+  --csv                           Print the per-item comparison as CSV instead
+
+Common options:
+  --public-key <key>    Defaults to ANTS_PLATFORM_PUBLIC_KEY
+  --secret-key <key>    Defaults to ANTS_PLATFORM_SECRET_KEY
+  --base-url <url>      Defaults to ANTS_PLATFORM_BASE_URL
+  -h, --help            Show this help`;
+
+const OPTIONS = {
+  dir: { type: "string", default: "prompts" },
+  format: { type: "string" },
+  label: { type: "string" },
+  message: { type: "string" },
+  version: { type: "string" },
+  out: { type: "string", default: "prompts.generated.ts" },
+  "dry-run": { type: "boolean", default: false },
+  "exit-code": { type: "boolean", default: false },
+  "id-column": { type: "string" },
+  "input-column": { type: "string", multiple: true },
+  "expected-output-column": { type: "string", multiple: true },
+  "metadata-column": { type: "string", multiple: true },
+  concurrency: { type: "string" },
+  "include-runs": { type: "boolean", default: false },
+  run: { type: "string", multiple: true },
+  "include-scores": { type: "boolean", default: false },
+  score: { type: "string", multiple: true },
+  "lower-is-better": { type: "string", multiple: true },
+  items: { type: "boolean", default: false },
+  csv: { type: "boolean", default: false },
+  "public-key": { type: "string" },
+  "secret-key": { type: "string" },
+  "base-url": { type: "string" },
+  help: { type: "boolean", short: "h", default: false },
+} satisfies ParseArgsConfig["options"];
+
+type CliValues = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS }>
+>["values"];
+
+/**
+ * Output streams of the command-line interface.
+ *
+ * @public
+ */
+export type CliOutput = {
+  /** Writes a line of regular output */
+  stdout: (line: string) => void;
+  /** Writes a line of error output */
+  stderr: (line: string) => void;
+};
+
+const defaultOutput: CliOutput = {
+  stdout: (line) => process.stdout.write(line + "\n"),
+  stderr: (line) => process.stderr.write(line + "\n"),
+};
+
+/**
+ * Runs the `ants-platform` command-line interface.
+ *
+ * @param args - Command-line arguments without the executable, e.g. `["prompts", "pull"]`
+ * @param output - Output streams, defaults to the process streams
+ * @returns The exit code
+ *
+ * @example
+ * ```typescript
+ * const exitCode = await runCli(["prompts", "diff", "--dir", "./prompts"]);
+ * ```
+ *
+ * @public
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = defaultOutput,
+): Promise<number> {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: OPTIONS,
+    });
+  } catch (err) {
+    output.stderr(`${(err as Error).message}\n\n${USAGE}`);
+
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [group, command, ...names] = positionals;
+
+  if (
+    values.help ||
+    (group !== "prompts" && group !== "datasets") ||
+    !command
+  ) {
+    (values.help ? output.stdout : output.stderr)(USAGE);
+
+    return values.help ? 0 : 2;
+  }
+
+  const client = new AntsPlatformClient({
+    publicKey: values["public-key"],
+    secretKey: values["secret-key"],
+    baseUrl: values["base-url"],
+  });
+
+  try {
+    return group === "prompts"
+      ? await runPromptsCommand(client, command, names, values, output)
+      : await runDatasetsCommand(client, command, names, values, output);
+  } catch (err) {
+    output.stderr(`Error: ${(err as Error).message}`);
+
+    return 1;
+  }
+}
+
+async function runPromptsCommand(
+  client: AntsPlatformClient,
+  command: string,
+  names: string[],
+  values: CliValues,
+  output: CliOutput,
+): Promise<number> {
+  const format = values.format ?? "yaml";
+  if (format !== "yaml" && format !== "json") {
+    output.stderr(`Invalid format '${format}', use 'yaml' or 'json'`);
+
+    return 2;
+  }
+
+  const sync = new PromptSync({
+    client,
+    directory: values.dir,
+    format: format as PromptFileFormat,
+    label: values.label,
+  });
+  const selectedNames = names.length > 0 ? names : undefined;
+
+  switch (command) {
+    case "pull": {
+      const results = await sync.pull({ names: selectedNames });
+
+      for (const { name, version, path } of results) {
+        output.stdout(`Pulled ${name} (version ${version}) to ${path}`);
+      }
+      output.stdout(`Pulled ${results.length} prompt(s)`);
+
+      return 0;
+    }
+
+    case "diff": {
+      const diffs = await sync.diff({ names: selectedNames });
+      const changed = diffs.filter((diff) => diff.status !== "unchanged");
+
+      for (const diff of changed) {
+        printDiff(diff, output);
+      }
+      output.stdout(
+        `${changed.length} of ${diffs.length} prompt(s) differ from the server`,
+      );
+
+      return values["exit-code"] && changed.length > 0 ? 1 : 0;
+    }
+
+    case "push": {
+      const results = await sync.push({
+        names: selectedNames,
+        commitMessage: values.message,
+        dryRun: values["dry-run"],
+      });
+      const verb = values["dry-run"] ? "Would push" : "Pushed";
+
+      for (const { name, version } of results) {
+        output.stdout(`${verb} ${name} as version ${version}`);
+      }
+      output.stdout(`${verb} ${results.length} prompt(s)`);
+
+      return 0;
+    }
+
+    case "promote": {
+      const [name, ...labels] = names;
+      if (!name || labels.length === 0) {
+        output.stderr(
+          "Usage: ants-platform prompts promote <name> <labels...> [--version <number>]",
+        );
+
+        return 2;
+      }
+
+      const version =
+        values.version !== undefined ? Number(values.version) : undefined;
+      if (version !== undefined && !Number.isInteger(version)) {
+        output.stderr(`Invalid version '${values.version}'`);
+
+        return 2;
+      }
+
+      const prompt = await sync.promote({ name, labels, version });
+      output.stdout(
+        `Labeled ${prompt.name} version ${prompt.version} with ${labels.join(", ")}`,
+      );
+
+      return 0;
+    }
+
+    case "codegen": {
+      const files = await readPromptFiles(values.dir);
+
+      await writeFile(
+        values.out,
+        generatePromptTypes(files.map(({ file }) => file)),
+        "utf8",
+      );
+      output.stdout(
+        `Generated types for ${files.length} prompt(s) in ${values.out}`,
+      );
+
+      return 0;
+    }
+
+    default:
+      output.stderr(`Unknown command '${command}'\n\n${USAGE}`);
+
+      return 2;
+  }
+}
+
+async function runDatasetsCommand(
+  client: AntsPlatformClient,
+  command: string,
+  args: string[],
+  values: CliValues,
+  output: CliOutput,
+): Promise<number> {
+  const [name, file] = args;
+
+  if (command === "compare") {
+    const runNames = args.slice(1);
+    if (!name || runNames.length < 2) {
+      output.stderr(
+        "Usage: ants-platform datasets compare <name> <baseline-run> <runs...>",
+      );
+
+      return 2;
+    }
+
+    const comparison = await client.dataset.compareRuns({
+      datasetName: name,
+      runNames,
+      scoreNames: values.score,
+      lowerIsBetter: values["lower-is-better"],
+    });
+
+    output.stdout(
+      (values.csv
+        ? comparison.toCsv()
+        : comparison.toMarkdown({ includeItems: values.items })
+      ).trimEnd(),
+    );
+
+    return 0;
+  }
+
+  if (!name || !file || (command !== "import" && command !== "export")) {
+    output.stderr(
+      `Usage: ants-platform datasets <import|export> <name> <file> [options]\n\n${USAGE}`,
+    );
+
+    return 2;
+  }
+
+  const format = values.format ?? formatFromExtension(file);
+  if (format !== "csv" && format !== "jsonl") {
+    output.stderr(
+      `Invalid format '${format ?? extname(file)}', use 'csv' or 'jsonl'`,
+    );
+
+    return 2;
+  }
+
+  if (command === "export") {
+    const content = await client.dataset.export(name, {
+      format,
+      includeRuns: values.run ?? values["include-runs"],
+      includeScores: values["include-scores"],
+    });
+
+    await writeFile(file, content, "utf8");
+    output.stdout(`Exported dataset ${name} to ${file}`);
+
+    return 0;
+  }
+
+  const concurrency =
+    values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    output.stderr(`Invalid concurrency '${values.concurrency}'`);
+
+    return 2;
+  }
+
+  const result = await client.dataset.importItems({
+    datasetName: name,
+    content: await readFile(file, "utf8"),
+    format,
+    mapping: {
+      id: values["id-column"],
+      input: singleOrList(values["input-column"]),
+      expectedOutput: singleOrList(values["expected-output-column"]),
+      metadata: singleOrList(values["metadata-column"]),
+    },
+    concurrency,
+  });
+
+  for (const failure of result.failures) {
+    output.stderr(
+      `Row ${failure.row}${failure.id ? ` (${failure.id})` : ""}: ${failure.error}`,
+    );
+  }
+  output.stdout(
+    `Imported ${result.succeeded} of ${result.total} item(s) into dataset ${name}`,
+  );
+
+  return result.failures.length > 0 ? 1 : 0;
+}
+
+function formatFromExtension(file: string): DatasetFileFormat | undefined {
+  switch (extname(file).toLowerCase()) {
+    case ".csv":
+      return "csv";
+    case ".jsonl":
+    case ".ndjson":
+      return "jsonl";
+    default:
+      return undefined;
+  }
+}
+
+function singleOrList(columns?: string[]): string | string[] | undefined {
+  return columns && columns.length === 1 ? columns[0] : columns;
+}
+
+function printDiff(diff: PromptDiff, output: CliOutput): void {
+  switch (diff.status) {
+    case "new":
+      output.stdout(`new: ${diff.name} (${diff.path})`);
+      break;
+    case "remoteOnly":
+      output.stdout(
+        `remote only: ${diff.name} (version ${diff.remoteVersion}), run pull to create a local file`,
+      );
+      break;
+    default:
+      output.stdout(
+        `modified: ${diff.name} (${diff.path}, server version ${diff.remoteVersion})`,
+      );
+  }
+
+  for (const line of diff.lines) {
+    output.stdout(`    ${line}`);
+  }
+}
@@ -0,0 +1,26 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig([
+  {
+    entry: ["src/index.ts"],
+    format: ["cjs", "esm"],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    outDir: "dist",
+    outExtension: ({ format }) => ({
+      js: format === "cjs" ? ".cjs" : ".mjs",
+    }),
+  },
+  {
+    entry: ["src/cli.ts"],
+    format: ["esm"],
+    dts: false,
+    splitting: false,
+    sourcemap: true,
+    outDir: "dist",
+    banner: { js: "#!/usr/bin/env node" },
+    outExtension: () => ({ js: ".mjs" }),
+  },
+]);
@@ -1,14 +1,27 @@
 import {
   AntsPlatformAPIClient,
   ANTS_PLATFORM_SDK_VERSION,
+  CircuitBreakerOptions,
+  ExportBuffer,
+  FetcherMiddleware,
+  LogLevel,
+  LogTransport,
+  RateLimiterOptions,
   getGlobalLogger,
   getEnv,
 } from "@antsplatform/core";
 
 import { DatasetManager } from "./dataset/index.js";
-import { MediaManager } from "./media/index.js";
-import { PromptManager } from "./prompt/index.js";
-import { ScoreManager } from "./score/index.js";
+import { IngestionManager, IngestionOptions } from "./ingestion/index.js";
+import { MediaCacheOptions, MediaManager } from "./media/index.js";
+import { MetricsManager } from "./metrics/index.js";
+import { PromptManager, PromptCacheOptions } from "./prompt/index.js";
+import { QueryManager } from "./query/index.js";
+import {
+  ScoreDeliveryOptions,
+  ScoreManager,
+  ScoreValidationOptions,
+} from "./score/index.js";
 
 /**
  * Request body for updating an agent's display name.
@@ -71,6 +84,96 @@ export interface AntsPlatformClientParams {
    * Additional HTTP headers to include with API requests.
    */
   additionalHeaders?: Record<string, string>;
+
+  /**
+   * Client-side rate limit of API requests, including retries. Requests wait
+   * until they are within the limit.
+   */
+  rateLimit?: RateLimiterOptions;
+
+  /**
+   * Circuit breaker for API requests. After repeated failures of the API,
+   * requests fail immediately instead of waiting for timeouts, e.g. so that
+   * prompt fetching falls back to cached or fallback prompts right away.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Hooks around each API request attempt, including retries: modify
+   * requests before they are sent (e.g. per-request auth tokens or
+   * correlation IDs), observe or replace responses (e.g. to log latency or
+   * mock the API in tests), and recover from network errors.
+   *
+   * @example
+   * ```typescript
+   * const antsPlatform = new AntsPlatformClient({
+   *   middleware: [
+   *     {
+   *       onRequest: (request) => {
+   *         request.init.headers["X-Correlation-Id"] = getCorrelationId();
+   *       },
+   *       onResponse: ({ request, response, durationMs }) => {
+   *         metrics.record(request.url, response.status, durationMs);
+   *       },
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  middleware?: FetcherMiddleware[];
+
+  /**
+   * Custom fetch implementation for API requests, e.g. the fetch of undici
+   * with a proxy or keep-alive agent. Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Durable buffer for score events. Scores are persisted until the API acknowledges
+   * them, and undelivered scores are replayed when a client with the same buffer is created.
+   *
+   * Use `FileExportBuffer` from `@antsplatform/otel` in Node.js environments.
+   */
+  exportBuffer?: ExportBuffer;
+
+  /**
+   * Configuration of the prompt cache, e.g. a persistent store shared across
+   * cold starts and background refresh of cached prompts.
+   */
+  promptCache?: PromptCacheOptions;
+
+  /**
+   * Validation of scores against the score configs of the project. If set,
+   * invalid scores are thrown or reported instead of being rejected by the API
+   * after ingestion.
+   */
+  scoreValidation?: ScoreValidationOptions;
+
+  /**
+   * Delivery of scores to the API: retries of failed requests, the maximum
+   * queue size and what to drop when it is full, and callbacks with the
+   * outcome of each score.
+   */
+  scoreDelivery?: ScoreDeliveryOptions;
+
+  /**
+   * Delivery of traces and observations written with the ingestion manager:
+   * retries of failed requests, the maximum queue size and an error callback.
+   */
+  ingestion?: IngestionOptions;
+
+  /**
+   * Limits of the in-memory cache of media fetched when resolving media
+   * references.
+   */
+  mediaCache?: MediaCacheOptions;
+
+  /**
+   * Forwards SDK log records to Ants Platform as SDK log events via the
+   * ingestion API, by default those with level ERROR. The transport is added
+   * to the global logger and removed on shutdown.
+   */
+  forwardSdkLogs?: boolean | { level?: LogLevel };
 }
 
 /**
@@ -129,11 +232,28 @@ export class AntsPlatformClient {
    */
   public media: MediaManager;
 
+  /**
+   * Manager for writing traces and observations without OpenTelemetry.
+   */
+  public ingestion: IngestionManager;
+
+  /**
+   * Manager for querying traces, observations, sessions and scores with
+   * auto-paging query builders.
+   */
+  public query: QueryManager;
+
+  /**
+   * Manager for typed queries of aggregated metrics, e.g. cost per model.
+   */
+  public metrics: MetricsManager;
+
   private baseUrl: string;
   private projectId: string | null = null;
   private publicKey: string | undefined;
   private secretKey: string | undefined;
   private timeoutSeconds: number;
+  private sdkLogTransport: LogTransport | null = null;
 
   /**
    * @deprecated Use prompt.get instead
@@ -253,6 +373,10 @@ export class AntsPlatformClient {
       xAntsPlatformSdkName: "javascript",
       environment: "", // noop as baseUrl is set
       headers: params?.additionalHeaders,
+      rateLimit: params?.rateLimit,
+      circuitBreaker: params?.circuitBreaker,
+      middleware: params?.middleware,
+      fetch: params?.fetch,
     });
 
     logger.debug("Initialized AntsPlatformClient with params:", {
@@ -261,10 +385,37 @@ export class AntsPlatformClient {
       timeoutSeconds: this.timeoutSeconds,
     });
 
-    this.prompt = new PromptManager({ apiClient: this.api });
-    this.dataset = new DatasetManager({ apiClient: this.api });
-    this.score = new ScoreManager({ apiClient: this.api });
-    this.media = new MediaManager({ apiClient: this.api });
+    this.prompt = new PromptManager({
+      apiClient: this.api,
+      cache: params?.promptCache,
+    });
+    this.score = new ScoreManager({
+      apiClient: this.api,
+      exportBuffer: params?.exportBuffer,
+      validation: params?.scoreValidation,
+      delivery: params?.scoreDelivery,
+    });
+    this.dataset = new DatasetManager({
+      apiClient: this.api,
+      scoreManager: this.score,
+    });
+    this.media = new MediaManager({
+      apiClient: this.api,
+      cache: params?.mediaCache,
+    });
+    this.ingestion = new IngestionManager({
+      apiClient: this.api,
+      options: params?.ingestion,
+    });
+    this.query = new QueryManager({ apiClient: this.api });
+    this.metrics = new MetricsManager({ apiClient: this.api });
+
+    if (params?.forwardSdkLogs) {
+      this.sdkLogTransport = this.ingestion.createLogTransport(
+        params.forwardSdkLogs === true ? undefined : params.forwardSdkLogs,
+      );
+      logger.addTransport(this.sdkLogTransport);
+    }
 
     // Keep v3 compat by exposing old interface
     this.getPrompt = this.prompt.get.bind(this.prompt); // keep correct this context for cache access
@@ -282,16 +433,17 @@ export class AntsPlatformClient {
     this.getDatasetItem = this.api.datasetItems.get;
     this.createDatasetItem = this.api.datasetItems.create;
     this.fetchMedia = this.api.media.get;
-    this.resolveMediaReferences = this.media.resolveReferences;
+    // keep correct this context for cache access
+    this.resolveMediaReferences = this.media.resolveReferences.bind(this.media);
   }
 
   /**
-   * Flushes any pending score events to the Ants Platform API.
+   * Flushes any pending score and ingestion events to the Ants Platform API.
    *
-   * This method ensures all queued scores are sent immediately rather than
+   * This method ensures all queued events are sent immediately rather than
    * waiting for the automatic flush interval or batch size threshold.
    *
-   * @returns Promise that resolves when all pending scores have been sent
+   * @returns Promise that resolves when all pending events have been sent
    *
    * @example
    * ```typescript
@@ -300,7 +452,7 @@ export class AntsPlatformClient {
    * ```
    */
   public async flush() {
-    return this.score.flush();
+    await Promise.all([this.score.flush(), this.ingestion.flush()]);
   }
 
   /**
@@ -318,7 +470,12 @@ export class AntsPlatformClient {
    * ```
    */
   public async shutdown() {
-    return this.score.shutdown();
+    if (this.sdkLogTransport) {
+      getGlobalLogger().removeTransport(this.sdkLogTransport);
+      this.sdkLogTransport = null;
+    }
+
+    await Promise.all([this.score.shutdown(), this.ingestion.shutdown()]);
   }
 
   /**
@@ -0,0 +1,526 @@
+import {
+  AntsPlatformAPIClient,
+  DatasetRunItem,
+  DatasetRunWithItems,
+  GetScoresResponseData,
+  ScoreV1,
+} from "@antsplatform/core";
+
+import { serializeTabular } from "./tabular.js";
+import { fetchAllPages, mapWithConcurrency } from "./utils.js";
+
+const PAGE_SIZE = 100;
+const TRACE_CONCURRENCY = 5;
+
+type TraceScore = GetScoresResponseData | ScoreV1;
+
+/**
+ * Parameters of a dataset run comparison.
+ *
+ * @public
+ */
+export type DatasetRunComparisonParams = {
+  /** Name of the dataset the runs belong to */
+  datasetName: string;
+  /** Names of the runs to compare. The first run is the baseline */
+  runNames: string[];
+  /** Only compare scores with these names */
+  scoreNames?: string[];
+  /** Names of scores where a lower value is better, e.g. latency or cost */
+  lowerIsBetter?: string[];
+};
+
+/**
+ * Trace and scores of a dataset item in one run.
+ *
+ * @public
+ */
+export type DatasetRunItemScores = {
+  /** ID of the trace of the run item */
+  traceId: string;
+  /** Score values by name. Numeric scores with the same name are averaged */
+  scores: Record<string, number | string>;
+};
+
+/**
+ * Row of the per-item comparison table.
+ *
+ * @public
+ */
+export type DatasetRunComparisonItem = {
+  /** ID of the dataset item */
+  datasetItemId: string;
+  /** Scores per run name, undefined if the item is not part of the run */
+  runs: Record<string, DatasetRunItemScores | undefined>;
+};
+
+/**
+ * Statistics of a numeric score in one run.
+ *
+ * @public
+ */
+export type ScoreStatistics = {
+  /** Number of items with the score */
+  count: number;
+  /** Mean value */
+  mean: number;
+  /** Median value */
+  p50: number;
+  /** 95th percentile value */
+  p95: number;
+};
+
+/**
+ * Difference of a numeric score between a run and the baseline.
+ *
+ * @public
+ */
+export type ScoreDelta = {
+  /** Mean of the run minus mean of the baseline */
+  mean: number;
+  /** Median of the run minus median of the baseline */
+  p50: number;
+  /** 95th percentile of the run minus that of the baseline */
+  p95: number;
+  /** Items where the run scored better than the baseline */
+  wins: number;
+  /** Items where the run scored worse than the baseline */
+  losses: number;
+  /** Items where the run scored the same as the baseline */
+  ties: number;
+};
+
+/**
+ * Aggregate comparison of a numeric score across runs.
+ *
+ * @public
+ */
+export type DatasetRunScoreSummary = {
+  /** Name of the score */
+  name: string;
+  /** Statistics per run name, undefined if the run has no such score */
+  runs: Record<string, ScoreStatistics | undefined>;
+  /** Deltas to the baseline per non-baseline run name */
+  deltas: Record<string, ScoreDelta | undefined>;
+};
+
+/**
+ * Comparison of two or more runs of a dataset.
+ *
+ * Holds a per-item comparison table and aggregate deltas per score name, and
+ * renders them as Markdown, e.g. for pull request comments, or CSV.
+ *
+ * @public
+ */
+export class DatasetRunComparison {
+  /** Name of the dataset */
+  public readonly datasetName: string;
+  /** Names of the compared runs, starting with the baseline */
+  public readonly runNames: string[];
+  /** Per-item comparison table, in order of first appearance in the runs */
+  public readonly items: DatasetRunComparisonItem[];
+  /** Aggregate comparison per numeric score name */
+  public readonly scores: DatasetRunScoreSummary[];
+
+  /** @internal */
+  constructor(params: {
+    datasetName: string;
+    runNames: string[];
+    items: DatasetRunComparisonItem[];
+    lowerIsBetter?: string[];
+  }) {
+    this.datasetName = params.datasetName;
+    this.runNames = params.runNames;
+    this.items = params.items;
+    this.scores = summarizeScores(
+      params.runNames,
+      params.items,
+      new Set(params.lowerIsBetter),
+    );
+  }
+
+  /** Name of the baseline run */
+  get baseline(): string {
+    return this.runNames[0];
+  }
+
+  /**
+   * Renders the comparison as Markdown.
+   *
+   * @param options - Rendering options
+   * @param options.includeItems - Also render the per-item table (default: false)
+   * @returns Markdown with a summary table per score and run
+   */
+  toMarkdown(options?: { includeItems?: boolean }): string {
+    const lines = [
+      `### Dataset run comparison: ${this.datasetName}`,
+      "",
+      `Baseline: \`${this.baseline}\``,
+      "",
+      "| Score | Run | Items | Mean | P50 | P95 | Δ Mean | Δ P50 | Δ P95 | W / L / T |",
+      "| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | :---: |",
+    ];
+
+    for (const score of this.scores) {
+      for (const runName of this.runNames) {
+        const stats = score.runs[runName];
+        const delta = score.deltas[runName];
+
+        lines.push(
+          markdownRow([
+            score.name,
+            runName,
+            stats ? String(stats.count) : "",
+            formatNumber(stats?.mean),
+            formatNumber(stats?.p50),
+            formatNumber(stats?.p95),
+            formatNumber(delta?.mean, true),
+            formatNumber(delta?.p50, true),
+            formatNumber(delta?.p95, true),
+            delta ? `${delta.wins} / ${delta.losses} / ${delta.ties}` : "",
+          ]),
+        );
+      }
+    }
+
+    if (options?.includeItems) {
+      const columns = this.itemColumns();
+
+      lines.push(
+        "",
+        markdownRow(["Item", ...columns.map(({ header }) => header)]),
+        markdownRow(["---", ...columns.map(() => "---")]),
+        ...this.items.map((item) =>
+          markdownRow([
+            item.datasetItemId,
+            ...columns.map(({ value }) => {
+              const cell = value(item);
+
+              return typeof cell === "number"
+                ? formatNumber(cell)
+                : (cell ?? "");
+            }),
+          ]),
+        ),
+      );
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Renders the per-item comparison table as CSV.
+   *
+   * @returns CSV with one row per dataset item and one column per score and run
+   */
+  toCsv(): string {
+    const columns = [
+      ...this.runNames.map((runName) => ({
+        header: `traceId (${runName})`,
+        value: (item: DatasetRunComparisonItem) => item.runs[runName]?.traceId,
+      })),
+      ...this.itemColumns(),
+    ];
+
+    return serializeTabular(
+      this.items.map((item) => ({
+        datasetItemId: item.datasetItemId,
+        ...Object.fromEntries(
+          columns.map(({ header, value }) => [header, value(item)]),
+        ),
+      })),
+      "csv",
+    );
+  }
+
+  private itemColumns() {
+    const scoreNames = [
+      ...new Set(
+        this.items.flatMap((item) =>
+          Object.values(item.runs).flatMap((run) =>
+            Object.keys(run?.scores ?? {}),
+          ),
+        ),
+      ),
+    ].sort();
+
+    return scoreNames.flatMap((scoreName) =>
+      this.runNames.map((runName) => ({
+        header: `${scoreName} (${runName})`,
+        value: (item: DatasetRunComparisonItem) =>
+          item.runs[runName]?.scores[scoreName],
+      })),
+    );
+  }
+}
+
+/**
+ * Fetches the run items and scores of dataset runs and joins them into a
+ * comparison.
+ *
+ * @internal
+ */
+export class DatasetRunComparator {
+  private apiClient: AntsPlatformAPIClient;
+
+  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+    this.apiClient = params.apiClient;
+  }
+
+  async compare(
+    params: DatasetRunComparisonParams,
+  ): Promise<DatasetRunComparison> {
+    if (params.runNames.length < 2) {
+      throw new Error("At least two run names are required for a comparison");
+    }
+
+    const runs = await Promise.all(
+      params.runNames.map((runName) =>
+        this.apiClient.datasets.getRun(params.datasetName, runName),
+      ),
+    );
+    const runItems = await Promise.all(
+      runs.map((run) => this.fetchRunItems(run)),
+    );
+    const scoresByTraceId = await this.fetchScores(
+      runs,
+      new Set(runItems.flat().map((runItem) => runItem.traceId)),
+      params.scoreNames ? new Set(params.scoreNames) : undefined,
+    );
+
+    const items = new Map<string, DatasetRunComparisonItem>();
+    runItems.forEach((runItemsOfRun, runIndex) => {
+      const runName = params.runNames[runIndex];
+
+      for (const runItem of runItemsOfRun) {
+        const item = items.get(runItem.datasetItemId) ?? {
+          datasetItemId: runItem.datasetItemId,
+          runs: Object.fromEntries(
+            params.runNames.map((name) => [name, undefined]),
+          ),
+        };
+
+        item.runs[runName] = {
+          traceId: runItem.traceId,
+          scores: aggregateTraceScores(
+            scoresByTraceId.get(runItem.traceId) ?? [],
+          ),
+        };
+        items.set(runItem.datasetItemId, item);
+      }
+    });
+
+    return new DatasetRunComparison({
+      datasetName: params.datasetName,
+      runNames: params.runNames,
+      items: [...items.values()],
+      lowerIsBetter: params.lowerIsBetter,
+    });
+  }
+
+  private async fetchRunItems(
+    run: DatasetRunWithItems,
+  ): Promise<DatasetRunItem[]> {
+    return fetchAllPages((page) =>
+      this.apiClient.datasetRunItems.list({
+        datasetId: run.datasetId,
+        runName: run.name,
+        page,
+        limit: PAGE_SIZE,
+      }),
+    );
+  }
+
+  /**
+   * Scores cannot be filtered by trace. Scores with the given names are
+   * fetched by name since the oldest run and matched to the traces of the run
+   * items, otherwise the scores of each trace are fetched with the trace.
+   */
+  private async fetchScores(
+    runs: DatasetRunWithItems[],
+    traceIds: Set<string>,
+    scoreNames?: Set<string>,
+  ): Promise<Map<string, TraceScore[]>> {
+    const scoresByTraceId = new Map<string, TraceScore[]>();
+
+    if (!scoreNames) {
+      await mapWithConcurrency(
+        [...traceIds],
+        TRACE_CONCURRENCY,
+        async (traceId) => {
+          const trace = await this.apiClient.trace.get(traceId);
+          scoresByTraceId.set(traceId, trace.scores);
+        },
+      );
+
+      return scoresByTraceId;
+    }
+
+    const fromTimestamp = runs
+      .map((run) => run.createdAt)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+
+    for (const name of scoreNames) {
+      const scores = await fetchAllPages((page) =>
+        this.apiClient.scoreV2.get({
+          name,
+          fromTimestamp,
+          page,
+          limit: PAGE_SIZE,
+        }),
+      );
+
+      for (const score of scores) {
+        if (!score.traceId || !traceIds.has(score.traceId)) {
+          continue;
+        }
+
+        scoresByTraceId.set(score.traceId, [
+          ...(scoresByTraceId.get(score.traceId) ?? []),
+          score,
+        ]);
+      }
+    }
+
+    return scoresByTraceId;
+  }
+}
+
+function aggregateTraceScores(
+  scores: TraceScore[],
+): Record<string, number | string> {
+  const numeric: Record<string, number[]> = {};
+  const result: Record<string, number | string> = {};
+
+  for (const score of scores) {
+    if (score.dataType === "CATEGORICAL") {
+      result[score.name] = score.stringValue;
+    } else {
+      (numeric[score.name] ??= []).push(score.value);
+    }
+  }
+
+  for (const [name, values] of Object.entries(numeric)) {
+    result[name] = mean(values);
+  }
+
+  return result;
+}
+
+function summarizeScores(
+  runNames: string[],
+  items: DatasetRunComparisonItem[],
+  lowerIsBetter: Set<string>,
+): DatasetRunScoreSummary[] {
+  const numericValue = (
+    item: DatasetRunComparisonItem,
+    runName: string,
+    scoreName: string,
+  ) => {
+    const value = item.runs[runName]?.scores[scoreName];
+
+    return typeof value === "number" ? value : undefined;
+  };
+
+  const scoreNames = [
+    ...new Set(
+      items.flatMap((item) =>
+        Object.values(item.runs).flatMap((run) =>
+          Object.entries(run?.scores ?? {})
+            .filter(([, value]) => typeof value === "number")
+            .map(([name]) => name),
+        ),
+      ),
+    ),
+  ].sort();
+
+  const [baseline] = runNames;
+
+  return scoreNames.map((name) => {
+    const runs = Object.fromEntries(
+      runNames.map((runName) => [
+        runName,
+        computeStatistics(
+          items
+            .map((item) => numericValue(item, runName, name))
+            .filter((value): value is number => value !== undefined),
+        ),
+      ]),
+    );
+
+    const deltas = Object.fromEntries(
+      runNames.slice(1).map((runName) => {
+        const baselineStats = runs[baseline];
+        const runStats = runs[runName];
+        if (!baselineStats || !runStats) {
+          return [runName, undefined];
+        }
+
+        const delta: ScoreDelta = {
+          mean: runStats.mean - baselineStats.mean,
+          p50: runStats.p50 - baselineStats.p50,
+          p95: runStats.p95 - baselineStats.p95,
+          wins: 0,
+          losses: 0,
+          ties: 0,
+        };
+
+        for (const item of items) {
+          const baselineValue = numericValue(item, baseline, name);
+          const runValue = numericValue(item, runName, name);
+          if (baselineValue === undefined || runValue === undefined) {
+            continue;
+          }
+
+          const difference =
+            (runValue - baselineValue) * (lowerIsBetter.has(name) ? -1 : 1);
+          if (difference > 0) delta.wins++;
+          else if (difference < 0) delta.losses++;
+          else delta.ties++;
+        }
+
+        return [runName, delta];
+      }),
+    );
+
+    return { name, runs, deltas };
+  });
+}
+
+function computeStatistics(values: number[]): ScoreStatistics | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    count: values.length,
+    mean: mean(values),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Nearest-rank percentile of sorted values */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function formatNumber(value: number | undefined, signed = false): string {
+  if (value === undefined) {
+    return "";
+  }
+
+  const formatted = String(Number(value.toFixed(4)));
+
+  return signed && value > 0 ? `+${formatted}` : formatted;
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`;
+}
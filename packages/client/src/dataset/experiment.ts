@@ -0,0 +1,395 @@
+import {
+  AntsPlatformAPIClient,
+  DatasetItem,
+  ScoreDataType,
+  getGlobalLogger,
+} from "@antsplatform/core";
+import {
+  AntsPlatformSpan,
+  getAntsPlatformTracerProvider,
+  startActiveObservation,
+} from "@antsplatform/tracing";
+
+import type { ScoreManager } from "../score/index.js";
+
+import { mapWithConcurrency } from "./utils.js";
+
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * A score produced by an evaluator.
+ *
+ * @public
+ */
+export type Evaluation = {
+  /** Name of the score */
+  name: string;
+  /** Score value. Booleans are recorded as 1 or 0 */
+  value: number | string | boolean;
+  /** Optional explanation of the score */
+  comment?: string;
+  /** Data type of the score, inferred from the value if omitted */
+  dataType?: ScoreDataType;
+  /** Additional metadata of the score */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Context passed to the task of an experiment.
+ *
+ * @public
+ */
+export type ExperimentTaskContext = {
+  /** The observation tracing the task, nested observations are attached to it */
+  observation: AntsPlatformSpan;
+  /** Zero-based attempt number, greater than zero when retrying */
+  attempt: number;
+};
+
+/**
+ * Task executed for each dataset item, e.g. calling the application under test.
+ *
+ * @public
+ */
+export type ExperimentTask = (
+  item: DatasetItem,
+  context: ExperimentTaskContext,
+) => unknown | Promise<unknown>;
+
+/**
+ * Evaluator scoring the output of a single dataset item.
+ *
+ * @public
+ */
+export type ItemEvaluator = (params: {
+  /** The dataset item */
+  item: DatasetItem;
+  /** Input of the dataset item */
+  input: unknown;
+  /** Output returned by the task */
+  output: unknown;
+  /** Expected output of the dataset item */
+  expectedOutput: unknown;
+}) => Evaluation | Evaluation[] | Promise<Evaluation | Evaluation[]>;
+
+/**
+ * Evaluator scoring the experiment run as a whole, e.g. computing accuracy.
+ *
+ * @public
+ */
+export type RunEvaluator = (params: {
+  /** Results of all dataset items */
+  itemResults: ExperimentItemResult[];
+}) => Evaluation | Evaluation[] | Promise<Evaluation | Evaluation[]>;
+
+/**
+ * Parameters of an experiment run.
+ *
+ * @public
+ */
+export type ExperimentParams = {
+  /** Name of the dataset run, must be unique per dataset */
+  name: string;
+  /** Description of the dataset run */
+  description?: string;
+  /** Metadata of the dataset run */
+  metadata?: Record<string, unknown>;
+  /** Task executed for each dataset item */
+  task: ExperimentTask;
+  /** Evaluators scoring each dataset item */
+  evaluators?: ItemEvaluator[];
+  /** Evaluators scoring the whole run */
+  runEvaluators?: RunEvaluator[];
+  /**
+   * Maximum number of dataset items processed in parallel.
+   *
+   * @defaultValue 5
+   */
+  concurrency?: number;
+  /**
+   * Number of times a failing task is retried per dataset item.
+   *
+   * @defaultValue 0
+   */
+  maxRetries?: number;
+};
+
+/**
+ * Result of a single dataset item in an experiment.
+ *
+ * @public
+ */
+export type ExperimentItemResult = {
+  /** The dataset item */
+  item: DatasetItem;
+  /** Output returned by the task, undefined if the task failed */
+  output: unknown;
+  /** ID of the trace of the task */
+  traceId: string;
+  /** Scores produced by the item evaluators */
+  evaluations: Evaluation[];
+  /** Error thrown by the task after all retries, if any */
+  error?: unknown;
+  /** ID of the dataset run the item was linked to */
+  datasetRunId?: string;
+};
+
+/**
+ * Aggregate result of an experiment.
+ *
+ * @public
+ */
+export type ExperimentResult = {
+  /** Name of the dataset run */
+  runName: string;
+  /** ID of the dataset run, undefined if no item could be linked */
+  datasetRunId?: string;
+  /** Results per dataset item, in dataset order */
+  itemResults: ExperimentItemResult[];
+  /** Scores produced by the run evaluators */
+  runEvaluations: Evaluation[];
+  /** Summary statistics of the run */
+  summary: {
+    /** Number of dataset items */
+    totalItems: number;
+    /** Number of items whose task succeeded */
+    succeeded: number;
+    /** Number of items whose task failed after all retries */
+    failed: number;
+    /** Wall-clock duration of the run in milliseconds */
+    durationMs: number;
+    /** Mean value per score name across items, for numeric and boolean scores */
+    averageScores: Record<string, number>;
+  };
+};
+
+/**
+ * Runs experiments on datasets: executes a task per item inside a traced
+ * observation, links each trace to the dataset run, and records evaluator
+ * scores.
+ *
+ * @internal
+ */
+export class ExperimentRunner {
+  private apiClient: AntsPlatformAPIClient;
+  private scoreManager: ScoreManager;
+
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    scoreManager: ScoreManager;
+  }) {
+    this.apiClient = params.apiClient;
+    this.scoreManager = params.scoreManager;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("ExperimentRunner");
+  }
+
+  async run(
+    items: DatasetItem[],
+    params: ExperimentParams,
+  ): Promise<ExperimentResult> {
+    const startTime = Date.now();
+    const itemResults = await mapWithConcurrency(
+      items,
+      params.concurrency ?? DEFAULT_CONCURRENCY,
+      (item) => this.runItem(item, params),
+    );
+
+    const datasetRunId = itemResults.find(
+      (result) => result.datasetRunId,
+    )?.datasetRunId;
+
+    const runEvaluations: Evaluation[] = [];
+    for (const evaluator of params.runEvaluators ?? []) {
+      try {
+        runEvaluations.push(...toArray(await evaluator({ itemResults })));
+      } catch (err) {
+        this.logger.error(
+          `Run evaluator failed in experiment '${params.name}':`,
+          err,
+        );
+      }
+    }
+
+    if (datasetRunId) {
+      for (const evaluation of runEvaluations) {
+        this.scoreManager.create({ ...toScore(evaluation), datasetRunId });
+      }
+    } else if (runEvaluations.length > 0) {
+      this.logger.warn(
+        `No dataset run was created for experiment '${params.name}', run evaluations are not recorded.`,
+      );
+    }
+
+    // The global API tracer provider does not expose forceFlush, SDK providers do
+    const tracerProvider = getAntsPlatformTracerProvider() as {
+      forceFlush?: () => Promise<void>;
+    };
+
+    await Promise.all([
+      this.scoreManager.flush(),
+      tracerProvider.forceFlush?.().catch((err: unknown) => {
+        this.logger.warn("Failed to flush experiment traces:", err);
+      }),
+    ]);
+
+    const failed = itemResults.filter((result) => result.error).length;
+
+    return {
+      runName: params.name,
+      datasetRunId,
+      itemResults,
+      runEvaluations,
+      summary: {
+        totalItems: items.length,
+        succeeded: items.length - failed,
+        failed,
+        durationMs: Date.now() - startTime,
+        averageScores: computeAverageScores(itemResults),
+      },
+    };
+  }
+
+  private async runItem(
+    item: DatasetItem,
+    params: ExperimentParams,
+  ): Promise<ExperimentItemResult> {
+    const maxRetries = params.maxRetries ?? 0;
+
+    const { output, error, traceId } = await startActiveObservation(
+      params.name,
+      async (observation) => {
+        observation.update({
+          input: item.input,
+          metadata: {
+            datasetId: item.datasetId,
+            datasetItemId: item.id,
+            experimentName: params.name,
+          },
+        });
+
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+          try {
+            const output = await params.task(item, { observation, attempt });
+            observation.update({ output });
+
+            return { output, traceId: observation.traceId };
+          } catch (err) {
+            lastError = err;
+            this.logger.warn(
+              `Task failed for dataset item '${item.id}' (attempt ${attempt + 1} of ${maxRetries + 1}):`,
+              err,
+            );
+          }
+        }
+
+        observation.update({
+          level: "ERROR",
+          statusMessage: String(lastError),
+        });
+
+        return {
+          output: undefined,
+          error: lastError,
+          traceId: observation.traceId,
+        };
+      },
+    );
+
+    let datasetRunId: string | undefined;
+    try {
+      const runItem = await this.apiClient.datasetRunItems.create({
+        runName: params.name,
+        runDescription: params.description,
+        metadata: params.metadata,
+        datasetItemId: item.id,
+        traceId,
+      });
+      datasetRunId = runItem.datasetRunId;
+    } catch (err) {
+      this.logger.error(
+        `Failed to link dataset item '${item.id}' to run '${params.name}':`,
+        err,
+      );
+    }
+
+    const evaluations: Evaluation[] = [];
+    if (!error) {
+      for (const evaluator of params.evaluators ?? []) {
+        try {
+          evaluations.push(
+            ...toArray(
+              await evaluator({
+                item,
+                input: item.input,
+                output,
+                expectedOutput: item.expectedOutput,
+              }),
+            ),
+          );
+        } catch (err) {
+          this.logger.error(
+            `Evaluator failed for dataset item '${item.id}':`,
+            err,
+          );
+        }
+      }
+    }
+
+    for (const evaluation of evaluations) {
+      this.scoreManager.create({
+        ...toScore(evaluation),
+        traceId,
+        datasetRunId,
+      });
+    }
+
+    return { item, output, traceId, evaluations, error, datasetRunId };
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function toScore(evaluation: Evaluation) {
+  const { value } = evaluation;
+
+  return {
+    name: evaluation.name,
+    value: typeof value === "boolean" ? Number(value) : value,
+    comment: evaluation.comment,
+    metadata: evaluation.metadata,
+    dataType:
+      evaluation.dataType ??
+      (typeof value === "boolean"
+        ? ScoreDataType.Boolean
+        : typeof value === "number"
+          ? ScoreDataType.Numeric
+          : ScoreDataType.Categorical),
+  };
+}
+
+function computeAverageScores(
+  itemResults: ExperimentItemResult[],
+): Record<string, number> {
+  const totals: Record<string, { sum: number; count: number }> = {};
+
+  for (const { evaluations } of itemResults) {
+    for (const { name, value } of evaluations) {
+      if (typeof value === "string") continue;
+
+      totals[name] ??= { sum: 0, count: 0 };
+      totals[name].sum += Number(value);
+      totals[name].count++;
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([name, { sum, count }]) => [name, sum / count]),
+  );
+}
@@ -6,6 +6,54 @@ import {
 } from "@antsplatform/core";
 import { Span } from "@opentelemetry/api";
 
+import type { ScoreManager } from "../score/index.js";
+
+import {
+  DatasetRunComparator,
+  DatasetRunComparison,
+  DatasetRunComparisonParams,
+} from "./comparison.js";
+import {
+  ExperimentParams,
+  ExperimentResult,
+  ExperimentRunner,
+} from "./experiment.js";
+import {
+  DatasetExportParams,
+  DatasetImportParams,
+  DatasetImportResult,
+  DatasetTransfer,
+} from "./transfer.js";
+
+export { DatasetRunComparison } from "./comparison.js";
+export type {
+  DatasetRunComparisonItem,
+  DatasetRunComparisonParams,
+  DatasetRunItemScores,
+  DatasetRunScoreSummary,
+  ScoreDelta,
+  ScoreStatistics,
+} from "./comparison.js";
+export type {
+  Evaluation,
+  ExperimentItemResult,
+  ExperimentParams,
+  ExperimentResult,
+  ExperimentTask,
+  ExperimentTaskContext,
+  ItemEvaluator,
+  RunEvaluator,
+} from "./experiment.js";
+export type { DatasetFileFormat } from "./tabular.js";
+export type {
+  DatasetColumnMapping,
+  DatasetExportParams,
+  DatasetImportFailure,
+  DatasetImportParams,
+  DatasetImportProgress,
+  DatasetImportResult,
+} from "./transfer.js";
+
 /**
  * Function type for linking dataset items to OpenTelemetry spans.
  * This allows dataset items to be associated with specific traces for experiment tracking.
@@ -28,6 +76,18 @@ export type LinkDatasetItemFunction = (
   },
 ) => Promise<DatasetRunItem>;
 
+/**
+ * Function type for running an experiment on all items of a dataset.
+ *
+ * @param params - The experiment parameters
+ * @returns Promise that resolves to the aggregate result of the experiment
+ *
+ * @public
+ */
+export type RunExperimentFunction = (
+  params: ExperimentParams,
+) => Promise<ExperimentResult>;
+
 /**
  * Manager for dataset operations in AntsPlatform.
  *
@@ -38,15 +98,24 @@ export type LinkDatasetItemFunction = (
  */
 export class DatasetManager {
   private apiClient: AntsPlatformAPIClient;
+  private experimentRunner: ExperimentRunner;
+  private transfer: DatasetTransfer;
+  private comparator: DatasetRunComparator;
 
   /**
    * Creates a new DatasetManager instance.
    *
-   * @param params - Configuration object containing the API client
+   * @param params - Configuration object containing the API client and the score manager for experiment scores
    * @internal
    */
-  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    scoreManager: ScoreManager;
+  }) {
     this.apiClient = params.apiClient;
+    this.experimentRunner = new ExperimentRunner(params);
+    this.transfer = new DatasetTransfer(params);
+    this.comparator = new DatasetRunComparator(params);
   }
 
   /**
@@ -76,6 +145,21 @@ export class DatasetManager {
    *     { description: "Testing new model" }
    *   );
    * }
+   *
+   * // Or run an experiment on all items with evaluators
+   * const result = await dataset.runExperiment({
+   *   name: "experiment-run-2",
+   *   task: async (item) => await processItem(item.input),
+   *   evaluators: [
+   *     ({ output, expectedOutput }) => ({
+   *       name: "exact-match",
+   *       value: output === expectedOutput,
+   *     }),
+   *   ],
+   *   concurrency: 10,
+   * });
+   *
+   * console.log(result.summary.averageScores["exact-match"]);
    * ```
    */
   async get(
@@ -86,6 +170,7 @@ export class DatasetManager {
   ): Promise<
     Dataset & {
       items: (DatasetItem & { link: LinkDatasetItemFunction })[];
+      runExperiment: RunExperimentFunction;
     }
   > {
     const dataset = await this.apiClient.datasets.get(name);
@@ -115,11 +200,107 @@ export class DatasetManager {
         ...item,
         link: this.createDatasetItemLinkFunction(item),
       })),
+      runExperiment: (params: ExperimentParams) =>
+        this.experimentRunner.run(items, params),
     };
 
     return returnDataset;
   }
 
+  /**
+   * Imports dataset items from the content of a CSV or JSONL file.
+   *
+   * Each row becomes a dataset item. Columns are mapped to `input`,
+   * `expectedOutput` and `metadata` via the column mapping. Rows with an id
+   * are upserted, so importing the same file twice does not duplicate items.
+   * Rows are imported independently: failing rows are reported in the result
+   * instead of aborting the import.
+   *
+   * @param params - The import parameters
+   * @returns Promise that resolves to the import result with per-row failures
+   *
+   * @example
+   * ```typescript
+   * const result = await antsPlatform.dataset.importItems({
+   *   datasetName: "my-dataset",
+   *   content: await readFile("labels.csv", "utf8"),
+   *   format: "csv",
+   *   mapping: {
+   *     id: "ticket_id",
+   *     input: ["subject", "body"],
+   *     expectedOutput: "category",
+   *   },
+   *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`),
+   * });
+   *
+   * for (const failure of result.failures) {
+   *   console.error(`Row ${failure.row}: ${failure.error}`);
+   * }
+   * ```
+   */
+  async importItems(params: DatasetImportParams): Promise<DatasetImportResult> {
+    return this.transfer.importItems(params);
+  }
+
+  /**
+   * Exports all items of a dataset as the content of a CSV or JSONL file.
+   *
+   * Optionally includes the run items of each dataset item along with the
+   * scores of their traces in a `runs` column.
+   *
+   * @param name - The name of the dataset to export
+   * @param params - The export parameters
+   * @returns Promise that resolves to the file content
+   *
+   * @example
+   * ```typescript
+   * const jsonl = await antsPlatform.dataset.export("my-dataset", {
+   *   format: "jsonl",
+   *   includeRuns: ["experiment-run-1"],
+   *   includeScores: true,
+   * });
+   *
+   * await writeFile("my-dataset.jsonl", jsonl);
+   * ```
+   */
+  async export(name: string, params: DatasetExportParams): Promise<string> {
+    const dataset = await this.get(name);
+
+    return this.transfer.exportItems(dataset, params);
+  }
+
+  /**
+   * Compares two or more runs of a dataset.
+   *
+   * Pages through the run items and scores of each run and joins them into a
+   * per-item comparison table. Numeric and boolean scores are aggregated per
+   * run (mean, p50, p95) and compared to the first run, the baseline, with
+   * deltas and win/loss/tie counts.
+   *
+   * @param params - The comparison parameters
+   * @returns Promise that resolves to the comparison
+   *
+   * @example
+   * ```typescript
+   * const comparison = await antsPlatform.dataset.compareRuns({
+   *   datasetName: "my-dataset",
+   *   runNames: ["main", "feature-branch"],
+   *   lowerIsBetter: ["latency"],
+   * });
+   *
+   * const accuracy = comparison.scores.find((s) => s.name === "accuracy");
+   * console.log(accuracy?.deltas["feature-branch"]?.mean);
+   *
+   * // Post as a pull request comment
+   * await postComment(comparison.toMarkdown());
+   * ```
+   */
+  async compareRuns(
+    params: DatasetRunComparisonParams,
+  ): Promise<DatasetRunComparison> {
+    return this.comparator.compare(params);
+  }
+
   /**
    * Creates a link function for a specific dataset item.
    *
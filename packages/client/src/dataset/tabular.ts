@@ -0,0 +1,198 @@
+/**
+ * Supported file formats for dataset import and export.
+ *
+ * - `csv`: Comma-separated values with a header row
+ * - `jsonl`: One JSON object per line
+ *
+ * @public
+ */
+export type DatasetFileFormat = "csv" | "jsonl";
+
+/** A row of a tabular file, keyed by column name */
+export type TabularRow = Record<string, unknown>;
+
+/**
+ * Parses the content of a CSV or JSONL file into rows.
+ *
+ * CSV cells are returned as strings, except for cells holding a JSON object
+ * or array, which are parsed so that exported datasets can be re-imported.
+ * Cells holding a JSON string literal of such a value, as written by
+ * {@link serializeTabular} for strings, are returned as that string.
+ *
+ * @internal
+ */
+export function parseTabular(
+  content: string,
+  format: DatasetFileFormat,
+): TabularRow[] {
+  return format === "csv" ? parseCsv(content) : parseJsonl(content);
+}
+
+/**
+ * Serializes rows into the content of a CSV or JSONL file.
+ *
+ * CSV columns are the union of all row keys in order of first occurrence.
+ * Non-string values are written as JSON. Strings that look like a JSON object
+ * or array are written as JSON string literals, so that they are not parsed on
+ * import. CSV does not preserve other types: numbers and booleans are imported
+ * as strings, use JSONL to keep them.
+ *
+ * @internal
+ */
+export function serializeTabular(
+  rows: TabularRow[],
+  format: DatasetFileFormat,
+): string {
+  return format === "csv" ? serializeCsv(rows) : serializeJsonl(rows);
+}
+
+function parseJsonl(content: string): TabularRow[] {
+  return content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      let row: unknown;
+      try {
+        row = JSON.parse(line);
+      } catch (err) {
+        throw new Error(
+          `Invalid JSON on line ${lineNumber}: ${(err as Error).message}`,
+        );
+      }
+
+      if (typeof row !== "object" || row === null || Array.isArray(row)) {
+        throw new Error(`Line ${lineNumber} is not a JSON object`);
+      }
+
+      return row as TabularRow;
+    });
+}
+
+function serializeJsonl(rows: TabularRow[]): string {
+  return rows.map((row) => JSON.stringify(row) + "\n").join("");
+}
+
+function parseCsv(content: string): TabularRow[] {
+  const records = parseCsvRecords(content.replace(/^\uFEFF/, ""));
+  if (records.length === 0) {
+    return [];
+  }
+
+  const [header, ...rows] = records;
+
+  return rows
+    .filter((record) => record.some((cell) => cell !== ""))
+    .map((record) =>
+      Object.fromEntries(
+        header.map((column, index) => [
+          column,
+          parseCsvCell(record[index] ?? ""),
+        ]),
+      ),
+    );
+}
+
+function parseCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function looksLikeJsonStructure(value: string): boolean {
+  const trimmed = value.trim();
+
+  return (
+    (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
+    (trimmed.startsWith("[") && trimmed.endsWith("]"))
+  );
+}
+
+function parseCsvCell(cell: string): unknown {
+  const trimmed = cell.trim();
+  const isStringLiteral =
+    trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"');
+
+  if (!looksLikeJsonStructure(trimmed) && !isStringLiteral) {
+    return cell;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return cell;
+  }
+
+  // Only string literals written for strings that look like JSON are decoded
+  if (isStringLiteral) {
+    return typeof parsed === "string" && looksLikeJsonStructure(parsed)
+      ? parsed
+      : cell;
+  }
+
+  return parsed;
+}
+
+function serializeCsv(rows: TabularRow[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((record) => record.map(formatCsvCell).join(",") + "\n")
+    .join("");
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  const cell =
+    typeof value !== "string" || looksLikeJsonStructure(value)
+      ? JSON.stringify(value)
+      : value;
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,348 @@
+import {
+  AntsPlatformAPIClient,
+  Dataset,
+  DatasetItem,
+  DatasetRun,
+  DatasetRunItem,
+  getGlobalLogger,
+} from "@antsplatform/core";
+
+import {
+  DatasetFileFormat,
+  TabularRow,
+  parseTabular,
+  serializeTabular,
+} from "./tabular.js";
+import { fetchAllPages, mapWithConcurrency } from "./utils.js";
+
+const DEFAULT_CONCURRENCY = 5;
+const PAGE_SIZE = 50;
+
+/**
+ * Maps columns of an imported file to the fields of dataset items.
+ *
+ * A single column name uses the value of that column. A list of column names
+ * combines the values of those columns into an object keyed by column name.
+ *
+ * @public
+ */
+export type DatasetColumnMapping = {
+  /**
+   * Column holding a user-provided item id. Items with an id are upserted, so
+   * re-importing the same file updates the items instead of duplicating them.
+   *
+   * @defaultValue "id"
+   */
+  id?: string;
+  /** @defaultValue "input" */
+  input?: string | string[];
+  /** @defaultValue "expectedOutput" */
+  expectedOutput?: string | string[];
+  /** @defaultValue "metadata" */
+  metadata?: string | string[];
+};
+
+/**
+ * Progress of a running dataset import.
+ *
+ * @public
+ */
+export type DatasetImportProgress = {
+  /** Number of rows processed so far */
+  processed: number;
+  /** Total number of rows in the file */
+  total: number;
+  /** Number of rows imported successfully so far */
+  succeeded: number;
+  /** Number of rows that failed so far */
+  failed: number;
+};
+
+/**
+ * Parameters of a dataset import.
+ *
+ * @public
+ */
+export type DatasetImportParams = {
+  /** Name of the existing dataset to import into */
+  datasetName: string;
+  /** Content of the CSV or JSONL file */
+  content: string;
+  /** Format of the content */
+  format: DatasetFileFormat;
+  /** Mapping of columns to dataset item fields */
+  mapping?: DatasetColumnMapping;
+  /**
+   * Maximum number of items created in parallel.
+   *
+   * @defaultValue 5
+   */
+  concurrency?: number;
+  /** Called after each processed row */
+  onProgress?: (progress: DatasetImportProgress) => void;
+};
+
+/**
+ * A row that could not be imported.
+ *
+ * @public
+ */
+export type DatasetImportFailure = {
+  /** One-based index of the data row in the file, excluding the CSV header */
+  row: number;
+  /** Item id of the row, if mapped */
+  id?: string;
+  /** Reason of the failure */
+  error: string;
+};
+
+/**
+ * Result of a dataset import. Rows fail independently, so an import can
+ * partially succeed.
+ *
+ * @public
+ */
+export type DatasetImportResult = {
+  /** Total number of rows in the file */
+  total: number;
+  /** Number of rows imported successfully */
+  succeeded: number;
+  /** Rows that could not be imported */
+  failures: DatasetImportFailure[];
+};
+
+/**
+ * Parameters of a dataset export.
+ *
+ * @public
+ */
+export type DatasetExportParams = {
+  /** Format of the exported content */
+  format: DatasetFileFormat;
+  /**
+   * Include the run items of the dataset per item, either of all runs or of
+   * the runs with the given names.
+   *
+   * @defaultValue false
+   */
+  includeRuns?: boolean | string[];
+  /**
+   * Include the scores of the traces of each run item. Requires one request
+   * per run item.
+   *
+   * @defaultValue false
+   */
+  includeScores?: boolean;
+};
+
+/**
+ * Imports dataset items from and exports them to tabular files.
+ *
+ * @internal
+ */
+export class DatasetTransfer {
+  private apiClient: AntsPlatformAPIClient;
+
+  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+    this.apiClient = params.apiClient;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("DatasetTransfer");
+  }
+
+  async importItems(params: DatasetImportParams): Promise<DatasetImportResult> {
+    const rows = parseTabular(params.content, params.format);
+    const mapping = params.mapping ?? {};
+    const idColumn = mapping.id ?? "id";
+
+    const failures: DatasetImportFailure[] = [];
+    const seenIds = new Set<string>();
+    let processed = 0;
+
+    const reportProgress = () => {
+      processed++;
+      params.onProgress?.({
+        processed,
+        total: rows.length,
+        succeeded: processed - failures.length,
+        failed: failures.length,
+      });
+    };
+
+    await mapWithConcurrency(
+      rows,
+      params.concurrency ?? DEFAULT_CONCURRENCY,
+      async (row, index) => {
+        const id = toOptionalString(row[idColumn]);
+
+        try {
+          if (id !== undefined) {
+            if (seenIds.has(id)) {
+              throw new Error(`Duplicate item id '${id}'`);
+            }
+            seenIds.add(id);
+          }
+
+          const input = pick(row, mapping.input ?? "input");
+          if (input === undefined) {
+            throw new Error(
+              `Missing input in column(s) '${[mapping.input ?? "input"].flat().join(", ")}'`,
+            );
+          }
+
+          await this.apiClient.datasetItems.create({
+            datasetName: params.datasetName,
+            id,
+            input,
+            expectedOutput: pick(
+              row,
+              mapping.expectedOutput ?? "expectedOutput",
+            ),
+            metadata: pick(row, mapping.metadata ?? "metadata"),
+          });
+        } catch (err) {
+          failures.push({
+            row: index + 1,
+            id,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+
+        reportProgress();
+      },
+    );
+
+    if (failures.length > 0) {
+      this.logger.warn(
+        `Failed to import ${failures.length} of ${rows.length} row(s) into dataset '${params.datasetName}'`,
+      );
+    }
+
+    return {
+      total: rows.length,
+      succeeded: rows.length - failures.length,
+      failures: failures.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  async exportItems(
+    dataset: Dataset & { items: DatasetItem[] },
+    params: DatasetExportParams,
+  ): Promise<string> {
+    const runItemsByItemId = params.includeRuns
+      ? await this.fetchRunItems(dataset, params)
+      : undefined;
+
+    const rows: TabularRow[] = dataset.items.map((item) => {
+      const row: TabularRow = {
+        id: item.id,
+        status: item.status,
+        input: item.input,
+        expectedOutput: item.expectedOutput,
+        metadata: item.metadata,
+        sourceTraceId: item.sourceTraceId,
+        sourceObservationId: item.sourceObservationId,
+      };
+
+      if (runItemsByItemId) {
+        row.runs = runItemsByItemId.get(item.id) ?? [];
+      }
+
+      return row;
+    });
+
+    return serializeTabular(rows, params.format);
+  }
+
+  private async fetchRunItems(
+    dataset: Dataset,
+    params: DatasetExportParams,
+  ): Promise<Map<string, TabularRow[]>> {
+    const runs = await fetchAllPages<DatasetRun>((page) =>
+      this.apiClient.datasets.getRuns(dataset.name, { page, limit: PAGE_SIZE }),
+    );
+    const runNames = Array.isArray(params.includeRuns)
+      ? params.includeRuns
+      : runs.map((run) => run.name);
+
+    const runItems: DatasetRunItem[] = [];
+    for (const runName of runNames) {
+      runItems.push(
+        ...(await fetchAllPages<DatasetRunItem>((page) =>
+          this.apiClient.datasetRunItems.list({
+            datasetId: dataset.id,
+            runName,
+            page,
+            limit: PAGE_SIZE,
+          }),
+        )),
+      );
+    }
+
+    const exportedRunItems = await mapWithConcurrency(
+      runItems,
+      DEFAULT_CONCURRENCY,
+      async (runItem) => {
+        const exported: TabularRow = {
+          runName: runItem.datasetRunName,
+          traceId: runItem.traceId,
+          observationId: runItem.observationId,
+        };
+
+        if (params.includeScores) {
+          exported.scores = await this.fetchScores(runItem.traceId);
+        }
+
+        return { datasetItemId: runItem.datasetItemId, exported };
+      },
+    );
+
+    const runItemsByItemId = new Map<string, TabularRow[]>();
+    for (const { datasetItemId, exported } of exportedRunItems) {
+      runItemsByItemId.set(datasetItemId, [
+        ...(runItemsByItemId.get(datasetItemId) ?? []),
+        exported,
+      ]);
+    }
+
+    return runItemsByItemId;
+  }
+
+  private async fetchScores(traceId: string): Promise<Record<string, unknown>> {
+    try {
+      const trace = await this.apiClient.trace.get(traceId);
+
+      return Object.fromEntries(
+        trace.scores.map((score) => [
+          score.name,
+          score.dataType === "CATEGORICAL" ? score.stringValue : score.value,
+        ]),
+      );
+    } catch (err) {
+      this.logger.warn(`Failed to fetch scores of trace '${traceId}':`, err);
+
+      return {};
+    }
+  }
+}
+
+function pick(row: TabularRow, columns: string | string[]): unknown {
+  if (Array.isArray(columns)) {
+    const entries = columns
+      .map((column) => [column, row[column]] as const)
+      .filter(([, value]) => !isEmpty(value));
+
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return isEmpty(row[columns]) ? undefined : row[columns];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return isEmpty(value) ? undefined : String(value);
+}
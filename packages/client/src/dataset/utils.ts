@@ -0,0 +1,56 @@
+/**
+ * Maps items with an async function, running at most `concurrency` calls at a time.
+ *
+ * @returns The results in the order of the input items
+ *
+ * @internal
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(Math.max(1, concurrency), items.length) },
+      worker,
+    ),
+  );
+
+  return results;
+}
+
+/**
+ * Fetches all pages of a paginated API endpoint.
+ *
+ * @param fetchPage - Fetches the page with the given one-based page number
+ * @returns The items of all pages
+ *
+ * @internal
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (
+    page: number,
+  ) => Promise<{ data: T[]; meta: { totalPages: number } }>,
+): Promise<T[]> {
+  const results: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await fetchPage(page);
+    results.push(...response.data);
+
+    if (response.meta.totalPages <= page) {
+      return results;
+    }
+  }
+}
@@ -3,3 +3,6 @@ export * from "./prompt/index.js";
 export * from "./score/index.js";
 export * from "./dataset/index.js";
 export * from "./media/index.js";
+export * from "./ingestion/index.js";
+export * from "./query/index.js";
+export * from "./metrics/index.js";
@@ -0,0 +1,373 @@
+import {
+  AntsPlatformAPIClient,
+  CreateEventBody,
+  CreateGenerationBody,
+  CreateSpanBody,
+  IngestionEvent,
+  LogLevel,
+  LogTransport,
+  SdkLogBody,
+  TraceBody,
+  UpdateGenerationBody,
+  UpdateSpanBody,
+  generateUUID,
+  getEnv,
+  getGlobalLogger,
+} from "@antsplatform/core";
+
+import { ScoreDeliveryOptions } from "../score/scoreDelivery.js";
+
+import { IngestionQueue } from "./ingestionQueue.js";
+
+const MAX_QUEUE_SIZE = 100_000; // prevent memory leaks
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_RETRY_DELAY_MS = 1_000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Options for delivering ingestion events to the API.
+ *
+ * @public
+ */
+export type IngestionOptions = Pick<
+  ScoreDeliveryOptions,
+  "maxRetries" | "initialRetryDelayMs" | "maxRetryDelayMs" | "maxQueueSize"
+> & {
+  /** Called for each event that will not be delivered */
+  onError?: (error: IngestionEventError) => void;
+};
+
+/**
+ * Error describing why an ingestion event was not delivered.
+ *
+ * @public
+ */
+export class IngestionEventError extends Error {
+  /** The event that was not delivered */
+  public readonly event: IngestionEvent;
+  /** HTTP status of the last failed attempt, if any */
+  public readonly status?: number;
+
+  constructor(params: {
+    event: IngestionEvent;
+    message: string;
+    status?: number;
+  }) {
+    super(
+      `Ingestion event '${params.event.type}' (${params.event.id}) was not delivered: ${params.message}`,
+    );
+
+    this.name = "IngestionEventError";
+    this.event = params.event;
+    this.status = params.status;
+  }
+}
+
+/**
+ * Manager for writing traces and observations through the ingestion API.
+ *
+ * Use it where OpenTelemetry is unavailable or unwanted, e.g. in edge
+ * workers, browser extensions or scripts backfilling historical logs. Events
+ * are queued and sent in batches like scores: when the queue reaches the
+ * flush threshold or after the flush interval expires. Batches are sent one
+ * after another, so the events of a trace arrive in the order they were
+ * created. Failed requests and events with retryable errors are retried with
+ * exponential backoff.
+ *
+ * Timestamps are ISO 8601 strings and default to the current time, so
+ * historical data can be ingested by setting them explicitly.
+ *
+ * @example
+ * ```typescript
+ * const traceId = antsPlatform.ingestion.createTrace({
+ *   name: "support-ticket",
+ *   timestamp: "2026-01-15T09:30:00.000Z",
+ *   input: { question },
+ * });
+ *
+ * const generationId = antsPlatform.ingestion.createGeneration({
+ *   traceId,
+ *   name: "answer",
+ *   model: "gpt-4o",
+ *   startTime: "2026-01-15T09:30:00.100Z",
+ *   input: messages,
+ * });
+ *
+ * antsPlatform.ingestion.updateGeneration({
+ *   id: generationId,
+ *   traceId,
+ *   endTime: "2026-01-15T09:30:02.400Z",
+ *   output: answer,
+ *   usageDetails: { input: 120, output: 48 },
+ * });
+ *
+ * await antsPlatform.ingestion.flush();
+ * ```
+ *
+ * @public
+ */
+export class IngestionManager {
+  private queue: IngestionQueue;
+  private options: IngestionOptions &
+    Required<
+      Pick<
+        IngestionOptions,
+        | "maxRetries"
+        | "initialRetryDelayMs"
+        | "maxRetryDelayMs"
+        | "maxQueueSize"
+      >
+    >;
+
+  /**
+   * Creates a new IngestionManager instance.
+   *
+   * @param params - Configuration object containing the API client and optional delivery options
+   * @internal
+   */
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    options?: IngestionOptions;
+  }) {
+    this.options = {
+      ...params.options,
+      maxRetries: params.options?.maxRetries ?? DEFAULT_MAX_RETRIES,
+      initialRetryDelayMs:
+        params.options?.initialRetryDelayMs ?? DEFAULT_INITIAL_RETRY_DELAY_MS,
+      maxRetryDelayMs:
+        params.options?.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+      maxQueueSize: params.options?.maxQueueSize ?? MAX_QUEUE_SIZE,
+    };
+    this.queue = new IngestionQueue({
+      apiClient: params.apiClient,
+      component: "IngestionManager",
+      eventName: "ingestion",
+      maxRetries: this.options.maxRetries,
+      initialRetryDelayMs: this.options.initialRetryDelayMs,
+      maxRetryDelayMs: this.options.maxRetryDelayMs,
+      onFailed: (event, failure) =>
+        this.reportError({
+          event,
+          message: failure.message,
+          status: failure.status,
+        }),
+    });
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("IngestionManager");
+  }
+
+  /**
+   * Creates a trace, or updates the trace if one with the given id exists.
+   *
+   * @param body - The trace data
+   * @returns The id of the trace
+   */
+  public createTrace(body: TraceBody): string {
+    const id = body.id ?? generateUUID();
+
+    this.enqueue("trace-create", {
+      ...body,
+      id,
+      timestamp: body.timestamp ?? new Date().toISOString(),
+      environment: body.environment ?? this.environment,
+    });
+
+    return id;
+  }
+
+  /**
+   * Creates a span. Pass the returned id to `updateSpan` to end it later.
+   *
+   * @param body - The span data
+   * @returns The id of the span
+   */
+  public createSpan(body: CreateSpanBody): string {
+    const id = body.id ?? generateUUID();
+
+    this.enqueue("span-create", this.withObservationDefaults({ ...body, id }));
+
+    return id;
+  }
+
+  /**
+   * Updates a span, e.g. to set its end time and output.
+   *
+   * @param body - The span data, including the id of the span
+   */
+  public updateSpan(body: UpdateSpanBody): void {
+    this.enqueue("span-update", body);
+  }
+
+  /**
+   * Creates a generation, i.e. an observation of a model call.
+   *
+   * @param body - The generation data
+   * @returns The id of the generation
+   */
+  public createGeneration(body: CreateGenerationBody): string {
+    const id = body.id ?? generateUUID();
+
+    this.enqueue(
+      "generation-create",
+      this.withObservationDefaults({ ...body, id }),
+    );
+
+    return id;
+  }
+
+  /**
+   * Updates a generation, e.g. to set its end time, output and usage.
+   *
+   * @param body - The generation data, including the id of the generation
+   */
+  public updateGeneration(body: UpdateGenerationBody): void {
+    this.enqueue("generation-update", body);
+  }
+
+  /**
+   * Creates an event, i.e. an observation of a single point in time.
+   *
+   * @param body - The event data
+   * @returns The id of the event
+   */
+  public createEvent(body: CreateEventBody): string {
+    const id = body.id ?? generateUUID();
+
+    this.enqueue("event-create", this.withObservationDefaults({ ...body, id }));
+
+    return id;
+  }
+
+  /**
+   * Sends an SDK log for debugging purposes.
+   *
+   * @param body - The log data
+   */
+  public sdkLog(body: SdkLogBody): void {
+    this.enqueue("sdk-log", body);
+  }
+
+  /**
+   * Creates a logger transport forwarding SDK log records as SDK log events,
+   * so that SDK errors in deployed applications show up in Ants Platform.
+   *
+   * Records of the ingestion manager itself are not forwarded, as failing to
+   * deliver them would be logged and forwarded again.
+   *
+   * @param options - The minimum level of forwarded records (default: ERROR)
+   * @returns The transport, to be added to a logger
+   *
+   * @example
+   * ```typescript
+   * getGlobalLogger().addTransport(antsPlatform.ingestion.createLogTransport());
+   * ```
+   */
+  public createLogTransport(options?: { level?: LogLevel }): LogTransport {
+    const level = options?.level ?? LogLevel.ERROR;
+    let isForwarding = false;
+
+    return {
+      log: (record) => {
+        if (
+          isForwarding ||
+          record.level < level ||
+          record.fields.component === "IngestionManager"
+        ) {
+          return;
+        }
+
+        isForwarding = true;
+        try {
+          this.sdkLog({
+            log: {
+              ...record.fields,
+              level: record.levelName,
+              message: record.message,
+              timestamp: record.timestamp.toISOString(),
+              ...(record.error
+                ? {
+                    error: {
+                      name: record.error.name,
+                      message: record.error.message,
+                      stack: record.error.stack,
+                    },
+                  }
+                : {}),
+            },
+          });
+        } finally {
+          isForwarding = false;
+        }
+      },
+    };
+  }
+
+  private get environment() {
+    return getEnv("ANTS_PLATFORM_TRACING_ENVIRONMENT");
+  }
+
+  private withObservationDefaults<
+    T extends { startTime?: string; environment?: string },
+  >(body: T): T {
+    return {
+      ...body,
+      startTime: body.startTime ?? new Date().toISOString(),
+      environment: body.environment ?? this.environment,
+    };
+  }
+
+  private enqueue(type: IngestionEvent["type"], body: IngestionEvent["body"]) {
+    const event = {
+      id: generateUUID(),
+      type,
+      timestamp: new Date().toISOString(),
+      body,
+    } as IngestionEvent;
+
+    if (this.queue.events.length >= this.options.maxQueueSize) {
+      this.logger.error(
+        `Ingestion queue is at max size ${this.options.maxQueueSize}. Dropping event.`,
+      );
+      this.reportError({
+        event,
+        message: `ingestion queue is at max size ${this.options.maxQueueSize}`,
+      });
+
+      return;
+    }
+
+    this.queue.push(event);
+  }
+
+  private reportError(params: {
+    event: IngestionEvent;
+    message: string;
+    status?: number;
+  }) {
+    try {
+      this.options.onError?.(new IngestionEventError(params));
+    } catch (err) {
+      this.logger.warn("Ingestion error callback failed:", err);
+    }
+  }
+
+  /**
+   * Flushes all pending events to the AntsPlatform API.
+   *
+   * @returns Promise that resolves when all pending events have been sent
+   */
+  public async flush() {
+    return this.queue.flush();
+  }
+
+  /**
+   * Gracefully shuts down the ingestion manager by flushing all pending events.
+   *
+   * @returns Promise that resolves when shutdown is complete
+   */
+  public async shutdown() {
+    await this.flush();
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  AntsPlatformAPIClient,
+  AntsPlatformAPIError,
+  IngestionEvent,
+  IngestionResponse,
+  getEnv,
+  getGlobalLogger,
+  safeSetTimeout,
+} from "@antsplatform/core";
+
+import {
+  getRetryDelayMs,
+  isRetryableError,
+  isRetryableStatus,
+} from "../score/scoreDelivery.js";
+
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Why a queued event was not delivered.
+ *
+ * @internal
+ */
+export type IngestionQueueFailure = {
+  reason: "rejected" | "retries_exhausted";
+  message: string;
+  status?: number;
+  cause?: unknown;
+};
+
+/**
+ * Parameters of an ingestion queue.
+ *
+ * @internal
+ */
+export type IngestionQueueParams = {
+  apiClient: AntsPlatformAPIClient;
+  /** Logger component of the owner of the queue, e.g. `ScoreManager` */
+  component: string;
+  /** Name of the queued events in log messages, e.g. `score` */
+  eventName: string;
+  maxRetries: number;
+  initialRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  /** Called before the queued events are taken for a flush */
+  beforeFlush?: () => Promise<void>;
+  /** Called once the queued events are taken for a flush */
+  onDrained?: () => void;
+  /** Called with each response of the ingestion API */
+  onResponse?: (response: IngestionResponse) => void;
+  /** Called for each event accepted by the API */
+  onDelivered?: (event: IngestionEvent) => void;
+  /** Called for each event that will not be delivered */
+  onFailed: (event: IngestionEvent, failure: IngestionQueueFailure) => void;
+};
+
+/**
+ * Queue of ingestion events, shared by the score and ingestion managers.
+ *
+ * Events are sent in batches when the queue reaches the flush threshold or
+ * after the flush interval expires. Batches are sent one after another,
+ * including their retries, so that the events of a trace arrive in the order
+ * they were queued. Failed requests and events with retryable errors are
+ * retried with exponential backoff. Retries are handled here instead of by
+ * the API client so that per-event errors are retried too.
+ *
+ * Owners of the queue may add, drop or replace queued events in `events`
+ * directly, and call `scheduleFlush` after adding events.
+ *
+ * @internal
+ */
+export class IngestionQueue {
+  public events: IngestionEvent[] = [];
+  private params: IngestionQueueParams;
+  private flushPromise: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof safeSetTimeout> | null = null;
+  private flushAtCount: number;
+  private flushIntervalSeconds: number;
+
+  constructor(params: IngestionQueueParams) {
+    this.params = params;
+
+    const envFlushAtCount = getEnv("ANTS_PLATFORM_FLUSH_AT");
+    const envFlushIntervalSeconds = getEnv("ANTS_PLATFORM_FLUSH_INTERVAL");
+
+    this.flushAtCount = envFlushAtCount ? Number(envFlushAtCount) : 10;
+    this.flushIntervalSeconds = envFlushIntervalSeconds
+      ? Number(envFlushIntervalSeconds)
+      : 1;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent(this.params.component);
+  }
+
+  /**
+   * Adds an event to the queue and schedules a flush.
+   */
+  public push(event: IngestionEvent): void {
+    this.events.push(event);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Flushes right away if the queue reached the flush threshold, otherwise
+   * starts the flush interval timer unless it is running.
+   */
+  public scheduleFlush(): void {
+    if (this.events.length >= this.flushAtCount) {
+      void this.flush();
+    } else {
+      this.startFlushTimer();
+    }
+  }
+
+  /**
+   * Sends all queued events, including events queued while sending.
+   * Concurrent calls share the running flush, so only one batch is in
+   * flight at a time.
+   *
+   * @returns Promise that resolves when all queued events have been sent
+   */
+  public async flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.handleFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+
+    return this.flushPromise;
+  }
+
+  private startFlushTimer(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = safeSetTimeout(() => {
+      void this.flush();
+    }, this.flushIntervalSeconds * 1_000);
+  }
+
+  private async handleFlush() {
+    try {
+      // Events created during a long flush, e.g. while retrying, are sent next
+      do {
+        await this.params.beforeFlush?.();
+
+        if (this.flushTimer) {
+          clearTimeout(this.flushTimer);
+          this.flushTimer = null;
+        }
+
+        const batches: IngestionEvent[][] = [];
+        while (this.events.length > 0) {
+          batches.push(this.events.splice(0, MAX_BATCH_SIZE));
+        }
+
+        this.params.onDrained?.();
+
+        for (const batch of batches) {
+          await this.sendBatch(batch);
+        }
+      } while (this.events.length > 0);
+    } catch (err) {
+      this.logger.error(`Error flushing ${this.params.component}: `, err);
+
+      if (this.events.length > 0) this.startFlushTimer();
+    }
+  }
+
+  private async sendBatch(events: IngestionEvent[]): Promise<void> {
+    const { eventName, maxRetries } = this.params;
+    let pending = events;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt > 0) {
+        const delayMs = getRetryDelayMs(attempt, this.params);
+        this.logger.debug(
+          `Retrying ${pending.length} ${eventName} event(s) in ${Math.round(delayMs)}ms (retry ${attempt} of ${maxRetries}).`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+
+      const canRetry = attempt < maxRetries;
+      const retry: IngestionEvent[] = [];
+
+      try {
+        const res = await this.params.apiClient.ingestion.batch(
+          { batch: pending },
+          { maxRetries: 0 },
+        );
+
+        if (res.errors?.length > 0) {
+          this.logger.error(`Error ingesting ${eventName} events:`, res.errors);
+        }
+
+        this.params.onResponse?.(res);
+
+        const errorsById = new Map(
+          (res.errors ?? []).map((error) => [error.id, error]),
+        );
+
+        for (const event of pending) {
+          const error = errorsById.get(event.id);
+          if (!error) {
+            this.params.onDelivered?.(event);
+          } else if (isRetryableStatus(error.status) && canRetry) {
+            retry.push(event);
+          } else {
+            this.params.onFailed(event, {
+              reason: isRetryableStatus(error.status)
+                ? "retries_exhausted"
+                : "rejected",
+              message:
+                error.message ?? `ingestion failed with status ${error.status}`,
+              status: error.status,
+              cause: error.error,
+            });
+          }
+        }
+      } catch (err) {
+        this.logger.error(`Failed to export ${eventName} batch:`, err);
+
+        if (isRetryableError(err) && canRetry) {
+          retry.push(...pending);
+        } else {
+          for (const event of pending) {
+            this.params.onFailed(event, {
+              reason: isRetryableError(err) ? "retries_exhausted" : "rejected",
+              message: err instanceof Error ? err.message : String(err),
+              status:
+                err instanceof AntsPlatformAPIError
+                  ? err.statusCode
+                  : undefined,
+              cause: err,
+            });
+          }
+        }
+      }
+
+      pending = retry;
+    }
+  }
+}
@@ -1,11 +1,34 @@
 import {
   AntsPlatformAPIClient,
+  GetMediaResponse,
+  MediaFileWriter,
   ParsedMediaReference,
   MediaContentType,
   getGlobalLogger,
   bytesToBase64,
 } from "@antsplatform/core";
 
+import { mapWithConcurrency } from "../dataset/utils.js";
+
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_CACHE_MAX_ENTRIES = 100;
+const DEFAULT_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+// Download URLs are refreshed when they expire within this margin
+const URL_EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * Formats media references can be resolved to.
+ *
+ * - `base64DataUri`: the content as a base64 data URI
+ * - `url`: the signed download URL of the content
+ * - `bytes`: the content as `Uint8Array`. Only strings consisting of exactly one
+ *   media reference are resolved, as bytes cannot be embedded in strings.
+ * - `file`: the path the content was written to by the `fileWriter`
+ *
+ * @public
+ */
+export type MediaResolveWith = "base64DataUri" | "url" | "bytes" | "file";
+
 /**
  * Parameters for resolving media references in objects.
  *
@@ -15,10 +38,66 @@ import {
 export type AntsPlatformMediaResolveMediaReferencesParams<T> = {
   /** The object to process for media references */
   obj: T;
-  /** The format to resolve media references to (currently only "base64DataUri" is supported) */
-  resolveWith: "base64DataUri";
   /** Maximum depth to traverse when processing nested objects (default: 10) */
   maxDepth?: number;
+  /** Maximum number of media fetched in parallel (default: 10) */
+  concurrency?: number;
+} & (
+  | {
+      /** The format to resolve media references to */
+      resolveWith: Exclude<MediaResolveWith, "file">;
+    }
+  | {
+      /** The format to resolve media references to */
+      resolveWith: "file";
+      /** Writes the media content to files, e.g. `FileMediaWriter` from `@antsplatform/otel` */
+      fileWriter: MediaFileWriter;
+    }
+);
+
+/**
+ * A media reference that could not be resolved and was left unchanged.
+ *
+ * @public
+ */
+export type MediaReferenceResolutionFailure = {
+  /** The media reference string */
+  referenceString: string;
+  /** The media ID, if the reference string could be parsed */
+  mediaId?: string;
+  /** The error that occurred */
+  error: unknown;
+};
+
+/**
+ * Result of resolving media references, including the references that could
+ * not be resolved.
+ *
+ * @template T - The type of the object being processed
+ * @public
+ */
+export type MediaResolutionReport<T> = {
+  /** A deep copy of the input object with media references resolved */
+  obj: T;
+  /** The references that could not be resolved */
+  failures: MediaReferenceResolutionFailure[];
+};
+
+/**
+ * Limits of the in-memory cache of fetched media.
+ *
+ * @public
+ */
+export type MediaCacheOptions = {
+  /** Maximum number of cached media (default: 100). Set to 0 to disable caching. */
+  maxEntries?: number;
+  /** Maximum total size of cached content in bytes (default: 100 MiB) */
+  maxBytes?: number;
+};
+
+type CachedMedia = {
+  media: GetMediaResponse;
+  content?: Uint8Array;
 };
 
 /**
@@ -27,30 +106,49 @@ export type AntsPlatformMediaResolveMediaReferencesParams<T> = {
  * Provides methods to resolve media references in objects by replacing
  * them with actual media content (e.g., base64 data URIs).
  *
+ * Fetched media are kept in a least-recently-used cache keyed by media ID, so
+ * media shared between many traces are only downloaded once.
+ *
  * @public
  */
 export class MediaManager {
   private apiClient: AntsPlatformAPIClient;
+  private cache = new Map<string, CachedMedia>();
+  private cacheBytes = 0;
+  private cacheMaxEntries: number;
+  private cacheMaxBytes: number;
 
   /**
    * Creates a new MediaManager instance.
    *
-   * @param params - Configuration object containing the API client
+   * @param params - Configuration object containing the API client and cache limits
    * @internal
    */
-  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    cache?: MediaCacheOptions;
+  }) {
     this.apiClient = params.apiClient;
+    this.cacheMaxEntries =
+      params.cache?.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.cacheMaxBytes = params.cache?.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("MediaManager");
   }
 
   /**
-   * Replaces media reference strings in an object with base64 data URIs.
+   * Replaces media reference strings in an object with the media content.
    *
    * This method recursively traverses an object looking for media reference strings
    * in the format "@@@antsPlatformMedia:...@@@". When found, it fetches the actual media
-   * content from AntsPlatform and replaces the reference string with a base64 data URI.
+   * content from AntsPlatform and replaces the reference string with it, in the format
+   * given by `resolveWith`.
    *
    * If fetching media content fails for a reference string, a warning is logged
-   * and the reference string is left unchanged.
+   * and the reference string is left unchanged. Use `resolveReferencesWithReport`
+   * to get the references that failed to resolve.
    *
    * @param params - Configuration object
    * @returns A deep copy of the input object with media references resolved
@@ -81,95 +179,231 @@ export class MediaManager {
   public async resolveReferences<T>(
     params: AntsPlatformMediaResolveMediaReferencesParams<T>,
   ): Promise<T> {
-    const { obj, maxDepth = 10 } = params;
+    const { obj } = await this.resolveReferencesWithReport(params);
 
-    const traverse = async <T>(obj: T, depth: number): Promise<T> => {
-      if (depth > maxDepth) {
-        return obj;
+    return obj;
+  }
+
+  /**
+   * Replaces media reference strings in an object with the media content, and
+   * reports the references that could not be resolved.
+   *
+   * @param params - Configuration object
+   * @returns The object with media references resolved, and the failures
+   *
+   * @example
+   * ```typescript
+   * const { obj, failures } =
+   *   await antsPlatform.media.resolveReferencesWithReport({
+   *     obj: trace,
+   *     resolveWith: "url",
+   *   });
+   *
+   * for (const failure of failures) {
+   *   console.warn(`Could not resolve ${failure.mediaId}:`, failure.error);
+   * }
+   * ```
+   */
+  public async resolveReferencesWithReport<T>(
+    params: AntsPlatformMediaResolveMediaReferencesParams<T>,
+  ): Promise<MediaResolutionReport<T>> {
+    const { obj, maxDepth = 10, concurrency = DEFAULT_CONCURRENCY } = params;
+    const regex = /@@@antsPlatformMedia:.+?@@@/g;
+
+    const referenceStrings = new Set<string>();
+    const collect = (value: unknown, depth: number) => {
+      if (depth > maxDepth) return;
+
+      if (typeof value === "string") {
+        for (const match of value.match(regex) ?? []) {
+          referenceStrings.add(match);
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item) => collect(item, depth + 1));
+      } else if (typeof value === "object" && value !== null) {
+        Object.values(value).forEach((item) => collect(item, depth + 1));
       }
+    };
+    collect(obj, 0);
+
+    const failures = new Map<string, MediaReferenceResolutionFailure>();
+    const resolved = new Map<string, string | Uint8Array>();
+    const resolvedByMediaId = new Map<string, Promise<string | Uint8Array>>();
+
+    await mapWithConcurrency(
+      [...referenceStrings],
+      concurrency,
+      async (referenceString) => {
+        let mediaId: string | undefined;
+        try {
+          mediaId = MediaManager.parseReferenceString(referenceString).mediaId;
 
-      // Handle string with potential media references
-      if (typeof obj === "string") {
-        const regex = /@@@antsPlatformMedia:.+?@@@/g;
-        const referenceStringMatches = obj.match(regex);
-        if (!referenceStringMatches) {
-          return obj;
+          // References differing only in source or type share the download
+          let resolution = resolvedByMediaId.get(mediaId);
+          if (!resolution) {
+            resolution = this.resolveMedia(mediaId, params);
+            resolvedByMediaId.set(mediaId, resolution);
+          }
+
+          resolved.set(referenceString, await resolution);
+        } catch (error) {
+          this.logger.warn(
+            "Error fetching media content for reference string",
+            referenceString,
+            error,
+          );
+          failures.set(referenceString, { referenceString, mediaId, error });
         }
+      },
+    );
 
-        let result = obj;
-        const referenceStringToMediaContentMap = new Map<string, string>();
-
-        await Promise.all(
-          referenceStringMatches.map(async (referenceString) => {
-            try {
-              const parsedMediaReference =
-                MediaManager.parseReferenceString(referenceString);
-              const mediaData = await this.apiClient.media.get(
-                parsedMediaReference.mediaId,
-              );
-              const mediaContent = await fetch(mediaData.url, {
-                method: "GET",
-                headers: {},
-              });
-              if (mediaContent.status !== 200) {
-                throw new Error("Failed to fetch media content");
-              }
-
-              const uint8Content = new Uint8Array(
-                await mediaContent.arrayBuffer(),
-              );
-
-              const base64MediaContent = bytesToBase64(uint8Content);
-              const base64DataUri = `data:${mediaData.contentType};base64,${base64MediaContent}`;
-
-              referenceStringToMediaContentMap.set(
-                referenceString,
-                base64DataUri,
-              );
-            } catch (error) {
-              getGlobalLogger().warn(
-                "Error fetching media content for reference string",
-                referenceString,
-                error,
-              );
-            }
-          }),
-        );
+    const replace = (value: unknown, depth: number): unknown => {
+      if (depth > maxDepth) return value;
+
+      if (typeof value === "string") {
+        const exactMatch = resolved.get(value);
+        if (exactMatch !== undefined) return exactMatch;
 
-        for (const [
-          referenceString,
-          base64MediaContent,
-        ] of referenceStringToMediaContentMap.entries()) {
-          result = result.replaceAll(referenceString, base64MediaContent) as T &
-            string;
+        let result = value;
+        for (const referenceString of value.match(regex) ?? []) {
+          const resolvedValue = resolved.get(referenceString);
+
+          if (typeof resolvedValue === "string") {
+            result = result.replaceAll(referenceString, resolvedValue);
+          } else if (resolvedValue && !failures.has(referenceString)) {
+            failures.set(referenceString, {
+              referenceString,
+              mediaId:
+                MediaManager.parseReferenceString(referenceString).mediaId,
+              error: new Error(
+                "Media references embedded in longer strings cannot be resolved to bytes",
+              ),
+            });
+          }
         }
 
         return result;
       }
 
-      // Handle arrays
-      if (Array.isArray(obj)) {
-        return Promise.all(
-          obj.map(async (item) => await traverse(item, depth + 1)),
-        ) as Promise<T>;
+      if (Array.isArray(value)) {
+        return value.map((item) => replace(item, depth + 1));
       }
 
-      // Handle objects
-      if (typeof obj === "object" && obj !== null) {
+      if (typeof value === "object" && value !== null) {
         return Object.fromEntries(
-          await Promise.all(
-            Object.entries(obj).map(async ([key, value]) => [
-              key,
-              await traverse(value, depth + 1),
-            ]),
-          ),
+          Object.entries(value).map(([key, item]) => [
+            key,
+            replace(item, depth + 1),
+          ]),
         );
       }
 
-      return obj;
+      return value;
     };
 
-    return traverse(obj, 0);
+    return {
+      obj: replace(obj, 0) as T,
+      failures: [...failures.values()],
+    };
+  }
+
+  private async resolveMedia(
+    mediaId: string,
+    params: AntsPlatformMediaResolveMediaReferencesParams<unknown>,
+  ): Promise<string | Uint8Array> {
+    if (params.resolveWith === "url") {
+      return (await this.getMedia(mediaId, { withContent: false })).media.url;
+    }
+
+    const { media, content } = await this.getMedia(mediaId, {
+      withContent: true,
+    });
+
+    if (params.resolveWith === "bytes") {
+      return content;
+    }
+
+    if (params.resolveWith === "file") {
+      return params.fileWriter.write({
+        mediaId,
+        contentType: media.contentType,
+        content,
+      });
+    }
+
+    return `data:${media.contentType};base64,${bytesToBase64(content)}`;
+  }
+
+  private async getMedia(
+    mediaId: string,
+    options: { withContent: false },
+  ): Promise<CachedMedia>;
+  private async getMedia(
+    mediaId: string,
+    options: { withContent: true },
+  ): Promise<Required<CachedMedia>>;
+  private async getMedia(
+    mediaId: string,
+    options: { withContent: boolean },
+  ): Promise<CachedMedia> {
+    const cached = this.cache.get(mediaId);
+    const cachedMedia =
+      cached &&
+      Date.parse(cached.media.urlExpiry) - Date.now() > URL_EXPIRY_MARGIN_MS
+        ? cached.media
+        : undefined;
+
+    // Cached content stays valid after its download URL expired
+    if (cached && (options.withContent ? cached.content : cachedMedia)) {
+      return this.setCached(mediaId, cached);
+    }
+
+    const media = cachedMedia ?? (await this.apiClient.media.get(mediaId));
+
+    if (!options.withContent) {
+      return this.setCached(mediaId, { media, content: cached?.content });
+    }
+
+    const response = await fetch(media.url, { method: "GET", headers: {} });
+    if (response.status !== 200) {
+      throw new Error(
+        `Failed to fetch media content: status ${response.status}`,
+      );
+    }
+
+    return this.setCached(mediaId, {
+      media,
+      content: new Uint8Array(await response.arrayBuffer()),
+    });
+  }
+
+  private setCached(mediaId: string, entry: CachedMedia): CachedMedia {
+    this.deleteCached(mediaId);
+
+    const bytes = entry.content?.length ?? 0;
+    if (this.cacheMaxEntries <= 0 || bytes > this.cacheMaxBytes) return entry;
+
+    // Maps iterate in insertion order, so the first key is the least recently used
+    while (
+      this.cache.size >= this.cacheMaxEntries ||
+      this.cacheBytes + bytes > this.cacheMaxBytes
+    ) {
+      const [leastRecentlyUsed] = this.cache.keys();
+      this.deleteCached(leastRecentlyUsed);
+    }
+
+    this.cache.set(mediaId, entry);
+    this.cacheBytes += bytes;
+
+    return entry;
+  }
+
+  private deleteCached(mediaId: string) {
+    const entry = this.cache.get(mediaId);
+    if (!entry) return;
+
+    this.cache.delete(mediaId);
+    this.cacheBytes -= entry.content?.length ?? 0;
   }
 
   /**
@@ -209,9 +443,11 @@ export class MediaManager {
       parsedData[key] = value;
     }
 
-    if (
-      !("type" in parsedData && "id" in parsedData && "source" in parsedData)
-    ) {
+    if (!(
+      "type" in parsedData &&
+      "id" in parsedData &&
+      "source" in parsedData
+    )) {
       throw new Error("Missing required fields in reference string");
     }
 
@@ -0,0 +1,422 @@
+import { AntsPlatformAPIClient } from "@antsplatform/core";
+
+import { toTimestamp } from "../query/paginatedQuery.js";
+
+import {
+  MetricsAggregation,
+  MetricsDimensions,
+  MetricsFieldName,
+  MetricsFilter,
+  MetricsGranularity,
+  MetricsMeasures,
+  MetricsMetric,
+  MetricsQuery,
+  MetricsRow,
+  MetricsView,
+} from "./types.js";
+
+export type * from "./types.js";
+
+type StringOperator = Extract<MetricsFilter, { type: "string" }>["operator"];
+type NumberOperator = Extract<MetricsFilter, { type: "number" }>["operator"];
+type OptionsOperator = Extract<
+  MetricsFilter,
+  { type: "arrayOptions" }
+>["operator"];
+
+/**
+ * Time range of a convenience metrics query.
+ *
+ * @public
+ */
+export type MetricsTimeRange = {
+  /** Start of the time range */
+  from: Date | string;
+  /** End of the time range, defaults to now */
+  to?: Date | string;
+};
+
+/**
+ * Fluent, typed builder for queries of the metrics API.
+ *
+ * The builder tracks the dimensions and metrics added to it, so that the rows
+ * returned by `execute` are typed accordingly. Builders are immutable: each
+ * method returns a new builder.
+ *
+ * @example
+ * ```typescript
+ * const rows = await antsPlatform.metrics
+ *   .query("observations")
+ *   .dimensions("providedModelName")
+ *   .metric("totalCost", "sum")
+ *   .granularity("day")
+ *   .where("type", "=", "GENERATION")
+ *   .from(new Date("2026-01-01"))
+ *   .execute();
+ *
+ * rows[0].providedModelName; // string | null
+ * rows[0].sum_totalCost; // number
+ * rows[0].time_dimension; // string
+ * ```
+ *
+ * @public
+ */
+export class MetricsQueryBuilder<
+  V extends MetricsView,
+  D extends MetricsDimensions[V] = never,
+  M extends MetricsMetric<V> = never,
+  T extends boolean = false,
+> {
+  private apiClient: AntsPlatformAPIClient;
+  private query: Partial<MetricsQuery<V>> & { view: V };
+
+  /** @internal */
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    query: Partial<MetricsQuery<V>> & { view: V };
+  }) {
+    this.apiClient = params.apiClient;
+    this.query = params.query;
+  }
+
+  /**
+   * Groups the results by the given fields.
+   */
+  public dimensions<const F extends MetricsDimensions[V]>(
+    ...fields: F[]
+  ): MetricsQueryBuilder<V, D | F, M, T> {
+    return this.with({
+      dimensions: [
+        ...(this.query.dimensions ?? []),
+        ...fields.map((field) => ({ field })),
+      ],
+    });
+  }
+
+  /**
+   * Adds a metric, i.e. a measure and how to aggregate it. Its value is
+   * returned in the field `<aggregation>_<measure>` of each row.
+   */
+  public metric<
+    const Measure extends MetricsMeasures[V],
+    const A extends MetricsAggregation,
+  >(
+    measure: Measure,
+    aggregation: A,
+  ): MetricsQueryBuilder<V, D, M | { measure: Measure; aggregation: A }, T> {
+    return this.with({
+      metrics: [...(this.query.metrics ?? []), { measure, aggregation }],
+    });
+  }
+
+  /**
+   * Groups the results by time. The start of each time bucket is returned in
+   * the field `time_dimension` of each row.
+   */
+  public granularity(
+    granularity: MetricsGranularity,
+  ): MetricsQueryBuilder<V, D, M, true> {
+    return this.with({ timeDimension: { granularity } });
+  }
+
+  /**
+   * Adds a filter on a field of the view.
+   *
+   * Strings and numbers are compared as such. Arrays match if any, none or
+   * all of their values match, the latter only for array fields like `tags`.
+   */
+  public where(
+    column: MetricsDimensions[V],
+    operator: StringOperator,
+    value: string,
+  ): MetricsQueryBuilder<V, D, M, T>;
+  public where(
+    column: MetricsDimensions[V],
+    operator: NumberOperator,
+    value: number,
+  ): MetricsQueryBuilder<V, D, M, T>;
+  public where(
+    column: MetricsDimensions[V],
+    operator: OptionsOperator,
+    value: string[],
+  ): MetricsQueryBuilder<V, D, M, T>;
+  public where(
+    column: MetricsDimensions[V],
+    operator: string,
+    value: string | number | string[],
+  ): MetricsQueryBuilder<V, D, M, T> {
+    let filter: MetricsFilter;
+    if (Array.isArray(value)) {
+      filter =
+        column === "tags"
+          ? {
+              column,
+              type: "arrayOptions",
+              operator: operator as OptionsOperator,
+              value,
+            }
+          : {
+              column,
+              type: "stringOptions",
+              operator: operator as "any of" | "none of",
+              value,
+            };
+    } else if (typeof value === "number") {
+      filter = {
+        column,
+        type: "number",
+        operator: operator as NumberOperator,
+        value,
+      };
+    } else {
+      filter = {
+        column,
+        type: "string",
+        operator: operator as StringOperator,
+        value,
+      };
+    }
+
+    return this.filter(filter as MetricsFilter<V>);
+  }
+
+  /**
+   * Adds a filter on a metadata key.
+   */
+  public whereMetadata(
+    key: string,
+    operator: StringOperator,
+    value: string,
+  ): MetricsQueryBuilder<V, D, M, T> {
+    return this.filter({
+      column: "metadata",
+      type: "stringObject",
+      key,
+      operator,
+      value,
+    });
+  }
+
+  /**
+   * Adds a filter in the raw format of the metrics API.
+   */
+  public filter(filter: MetricsFilter<V>): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({ filters: [...(this.query.filters ?? []), filter] });
+  }
+
+  /** Sets the start of the time range */
+  public from(date: Date | string): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({ fromTimestamp: toTimestamp(date) });
+  }
+
+  /** Sets the end of the time range, now by default */
+  public to(date: Date | string): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({ toTimestamp: toTimestamp(date) });
+  }
+
+  /**
+   * Orders the results by a dimension, a metric or the time dimension.
+   */
+  public orderBy(
+    field: D | MetricsFieldName<M> | (T extends true ? "time_dimension" : D),
+    direction: "asc" | "desc" = "asc",
+  ): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({
+      orderBy: [...(this.query.orderBy ?? []), { field, direction }],
+    });
+  }
+
+  /**
+   * Limits the number of rows returned.
+   *
+   * @param rowLimit - Maximum number of rows, between 1 and 1000
+   */
+  public limit(rowLimit: number): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({ config: { ...this.query.config, row_limit: rowLimit } });
+  }
+
+  /**
+   * Sets the number of bins of histogram metrics.
+   *
+   * @param bins - Number of bins, between 1 and 100
+   */
+  public bins(bins: number): MetricsQueryBuilder<V, D, M, T> {
+    return this.with({ config: { ...this.query.config, bins } });
+  }
+
+  /**
+   * Returns the query in the format of the metrics API.
+   *
+   * @throws {Error} If the query has no metric or no start of the time range
+   */
+  public toQuery(): MetricsQuery<V> {
+    const { metrics, fromTimestamp } = this.query;
+
+    if (!metrics || metrics.length === 0) {
+      throw new Error(
+        `Metrics query on view '${this.query.view}' requires at least one metric.`,
+      );
+    }
+    if (!fromTimestamp) {
+      throw new Error(
+        `Metrics query on view '${this.query.view}' requires a start of the time range.`,
+      );
+    }
+
+    return {
+      dimensions: [],
+      filters: [],
+      ...this.query,
+      metrics,
+      fromTimestamp,
+      toTimestamp: this.query.toTimestamp ?? new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Executes the query.
+   *
+   * @returns The result rows, with numeric metric values parsed as numbers
+   */
+  public async execute(): Promise<MetricsRow<D, M, T>[]> {
+    const query = this.toQuery();
+    const metricFields = new Set(
+      query.metrics.map((metric) => `${metric.aggregation}_${metric.measure}`),
+    );
+
+    const response = await this.apiClient.metrics.metrics({
+      query: JSON.stringify(query),
+    });
+
+    return response.data.map(
+      (row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([field, value]) => [
+            field,
+            metricFields.has(field) ? parseMetricValue(value) : value,
+          ]),
+        ) as MetricsRow<D, M, T>,
+    );
+  }
+
+  private with<
+    ND extends MetricsDimensions[V] = D,
+    NM extends MetricsMetric<V> = M,
+    NT extends boolean = T,
+  >(query: Partial<MetricsQuery<V>>): MetricsQueryBuilder<V, ND, NM, NT> {
+    return new MetricsQueryBuilder({
+      apiClient: this.apiClient,
+      query: { ...this.query, ...query },
+    });
+  }
+}
+
+/**
+ * Manager for querying aggregated metrics of traces, observations and scores.
+ *
+ * Build queries with `query`, or use the convenience methods for common
+ * reports.
+ *
+ * @public
+ */
+export class MetricsManager {
+  private apiClient: AntsPlatformAPIClient;
+
+  /**
+   * Creates a new MetricsManager instance.
+   *
+   * @param params - Configuration object containing the API client
+   * @internal
+   */
+  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+    this.apiClient = params.apiClient;
+  }
+
+  /**
+   * Creates a query on the given view.
+   *
+   * @param view - The view to compute metrics over
+   * @returns A typed query builder
+   */
+  public query<V extends MetricsView>(view: V): MetricsQueryBuilder<V> {
+    return new MetricsQueryBuilder({
+      apiClient: this.apiClient,
+      query: { view },
+    });
+  }
+
+  /**
+   * Returns the total cost of generations per model and day.
+   *
+   * @example
+   * ```typescript
+   * const rows = await antsPlatform.metrics.costPerModelPerDay({
+   *   from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+   * });
+   *
+   * for (const row of rows) {
+   *   console.log(row.time_dimension, row.providedModelName, row.sum_totalCost);
+   * }
+   * ```
+   */
+  public costPerModelPerDay(range: MetricsTimeRange) {
+    return this.inRange(this.query("observations"), range)
+      .dimensions("providedModelName")
+      .metric("totalCost", "sum")
+      .granularity("day")
+      .where("type", "=", "GENERATION")
+      .orderBy("time_dimension")
+      .execute();
+  }
+
+  /**
+   * Returns the p50, p90, p95 and p99 latency in milliseconds per
+   * observation name.
+   */
+  public latencyPercentilesByObservationName(range: MetricsTimeRange) {
+    return this.inRange(this.query("observations"), range)
+      .dimensions("name")
+      .metric("latency", "p50")
+      .metric("latency", "p90")
+      .metric("latency", "p95")
+      .metric("latency", "p99")
+      .orderBy("p95_latency", "desc")
+      .execute();
+  }
+
+  /**
+   * Returns the average and count of numeric scores per score name and
+   * trace release.
+   *
+   * @param range - The time range, optionally restricted to one score name
+   */
+  public scoreAveragesByRelease(range: MetricsTimeRange & { name?: string }) {
+    const query = this.inRange(this.query("scores-numeric"), range)
+      .dimensions("name", "traceRelease")
+      .metric("value", "avg")
+      .metric("count", "count");
+
+    return (range.name ? query.where("name", "=", range.name) : query)
+      .orderBy("traceRelease")
+      .execute();
+  }
+
+  private inRange<V extends MetricsView>(
+    query: MetricsQueryBuilder<V>,
+    range: MetricsTimeRange,
+  ) {
+    return range.to
+      ? query.from(range.from).to(range.to)
+      : query.from(range.from);
+  }
+}
+
+function parseMetricValue(value: unknown): unknown {
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+
+    return Number.isNaN(number) ? value : number;
+  }
+
+  return value;
+}
@@ -0,0 +1,221 @@
+/**
+ * Views of the metrics API, i.e. the entities metrics are computed over.
+ *
+ * @public
+ */
+export type MetricsView =
+  "traces" | "observations" | "scores-numeric" | "scores-categorical";
+
+type ScoreDimension =
+  | "id"
+  | "name"
+  | "environment"
+  | "source"
+  | "dataType"
+  | "configId"
+  | "traceId"
+  | "traceName"
+  | "traceRelease"
+  | "traceVersion"
+  | "userId"
+  | "sessionId"
+  | "observationId"
+  | "observationName"
+  | "observationModelName"
+  | "observationPromptName"
+  | "observationPromptVersion";
+
+/**
+ * Fields that results can be grouped and filtered by, per view.
+ *
+ * @public
+ */
+export type MetricsDimensions = {
+  traces:
+    | "id"
+    | "name"
+    | "tags"
+    | "userId"
+    | "sessionId"
+    | "release"
+    | "version"
+    | "environment";
+  observations:
+    | "id"
+    | "name"
+    | "type"
+    | "level"
+    | "version"
+    | "environment"
+    | "parentObservationId"
+    | "traceId"
+    | "traceName"
+    | "traceRelease"
+    | "traceVersion"
+    | "userId"
+    | "sessionId"
+    | "providedModelName"
+    | "promptName"
+    | "promptVersion";
+  "scores-numeric": ScoreDimension;
+  "scores-categorical": ScoreDimension | "stringValue";
+};
+
+/**
+ * Measures that can be aggregated, per view.
+ *
+ * @public
+ */
+export type MetricsMeasures = {
+  traces:
+    | "count"
+    | "latency"
+    | "observationsCount"
+    | "scoresCount"
+    | "totalTokens"
+    | "totalCost";
+  observations:
+    | "count"
+    | "latency"
+    | "streamingLatency"
+    | "timeToFirstToken"
+    | "inputTokens"
+    | "outputTokens"
+    | "totalTokens"
+    | "outputTokensPerSecond"
+    | "tokensPerSecond"
+    | "inputCost"
+    | "outputCost"
+    | "totalCost"
+    | "countScores";
+  "scores-numeric": "count" | "value";
+  "scores-categorical": "count";
+};
+
+/**
+ * Aggregations of a measure.
+ *
+ * @public
+ */
+export type MetricsAggregation =
+  | "count"
+  | "sum"
+  | "avg"
+  | "min"
+  | "max"
+  | "p50"
+  | "p75"
+  | "p90"
+  | "p95"
+  | "p99"
+  | "histogram";
+
+/**
+ * Granularity of the time dimension. `auto` picks one based on the time range.
+ *
+ * @public
+ */
+export type MetricsGranularity =
+  "minute" | "hour" | "day" | "week" | "month" | "auto";
+
+/**
+ * A measure and how to aggregate it.
+ *
+ * @public
+ */
+export type MetricsMetric<V extends MetricsView = MetricsView> = {
+  measure: MetricsMeasures[V];
+  aggregation: MetricsAggregation;
+};
+
+type StringOperator =
+  "=" | "contains" | "does not contain" | "starts with" | "ends with";
+type NumberOperator = "=" | ">" | "<" | ">=" | "<=";
+
+/**
+ * A filter on a field of the view, or on a metadata key.
+ *
+ * @public
+ */
+export type MetricsFilter<V extends MetricsView = MetricsView> =
+  | {
+      column: MetricsDimensions[V];
+      type: "string";
+      operator: StringOperator;
+      value: string;
+    }
+  | {
+      column: MetricsDimensions[V];
+      type: "number";
+      operator: NumberOperator;
+      value: number;
+    }
+  | {
+      column: "timestamp" | "startTime";
+      type: "datetime";
+      operator: Exclude<NumberOperator, "=">;
+      value: string;
+    }
+  | {
+      column: MetricsDimensions[V];
+      type: "stringOptions";
+      operator: "any of" | "none of";
+      value: string[];
+    }
+  | {
+      column: MetricsDimensions[V];
+      type: "arrayOptions";
+      operator: "any of" | "none of" | "all of";
+      value: string[];
+    }
+  | {
+      column: "metadata";
+      type: "stringObject";
+      key: string;
+      operator: StringOperator;
+      value: string;
+    };
+
+/**
+ * Query of the metrics API.
+ *
+ * @public
+ */
+export type MetricsQuery<V extends MetricsView = MetricsView> = {
+  view: V;
+  dimensions?: { field: MetricsDimensions[V] }[];
+  metrics: MetricsMetric<V>[];
+  filters?: MetricsFilter<V>[];
+  timeDimension?: { granularity: MetricsGranularity } | null;
+  fromTimestamp: string;
+  toTimestamp: string;
+  orderBy?: { field: string; direction: "asc" | "desc" }[] | null;
+  config?: { bins?: number; row_limit?: number };
+};
+
+/**
+ * Name of the result field of a metric, e.g. `sum_totalCost`.
+ *
+ * @public
+ */
+export type MetricsFieldName<M extends MetricsMetric> =
+  `${M["aggregation"]}_${M["measure"]}`;
+
+/**
+ * A row of the metrics results, typed after the dimensions, metrics and time
+ * dimension of the query.
+ *
+ * Dimension values are strings, or null if unset. Metric values are numbers,
+ * or `[lower, upper, height]` tuples for histograms.
+ *
+ * @public
+ */
+export type MetricsRow<
+  D extends string = never,
+  M extends MetricsMetric = never,
+  T extends boolean = false,
+> = { [K in D]: string | null } & {
+  [K in M as MetricsFieldName<K>]: K["aggregation"] extends "histogram"
+    ? [number, number, number][]
+    : number;
+} & (T extends true ? { time_dimension: string } : unknown);
@@ -1,3 +1,4 @@
 export { PromptManager } from "./promptManager.js";
 export { ChatPromptClient, TextPromptClient } from "./promptClients.js";
+export { PromptCompileError } from "./promptVariables.js";
 export * from "./types.js";
@@ -1,38 +1,77 @@
-import { getGlobalLogger } from "@antsplatform/core";
+import { Prompt, PromptCacheStore, getGlobalLogger } from "@antsplatform/core";
 
-import type { AntsPlatformPromptClient } from "./promptClients.js";
+import {
+  ChatPromptClient,
+  TextPromptClient,
+  type AntsPlatformPromptClient,
+} from "./promptClients.js";
 
 export const DEFAULT_PROMPT_CACHE_TTL_SECONDS = 60;
 
 class AntsPlatformPromptCacheItem {
-  private _expiry: number;
-
   constructor(
     public value: AntsPlatformPromptClient,
-    ttlSeconds: number,
-  ) {
-    this._expiry = Date.now() + ttlSeconds * 1000;
-  }
+    public expiresAt: number,
+  ) {}
 
   get isExpired(): boolean {
-    return Date.now() > this._expiry;
+    return Date.now() > this.expiresAt;
   }
 }
 export class AntsPlatformPromptCache {
   private _cache: Map<string, AntsPlatformPromptCacheItem>;
   private _defaultTtlSeconds: number;
   private _refreshingKeys: Map<string, Promise<void>>;
+  private _store?: PromptCacheStore;
 
-  constructor() {
+  constructor(params?: {
+    store?: PromptCacheStore;
+    defaultTtlSeconds?: number;
+  }) {
     this._cache = new Map<string, AntsPlatformPromptCacheItem>();
-    this._defaultTtlSeconds = DEFAULT_PROMPT_CACHE_TTL_SECONDS;
+    this._defaultTtlSeconds =
+      params?.defaultTtlSeconds ?? DEFAULT_PROMPT_CACHE_TTL_SECONDS;
     this._refreshingKeys = new Map<string, Promise<void>>();
+    this._store = params?.store;
+  }
+
+  get defaultTtlSeconds(): number {
+    return this._defaultTtlSeconds;
   }
 
   public getIncludingExpired(key: string): AntsPlatformPromptCacheItem | null {
     return this._cache.get(key) ?? null;
   }
 
+  /**
+   * Loads an entry from the persistent store into memory, including stale entries.
+   */
+  public async loadFromStore(
+    key: string,
+  ): Promise<AntsPlatformPromptCacheItem | null> {
+    if (!this._store) return null;
+
+    try {
+      const entry = await this._store.get(key);
+      if (!entry) return null;
+
+      const item = new AntsPlatformPromptCacheItem(
+        this.createPromptClient(entry.prompt),
+        entry.expiresAt,
+      );
+      this._cache.set(key, item);
+
+      return item;
+    } catch (err) {
+      getGlobalLogger().warn(
+        `Failed to read prompt cache key '${key}' from store:`,
+        err,
+      );
+
+      return null;
+    }
+  }
+
   public createKey(params: {
     name: string;
     version?: number;
@@ -58,10 +97,18 @@ export class AntsPlatformPromptCache {
     ttlSeconds?: number,
   ): void {
     const effectiveTtlSeconds = ttlSeconds ?? this._defaultTtlSeconds;
-    this._cache.set(
-      key,
-      new AntsPlatformPromptCacheItem(value, effectiveTtlSeconds),
-    );
+    const expiresAt = Date.now() + effectiveTtlSeconds * 1000;
+
+    this._cache.set(key, new AntsPlatformPromptCacheItem(value, expiresAt));
+
+    this._store
+      ?.set(key, { prompt: value.promptResponse, expiresAt })
+      .catch((err) => {
+        getGlobalLogger().warn(
+          `Failed to write prompt cache key '${key}' to store:`,
+          err,
+        );
+      });
   }
 
   public addRefreshingPromise(key: string, promise: Promise<any>): void {
@@ -87,9 +134,42 @@ export class AntsPlatformPromptCache {
     );
 
     for (const key of this._cache.keys()) {
-      if (key.startsWith(promptName)) {
+      if (this.isKeyOfPrompt(key, promptName)) {
         this._cache.delete(key);
       }
     }
+
+    if (this._store) {
+      const store = this._store;
+
+      store
+        .keys()
+        .then((keys) =>
+          Promise.all(
+            keys
+              .filter((key) => this.isKeyOfPrompt(key, promptName))
+              .map((key) => store.delete(key)),
+          ),
+        )
+        .catch((err) => {
+          getGlobalLogger().warn(
+            `Failed to invalidate prompt cache keys for '${promptName}' in store:`,
+            err,
+          );
+        });
+    }
+  }
+
+  private isKeyOfPrompt(key: string, promptName: string): boolean {
+    return (
+      key.startsWith(`${promptName}-version:`) ||
+      key.startsWith(`${promptName}-label:`)
+    );
+  }
+
+  private createPromptClient(prompt: Prompt): AntsPlatformPromptClient {
+    return prompt.type === "chat"
+      ? new ChatPromptClient(prompt)
+      : new TextPromptClient(prompt);
   }
 }
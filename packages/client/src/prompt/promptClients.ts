@@ -6,10 +6,16 @@ import {
 } from "@antsplatform/core";
 import mustache from "mustache";
 
+import {
+  MustacheVariables,
+  extractMustacheVariables,
+  validateCompileInputs,
+} from "./promptVariables.js";
 import {
   ChatMessageOrPlaceholder,
   ChatMessageType,
   LangchainMessagesPlaceholder,
+  PromptCompileOptions,
 } from "./types.js";
 
 mustache.escape = function (text) {
@@ -64,16 +70,30 @@ abstract class BasePromptClient {
   /** Sets the raw prompt content */
   abstract set prompt(value: string | ChatMessageWithPlaceholders[]);
 
+  /** Names of the mustache variables that must be provided to the prompt */
+  abstract get variables(): string[];
+
+  /**
+   * Names of the mustache variables that may be omitted, i.e. keys of inverted
+   * sections and names inside sections
+   */
+  abstract get optionalVariables(): string[];
+
+  /** Names of the placeholders used by the prompt */
+  abstract get placeholders(): string[];
+
   /**
    * Compiles the prompt by substituting variables and resolving placeholders.
    *
    * @param variables - Key-value pairs for variable substitution
    * @param placeholders - Key-value pairs for placeholder resolution
+   * @param options - Compile options, e.g. strict validation of the inputs
    * @returns The compiled prompt content
    */
   abstract compile(
     variables?: Record<string, string>,
     placeholders?: Record<string, any>,
+    options?: PromptCompileOptions,
   ): string | ChatMessage[] | (ChatMessageOrPlaceholder | any)[];
 
   /**
@@ -176,13 +196,18 @@ abstract class BasePromptClient {
  * Provides methods to compile text prompts with variable substitution
  * and convert them to LangChain-compatible formats.
  *
+ * @typeParam TVariables - Variables accepted by `compile`, see PromptTypeRegistry
+ *
  * @public
  */
-export class TextPromptClient extends BasePromptClient {
+export class TextPromptClient<
+  TVariables extends Record<string, string> = Record<string, string>,
+> extends BasePromptClient {
   /** The original prompt response from the API */
   public readonly promptResponse: Prompt.Text;
   /** The text content of the prompt */
   public readonly prompt: string;
+  private _variables?: MustacheVariables;
 
   /**
    * Creates a new TextPromptClient instance.
@@ -196,26 +221,82 @@ export class TextPromptClient extends BasePromptClient {
     this.prompt = prompt.prompt;
   }
 
+  /**
+   * Names of the mustache variables that must be provided to the prompt.
+   *
+   * @example
+   * ```typescript
+   * // If prompt is "Hello {{name}}, welcome to {{product}}!"
+   * prompt.variables; // ["name", "product"]
+   * ```
+   */
+  get variables(): string[] {
+    return this.getMustacheVariables().variables;
+  }
+
+  /**
+   * Names of the mustache variables that may be omitted.
+   *
+   * @example
+   * ```typescript
+   * // If prompt is "{{^user}}Guest{{/user}}{{#user}}{{name}}{{/user}}"
+   * prompt.optionalVariables; // ["user", "name"]
+   * ```
+   */
+  get optionalVariables(): string[] {
+    return this.getMustacheVariables().optionalVariables;
+  }
+
+  private getMustacheVariables(): MustacheVariables {
+    this._variables ??= extractMustacheVariables(this.prompt);
+
+    return this._variables;
+  }
+
+  /** Text prompts have no placeholders, always empty */
+  get placeholders(): string[] {
+    return [];
+  }
+
   /**
    * Compiles the text prompt by substituting variables.
    *
    * Uses Mustache templating to replace {{variable}} placeholders with provided values.
+   * Missing variables are rendered as empty strings unless `strict` is set.
    *
    * @param variables - Key-value pairs for variable substitution
-   * @param _placeholders - Ignored for text prompts
+   * @param placeholders - Ignored for text prompts, rejected in strict mode
+   * @param options - Compile options
+   * @param options.strict - Throw a PromptCompileError on missing or unknown variables
    * @returns The compiled text with variables substituted
+   * @throws {PromptCompileError} In strict mode, if the variables do not match the prompt
    *
    * @example
    * ```typescript
    * const prompt = await antsPlatform.prompt.get("greeting", { type: "text" });
    * const compiled = prompt.compile({ name: "Alice" });
    * // If prompt is "Hello {{name}}!", result is "Hello Alice!"
+   *
+   * prompt.compile({ nmae: "Alice" }, undefined, { strict: true });
+   * // Throws PromptCompileError: missing variables: name; unknown variables: nmae
    * ```
    */
   compile(
-    variables?: Record<string, string>,
-    _placeholders?: Record<string, any>,
+    variables?: TVariables,
+    placeholders?: Record<string, any>,
+    options?: PromptCompileOptions,
   ): string {
+    if (options?.strict) {
+      validateCompileInputs({
+        promptName: this.name,
+        variables: this.variables,
+        optionalVariables: this.optionalVariables,
+        placeholders: this.placeholders,
+        providedVariables: variables,
+        providedPlaceholders: placeholders,
+      });
+    }
+
     return mustache.render(this.promptResponse.prompt, variables ?? {});
   }
 
@@ -260,13 +341,20 @@ export class TextPromptClient extends BasePromptClient {
  * Provides methods to compile chat prompts with variable substitution and
  * placeholder resolution, and convert them to LangChain-compatible formats.
  *
+ * @typeParam TVariables - Variables accepted by `compile`, see PromptTypeRegistry
+ * @typeParam TPlaceholders - Placeholders accepted by `compile`, see PromptTypeRegistry
+ *
  * @public
  */
-export class ChatPromptClient extends BasePromptClient {
+export class ChatPromptClient<
+  TVariables extends Record<string, string> = Record<string, string>,
+  TPlaceholders extends Record<string, any> = Record<string, any>,
+> extends BasePromptClient {
   /** The original prompt response from the API */
   public readonly promptResponse: Prompt.Chat;
   /** The chat messages that make up the prompt */
   public readonly prompt: ChatMessageWithPlaceholders[];
+  private _variables?: MustacheVariables;
 
   /**
    * Creates a new ChatPromptClient instance.
@@ -304,16 +392,67 @@ export class ChatPromptClient extends BasePromptClient {
     });
   }
 
+  /**
+   * Names of the mustache variables that must be provided to the message contents.
+   */
+  get variables(): string[] {
+    return this.getMustacheVariables().variables;
+  }
+
+  /**
+   * Names of the mustache variables of the message contents that may be omitted.
+   */
+  get optionalVariables(): string[] {
+    return this.getMustacheVariables().optionalVariables;
+  }
+
+  private getMustacheVariables(): MustacheVariables {
+    if (!this._variables) {
+      const messageVariables = this.prompt.flatMap((item) =>
+        item.type === ChatMessageType.ChatMessage
+          ? [extractMustacheVariables(item.content)]
+          : [],
+      );
+      // Variables required by any message must be provided
+      const variables = [
+        ...new Set(messageVariables.flatMap((item) => item.variables)),
+      ];
+
+      this._variables = {
+        variables,
+        optionalVariables: [
+          ...new Set(
+            messageVariables.flatMap((item) => item.optionalVariables),
+          ),
+        ].filter((name) => !variables.includes(name)),
+      };
+    }
+
+    return this._variables;
+  }
+
+  /**
+   * Names of the placeholders in the prompt.
+   */
+  get placeholders(): string[] {
+    return this.prompt.flatMap((item) =>
+      item.type === ChatMessageType.Placeholder ? [item.name] : [],
+    );
+  }
+
   /**
    * Compiles the chat prompt by replacing placeholders and variables.
    *
    * First resolves placeholders with provided values, then applies variable substitution
    * to message content using Mustache templating. Unresolved placeholders remain
-   * as placeholder objects in the output.
+   * as placeholder objects in the output, unless `strict` is set.
    *
    * @param variables - Key-value pairs for Mustache variable substitution in message content
    * @param placeholders - Key-value pairs where keys are placeholder names and values are ChatMessage arrays
+   * @param options - Compile options
+   * @param options.strict - Throw a PromptCompileError on missing or unknown variables and placeholders
    * @returns Array of ChatMessage objects and unresolved placeholder objects
+   * @throws {PromptCompileError} In strict mode, if the inputs do not match the prompt
    *
    * @example
    * ```typescript
@@ -325,12 +464,24 @@ export class ChatPromptClient extends BasePromptClient {
    * ```
    */
   compile(
-    variables?: Record<string, string>,
-    placeholders?: Record<string, any>,
+    variables?: TVariables,
+    placeholders?: TPlaceholders,
+    options?: PromptCompileOptions,
   ): (ChatMessageOrPlaceholder | any)[] {
+    if (options?.strict) {
+      validateCompileInputs({
+        promptName: this.name,
+        variables: this.variables,
+        optionalVariables: this.optionalVariables,
+        placeholders: this.placeholders,
+        providedVariables: variables,
+        providedPlaceholders: placeholders,
+      });
+    }
+
     const messagesWithPlaceholdersReplaced: (ChatMessageOrPlaceholder | any)[] =
       [];
-    const placeholderValues = placeholders ?? {};
+    const placeholderValues: Record<string, any> = placeholders ?? {};
 
     for (const item of this.prompt) {
       if ("type" in item && item.type === ChatMessageType.Placeholder) {
@@ -5,6 +5,7 @@ import {
   PlaceholderMessage,
   Prompt,
   ChatMessage,
+  safeSetTimeout,
 } from "@antsplatform/core";
 
 import { AntsPlatformPromptCache } from "./promptCache.js";
@@ -16,8 +17,29 @@ import {
 import {
   ChatMessageType,
   CreateChatPromptBodyWithPlaceholders,
+  PromptCacheOptions,
+  PromptPlaceholders,
+  PromptVariables,
 } from "./types.js";
 
+/** Fraction of the TTL after which cached prompts are refreshed in the background */
+const BACKGROUND_REFRESH_RATIO = 0.8;
+
+type PromptFetchParams = {
+  name: string;
+  version?: number;
+  cacheTtlSeconds?: number;
+  label?: string;
+  maxRetries?: number;
+  fetchTimeoutMs?: number;
+};
+
+type BackgroundRefresh = {
+  params: PromptFetchParams;
+  timer: ReturnType<typeof setTimeout>;
+  accessed: boolean;
+};
+
 /**
  * Manager for prompt operations in Ants Platform.
  *
@@ -30,22 +52,31 @@ import {
 export class PromptManager {
   private cache: AntsPlatformPromptCache;
   private apiClient: AntsPlatformAPIClient;
+  private backgroundRefreshEnabled: boolean;
+  private backgroundRefreshes = new Map<string, BackgroundRefresh>();
 
   /**
    * Creates a new PromptManager instance.
    *
-   * @param params - Configuration object containing the API client
+   * @param params - Configuration object containing the API client and cache options
    * @internal
    */
-  constructor(params: { apiClient: AntsPlatformAPIClient }) {
-    const { apiClient } = params;
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    cache?: PromptCacheOptions;
+  }) {
+    const { apiClient, cache } = params;
 
     this.apiClient = apiClient;
-    this.cache = new AntsPlatformPromptCache();
+    this.cache = new AntsPlatformPromptCache({
+      store: cache?.store,
+      defaultTtlSeconds: cache?.defaultTtlSeconds,
+    });
+    this.backgroundRefreshEnabled = cache?.backgroundRefresh ?? false;
   }
 
   get logger() {
-    return getGlobalLogger();
+    return getGlobalLogger().forComponent("PromptManager");
   }
 
   /**
@@ -181,10 +212,10 @@ export class PromptManager {
    *
    * @param name - Name of the prompt to retrieve
    * @param options - Optional retrieval configuration
-   * @returns Promise that resolves to a TextPromptClient
+   * @returns Promise that resolves to a TextPromptClient, typed by the PromptTypeRegistry
    */
-  async get(
-    name: string,
+  async get<TName extends string>(
+    name: TName,
     options?: {
       /** Specific version to retrieve (defaults to latest) */
       version?: number;
@@ -201,17 +232,17 @@ export class PromptManager {
       /** Request timeout in milliseconds */
       fetchTimeoutMs?: number;
     },
-  ): Promise<TextPromptClient>;
+  ): Promise<TextPromptClient<PromptVariables<TName>>>;
 
   /**
    * Retrieves a chat prompt by name.
    *
    * @param name - Name of the prompt to retrieve
    * @param options - Optional retrieval configuration
-   * @returns Promise that resolves to a ChatPromptClient
+   * @returns Promise that resolves to a ChatPromptClient, typed by the PromptTypeRegistry
    */
-  async get(
-    name: string,
+  async get<TName extends string>(
+    name: TName,
     options?: {
       /** Specific version to retrieve (defaults to latest) */
       version?: number;
@@ -228,7 +259,9 @@ export class PromptManager {
       /** Request timeout in milliseconds */
       fetchTimeoutMs?: number;
     },
-  ): Promise<ChatPromptClient>;
+  ): Promise<
+    ChatPromptClient<PromptVariables<TName>, PromptPlaceholders<TName>>
+  >;
 
   /**
    * Retrieves a prompt by name with intelligent caching.
@@ -236,7 +269,8 @@ export class PromptManager {
    * This method implements sophisticated caching behavior:
    * - Fresh prompts are returned immediately from cache
    * - Expired prompts are returned from cache while being refreshed in background
-   * - Cache misses trigger immediate fetch with optional fallback support
+   * - Cache misses are looked up in the persistent cache store, if configured
+   * - Remaining misses trigger immediate fetch with optional fallback support
    *
    * @param name - Name of the prompt to retrieve
    * @param options - Optional retrieval configuration
@@ -285,10 +319,23 @@ export class PromptManager {
   ): Promise<AntsPlatformPromptClient> {
     const cacheKey = this.cache.createKey({
       name,
+      version: options?.version,
       label: options?.label,
     });
-    const cachedPrompt = this.cache.getIncludingExpired(cacheKey);
-    if (!cachedPrompt || options?.cacheTtlSeconds === 0) {
+    const cachedPrompt =
+      options?.cacheTtlSeconds === 0
+        ? null
+        : (this.cache.getIncludingExpired(cacheKey) ??
+          (await this.loadFromStore(cacheKey, {
+            name,
+            version: options?.version,
+            label: options?.label,
+            cacheTtlSeconds: options?.cacheTtlSeconds,
+            maxRetries: options?.maxRetries,
+            fetchTimeoutMs: options?.fetchTimeoutMs,
+          })));
+
+    if (!cachedPrompt) {
       try {
         return await this.fetchPromptAndUpdateCache({
           name,
@@ -297,7 +344,7 @@ export class PromptManager {
           cacheTtlSeconds: options?.cacheTtlSeconds,
           maxRetries: options?.maxRetries,
           fetchTimeoutMs: options?.fetchTimeoutMs,
-        });
+        }).finally(() => this.markAccessed(cacheKey));
       } catch (err) {
         if (options?.fallback) {
           const sharedFallbackParams = {
@@ -337,6 +384,8 @@ export class PromptManager {
       }
     }
 
+    this.markAccessed(cacheKey);
+
     if (cachedPrompt.isExpired) {
       // If the cache is not currently being refreshed, start refreshing it and register the promise in the cache
       if (!this.cache.isRefreshing(cacheKey)) {
@@ -361,14 +410,125 @@ export class PromptManager {
     return cachedPrompt.value;
   }
 
-  private async fetchPromptAndUpdateCache(params: {
-    name: string;
-    version?: number;
-    cacheTtlSeconds?: number;
-    label?: string;
-    maxRetries?: number;
-    fetchTimeoutMs?: number;
-  }): Promise<AntsPlatformPromptClient> {
+  /**
+   * Fetches prompts into the cache ahead of their first use, e.g. at application boot.
+   *
+   * Failures are logged and do not reject, so a missing prompt does not prevent
+   * startup. Subsequent `get` calls fetch such prompts on demand.
+   *
+   * @param prompts - Prompt names, or objects selecting a specific version or label
+   * @param options - Optional fetch configuration applied to all prompts
+   *
+   * @example
+   * ```typescript
+   * await antsPlatform.prompt.prefetch([
+   *   "greeting",
+   *   { name: "summarizer", label: "staging" },
+   *   { name: "classifier", version: 3 },
+   * ]);
+   * ```
+   */
+  async prefetch(
+    prompts: (string | { name: string; version?: number; label?: string })[],
+    options?: {
+      /** Cache TTL in seconds */
+      cacheTtlSeconds?: number;
+      /** Maximum retry attempts for failed requests */
+      maxRetries?: number;
+      /** Request timeout in milliseconds */
+      fetchTimeoutMs?: number;
+    },
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      prompts.map((prompt) =>
+        this.fetchPromptAndUpdateCache({
+          ...(typeof prompt === "string" ? { name: prompt } : prompt),
+          cacheTtlSeconds: options?.cacheTtlSeconds,
+          maxRetries: options?.maxRetries,
+          fetchTimeoutMs: options?.fetchTimeoutMs,
+        }),
+      ),
+    );
+
+    const failedCount = results.filter(
+      (result) => result.status === "rejected",
+    ).length;
+
+    if (failedCount > 0) {
+      this.logger.warn(
+        `Failed to prefetch ${failedCount} of ${prompts.length} prompts.`,
+      );
+    }
+  }
+
+  private async loadFromStore(cacheKey: string, params: PromptFetchParams) {
+    const item = await this.cache.loadFromStore(cacheKey);
+
+    if (item && !item.isExpired) {
+      this.scheduleBackgroundRefresh(cacheKey, params, item.expiresAt);
+    }
+
+    return item;
+  }
+
+  private markAccessed(cacheKey: string): void {
+    const refresh = this.backgroundRefreshes.get(cacheKey);
+
+    if (refresh) {
+      refresh.accessed = true;
+    }
+  }
+
+  private scheduleBackgroundRefresh(
+    cacheKey: string,
+    params: PromptFetchParams,
+    expiresAt: number,
+  ): void {
+    if (!this.backgroundRefreshEnabled) return;
+
+    const ttlMs =
+      (params.cacheTtlSeconds ?? this.cache.defaultTtlSeconds) * 1000;
+    const delayMs = Math.max(
+      0,
+      expiresAt - Date.now() - ttlMs * (1 - BACKGROUND_REFRESH_RATIO),
+    );
+
+    const existing = this.backgroundRefreshes.get(cacheKey);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const refresh: BackgroundRefresh = {
+      params,
+      accessed: existing?.accessed ?? false,
+      timer: safeSetTimeout(() => {
+        // Stop refreshing prompts that were not used since the last refresh
+        if (!refresh.accessed || this.cache.isRefreshing(cacheKey)) {
+          this.backgroundRefreshes.delete(cacheKey);
+
+          return;
+        }
+
+        refresh.accessed = false;
+
+        const refreshPromptPromise = this.fetchPromptAndUpdateCache(
+          params,
+        ).catch(() => {
+          this.backgroundRefreshes.delete(cacheKey);
+          this.logger.warn(
+            `Failed to refresh prompt cache '${cacheKey}' in background, stale cache will be used until next refresh succeeds.`,
+          );
+        });
+        this.cache.addRefreshingPromise(cacheKey, refreshPromptPromise);
+      }, delayMs),
+    };
+
+    this.backgroundRefreshes.set(cacheKey, refresh);
+  }
+
+  private async fetchPromptAndUpdateCache(
+    params: PromptFetchParams,
+  ): Promise<AntsPlatformPromptClient> {
     const cacheKey = this.cache.createKey(params);
 
     try {
@@ -402,6 +562,14 @@ export class PromptManager {
 
       this.cache.set(cacheKey, prompt, cacheTtlSeconds);
 
+      if (cacheTtlSeconds !== 0) {
+        this.scheduleBackgroundRefresh(
+          cacheKey,
+          params,
+          Date.now() + (cacheTtlSeconds ?? this.cache.defaultTtlSeconds) * 1000,
+        );
+      }
+
       return prompt;
     } catch (error) {
       this.logger.error(`Error fetching prompt '${cacheKey}':`, error);
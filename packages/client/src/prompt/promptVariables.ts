@@ -0,0 +1,182 @@
+import mustache from "mustache";
+
+/** Mustache token types that reference a variable */
+const VARIABLE_TOKEN_TYPES = new Set(["name", "&", "{", "#", "^"]);
+
+type MustacheToken = [string, string, number, number, MustacheToken[]?];
+
+/**
+ * Variables referenced by a mustache template.
+ *
+ * @internal
+ */
+export type MustacheVariables = {
+  /** Variables that must be provided to render the template */
+  variables: string[];
+  /** Variables that may be omitted, see {@link extractMustacheVariables} */
+  optionalVariables: string[];
+};
+
+/**
+ * Extracts the variables referenced by a mustache template.
+ *
+ * For dotted names such as `{{user.name}}` only the top-level variable is returned.
+ * Keys of inverted sections (`{{^user}}`) are optional, as are names inside a
+ * section (`{{#user}}{{name}}{{/user}}`), which may resolve from the section context.
+ *
+ * @param template - The mustache template
+ * @returns The required and optional variable names in order of first occurrence
+ *
+ * @internal
+ */
+export function extractMustacheVariables(template: string): MustacheVariables {
+  const names = new Set<string>();
+  const topLevelNames = new Set<string>();
+  const invertedSectionKeys = new Set<string>();
+
+  const visit = (tokens: MustacheToken[], inSection: boolean) => {
+    for (const [type, value, , , children] of tokens) {
+      if (VARIABLE_TOKEN_TYPES.has(type) && value !== ".") {
+        const name = value.split(".")[0];
+
+        names.add(name);
+        if (type === "^") {
+          invertedSectionKeys.add(name);
+        } else if (!inSection) {
+          topLevelNames.add(name);
+        }
+      }
+      if (children) {
+        visit(children, inSection || type === "#");
+      }
+    }
+  };
+
+  visit(mustache.parse(template) as MustacheToken[], false);
+
+  const isRequired = (name: string) =>
+    topLevelNames.has(name) && !invertedSectionKeys.has(name);
+
+  return {
+    variables: [...names].filter(isRequired),
+    optionalVariables: [...names].filter((name) => !isRequired(name)),
+  };
+}
+
+/**
+ * Error thrown when compiling a prompt in strict mode with missing or unknown
+ * variables or placeholders.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   prompt.compile({ nmae: "Alice" }, undefined, { strict: true });
+ * } catch (err) {
+ *   if (err instanceof PromptCompileError) {
+ *     console.log(err.missingVariables); // ["name"]
+ *     console.log(err.unknownVariables); // ["nmae"]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class PromptCompileError extends Error {
+  /** Name of the prompt that failed to compile */
+  public readonly promptName: string;
+  /** Variables used by the prompt but not provided */
+  public readonly missingVariables: string[];
+  /** Variables provided but not used by the prompt */
+  public readonly unknownVariables: string[];
+  /** Placeholders used by the prompt but not provided */
+  public readonly missingPlaceholders: string[];
+  /** Placeholders provided but not used by the prompt */
+  public readonly unknownPlaceholders: string[];
+
+  constructor(params: {
+    promptName: string;
+    missingVariables: string[];
+    unknownVariables: string[];
+    missingPlaceholders: string[];
+    unknownPlaceholders: string[];
+  }) {
+    const problems = [
+      ["missing variables", params.missingVariables],
+      ["unknown variables", params.unknownVariables],
+      ["missing placeholders", params.missingPlaceholders],
+      ["unknown placeholders", params.unknownPlaceholders],
+    ]
+      .filter(([, names]) => names.length > 0)
+      .map(([label, names]) => `${label}: ${(names as string[]).join(", ")}`);
+
+    super(
+      `Failed to compile prompt '${params.promptName}': ${problems.join("; ")}`,
+    );
+
+    this.name = "PromptCompileError";
+    this.promptName = params.promptName;
+    this.missingVariables = params.missingVariables;
+    this.unknownVariables = params.unknownVariables;
+    this.missingPlaceholders = params.missingPlaceholders;
+    this.unknownPlaceholders = params.unknownPlaceholders;
+  }
+}
+
+/**
+ * Throws a PromptCompileError if the provided values do not match the names
+ * expected by a prompt.
+ *
+ * @internal
+ */
+export function validateCompileInputs(params: {
+  promptName: string;
+  variables: string[];
+  optionalVariables: string[];
+  placeholders: string[];
+  providedVariables?: Record<string, unknown>;
+  providedPlaceholders?: Record<string, unknown>;
+}): void {
+  const diff = (
+    expected: string[],
+    optional: string[],
+    provided?: Record<string, unknown>,
+  ) => {
+    const providedNames = Object.keys(provided ?? {}).filter(
+      (name) => provided?.[name] !== undefined,
+    );
+
+    return {
+      missing: expected.filter((name) => !providedNames.includes(name)),
+      unknown: providedNames.filter(
+        (name) => !expected.includes(name) && !optional.includes(name),
+      ),
+    };
+  };
+
+  const variables = diff(
+    params.variables,
+    params.optionalVariables,
+    params.providedVariables,
+  );
+  const placeholders = diff(
+    params.placeholders,
+    [],
+    params.providedPlaceholders,
+  );
+
+  if (
+    variables.missing.length +
+      variables.unknown.length +
+      placeholders.missing.length +
+      placeholders.unknown.length >
+    0
+  ) {
+    throw new PromptCompileError({
+      promptName: params.promptName,
+      missingVariables: variables.missing,
+      unknownVariables: variables.unknown,
+      missingPlaceholders: placeholders.missing,
+      unknownPlaceholders: placeholders.unknown,
+    });
+  }
+}
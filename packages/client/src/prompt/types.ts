@@ -3,6 +3,7 @@ import {
   PlaceholderMessage,
   ChatMessageWithPlaceholders,
   CreatePromptRequest,
+  PromptCacheStore,
 } from "@antsplatform/core";
 
 /**
@@ -57,3 +58,98 @@ export type CreateChatPromptBodyWithPlaceholders = {
     /** Array of chat messages and/or placeholders */
     prompt: (ChatMessage | ChatMessageWithPlaceholders)[];
   };
+
+/**
+ * Configuration of the prompt cache.
+ *
+ * @public
+ */
+export type PromptCacheOptions = {
+  /**
+   * Persistent store in addition to the in-memory cache, e.g. `FilePromptCacheStore`
+   * from `@antsplatform/otel` or a custom Redis adapter.
+   */
+  store?: PromptCacheStore;
+  /**
+   * Default cache TTL in seconds, used if `cacheTtlSeconds` is not passed to `get`.
+   *
+   * @defaultValue 60
+   */
+  defaultTtlSeconds?: number;
+  /**
+   * Proactively refresh cached prompts in the background shortly before they expire,
+   * as long as they were used since the last refresh.
+   *
+   * @defaultValue false
+   */
+  backgroundRefresh?: boolean;
+};
+
+/**
+ * Options for compiling a prompt.
+ *
+ * @public
+ */
+export type PromptCompileOptions = {
+  /**
+   * Throw a `PromptCompileError` if variables or placeholders used by the prompt
+   * are missing, or if values are passed that the prompt does not use.
+   *
+   * @defaultValue false
+   */
+  strict?: boolean;
+};
+
+/**
+ * Registry of variable and placeholder types per prompt name.
+ *
+ * Empty by default. The code generated by `ants-platform prompts codegen` from
+ * `@antsplatform/cli` augments this interface, so that prompts retrieved via
+ * `antsPlatform.prompt.get` type-check their `compile` arguments.
+ *
+ * @example
+ * ```typescript
+ * declare module "@antsplatform/client" {
+ *   interface PromptTypeRegistry {
+ *     greeting: {
+ *       variables: { name: string };
+ *       placeholders: {};
+ *     };
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface PromptTypeRegistry {}
+
+/**
+ * Variables of a prompt registered in the PromptTypeRegistry, or any string
+ * variables for unregistered prompts.
+ *
+ * @public
+ */
+export type PromptVariables<TName extends string> =
+  TName extends keyof PromptTypeRegistry
+    ? PromptTypeRegistry[TName] extends {
+        variables: infer TVariables extends Record<string, string>;
+      }
+      ? TVariables
+      : Record<string, string>
+    : Record<string, string>;
+
+/**
+ * Placeholders of a prompt registered in the PromptTypeRegistry, or any
+ * placeholders for unregistered prompts.
+ *
+ * @public
+ */
+export type PromptPlaceholders<TName extends string> =
+  TName extends keyof PromptTypeRegistry
+    ? PromptTypeRegistry[TName] extends {
+        placeholders: infer TPlaceholders extends Record<string, any>;
+      }
+      ? TPlaceholders
+      : Record<string, any>
+    : Record<string, any>;
@@ -0,0 +1,337 @@
+import {
+  AntsPlatformAPIClient,
+  GetObservationsRequest,
+  GetScoresRequest,
+  GetScoresResponseData,
+  GetSessionsRequest,
+  GetTracesRequest,
+  ObservationLevel,
+  ObservationsView,
+  ScoreDataType,
+  ScoreSource,
+  Session,
+  TraceWithDetails,
+} from "@antsplatform/core";
+
+import { PaginatedQuery, toTimestamp } from "./paginatedQuery.js";
+
+export { PaginatedQuery } from "./paginatedQuery.js";
+
+/**
+ * Query builder for traces.
+ *
+ * @example
+ * ```typescript
+ * const traces = antsPlatform.query
+ *   .traces()
+ *   .user("user-123")
+ *   .tags("production")
+ *   .from(new Date("2026-01-01"));
+ *
+ * for await (const trace of traces) {
+ *   console.log(trace.id, trace.name);
+ * }
+ * ```
+ *
+ * @public
+ */
+export class TraceQuery extends PaginatedQuery<
+  TraceWithDetails,
+  GetTracesRequest
+> {
+  /** Only traces of the given user */
+  public user(userId: string): this {
+    return this.where({ userId });
+  }
+
+  /** Only traces of the given session */
+  public session(sessionId: string): this {
+    return this.where({ sessionId });
+  }
+
+  /** Only traces with the given name */
+  public name(name: string): this {
+    return this.where({ name });
+  }
+
+  /** Only traces having all of the given tags */
+  public tags(...tags: string[]): this {
+    return this.where({ tags });
+  }
+
+  /** Only traces in one of the given environments */
+  public environment(...environments: string[]): this {
+    return this.where({ environment: environments });
+  }
+
+  /** Only traces of the given release */
+  public release(release: string): this {
+    return this.where({ release });
+  }
+
+  /** Only traces of the given version */
+  public version(version: string): this {
+    return this.where({ version });
+  }
+
+  /** Only traces at or after the given time */
+  public from(date: Date | string): this {
+    return this.where({ fromTimestamp: toTimestamp(date) });
+  }
+
+  /** Only traces before the given time */
+  public to(date: Date | string): this {
+    return this.where({ toTimestamp: toTimestamp(date) });
+  }
+
+  /**
+   * Orders the traces by the given field.
+   *
+   * @param field - e.g. `timestamp`, `latency` or `totalCost`
+   * @param direction - Sort direction, descending by default
+   */
+  public orderBy(field: string, direction: "asc" | "desc" = "desc"): this {
+    return this.where({ orderBy: `${field}.${direction}` });
+  }
+}
+
+/**
+ * Query builder for observations.
+ *
+ * @example
+ * ```typescript
+ * const errors = await antsPlatform.query
+ *   .observations()
+ *   .type("GENERATION")
+ *   .level("ERROR")
+ *   .from("2026-01-01T00:00:00Z")
+ *   .toArray();
+ * ```
+ *
+ * @public
+ */
+export class ObservationQuery extends PaginatedQuery<
+  ObservationsView,
+  GetObservationsRequest
+> {
+  /** Only observations with the given name */
+  public name(name: string): this {
+    return this.where({ name });
+  }
+
+  /** Only observations of traces of the given user */
+  public user(userId: string): this {
+    return this.where({ userId });
+  }
+
+  /** Only observations of the given type, e.g. `GENERATION` or `SPAN` */
+  public type(type: string): this {
+    return this.where({ type });
+  }
+
+  /** Only observations of the given trace */
+  public trace(traceId: string): this {
+    return this.where({ traceId });
+  }
+
+  /** Only observations with the given level */
+  public level(level: ObservationLevel): this {
+    return this.where({ level });
+  }
+
+  /** Only children of the given observation */
+  public parent(parentObservationId: string): this {
+    return this.where({ parentObservationId });
+  }
+
+  /** Only observations in one of the given environments */
+  public environment(...environments: string[]): this {
+    return this.where({ environment: environments });
+  }
+
+  /** Only observations of the given version */
+  public version(version: string): this {
+    return this.where({ version });
+  }
+
+  /** Only observations started at or after the given time */
+  public from(date: Date | string): this {
+    return this.where({ fromStartTime: toTimestamp(date) });
+  }
+
+  /** Only observations started before the given time */
+  public to(date: Date | string): this {
+    return this.where({ toStartTime: toTimestamp(date) });
+  }
+}
+
+/**
+ * Query builder for sessions.
+ *
+ * @public
+ */
+export class SessionQuery extends PaginatedQuery<Session, GetSessionsRequest> {
+  /** Only sessions in one of the given environments */
+  public environment(...environments: string[]): this {
+    return this.where({ environment: environments });
+  }
+
+  /** Only sessions created at or after the given time */
+  public from(date: Date | string): this {
+    return this.where({ fromTimestamp: toTimestamp(date) });
+  }
+
+  /** Only sessions created before the given time */
+  public to(date: Date | string): this {
+    return this.where({ toTimestamp: toTimestamp(date) });
+  }
+}
+
+/**
+ * Query builder for scores.
+ *
+ * @example
+ * ```typescript
+ * const lowScores = antsPlatform.query
+ *   .scores()
+ *   .name("accuracy")
+ *   .value("<", 0.5)
+ *   .maxItems(100);
+ * ```
+ *
+ * @public
+ */
+export class ScoreQuery extends PaginatedQuery<
+  GetScoresResponseData,
+  GetScoresRequest
+> {
+  /** Only scores with the given name */
+  public name(name: string): this {
+    return this.where({ name });
+  }
+
+  /** Only scores of traces of the given user */
+  public user(userId: string): this {
+    return this.where({ userId });
+  }
+
+  /** Only scores from the given source */
+  public source(source: ScoreSource): this {
+    return this.where({ source });
+  }
+
+  /** Only scores of the given data type */
+  public dataType(dataType: ScoreDataType): this {
+    return this.where({ dataType });
+  }
+
+  /** Only scores of the given score config */
+  public config(configId: string): this {
+    return this.where({ configId });
+  }
+
+  /** Only scores of the given annotation queue */
+  public queue(queueId: string): this {
+    return this.where({ queueId });
+  }
+
+  /** Only scores of traces having all of the given tags */
+  public traceTags(...tags: string[]): this {
+    return this.where({ traceTags: tags });
+  }
+
+  /** Only scores in one of the given environments */
+  public environment(...environments: string[]): this {
+    return this.where({ environment: environments });
+  }
+
+  /** Only scores whose value compares to the given value */
+  public value(
+    operator: "<" | ">" | "<=" | ">=" | "!=" | "=",
+    value: number,
+  ): this {
+    return this.where({ operator, value });
+  }
+
+  /** Only scores created at or after the given time */
+  public from(date: Date | string): this {
+    return this.where({ fromTimestamp: toTimestamp(date) });
+  }
+
+  /** Only scores created before the given time */
+  public to(date: Date | string): this {
+    return this.where({ toTimestamp: toTimestamp(date) });
+  }
+}
+
+/**
+ * Manager for querying traces, observations, sessions and scores.
+ *
+ * Each method returns a new query builder. Set filters with its fluent
+ * methods, then iterate over the results with `for await`, collect them
+ * with `toArray` or stream them as JSON Lines with `toJsonl`. Pages are
+ * fetched automatically.
+ *
+ * @public
+ */
+export class QueryManager {
+  private apiClient: AntsPlatformAPIClient;
+
+  /**
+   * Creates a new QueryManager instance.
+   *
+   * @param params - Configuration object containing the API client
+   * @internal
+   */
+  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+    this.apiClient = params.apiClient;
+  }
+
+  /**
+   * Creates a query for traces.
+   *
+   * @returns A query builder for traces
+   */
+  public traces(): TraceQuery {
+    return new TraceQuery({
+      request: {},
+      fetchPage: (request) => this.apiClient.trace.list(request),
+    });
+  }
+
+  /**
+   * Creates a query for observations.
+   *
+   * @returns A query builder for observations
+   */
+  public observations(): ObservationQuery {
+    return new ObservationQuery({
+      request: {},
+      fetchPage: (request) => this.apiClient.observations.getMany(request),
+    });
+  }
+
+  /**
+   * Creates a query for sessions.
+   *
+   * @returns A query builder for sessions
+   */
+  public sessions(): SessionQuery {
+    return new SessionQuery({
+      request: {},
+      fetchPage: (request) => this.apiClient.sessions.list(request),
+    });
+  }
+
+  /**
+   * Creates a query for scores.
+   *
+   * @returns A query builder for scores
+   */
+  public scores(): ScoreQuery {
+    return new ScoreQuery({
+      request: {},
+      fetchPage: (request) => this.apiClient.scoreV2.get(request),
+    });
+  }
+}
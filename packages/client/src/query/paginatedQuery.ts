@@ -0,0 +1,188 @@
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_CONCURRENCY = 1;
+
+/**
+ * A page of results as returned by the paginated endpoints of the API.
+ *
+ * @internal
+ */
+export type QueryPage<TItem> = {
+  data: TItem[];
+  meta: { totalPages: number };
+};
+
+/**
+ * Base class of the query builders, auto-paging through the results of a
+ * paginated endpoint.
+ *
+ * Queries are `AsyncIterable`s of their results, so they can be consumed with
+ * `for await`. Pages are fetched lazily, up to `concurrency` at a time, and
+ * always yielded in order. Rate-limited requests (HTTP 429) are retried by
+ * the API client, which waits as indicated by the `Retry-After` header. Use
+ * the `rateLimit` option of the client to stay below the rate limit when
+ * fetching pages in parallel.
+ *
+ * @public
+ */
+export abstract class PaginatedQuery<
+  TItem,
+  TRequest extends { page?: number; limit?: number },
+> implements AsyncIterable<TItem> {
+  protected request: TRequest;
+  private fetchPage: (request: TRequest) => Promise<QueryPage<TItem>>;
+  private pageSizeValue = DEFAULT_PAGE_SIZE;
+  private concurrencyValue = DEFAULT_CONCURRENCY;
+  private maxItemsValue?: number;
+
+  /** @internal */
+  constructor(params: {
+    fetchPage: (request: TRequest) => Promise<QueryPage<TItem>>;
+    request: TRequest;
+  }) {
+    this.fetchPage = params.fetchPage;
+    this.request = params.request;
+  }
+
+  /**
+   * Sets the number of results fetched per request.
+   *
+   * @param pageSize - Results per page, 50 by default
+   */
+  public pageSize(pageSize: number): this {
+    this.pageSizeValue = pageSize;
+
+    return this;
+  }
+
+  /**
+   * Sets the number of pages fetched in parallel.
+   *
+   * @param concurrency - Maximum number of requests in flight, 1 by default
+   */
+  public concurrency(concurrency: number): this {
+    this.concurrencyValue = Math.max(1, concurrency);
+
+    return this;
+  }
+
+  /**
+   * Stops the query after the given number of results.
+   *
+   * @param maxItems - Maximum number of results to return
+   */
+  public maxItems(maxItems: number): this {
+    this.maxItemsValue = maxItems;
+
+    return this;
+  }
+
+  /**
+   * Iterates over the pages of results.
+   */
+  public async *pages(): AsyncGenerator<TItem[]> {
+    const maxItems = this.maxItemsValue ?? Infinity;
+    let count = 0;
+
+    const take = (page: TItem[]) => {
+      const items = page.slice(0, maxItems - count);
+      count += items.length;
+
+      return items;
+    };
+
+    const first = await this.fetchPageNumber(1);
+    yield take(first.data);
+
+    const inFlight: Promise<QueryPage<TItem>>[] = [];
+    let nextPage = 2;
+
+    while (count < maxItems) {
+      while (
+        nextPage <= first.meta.totalPages &&
+        inFlight.length < this.concurrencyValue &&
+        count + inFlight.length * this.pageSizeValue < maxItems
+      ) {
+        const promise = this.fetchPageNumber(nextPage++);
+        // Pages still in flight when iteration stops are never awaited
+        promise.catch(() => {});
+        inFlight.push(promise);
+      }
+
+      const next = inFlight.shift();
+      if (!next) return;
+
+      const page = await next;
+      yield take(page.data);
+    }
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<TItem> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Collects all results into an array.
+   *
+   * @returns The results of the query
+   */
+  public async toArray(): Promise<TItem[]> {
+    const results: TItem[] = [];
+    for await (const page of this.pages()) {
+      results.push(...page);
+    }
+
+    return results;
+  }
+
+  /**
+   * Iterates over the results as JSON Lines, one newline-terminated JSON
+   * object per result.
+   *
+   * @example
+   * ```typescript
+   * import { createWriteStream } from "node:fs";
+   * import { Readable } from "node:stream";
+   *
+   * Readable.from(antsPlatform.query.traces().toJsonl()).pipe(
+   *   createWriteStream("traces.jsonl"),
+   * );
+   * ```
+   */
+  public async *toJsonl(): AsyncGenerator<string> {
+    for await (const item of this) {
+      yield JSON.stringify(item) + "\n";
+    }
+  }
+
+  /**
+   * Sets fields of the request, ignoring undefined values.
+   */
+  protected where(fields: Partial<TRequest>): this {
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        (this.request as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    return this;
+  }
+
+  private fetchPageNumber(page: number): Promise<QueryPage<TItem>> {
+    return this.fetchPage({
+      ...this.request,
+      page,
+      limit: this.pageSizeValue,
+    });
+  }
+}
+
+/**
+ * Converts a date to the ISO 8601 string expected by the API.
+ *
+ * @internal
+ */
+export function toTimestamp(date: Date | string | undefined) {
+  return date instanceof Date ? date.toISOString() : date;
+}
@@ -1,17 +1,50 @@
 import {
   AntsPlatformAPIClient,
+  ExportBuffer,
   IngestionEvent,
   getEnv,
   generateUUID,
   ScoreBody,
   getGlobalLogger,
-  safeSetTimeout,
   IngestionResponse,
 } from "@antsplatform/core";
 import { Span, trace } from "@opentelemetry/api";
 
+import { IngestionQueue } from "../ingestion/ingestionQueue.js";
+
+import {
+  ScoreDeliveryError,
+  ScoreDeliveryFailureReason,
+  ScoreDeliveryOptions,
+  ScoreDeliveryResult,
+} from "./scoreDelivery.js";
+import {
+  ScoreConfigCache,
+  ScoreValidationError,
+  ScoreValidationOptions,
+  validateScore,
+} from "./scoreValidation.js";
+
+export { ScoreDeliveryError } from "./scoreDelivery.js";
+export type {
+  ScoreDeliveryFailureReason,
+  ScoreDeliveryOptions,
+  ScoreDeliveryResult,
+} from "./scoreDelivery.js";
+export { ScoreValidationError } from "./scoreValidation.js";
+export type { ScoreValidationOptions } from "./scoreValidation.js";
+
 const MAX_QUEUE_SIZE = 100_000; // prevent memory leaks
-const MAX_BATCH_SIZE = 100;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_RETRY_DELAY_MS = 1_000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+
+type ScoreDeliveryFailure = {
+  reason: ScoreDeliveryFailureReason;
+  message: string;
+  status?: number;
+  cause?: unknown;
+};
 
 /**
  * Manager for creating and batching score events in AntsPlatform.
@@ -23,33 +56,88 @@ const MAX_BATCH_SIZE = 100;
  * @public
  */
 export class ScoreManager {
-  private apiClient: AntsPlatformAPIClient;
-  private eventQueue: IngestionEvent[] = [];
-  private flushPromise: Promise<void> | null = null;
-  private flushTimer: any = null;
-  private flushAtCount: number;
-  private flushIntervalSeconds: number;
+  private queue: IngestionQueue;
+  private exportBuffer?: ExportBuffer;
+  private replayPromise?: Promise<void>;
+  private validation?: ScoreValidationOptions;
+  private configCache: ScoreConfigCache;
+  private unvalidatedEventIds = new Set<string>();
+  private delivery: ScoreDeliveryOptions &
+    Required<
+      Pick<
+        ScoreDeliveryOptions,
+        | "maxRetries"
+        | "initialRetryDelayMs"
+        | "maxRetryDelayMs"
+        | "maxQueueSize"
+        | "dropPolicy"
+      >
+    >;
+  private deliveryWaiters = new Map<
+    string,
+    (result: ScoreDeliveryResult) => void
+  >();
+  private capacityWaiters: (() => void)[] = [];
 
   /**
    * Creates a new ScoreManager instance.
    *
-   * @param params - Configuration object containing the API client
+   * @param params - Configuration object containing the API client, optional export buffer, score validation and delivery options
    * @internal
    */
-  constructor(params: { apiClient: AntsPlatformAPIClient }) {
-    this.apiClient = params.apiClient;
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    exportBuffer?: ExportBuffer;
+    validation?: ScoreValidationOptions;
+    delivery?: ScoreDeliveryOptions;
+  }) {
+    this.exportBuffer = params.exportBuffer;
+    this.validation = params.validation;
+    this.delivery = {
+      ...params.delivery,
+      maxRetries: params.delivery?.maxRetries ?? DEFAULT_MAX_RETRIES,
+      initialRetryDelayMs:
+        params.delivery?.initialRetryDelayMs ?? DEFAULT_INITIAL_RETRY_DELAY_MS,
+      maxRetryDelayMs:
+        params.delivery?.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+      maxQueueSize: params.delivery?.maxQueueSize ?? MAX_QUEUE_SIZE,
+      dropPolicy: params.delivery?.dropPolicy ?? "newest",
+    };
+    this.configCache = new ScoreConfigCache({
+      apiClient: params.apiClient,
+      ttlSeconds: params.validation?.configCacheTtlSeconds,
+    });
 
-    const envFlushAtCount = getEnv("ANTS_PLATFORM_FLUSH_AT");
-    const envFlushIntervalSeconds = getEnv("ANTS_PLATFORM_FLUSH_INTERVAL");
+    if (this.validation) {
+      this.configCache.load().catch(() => {});
+    }
+
+    this.queue = new IngestionQueue({
+      apiClient: params.apiClient,
+      component: "ScoreManager",
+      eventName: "score",
+      maxRetries: this.delivery.maxRetries,
+      initialRetryDelayMs: this.delivery.initialRetryDelayMs,
+      maxRetryDelayMs: this.delivery.maxRetryDelayMs,
+      beforeFlush: async () => {
+        await this.replayPromise;
+        await this.validatePendingScores();
+      },
+      onDrained: () => {
+        this.capacityWaiters.splice(0).forEach((resolve) => resolve());
+      },
+      onResponse: (response) => this.acknowledgeDelivered(response),
+      onDelivered: (event) => this.settle(event),
+      onFailed: (event, failure) => this.settle(event, failure),
+    });
 
-    this.flushAtCount = envFlushAtCount ? Number(envFlushAtCount) : 10;
-    this.flushIntervalSeconds = envFlushIntervalSeconds
-      ? Number(envFlushIntervalSeconds)
-      : 1;
+    if (this.exportBuffer) {
+      this.replayPromise = this.replayExportBuffer(this.exportBuffer);
+    }
   }
 
   get logger() {
-    return getGlobalLogger();
+    return getGlobalLogger().forComponent("ScoreManager");
   }
 
   /**
@@ -59,7 +147,16 @@ export class ScoreManager {
    * automatically sent when the queue reaches the flush threshold or after
    * the flush interval expires.
    *
+   * If score validation is enabled, the score is checked against the score
+   * config with the same name and its `configId` and `dataType` are filled
+   * in. Invalid scores are thrown or reported depending on the validation mode.
+   *
+   * With the `block` drop policy and a full queue, the score is queued once
+   * there is room. Validation errors of such scores are logged instead of
+   * thrown.
+   *
    * @param data - The score data to create
+   * @throws {ScoreValidationError} If the score is invalid and the validation mode is `throw`
    *
    * @example
    * ```typescript
@@ -72,36 +169,274 @@ export class ScoreManager {
    * ```
    */
   public create(data: ScoreBody): void {
-    const scoreData: ScoreBody = {
-      ...data,
-      id: data.id ?? generateUUID(),
-      environment:
-        data.environment ?? getEnv("ANTS_PLATFORM_TRACING_ENVIRONMENT"),
-    };
+    if (
+      this.delivery.dropPolicy === "block" &&
+      this.queue.events.length >= this.delivery.maxQueueSize
+    ) {
+      this.enqueueWhenRoom(data).catch((err) => {
+        this.logger.error("Failed to create score:", err);
+      });
+
+      return;
+    }
+
+    this.enqueue(data);
+  }
+
+  /**
+   * Creates a score like `create` and resolves with its delivery outcome.
+   *
+   * Use this to know in code whether a score was accepted by the API. With
+   * the `block` drop policy, waits for room in the queue before queuing.
+   *
+   * @param data - The score data to create
+   * @returns Promise that resolves once the score is delivered or finally failed
+   * @throws {ScoreValidationError} If the score is invalid and the validation mode is `throw`
+   *
+   * @example
+   * ```typescript
+   * const result = await antsPlatform.score.send({
+   *   name: "accuracy",
+   *   value: 0.92,
+   *   traceId,
+   * });
+   *
+   * if (result.status === "failed") {
+   *   console.error(result.error.reason, result.error.message);
+   * }
+   * ```
+   */
+  public async send(data: ScoreBody): Promise<ScoreDeliveryResult> {
+    return new Promise((resolve, reject) => {
+      if (this.delivery.dropPolicy === "block") {
+        this.enqueueWhenRoom(data, resolve).catch(reject);
+      } else {
+        this.enqueue(data, resolve);
+      }
+    });
+  }
 
+  /**
+   * Queues a score once the queue has room, for the `block` drop policy.
+   */
+  private async enqueueWhenRoom(
+    data: ScoreBody,
+    onResult?: (result: ScoreDeliveryResult) => void,
+  ): Promise<void> {
+    while (this.queue.events.length >= this.delivery.maxQueueSize) {
+      await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
+    }
+
+    this.enqueue(data, onResult);
+  }
+
+  private enqueue(
+    data: ScoreBody,
+    onResult?: (result: ScoreDeliveryResult) => void,
+  ): void {
     const scoreIngestionEvent: IngestionEvent = {
       id: generateUUID(),
       type: "score-create",
       timestamp: new Date().toISOString(),
-      body: scoreData,
+      body: {
+        ...data,
+        id: data.id ?? generateUUID(),
+        environment:
+          data.environment ?? getEnv("ANTS_PLATFORM_TRACING_ENVIRONMENT"),
+      },
     };
 
-    if (this.eventQueue.length >= MAX_QUEUE_SIZE) {
+    const validateLater = this.validation && !this.configCache.isLoaded;
+    if (this.validation && !validateLater) {
+      const score = this.checkScore(
+        scoreIngestionEvent.body as ScoreBody,
+        true,
+      );
+      if (onResult) {
+        this.deliveryWaiters.set(scoreIngestionEvent.id, onResult);
+      }
+      if (!score) {
+        this.settle(scoreIngestionEvent, {
+          reason: "invalid",
+          message: "score does not match its score config",
+        });
+
+        return;
+      }
+
+      scoreIngestionEvent.body = score;
+    } else if (onResult) {
+      this.deliveryWaiters.set(scoreIngestionEvent.id, onResult);
+    }
+
+    const { maxQueueSize, dropPolicy } = this.delivery;
+    if (this.queue.events.length >= maxQueueSize) {
+      if (dropPolicy !== "oldest") {
+        this.logger.error(
+          `Score queue is at max size ${maxQueueSize}. Dropping score.`,
+        );
+        this.settle(scoreIngestionEvent, {
+          reason: "queue_full",
+          message: `score queue is at max size ${maxQueueSize}`,
+        });
+
+        return;
+      }
+
+      const [dropped] = this.queue.events.splice(0, 1);
       this.logger.error(
-        `Score queue is at max size ${MAX_QUEUE_SIZE}. Dropping score.`,
+        `Score queue is at max size ${maxQueueSize}. Dropping oldest score.`,
       );
-      return;
+      this.unvalidatedEventIds.delete(dropped.id);
+      this.acknowledgeDropped([dropped.id]);
+      this.settle(dropped, {
+        reason: "queue_full",
+        message: `score queue is at max size ${maxQueueSize}, dropped as oldest score`,
+      });
+    }
+
+    if (validateLater) {
+      this.unvalidatedEventIds.add(scoreIngestionEvent.id);
+    }
+
+    this.exportBuffer
+      ?.append([
+        {
+          id: scoreIngestionEvent.id,
+          kind: "ingestion",
+          payload: scoreIngestionEvent,
+        },
+      ])
+      .catch((err) => {
+        this.logger.warn("Failed to persist score in export buffer:", err);
+      });
+
+    this.queue.push(scoreIngestionEvent);
+  }
+
+  /**
+   * Reports the final outcome of a score to the delivery callbacks and to
+   * the caller of `send`.
+   */
+  private settle(event: IngestionEvent, failure?: ScoreDeliveryFailure) {
+    const score = event.body as ScoreBody;
+    const onResult = this.deliveryWaiters.get(event.id);
+    this.deliveryWaiters.delete(event.id);
+
+    try {
+      if (!failure) {
+        this.delivery.onDelivery?.(score);
+        onResult?.({ status: "delivered", score });
+
+        return;
+      }
+
+      const error = new ScoreDeliveryError({ score, ...failure });
+      this.delivery.onError?.(error);
+      onResult?.({ status: "failed", score, error });
+    } catch (err) {
+      this.logger.warn("Score delivery callback failed:", err);
+    }
+  }
+
+  /**
+   * Loads the score configs of the project used for score validation.
+   *
+   * Scores created before the configs are loaded can only be validated when
+   * they are flushed. Await this method before creating scores to validate
+   * them synchronously, e.g. to make `create` throw for invalid scores.
+   *
+   * @returns Promise that resolves when the score configs are loaded
+   *
+   * @example
+   * ```typescript
+   * const antsPlatform = new AntsPlatformClient({
+   *   scoreValidation: { mode: "throw" },
+   * });
+   * await antsPlatform.score.loadConfigs();
+   *
+   * antsPlatform.score.create({ name: "accuracy", value: 1.5, traceId }); // throws
+   * ```
+   */
+  public async loadConfigs(): Promise<void> {
+    await this.configCache.load();
+  }
+
+  /**
+   * Validates a score against its config.
+   *
+   * @returns The score with config id and data type filled in, or undefined if it is invalid and was reported
+   */
+  private checkScore(
+    score: ScoreBody,
+    canThrow: boolean,
+  ): ScoreBody | undefined {
+    const { score: completed, problems } = validateScore(
+      score,
+      this.configCache.get(score),
+      { requireConfig: this.validation?.requireConfig },
+    );
+    if (problems.length === 0) {
+      return completed;
+    }
+
+    const error = new ScoreValidationError({ score, problems });
+    if (canThrow && this.validation?.mode === "throw") {
+      throw error;
+    }
+
+    this.logger.error(`${error.message}. Dropping score.`);
+    try {
+      this.validation?.onInvalidScore?.(error);
+    } catch (err) {
+      this.logger.warn("onInvalidScore callback failed:", err);
     }
+  }
 
-    this.eventQueue.push(scoreIngestionEvent);
+  private async validatePendingScores() {
+    if (this.unvalidatedEventIds.size === 0) return;
 
-    if (this.eventQueue.length >= this.flushAtCount) {
-      this.flushPromise = this.flush();
-    } else if (!this.flushTimer) {
-      this.flushTimer = safeSetTimeout(() => {
-        this.flushPromise = this.flush();
-      }, this.flushIntervalSeconds * 1_000);
+    try {
+      await this.configCache.load();
+    } catch {
+      this.logger.warn(
+        "Score configs could not be loaded, sending scores without validation.",
+      );
+      this.unvalidatedEventIds.clear();
+
+      return;
     }
+
+    const droppedIds: string[] = [];
+    this.queue.events = this.queue.events.filter((event) => {
+      if (!this.unvalidatedEventIds.has(event.id)) return true;
+
+      const score = this.checkScore(event.body as ScoreBody, false);
+      if (!score) {
+        droppedIds.push(event.id);
+        this.settle(event, {
+          reason: "invalid",
+          message: "score does not match its score config",
+        });
+
+        return false;
+      }
+
+      event.body = score;
+
+      return true;
+    });
+    this.unvalidatedEventIds.clear();
+
+    this.acknowledgeDropped(droppedIds);
+  }
+
+  private acknowledgeDropped(eventIds: string[]) {
+    if (!this.exportBuffer || eventIds.length === 0) return;
+
+    this.exportBuffer.ack(eventIds).catch((err) => {
+      this.logger.warn("Failed to acknowledge scores in export buffer:", err);
+    });
   }
 
   /**
@@ -263,40 +598,42 @@ export class ScoreManager {
     });
   }
 
-  private async handleFlush() {
+  private async replayExportBuffer(exportBuffer: ExportBuffer) {
     try {
-      if (this.flushTimer) {
-        clearTimeout(this.flushTimer);
-        this.flushTimer = null;
-      }
+      const records = await exportBuffer.pending("ingestion");
+      if (records.length === 0) return;
 
-      const promises: Promise<IngestionResponse | void>[] = [];
-
-      while (this.eventQueue.length > 0) {
-        const batch = this.eventQueue.splice(0, MAX_BATCH_SIZE);
-
-        promises.push(
-          this.apiClient.ingestion
-            .batch({ batch })
-            .then((res) => {
-              if (res.errors?.length > 0) {
-                this.logger.error("Error ingesting scores:", res.errors);
-              }
-            })
-            .catch((err) => {
-              this.logger.error("Failed to export score batch:", err);
-            }),
-        );
-      }
+      this.logger.info(
+        `Replaying ${records.length} undelivered score event(s) from export buffer.`,
+      );
+
+      const events = records
+        .map((record) => record.payload as IngestionEvent)
+        .slice(0, this.delivery.maxQueueSize - this.queue.events.length);
 
-      await Promise.all(promises);
+      this.queue.events.unshift(...events);
+      this.queue.scheduleFlush();
     } catch (err) {
-      this.logger.error("Error flushing Score Manager: ", err);
-    } finally {
-      this.flushPromise = null;
+      this.logger.error("Failed to replay score export buffer:", err);
     }
   }
 
+  private acknowledgeDelivered(response: IngestionResponse) {
+    if (!this.exportBuffer) return;
+
+    // Client errors will fail again on replay, so only keep server errors buffered
+    const deliveredIds = [
+      ...(response.successes ?? []).map((success) => success.id),
+      ...(response.errors ?? [])
+        .filter((error) => error.status < 500 && error.status !== 429)
+        .map((error) => error.id),
+    ];
+
+    this.exportBuffer.ack(deliveredIds).catch((err) => {
+      this.logger.warn("Failed to acknowledge scores in export buffer:", err);
+    });
+  }
+
   /**
    * Flushes all pending score events to the AntsPlatform API.
    *
@@ -312,7 +649,7 @@ export class ScoreManager {
    * ```
    */
   public async flush() {
-    return this.flushPromise ?? this.handleFlush();
+    return this.queue.flush();
   }
 
   /**
@@ -0,0 +1,198 @@
+import {
+  AntsPlatformAPIError,
+  AntsPlatformAPITimeoutError,
+  ScoreBody,
+} from "@antsplatform/core";
+
+/**
+ * Options for delivering scores to the API: retries, queue limits and
+ * callbacks with the outcome of each score.
+ *
+ * @public
+ */
+export type ScoreDeliveryOptions = {
+  /**
+   * Number of times a batch or score is retried after a retryable failure,
+   * i.e. network errors, timeouts, 429 and 5xx responses. Score requests
+   * are not retried by the API client itself.
+   *
+   * @defaultValue 3
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry, doubled for each further retry.
+   *
+   * @defaultValue 1000
+   */
+  initialRetryDelayMs?: number;
+  /**
+   * Maximum delay between retries.
+   *
+   * @defaultValue 30000
+   */
+  maxRetryDelayMs?: number;
+  /**
+   * Maximum number of scores waiting to be sent.
+   *
+   * @defaultValue 100000
+   */
+  maxQueueSize?: number;
+  /**
+   * What to do when a score is created while the queue is full:
+   *
+   * - `newest`: drop the new score
+   * - `oldest`: drop the oldest queued score to make room
+   * - `block`: wait until there is room. `send` waits before queuing the
+   *   score, `create` returns right away and queues the score once there is
+   *   room
+   *
+   * @defaultValue "newest"
+   */
+  dropPolicy?: "newest" | "oldest" | "block";
+  /** Called for each score accepted by the API */
+  onDelivery?: (score: ScoreBody) => void;
+  /** Called for each score that will not be delivered */
+  onError?: (error: ScoreDeliveryError) => void;
+};
+
+/**
+ * Reason a score was not delivered.
+ *
+ * - `queue_full`: dropped because the queue was full
+ * - `invalid`: dropped by score validation
+ * - `rejected`: rejected by the API with a non-retryable error
+ * - `retries_exhausted`: still failing after all retries
+ *
+ * @public
+ */
+export type ScoreDeliveryFailureReason =
+  "queue_full" | "invalid" | "rejected" | "retries_exhausted";
+
+/**
+ * Error describing why a score was not delivered.
+ *
+ * @public
+ */
+export class ScoreDeliveryError extends Error {
+  /** The score that was not delivered */
+  public readonly score: ScoreBody;
+  /** Why the score was not delivered */
+  public readonly reason: ScoreDeliveryFailureReason;
+  /** HTTP status of the last failed attempt, if any */
+  public readonly status?: number;
+  /** Underlying error of the last failed attempt, if any */
+  public readonly cause?: unknown;
+
+  constructor(params: {
+    score: ScoreBody;
+    reason: ScoreDeliveryFailureReason;
+    message: string;
+    status?: number;
+    cause?: unknown;
+  }) {
+    super(`Score '${params.score.name}' was not delivered: ${params.message}`);
+
+    this.name = "ScoreDeliveryError";
+    this.score = params.score;
+    this.reason = params.reason;
+    this.status = params.status;
+    this.cause = params.cause;
+  }
+}
+
+/**
+ * Outcome of a score sent with `ScoreManager.send`.
+ *
+ * @public
+ */
+export type ScoreDeliveryResult =
+  | { status: "delivered"; score: ScoreBody }
+  | { status: "failed"; score: ScoreBody; error: ScoreDeliveryError };
+
+// Messages of the errors fetch rejects with on network failures in Node.js
+// and browsers, kept as the message of the API client error
+const NETWORK_ERROR_MESSAGES = new Set([
+  "fetch failed",
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+  "Network request failed",
+]);
+
+// Codes of Node.js socket and DNS errors
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function isNetworkError(err: unknown): boolean {
+  if (!(err instanceof Error)) {
+    return false;
+  }
+
+  const code = (err as { code?: unknown }).code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  if (err instanceof TypeError || err instanceof AntsPlatformAPIError) {
+    return NETWORK_ERROR_MESSAGES.has(err.message) || isNetworkError(err.cause);
+  }
+
+  return isNetworkError(err.cause);
+}
+
+/**
+ * Returns whether a failed ingestion request may succeed when retried, i.e.
+ * it timed out, failed with a network error or with a transient HTTP status.
+ * Other errors, e.g. an open circuit breaker or an aborted request, are not
+ * retried.
+ *
+ * @internal
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof AntsPlatformAPITimeoutError) {
+    return true;
+  }
+
+  if (err instanceof AntsPlatformAPIError && err.statusCode !== undefined) {
+    return isRetryableStatus(err.statusCode);
+  }
+
+  return isNetworkError(err);
+}
+
+/**
+ * Returns whether an HTTP status indicates a transient failure.
+ *
+ * @internal
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with jitter for the given one-based retry attempt.
+ *
+ * @internal
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  options: { initialRetryDelayMs: number; maxRetryDelayMs: number },
+): number {
+  const delay = Math.min(
+    options.maxRetryDelayMs,
+    options.initialRetryDelayMs * 2 ** (attempt - 1),
+  );
+
+  return delay / 2 + Math.random() * (delay / 2);
+}
@@ -0,0 +1,264 @@
+import {
+  AntsPlatformAPIClient,
+  ScoreBody,
+  ScoreConfig,
+  getGlobalLogger,
+} from "@antsplatform/core";
+
+const DEFAULT_CONFIG_CACHE_TTL_SECONDS = 300;
+const CONFIGS_PAGE_SIZE = 100;
+
+/**
+ * Options for validating scores against the score configs of the project.
+ *
+ * @public
+ */
+export type ScoreValidationOptions = {
+  /**
+   * What to do with invalid scores:
+   *
+   * - `throw`: `create` throws a ScoreValidationError
+   * - `report`: the score is dropped and passed to `onInvalidScore`
+   *
+   * Scores created before the score configs are loaded are validated when
+   * flushed and reported, as they can no longer be thrown.
+   */
+  mode: "throw" | "report";
+  /** Called with each invalid score that is dropped */
+  onInvalidScore?: (error: ScoreValidationError) => void;
+  /**
+   * Reject scores whose name has no score config.
+   *
+   * @defaultValue false
+   */
+  requireConfig?: boolean;
+  /**
+   * Time after which the cached score configs are refreshed in the background.
+   *
+   * @defaultValue 300
+   */
+  configCacheTtlSeconds?: number;
+};
+
+/**
+ * Error describing why a score does not match its score config.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   antsPlatform.score.create({ name: "accuracy", value: 1.5, traceId });
+ * } catch (err) {
+ *   if (err instanceof ScoreValidationError) {
+ *     console.log(err.problems); // ["value 1.5 is greater than the maximum 1"]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class ScoreValidationError extends Error {
+  /** The invalid score */
+  public readonly score: ScoreBody;
+  /** Descriptions of the problems found */
+  public readonly problems: string[];
+
+  constructor(params: { score: ScoreBody; problems: string[] }) {
+    super(
+      `Invalid score '${params.score.name}': ${params.problems.join("; ")}`,
+    );
+
+    this.name = "ScoreValidationError";
+    this.score = params.score;
+    this.problems = params.problems;
+  }
+}
+
+/**
+ * Cache of the non-archived score configs of the project, keyed by name and id.
+ *
+ * Configs are loaded on first use and refreshed in the background once the
+ * TTL expires, while the stale configs keep being served.
+ *
+ * @internal
+ */
+export class ScoreConfigCache {
+  private apiClient: AntsPlatformAPIClient;
+  private ttlMs: number;
+  private configsByName = new Map<string, ScoreConfig>();
+  private configsById = new Map<string, ScoreConfig>();
+  private loadedAt?: number;
+  private loadPromise?: Promise<void>;
+
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    ttlSeconds?: number;
+  }) {
+    this.apiClient = params.apiClient;
+    this.ttlMs =
+      (params.ttlSeconds ?? DEFAULT_CONFIG_CACHE_TTL_SECONDS) * 1_000;
+  }
+
+  get logger() {
+    return getGlobalLogger().forComponent("ScoreConfigCache");
+  }
+
+  get isLoaded(): boolean {
+    return this.loadedAt !== undefined;
+  }
+
+  /**
+   * Returns the config for a score, by config id if set, otherwise by name.
+   * Triggers a background refresh if the cache is expired.
+   */
+  get(score: ScoreBody): ScoreConfig | undefined {
+    if (
+      this.loadedAt !== undefined &&
+      Date.now() - this.loadedAt > this.ttlMs
+    ) {
+      this.load().catch(() => {});
+    }
+
+    return score.configId
+      ? this.configsById.get(score.configId)
+      : this.configsByName.get(score.name);
+  }
+
+  load(): Promise<void> {
+    this.loadPromise ??= this.fetchConfigs().finally(() => {
+      this.loadPromise = undefined;
+    });
+
+    return this.loadPromise;
+  }
+
+  private async fetchConfigs(): Promise<void> {
+    const configs: ScoreConfig[] = [];
+
+    try {
+      for (let page = 1; ; page++) {
+        const response = await this.apiClient.scoreConfigs.get({
+          page,
+          limit: CONFIGS_PAGE_SIZE,
+        });
+        configs.push(...response.data);
+
+        if (response.meta.totalPages <= page) break;
+      }
+    } catch (err) {
+      this.logger.error("Failed to load score configs:", err);
+
+      throw err;
+    }
+
+    const activeConfigs = configs.filter((config) => !config.isArchived);
+
+    this.configsByName = new Map(activeConfigs.map((c) => [c.name, c]));
+    this.configsById = new Map(configs.map((c) => [c.id, c]));
+    this.loadedAt = Date.now();
+  }
+}
+
+/**
+ * Validates a score against its score config and fills in the `configId` and
+ * `dataType` of the config.
+ *
+ * @returns The completed score and the problems found, empty if the score is valid
+ *
+ * @internal
+ */
+export function validateScore(
+  score: ScoreBody,
+  config: ScoreConfig | undefined,
+  options?: { requireConfig?: boolean },
+): { score: ScoreBody; problems: string[] } {
+  const problems: string[] = [];
+
+  if (!config) {
+    if (score.configId) {
+      problems.push(`score config '${score.configId}' does not exist`);
+    } else if (options?.requireConfig) {
+      problems.push("no score config exists for this name");
+    }
+
+    return {
+      score,
+      problems: [
+        ...problems,
+        ...validateValue(score.value, score.dataType, undefined),
+      ],
+    };
+  }
+
+  if (config.isArchived) {
+    problems.push(`score config '${config.name}' is archived`);
+  }
+  if (config.name !== score.name) {
+    problems.push(`score config '${config.id}' is named '${config.name}'`);
+  }
+  if (score.dataType && score.dataType !== config.dataType) {
+    problems.push(
+      `data type ${score.dataType} does not match the config data type ${config.dataType}`,
+    );
+  }
+
+  return {
+    score: { ...score, configId: config.id, dataType: config.dataType },
+    problems: [
+      ...problems,
+      ...validateValue(score.value, config.dataType, config),
+    ],
+  };
+}
+
+function validateValue(
+  value: ScoreBody["value"],
+  dataType: ScoreBody["dataType"],
+  config: ScoreConfig | undefined,
+): string[] {
+  switch (dataType) {
+    case "NUMERIC": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [`value ${JSON.stringify(value)} is not a number`];
+      }
+      if (config?.minValue != null && value < config.minValue) {
+        return [`value ${value} is less than the minimum ${config.minValue}`];
+      }
+      if (config?.maxValue != null && value > config.maxValue) {
+        return [
+          `value ${value} is greater than the maximum ${config.maxValue}`,
+        ];
+      }
+
+      return [];
+    }
+
+    case "BOOLEAN":
+      return value === 0 || value === 1
+        ? []
+        : [`value ${JSON.stringify(value)} is not a boolean (0 or 1)`];
+
+    case "CATEGORICAL": {
+      const categories = config?.categories;
+      if (!categories || categories.length === 0) {
+        return [];
+      }
+
+      const matches = categories.some((category) =>
+        typeof value === "number"
+          ? category.value === value
+          : category.label === value,
+      );
+
+      return matches
+        ? []
+        : [
+            `value ${JSON.stringify(value)} is not one of the categories ${categories
+              .map((category) => category.label)
+              .join(", ")}`,
+          ];
+    }
+
+    default:
+      return [];
+  }
+}
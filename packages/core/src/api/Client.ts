@@ -44,6 +44,17 @@ export declare namespace AntsPlatformAPIClient {
       string,
       string | core.Supplier<string | undefined> | undefined
     >;
+    /** Client-side token bucket rate limit shared by all requests of this client. */
+    rateLimit?: core.RateLimiterOptions;
+    /** Fail requests fast after repeated failures of the API, instead of waiting for timeouts. */
+    circuitBreaker?: core.CircuitBreakerOptions;
+    /** Hooks around each request attempt, e.g. to add headers or log latency. */
+    middleware?: core.FetcherMiddleware[];
+    /**
+     * Custom fetch implementation used for all requests of this client, e.g. with a proxy agent.
+     * Called by the fetcher for each attempt, after `middleware`. Defaults to the global `fetch`.
+     */
+    fetch?: typeof fetch;
   }
 
   export interface RequestOptions {
@@ -94,6 +105,15 @@ export class AntsPlatformAPIClient {
   protected _trace: Trace | undefined;
 
   constructor(_options: AntsPlatformAPIClient.Options) {
+    const rateLimiter =
+      _options.rateLimit != null
+        ? new core.RateLimiter(_options.rateLimit)
+        : undefined;
+    const circuitBreaker =
+      _options.circuitBreaker != null
+        ? new core.CircuitBreaker(_options.circuitBreaker)
+        : undefined;
+
     this._options = {
       ..._options,
       headers: mergeHeaders(
@@ -103,6 +123,12 @@ export class AntsPlatformAPIClient {
           "X-Ants-Platform-Public-Key": _options?.xAntsPlatformPublicKey,
         },
         _options?.headers,
+        core.toFetcherClientOptionsHeader({
+          rateLimiter,
+          circuitBreaker,
+          middleware: _options.middleware,
+          fetch: _options.fetch,
+        }),
       ),
     };
   }
@@ -0,0 +1,89 @@
+export interface CircuitBreakerOptions {
+  /** The number of consecutive failed requests after which the circuit opens. Defaults to 5. */
+  failureThreshold?: number;
+  /** The time in milliseconds the circuit stays open before a trial request is let through. Defaults to 30000. */
+  resetTimeoutMs?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/**
+ * Circuit breaker that fails requests fast while the API is unavailable.
+ *
+ * Requests failing with a network error, a timeout or a 5xx status code after
+ * all retries count as failures. After `failureThreshold` consecutive failures
+ * the circuit opens and requests fail immediately. Once `resetTimeoutMs` has
+ * passed, a single trial request is let through: if it succeeds the circuit
+ * closes, otherwise it stays open for another `resetTimeoutMs`.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private isTrialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(
+      1,
+      options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    );
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  }
+
+  public get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt == null) {
+      return "closed";
+    }
+
+    return Date.now() - this.openedAt >= this.resetTimeoutMs
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Returns whether a request may be sent. In the half-open state, only one
+   * trial request is allowed at a time.
+   */
+  public allowRequest(): boolean {
+    const state = this.state;
+
+    if (state === "closed") {
+      return true;
+    }
+
+    if (state === "half-open" && !this.isTrialInFlight) {
+      this.isTrialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.isTrialInFlight = false;
+  }
+
+  /**
+   * Records a request aborted by the caller, which says nothing about the
+   * availability of the API.
+   */
+  public recordCancellation(): void {
+    this.isTrialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.isTrialInFlight = false;
+
+    if (
+      this.openedAt != null ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -6,12 +6,14 @@ import {
   unknownRawResponse,
 } from "./RawResponse.js";
 import { Supplier } from "./Supplier.js";
+import { getFetcherClientOptions } from "./clientOptions.js";
 import { createRequestUrl } from "./createRequestUrl.js";
 import { getErrorResponseBody } from "./getErrorResponseBody.js";
 import { getFetchFn } from "./getFetchFn.js";
 import { getRequestBody } from "./getRequestBody.js";
 import { getResponseBody } from "./getResponseBody.js";
 import { makeRequest } from "./makeRequest.js";
+import { applyMiddleware } from "./middleware.js";
 import { requestWithRetries } from "./requestWithRetries.js";
 
 export type FetchFunction = <R = unknown>(
@@ -43,10 +45,7 @@ export declare namespace Fetcher {
   }
 
   export type Error =
-    | FailedStatusCodeError
-    | NonJsonError
-    | TimeoutError
-    | UnknownError;
+    FailedStatusCodeError | NonJsonError | TimeoutError | UnknownError;
 
   export interface FailedStatusCodeError {
     reason: "status-code";
@@ -102,24 +101,51 @@ export async function fetcherImpl<R = unknown>(
     body: args.body,
     type: args.requestType === "json" ? "json" : "other",
   });
-  const fetchFn = await getFetchFn();
+  const {
+    circuitBreaker,
+    rateLimiter,
+    middleware,
+    fetch: customFetch,
+  } = getFetcherClientOptions(args.headers);
+  const fetchFn = applyMiddleware(
+    customFetch ?? (await getFetchFn()),
+    middleware ?? [],
+  );
+
+  if (circuitBreaker != null && !circuitBreaker.allowRequest()) {
+    return {
+      ok: false,
+      error: {
+        reason: "unknown",
+        errorMessage:
+          "Circuit breaker is open after repeated failures of the API. Failing fast.",
+      },
+      rawResponse: unknownRawResponse,
+    };
+  }
 
   try {
-    const response = await requestWithRetries(
-      async () =>
-        makeRequest(
-          fetchFn,
-          url,
-          args.method,
-          await getHeaders(args),
-          requestBody,
-          args.timeoutMs,
-          args.abortSignal,
-          args.withCredentials,
-          args.duplex,
-        ),
-      args.maxRetries,
-    );
+    const response = await requestWithRetries(async () => {
+      await rateLimiter?.acquire();
+
+      return makeRequest(
+        fetchFn,
+        url,
+        args.method,
+        await getHeaders(args),
+        requestBody,
+        args.timeoutMs,
+        args.abortSignal,
+        args.withCredentials,
+        args.duplex,
+      );
+    }, args.maxRetries);
+
+    if (response.status >= 500) {
+      circuitBreaker?.recordFailure();
+    } else {
+      circuitBreaker?.recordSuccess();
+    }
 
     if (response.status >= 200 && response.status < 400) {
       return {
@@ -141,6 +167,8 @@ export async function fetcherImpl<R = unknown>(
     }
   } catch (error) {
     if (args.abortSignal != null && args.abortSignal.aborted) {
+      circuitBreaker?.recordCancellation();
+
       return {
         ok: false,
         error: {
@@ -149,7 +177,11 @@ export async function fetcherImpl<R = unknown>(
         },
         rawResponse: abortRawResponse,
       };
-    } else if (error instanceof Error && error.name === "AbortError") {
+    }
+
+    circuitBreaker?.recordFailure();
+
+    if (error instanceof Error && error.name === "AbortError") {
       return {
         ok: false,
         error: {
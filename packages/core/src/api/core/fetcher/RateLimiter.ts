@@ -0,0 +1,63 @@
+export interface RateLimiterOptions {
+  /** The number of requests allowed per second on average. */
+  requestsPerSecond: number;
+  /** The number of requests allowed in a burst. Defaults to `requestsPerSecond`. */
+  burst?: number;
+}
+
+/**
+ * Client-side token bucket rate limiter.
+ *
+ * The bucket holds up to `burst` tokens and is refilled with
+ * `requestsPerSecond` tokens per second. Each request attempt, including
+ * retries, takes one token. Requests wait in order until a token is available.
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private tokens: number;
+  private lastRefillAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.requestsPerSecond > 0)) {
+      throw new Error("requestsPerSecond must be a positive number");
+    }
+
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.burst = Math.max(1, options.burst ?? options.requestsPerSecond);
+    this.tokens = this.burst;
+    this.lastRefillAt = Date.now();
+  }
+
+  /**
+   * Waits until a request may be sent and takes a token.
+   */
+  public acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.lastRefillAt) / 1000) * this.requestsPerSecond,
+    );
+    this.lastRefillAt = now;
+  }
+}
@@ -0,0 +1,51 @@
+import type { CircuitBreaker } from "./CircuitBreaker.js";
+import type { Fetcher } from "./Fetcher.js";
+import type { RateLimiter } from "./RateLimiter.js";
+import type { FetcherMiddleware } from "./middleware.js";
+
+/**
+ * Options of the fetcher shared by all requests of an API client.
+ */
+export interface FetcherClientOptions {
+  /** Limits the rate of request attempts, including retries. */
+  rateLimiter?: RateLimiter;
+  /** Fails requests fast while the API is unavailable. */
+  circuitBreaker?: CircuitBreaker;
+  /** Hooks around each request attempt. */
+  middleware?: FetcherMiddleware[];
+  /** Custom fetch implementation, defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+// The generated resource clients pass the headers of the API client on to
+// the fetcher, so the options are attached to a header. Its value is a
+// supplier returning undefined, so the header itself is never sent.
+const CLIENT_OPTIONS_HEADER = "X-Ants-Platform-Fetcher-Options";
+
+const optionsBySupplier = new WeakMap<() => undefined, FetcherClientOptions>();
+
+/**
+ * Returns the header to add to the headers of an API client to apply the
+ * given fetcher options to all of its requests.
+ */
+export function toFetcherClientOptionsHeader(
+  options: FetcherClientOptions,
+): Record<string, () => undefined> {
+  const supplier = () => undefined;
+  optionsBySupplier.set(supplier, options);
+
+  return { [CLIENT_OPTIONS_HEADER]: supplier };
+}
+
+/**
+ * Returns the fetcher options of the API client that sends a request.
+ */
+export function getFetcherClientOptions(
+  headers: Fetcher.Args["headers"],
+): FetcherClientOptions {
+  const supplier = headers?.[CLIENT_OPTIONS_HEADER];
+
+  return typeof supplier === "function"
+    ? (optionsBySupplier.get(supplier as () => undefined) ?? {})
+    : {};
+}
@@ -11,3 +11,12 @@ export {
 export type { RawResponse, WithRawResponse } from "./RawResponse.js";
 export { HttpResponsePromise } from "./HttpResponsePromise.js";
 export { type BinaryResponse } from "./BinaryResponse.js";
+export { RateLimiter } from "./RateLimiter.js";
+export type { RateLimiterOptions } from "./RateLimiter.js";
+export { CircuitBreaker } from "./CircuitBreaker.js";
+export { toFetcherClientOptionsHeader } from "./clientOptions.js";
+export type { CircuitBreakerOptions } from "./CircuitBreaker.js";
+export type {
+  FetcherMiddleware,
+  FetcherMiddlewareRequest,
+} from "./middleware.js";
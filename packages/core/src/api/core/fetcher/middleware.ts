@@ -0,0 +1,122 @@
+/**
+ * A request about to be sent by the fetcher.
+ */
+export interface FetcherMiddlewareRequest {
+  url: string;
+  init: RequestInit & { headers: Record<string, string> };
+}
+
+/**
+ * Hooks around each HTTP request attempt of the fetcher, including retries.
+ *
+ * Middleware runs in the order given. Each hook may return a replacement, or
+ * nothing to keep the request or response as is.
+ */
+export interface FetcherMiddleware {
+  /**
+   * Called before a request is sent. Return a modified request, e.g. with
+   * additional headers, or a `Response` to skip sending the request and later
+   * `onRequest` hooks.
+   */
+  onRequest?: (
+    request: FetcherMiddlewareRequest,
+  ) =>
+    | FetcherMiddlewareRequest
+    | Response
+    | void
+    | Promise<FetcherMiddlewareRequest | Response | void>;
+  /**
+   * Called with the response of a request. Return a `Response` to replace it.
+   */
+  onResponse?: (context: {
+    request: FetcherMiddlewareRequest;
+    response: Response;
+    durationMs: number;
+  }) => Response | void | Promise<Response | void>;
+  /**
+   * Called when a request fails without a response, e.g. on network errors
+   * or timeouts. Return a `Response` to recover from the error, in which case
+   * later `onError` hooks are skipped and the response is passed to the
+   * `onResponse` hooks.
+   */
+  onError?: (context: {
+    request: FetcherMiddlewareRequest;
+    error: unknown;
+    durationMs: number;
+  }) => Response | void | Promise<Response | void>;
+}
+
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Wraps a fetch function with the given middleware.
+ */
+export function applyMiddleware(
+  fetchFn: FetchFn,
+  middleware: FetcherMiddleware[],
+): FetchFn {
+  if (middleware.length === 0) {
+    return fetchFn;
+  }
+
+  return async (url, init) => {
+    let request: FetcherMiddlewareRequest = {
+      url,
+      init: {
+        ...init,
+        headers: { ...(init.headers as Record<string, string>) },
+      },
+    };
+    const startTime = Date.now();
+    let response: Response | undefined;
+
+    for (const { onRequest } of middleware) {
+      const result = await onRequest?.(request);
+      if (result == null) {
+        continue;
+      }
+
+      // Not checked with instanceof, as custom fetch implementations may
+      // use their own Response class
+      if ("init" in result) {
+        request = result;
+      } else {
+        response = result;
+        break;
+      }
+    }
+
+    if (response == null) {
+      try {
+        response = await fetchFn(request.url, request.init);
+      } catch (error) {
+        for (const { onError } of middleware) {
+          const result = await onError?.({
+            request,
+            error,
+            durationMs: Date.now() - startTime,
+          });
+          if (result != null) {
+            response = result;
+            break;
+          }
+        }
+
+        if (response == null) {
+          throw error;
+        }
+      }
+    }
+
+    for (const { onResponse } of middleware) {
+      response =
+        (await onResponse?.({
+          request,
+          response,
+          durationMs: Date.now() - startTime,
+        })) ?? response;
+    }
+
+    return response;
+  };
+}
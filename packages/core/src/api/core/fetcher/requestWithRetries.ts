@@ -9,28 +9,72 @@ function addJitter(delay: number): number {
   return delay * jitterMultiplier;
 }
 
+function isRetryableStatus(status: number): boolean {
+  return [408, 429].includes(status) || status >= 500;
+}
+
+// fetch rejects with a TypeError on network failures, e.g. connection resets
+// or DNS errors. Timeouts and aborts are AbortErrors and are not retried.
+function isRetryableError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+function getRetryAfterDelay(response: Response): number | undefined {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter == null) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), MAX_RETRY_DELAY);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.min(Math.max(0, date - Date.now()), MAX_RETRY_DELAY);
+}
+
 export async function requestWithRetries(
   requestFn: () => Promise<Response>,
   maxRetries: number = DEFAULT_MAX_RETRIES,
 ): Promise<Response> {
-  let response: Response = await requestFn();
-
-  for (let i = 0; i < maxRetries; ++i) {
-    if ([408, 429].includes(response.status) || response.status >= 500) {
-      // Calculate base delay using exponential backoff (in milliseconds)
-      const baseDelay = Math.min(
-        INITIAL_RETRY_DELAY * Math.pow(2, i),
-        MAX_RETRY_DELAY,
-      );
+  for (let i = 0; ; ++i) {
+    let response: Response;
+    try {
+      response = await requestFn();
+    } catch (error) {
+      if (i >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
 
-      // Add jitter to the delay
-      const delayWithJitter = addJitter(baseDelay);
+      await sleep(getBackoffDelay(i));
+      continue;
+    }
 
-      await new Promise((resolve) => setTimeout(resolve, delayWithJitter));
-      response = await requestFn();
-    } else {
-      break;
+    if (i >= maxRetries || !isRetryableStatus(response.status)) {
+      return response;
     }
+
+    // Honor the delay requested by the server, e.g. when rate limited
+    await sleep(getRetryAfterDelay(response) ?? getBackoffDelay(i));
   }
-  return response!;
+}
+
+function getBackoffDelay(attempt: number): number {
+  // Calculate base delay using exponential backoff (in milliseconds)
+  const baseDelay = Math.min(
+    INITIAL_RETRY_DELAY * Math.pow(2, attempt),
+    MAX_RETRY_DELAY,
+  );
+
+  // Add jitter to the delay
+  return addJitter(baseDelay);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
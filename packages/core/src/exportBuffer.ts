@@ -0,0 +1,61 @@
+/**
+ * Kinds of records that can be persisted in an export buffer.
+ *
+ * - `span`: Processed OpenTelemetry spans awaiting export
+ * - `media`: Pending media uploads
+ * - `ingestion`: Ingestion events (e.g. scores) awaiting delivery
+ *
+ * @public
+ */
+export type ExportBufferRecordKind = "span" | "media" | "ingestion";
+
+/**
+ * A record persisted in an export buffer.
+ *
+ * @public
+ */
+export type ExportBufferRecord<T = unknown> = {
+  /** Unique identifier of the record, used to acknowledge delivery */
+  id: string;
+  /** The kind of data held by this record */
+  kind: ExportBufferRecordKind;
+  /** JSON-serializable payload */
+  payload: T;
+  /** ISO timestamp of when the record was first persisted */
+  createdAt: string;
+};
+
+/**
+ * Durable buffer that holds data until its delivery to Ants Platform is acknowledged.
+ *
+ * Records are appended before export and acknowledged once delivered. Records that
+ * were never acknowledged (e.g. because the process crashed or the endpoint was
+ * unreachable) are returned by `pending` so they can be replayed on next startup.
+ *
+ * A file-backed implementation for Node.js is available as `FileExportBuffer`
+ * in `@antsplatform/otel`.
+ *
+ * @public
+ */
+export interface ExportBuffer {
+  /**
+   * Persists records before they are exported.
+   *
+   * @param records - Records to persist
+   */
+  append(records: Omit<ExportBufferRecord, "createdAt">[]): Promise<void>;
+
+  /**
+   * Marks records as delivered so they are not replayed.
+   *
+   * @param ids - Identifiers of the delivered records
+   */
+  ack(ids: string[]): Promise<void>;
+
+  /**
+   * Returns all records of the given kind that were persisted but never acknowledged.
+   *
+   * @param kind - The kind of records to return
+   */
+  pending(kind: ExportBufferRecordKind): Promise<ExportBufferRecord[]>;
+}
@@ -6,6 +6,14 @@ export {
   AntsPlatformAPITimeoutError,
 } from "./api/errors/index.js";
 export { AntsPlatformAPIClient } from "./api/Client.js";
+export type {
+  CircuitBreakerOptions,
+  FetcherMiddleware,
+  FetcherMiddlewareRequest,
+  RateLimiterOptions,
+} from "./api/core/index.js";
 export * from "./utils.js";
 export * from "./types.js";
 export * from "./media.js";
+export * from "./exportBuffer.js";
+export * from "./promptCacheStore.js";
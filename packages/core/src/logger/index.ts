@@ -13,27 +13,125 @@ export enum LogLevel {
   DEBUG = 0,
 }
 
+function parseLogLevel(value: string): LogLevel | undefined {
+  switch (value.toUpperCase()) {
+    case "ERROR":
+      return LogLevel.ERROR;
+    case "WARN":
+      return LogLevel.WARN;
+    case "INFO":
+      return LogLevel.INFO;
+    case "DEBUG":
+      return LogLevel.DEBUG;
+    default:
+      return undefined;
+  }
+}
+
 function parseLogLevelFromEnv(): LogLevel | undefined {
   if (typeof process === "object" && "env" in process) {
-    const envValue = getEnv("ANTS_PLATFORM_LOG_LEVEL");
-    const value = (envValue ?? "").toUpperCase();
-
-    switch (value) {
-      case "ERROR":
-        return LogLevel.ERROR;
-      case "WARN":
-        return LogLevel.WARN;
-      case "INFO":
-        return LogLevel.INFO;
-      case "DEBUG":
-        return LogLevel.DEBUG;
-      default:
-        return undefined;
-    }
+    return parseLogLevel(getEnv("ANTS_PLATFORM_LOG_LEVEL") ?? "");
   }
   return undefined;
 }
 
+/**
+ * Parses per-component log levels from the ANTS_PLATFORM_LOG_LEVELS environment
+ * variable, e.g. `MediaService=DEBUG,AntsPlatformSpanProcessor=WARN`.
+ */
+function parseComponentLevelsFromEnv(): Record<string, LogLevel> | undefined {
+  if (typeof process !== "object" || !("env" in process)) return undefined;
+
+  const envValue = getEnv("ANTS_PLATFORM_LOG_LEVELS");
+  if (!envValue) return undefined;
+
+  const componentLevels: Record<string, LogLevel> = {};
+  for (const entry of envValue.split(",")) {
+    const [component, level] = entry.split("=").map((part) => part.trim());
+    const parsedLevel = level ? parseLogLevel(level) : undefined;
+
+    if (component && parsedLevel !== undefined) {
+      componentLevels[component] = parsedLevel;
+    }
+  }
+
+  return componentLevels;
+}
+
+function parseLogFormatFromEnv(): "text" | "json" | undefined {
+  if (typeof process !== "object" || !("env" in process)) return undefined;
+
+  const value = (getEnv("ANTS_PLATFORM_LOG_FORMAT") ?? "").toLowerCase();
+
+  return value === "json" || value === "text" ? value : undefined;
+}
+
+/**
+ * Structured fields attached to log records, e.g. via `logger.child`.
+ */
+export interface LogFields {
+  /** The SDK component that logged the record, e.g. `MediaService` */
+  component?: string;
+  /** The trace the record relates to */
+  traceId?: string;
+  /** The span or observation the record relates to */
+  spanId?: string;
+  /** Any other fields */
+  [key: string]: unknown;
+}
+
+/**
+ * A log record as passed to transports.
+ */
+export interface LogRecord {
+  /** The log level */
+  level: LogLevel;
+  /** The name of the log level, e.g. `ERROR` */
+  levelName: "ERROR" | "WARN" | "INFO" | "DEBUG";
+  /** The log message */
+  message: string;
+  /** The time the record was logged */
+  timestamp: Date;
+  /** The structured fields of the logger */
+  fields: LogFields;
+  /** The first `Error` passed as argument, if any */
+  error?: Error;
+  /** The additional arguments passed to the log call */
+  args: unknown[];
+}
+
+/**
+ * Destination of log records, e.g. the console, pino or winston.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const pinoLogger = pino();
+ *
+ * configureGlobalLogger({
+ *   level: LogLevel.INFO,
+ *   transports: [
+ *     {
+ *       log: ({ levelName, message, fields, error }) =>
+ *         pinoLogger[levelName === 'WARN' ? 'warn' : levelName.toLowerCase()](
+ *           { ...fields, err: error },
+ *           message,
+ *         ),
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export interface LogTransport {
+  /**
+   * Writes a log record. Errors thrown by transports are ignored.
+   *
+   * @param record - The log record
+   */
+  log(record: LogRecord): void;
+}
+
 /**
  * Configuration options for the Logger.
  */
@@ -44,6 +142,101 @@ export interface LoggerConfig {
   prefix?: string;
   /** Whether to include timestamps in log messages (default: true) */
   enableTimestamp?: boolean;
+  /**
+   * Minimum log levels per component, overriding `level`, e.g.
+   * `{ MediaService: LogLevel.DEBUG }`. Can also be provided via the
+   * ANTS_PLATFORM_LOG_LEVELS environment variable as `MediaService=DEBUG,...`.
+   */
+  componentLevels?: Record<string, LogLevel>;
+  /**
+   * Output format of the default console transport: formatted strings or one
+   * JSON object per record. Can also be provided via the
+   * ANTS_PLATFORM_LOG_FORMAT environment variable (default: "text").
+   */
+  format?: "text" | "json";
+  /** Destinations of log records (default: the console) */
+  transports?: LogTransport[];
+}
+
+/**
+ * Creates a transport writing log records to `console.*`.
+ *
+ * In text format, records are written as formatted strings followed by the
+ * additional arguments. In JSON format, each record is written as a single
+ * JSON object including its fields and error.
+ *
+ * @param config - The prefix, timestamp and format options of the logger
+ * @returns The console transport
+ */
+export const createConsoleTransport = (
+  config: Pick<LoggerConfig, "prefix" | "enableTimestamp" | "format"> = {},
+): LogTransport => {
+  return {
+    log(record) {
+      const method = record.levelName.toLowerCase() as
+        "error" | "warn" | "info" | "debug";
+      const write = console[method];
+
+      if (config.format === "json") {
+        const { error, ...fields } = record.fields;
+        const extraArgs = record.args.filter((arg) => arg !== record.error);
+
+        write(
+          safeStringify({
+            timestamp: record.timestamp.toISOString(),
+            level: record.levelName,
+            message: record.message,
+            ...fields,
+            ...(record.error || error
+              ? { error: serializeError(record.error ?? error) }
+              : {}),
+            ...(extraArgs.length > 0 ? { args: extraArgs } : {}),
+          }),
+        );
+
+        return;
+      }
+
+      const timestamp =
+        config.enableTimestamp !== false ? record.timestamp.toISOString() : "";
+      const prefix = config.prefix || "[AntsPlatform SDK]";
+      const component = record.fields.component
+        ? `[${record.fields.component}]`
+        : "";
+      const parts = [
+        timestamp,
+        prefix,
+        `[${record.levelName}]`,
+        component,
+        record.message,
+      ].filter(Boolean);
+
+      write(parts.join(" "), ...record.args);
+    },
+  };
+};
+
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (nested instanceof Error) return serializeError(nested);
+    if (typeof nested === "bigint") return nested.toString();
+    if (typeof nested === "object" && nested !== null) {
+      if (seen.has(nested)) return "[Circular]";
+      seen.add(nested);
+    }
+
+    return nested;
+  });
+}
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+
+  return error;
 }
 
 /**
@@ -57,7 +250,9 @@ export interface LoggerConfig {
  * ```
  */
 export class Logger {
-  private config: LoggerConfig;
+  private config: LoggerConfig & { transports: LogTransport[] };
+  private fields: LogFields;
+  private componentLoggers = new Map<string, Logger>();
 
   /**
    * Creates a new Logger instance.
@@ -68,82 +263,130 @@ export class Logger {
     this.config = {
       enableTimestamp: true,
       ...config,
+      transports: config.transports ?? [createConsoleTransport(config)],
     };
+    this.fields = {};
   }
 
   /**
-   * Determines if a message should be logged based on the current log level.
+   * Creates a logger adding the given fields to all its records, e.g. the
+   * component or the trace being processed. The child logger shares the level,
+   * component levels and transports of this logger.
    *
-   * @param level - The log level to check
-   * @returns True if the message should be logged, false otherwise
+   * @param fields - The fields to add
+   * @returns The child logger
+   *
+   * @example
+   * ```typescript
+   * const logger = getGlobalLogger().forComponent('MediaService');
+   * logger.child({ traceId, spanId }).error('Media upload failed', error);
+   * ```
    */
-  private shouldLog(level: LogLevel): boolean {
-    return level >= this.config.level;
+  child(fields: LogFields): Logger {
+    const child = new Logger({ level: this.config.level, transports: [] });
+    child.config = this.config;
+    child.fields = { ...this.fields, ...fields };
+
+    return child;
   }
 
   /**
-   * Formats a log message with timestamp, prefix, and log level.
+   * Gets the logger of an SDK component, e.g. `MediaService`. The component
+   * logger is created once per component, so that it can be used in getters.
    *
-   * @param level - The log level string
-   * @param message - The message to format
-   * @returns The formatted message string
+   * @param component - The component
+   * @returns The component logger
    */
-  private formatMessage(level: string, message: string): string {
-    const timestamp = this.config.enableTimestamp
-      ? new Date().toISOString()
-      : "";
-    const prefix = this.config.prefix || "[AntsPlatform SDK]";
-    const parts = [timestamp, prefix, `[${level}]`, message].filter(Boolean);
-
-    return parts.join(" ");
+  forComponent(component: string): Logger {
+    let componentLogger = this.componentLoggers.get(component);
+    if (!componentLogger) {
+      componentLogger = this.child({ component });
+      this.componentLoggers.set(component, componentLogger);
+    }
+
+    return componentLogger;
+  }
+
+  /**
+   * Determines if a message should be logged based on the current log level
+   * and the level of the logger's component.
+   *
+   * @param level - The log level to check
+   * @returns True if the message should be logged, false otherwise
+   */
+  private shouldLog(level: LogLevel): boolean {
+    const componentLevel = this.fields.component
+      ? this.config.componentLevels?.[this.fields.component]
+      : undefined;
+
+    return level >= (componentLevel ?? this.config.level);
+  }
+
+  private write(
+    level: LogLevel,
+    levelName: LogRecord["levelName"],
+    message: string,
+    args: unknown[],
+  ): void {
+    if (!this.shouldLog(level)) return;
+
+    const record: LogRecord = {
+      level,
+      levelName,
+      message,
+      timestamp: new Date(),
+      fields: this.fields,
+      error: args.find((arg): arg is Error => arg instanceof Error),
+      args,
+    };
+
+    for (const transport of this.config.transports) {
+      try {
+        transport.log(record);
+      } catch {
+        // Logging must never break the SDK
+      }
+    }
   }
 
   /**
    * Logs an error message.
    *
    * @param message - The error message to log
-   * @param args - Additional arguments to pass to console.error
+   * @param args - Additional arguments, e.g. the error
    */
   error(message: string, ...args: unknown[]): void {
-    if (this.shouldLog(LogLevel.ERROR)) {
-      console.error(this.formatMessage("ERROR", message), ...args);
-    }
+    this.write(LogLevel.ERROR, "ERROR", message, args);
   }
 
   /**
    * Logs a warning message.
    *
    * @param message - The warning message to log
-   * @param args - Additional arguments to pass to console.warn
+   * @param args - Additional arguments to log
    */
   warn(message: string, ...args: unknown[]): void {
-    if (this.shouldLog(LogLevel.WARN)) {
-      console.warn(this.formatMessage("WARN", message), ...args);
-    }
+    this.write(LogLevel.WARN, "WARN", message, args);
   }
 
   /**
    * Logs an informational message.
    *
    * @param message - The info message to log
-   * @param args - Additional arguments to pass to console.info
+   * @param args - Additional arguments to log
    */
   info(message: string, ...args: unknown[]): void {
-    if (this.shouldLog(LogLevel.INFO)) {
-      console.info(this.formatMessage("INFO", message), ...args);
-    }
+    this.write(LogLevel.INFO, "INFO", message, args);
   }
 
   /**
    * Logs a debug message.
    *
    * @param message - The debug message to log
-   * @param args - Additional arguments to pass to console.debug
+   * @param args - Additional arguments to log
    */
   debug(message: string, ...args: unknown[]): void {
-    if (this.shouldLog(LogLevel.DEBUG)) {
-      console.debug(this.formatMessage("DEBUG", message), ...args);
-    }
+    this.write(LogLevel.DEBUG, "DEBUG", message, args);
   }
 
   /**
@@ -155,6 +398,39 @@ export class Logger {
     this.config.level = level;
   }
 
+  /**
+   * Sets the minimum log level of a component, overriding the log level.
+   *
+   * @param component - The component, e.g. `MediaService`
+   * @param level - The new log level of the component
+   */
+  setComponentLevel(component: string, level: LogLevel): void {
+    this.config.componentLevels = {
+      ...this.config.componentLevels,
+      [component]: level,
+    };
+  }
+
+  /**
+   * Adds a transport log records are written to.
+   *
+   * @param transport - The transport to add
+   */
+  addTransport(transport: LogTransport): void {
+    this.config.transports.push(transport);
+  }
+
+  /**
+   * Removes a transport added before.
+   *
+   * @param transport - The transport to remove
+   */
+  removeTransport(transport: LogTransport): void {
+    this.config.transports = this.config.transports.filter(
+      (existing) => existing !== transport,
+    );
+  }
+
   /**
    * Gets the current log level.
    *
@@ -172,6 +448,8 @@ class LoggerSingleton {
   private static instance: Logger | null = null;
   private static defaultConfig: LoggerConfig = {
     level: parseLogLevelFromEnv() ?? LogLevel.INFO,
+    componentLevels: parseComponentLevelsFromEnv(),
+    format: parseLogFormatFromEnv(),
   };
 
   /**
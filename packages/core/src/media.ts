@@ -1,3 +1,5 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+
 import { MediaContentType } from "./api/api/index.js";
 import { getGlobalLogger } from "./logger/index.js";
 import { base64ToBytes, bytesToBase64 } from "./utils.js";
@@ -5,9 +7,16 @@ import { base64ToBytes, bytesToBase64 } from "./utils.js";
 /**
  * Parameters for creating a AntsPlatformMedia instance.
  *
- * Supports two input formats:
+ * Supports these input formats:
  * - Base64 data URI (e.g., "data:image/png;base64,...")
  * - Raw bytes with explicit content type
+ * - A `Blob`, e.g. a `File` in browsers or a file opened with `createMediaFromFile`
+ *   from `@antsplatform/otel` in Node.js
+ * - A `ReadableStream` or async iterable of bytes, e.g. a Node.js readable stream
+ * - A remote URL, fetched when the media is uploaded
+ *
+ * Blobs are hashed and uploaded in chunks without being read into memory at once.
+ * Streams and URLs are read once into a `Blob`, hashing chunks as they arrive.
  *
  * @public
  */
@@ -25,6 +34,30 @@ export type AntsPlatformMediaParams =
       contentBytes: Uint8Array;
       /** The MIME type of the content */
       contentType: MediaContentType;
+    }
+  | {
+      /** Indicates the media is provided as a blob or as a file opened as blob */
+      source: "blob" | "file";
+      /** The blob holding the content */
+      blob: Blob;
+      /** The MIME type of the content, defaults to the type of the blob */
+      contentType?: MediaContentType;
+    }
+  | {
+      /** Indicates the media is provided as a stream of bytes */
+      source: "stream";
+      /** The stream of content bytes, consumed once */
+      stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+      /** The MIME type of the content */
+      contentType: MediaContentType;
+    }
+  | {
+      /** Indicates the media is fetched from a remote URL */
+      source: "url";
+      /** The URL of the content */
+      url: string;
+      /** The MIME type of the content, defaults to the Content-Type of the response */
+      contentType?: MediaContentType;
     };
 
 /**
@@ -60,8 +93,12 @@ export type AntsPlatformMediaParams =
  */
 export class AntsPlatformMedia {
   _contentBytes?: Uint8Array;
+  _contentBlob?: Blob;
   _contentType?: MediaContentType;
   _source?: string;
+  private contentSha256Hash?: string;
+  private pendingContent?: () => Promise<void>;
+  private loadPromise?: Promise<void>;
 
   /**
    * Creates a new AntsPlatformMedia instance.
@@ -88,10 +125,112 @@ export class AntsPlatformMedia {
       );
       this._contentBytes = contentBytesParsed;
       this._contentType = contentTypeParsed;
-    } else {
+    } else if (source === "bytes") {
       this._contentBytes = params.contentBytes;
       this._contentType = params.contentType;
+    } else if (source === "stream") {
+      const { stream } = params;
+      this._contentType = params.contentType;
+      this.pendingContent = () => this.readStream(stream);
+    } else if (source === "url") {
+      const { url } = params;
+      this._contentType = params.contentType;
+      this.pendingContent = () => this.fetchUrl(url);
+    } else {
+      this._contentBlob = params.blob;
+      this._contentType =
+        params.contentType ??
+        ((params.blob.type || undefined) as MediaContentType | undefined);
+    }
+  }
+
+  /**
+   * Creates media from a blob, e.g. a `File` selected in a browser.
+   *
+   * @param blob - The blob holding the content
+   * @param contentType - The MIME type, defaults to the type of the blob
+   * @returns The media
+   */
+  static fromBlob(blob: Blob, contentType?: MediaContentType) {
+    return new AntsPlatformMedia({ source: "blob", blob, contentType });
+  }
+
+  /**
+   * Creates media from a `ReadableStream` or an async iterable of bytes such
+   * as a Node.js readable stream. The stream is consumed on first use.
+   *
+   * @param stream - The stream of content bytes
+   * @param contentType - The MIME type of the content
+   * @returns The media
+   */
+  static fromStream(
+    stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+    contentType: MediaContentType,
+  ) {
+    return new AntsPlatformMedia({ source: "stream", stream, contentType });
+  }
+
+  /**
+   * Creates media from a remote URL. The content is fetched on first use.
+   *
+   * @param url - The URL of the content
+   * @param contentType - The MIME type, defaults to the Content-Type of the response
+   * @returns The media
+   */
+  static fromUrl(url: string, contentType?: MediaContentType) {
+    return new AntsPlatformMedia({ source: "url", url, contentType });
+  }
+
+  /**
+   * Reads pending stream or URL content into a blob. Failures are logged and
+   * leave the media without content.
+   */
+  private async load(): Promise<void> {
+    const pendingContent = this.pendingContent;
+    if (!pendingContent) return;
+
+    this.loadPromise ??= pendingContent()
+      .catch((error) => {
+        getGlobalLogger().error("Error reading media content", error);
+      })
+      .finally(() => {
+        this.pendingContent = undefined;
+      });
+
+    return this.loadPromise;
+  }
+
+  private async fetchUrl(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Failed to fetch media from ${url}: status ${response.status}`,
+      );
     }
+
+    this._contentType ??= response.headers
+      .get("content-type")
+      ?.split(";")[0]
+      .trim() as MediaContentType | undefined;
+
+    await this.readStream(response.body);
+  }
+
+  private async readStream(
+    stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  ): Promise<void> {
+    const hash = sha256.create();
+    const chunks: Uint8Array[] = [];
+
+    for await (const chunk of iterateChunks(stream)) {
+      hash.update(chunk);
+      chunks.push(chunk);
+    }
+
+    this._contentBlob = new Blob(chunks as BlobPart[], {
+      type: this._contentType,
+    });
+    this.contentSha256Hash = bytesToBase64(hash.digest());
   }
 
   /**
@@ -166,7 +305,31 @@ export class AntsPlatformMedia {
    * @returns The content length in bytes, or undefined if no content is available
    */
   get contentLength(): number | undefined {
-    return this._contentBytes?.length;
+    return this._contentBytes?.length ?? this._contentBlob?.size;
+  }
+
+  /**
+   * Gets the length of the media content in bytes, reading stream and URL
+   * content first if needed.
+   *
+   * @returns The content length in bytes, or undefined if no content is available
+   */
+  async getContentLength(): Promise<number | undefined> {
+    await this.load();
+
+    return this.contentLength;
+  }
+
+  /**
+   * Gets the media content for upload, reading stream and URL content first
+   * if needed.
+   *
+   * @returns The content bytes or blob, or undefined if no content is available
+   */
+  async getContent(): Promise<Uint8Array | Blob | undefined> {
+    await this.load();
+
+    return this._contentBytes ?? this._contentBlob;
   }
 
   /**
@@ -178,17 +341,34 @@ export class AntsPlatformMedia {
    * @returns The base64-encoded SHA-256 hash, or undefined if unavailable
    */
   async getSha256Hash(): Promise<string | undefined> {
-    if (!this._contentBytes) {
-      return undefined;
+    await this.load();
+
+    if (this.contentSha256Hash) {
+      return this.contentSha256Hash;
     }
 
     try {
-      const hash = await crypto.subtle.digest(
-        "SHA-256",
-        this._contentBytes.buffer as ArrayBuffer,
-      );
+      if (this._contentBytes) {
+        const hash = await crypto.subtle.digest(
+          "SHA-256",
+          this._contentBytes.buffer as ArrayBuffer,
+        );
+
+        return bytesToBase64(new Uint8Array(hash));
+      }
+
+      if (!this._contentBlob) {
+        return undefined;
+      }
+
+      // Hash blobs chunk by chunk to avoid reading large files into memory
+      const hash = sha256.create();
+      for await (const chunk of iterateChunks(this._contentBlob.stream())) {
+        hash.update(chunk);
+      }
+      this.contentSha256Hash = bytesToBase64(hash.digest());
 
-      return bytesToBase64(new Uint8Array(hash));
+      return this.contentSha256Hash;
     } catch (error) {
       getGlobalLogger().warn(
         "[AntsPlatform] Failed to generate SHA-256 hash for media content:",
@@ -226,6 +406,9 @@ export class AntsPlatformMedia {
   /**
    * Gets the media content as a base64 data URI.
    *
+   * Only available for media created from a data URI or bytes, as blobs,
+   * streams and URLs are not held in memory.
+   *
    * @returns The complete data URI string, or null if no content is available
    *
    * @example
@@ -250,3 +433,105 @@ export class AntsPlatformMedia {
     return this.base64DataUri;
   }
 }
+
+async function* iterateChunks(
+  stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  if (Symbol.asyncIterator in stream) {
+    yield* stream;
+
+    return;
+  }
+
+  // Some browsers do not support async iteration of ReadableStream
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Media attached explicitly to a field of an observation.
+ *
+ * @public
+ */
+export type MediaAttachment = {
+  /** The observation field the media belongs to */
+  field: "input" | "output" | "metadata";
+  /** The attached media */
+  media: AntsPlatformMedia;
+};
+
+// Shared across module instances, as spans are created by @antsplatform/tracing
+// and processed by @antsplatform/otel
+const MEDIA_ATTACHMENTS_SYMBOL = Symbol.for("antsPlatform.mediaAttachments");
+
+function getMediaAttachmentRegistry(): WeakMap<object, MediaAttachment[]> {
+  const globalThisWithRegistry = globalThis as typeof globalThis & {
+    [MEDIA_ATTACHMENTS_SYMBOL]?: WeakMap<object, MediaAttachment[]>;
+  };
+
+  return (globalThisWithRegistry[MEDIA_ATTACHMENTS_SYMBOL] ??= new WeakMap());
+}
+
+/**
+ * Attaches media to an OpenTelemetry span, to be uploaded when the span ends.
+ *
+ * @param span - The span to attach the media to
+ * @param attachment - The media and the field it belongs to
+ * @internal
+ */
+export function attachMediaToSpan(
+  span: object,
+  attachment: MediaAttachment,
+): void {
+  const registry = getMediaAttachmentRegistry();
+
+  registry.set(span, [...(registry.get(span) ?? []), attachment]);
+}
+
+/**
+ * Removes and returns the media attached to an OpenTelemetry span.
+ *
+ * @param span - The span to take the attached media from
+ * @returns The attached media, in the order they were attached
+ * @internal
+ */
+export function takeMediaAttachments(span: object): MediaAttachment[] {
+  const registry = getMediaAttachmentRegistry();
+  const attachments = registry.get(span) ?? [];
+  registry.delete(span);
+
+  return attachments;
+}
+
+/**
+ * Writes downloaded media to files, e.g. when resolving media references
+ * with `resolveWith: "file"`.
+ *
+ * A file-backed implementation for Node.js writing to a directory is available
+ * as `FileMediaWriter` in `@antsplatform/otel`. Other destinations such as
+ * object storage can be plugged in by implementing this interface.
+ *
+ * @public
+ */
+export interface MediaFileWriter {
+  /**
+   * Writes the media content.
+   *
+   * @param params - The media ID, content type and content bytes
+   * @returns The path or location the content was written to
+   */
+  write(params: {
+    mediaId: string;
+    contentType: string;
+    content: Uint8Array;
+  }): Promise<string>;
+}
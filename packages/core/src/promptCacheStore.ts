@@ -0,0 +1,103 @@
+import type { Prompt } from "./api/api/index.js";
+
+/**
+ * A prompt persisted in a prompt cache store.
+ *
+ * @public
+ */
+export type PromptCacheEntry = {
+  /** The prompt as returned by the API */
+  prompt: Prompt;
+  /** Unix timestamp in milliseconds after which the entry is stale */
+  expiresAt: number;
+};
+
+/**
+ * Persistent storage for the prompt cache.
+ *
+ * Prompts are always cached in memory. A store additionally persists them, so
+ * that cold starts (e.g. serverless functions) and other processes sharing the
+ * store can serve prompts without fetching them from the API first. Stale
+ * entries are still served while being refreshed in the background.
+ *
+ * A file-backed implementation for Node.js is available as `FilePromptCacheStore`
+ * in `@antsplatform/otel`. Other backends such as Redis can be plugged in by
+ * implementing this interface.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: PromptCacheStore = {
+ *   async get(key) {
+ *     const value = await redis.get(`prompts:${key}`);
+ *     return value ? JSON.parse(value) : undefined;
+ *   },
+ *   async set(key, entry) {
+ *     await redis.set(`prompts:${key}`, JSON.stringify(entry));
+ *   },
+ *   async delete(key) {
+ *     await redis.del(`prompts:${key}`);
+ *   },
+ *   async keys() {
+ *     const keys = await redis.keys('prompts:*');
+ *     return keys.map((key) => key.slice('prompts:'.length));
+ *   },
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface PromptCacheStore {
+  /**
+   * Returns the entry stored under the key, including stale entries.
+   *
+   * @param key - The cache key
+   */
+  get(key: string): Promise<PromptCacheEntry | undefined>;
+
+  /**
+   * Stores an entry under the key.
+   *
+   * @param key - The cache key
+   * @param entry - The entry to store
+   */
+  set(key: string, entry: PromptCacheEntry): Promise<void>;
+
+  /**
+   * Removes the entry stored under the key.
+   *
+   * @param key - The cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Returns all keys in the store.
+   */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * In-memory prompt cache store.
+ *
+ * Useful for sharing cached prompts between multiple clients in the same process.
+ *
+ * @public
+ */
+export class InMemoryPromptCacheStore implements PromptCacheStore {
+  private entries = new Map<string, PromptCacheEntry>();
+
+  async get(key: string): Promise<PromptCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: PromptCacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
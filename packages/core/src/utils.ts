@@ -7,7 +7,11 @@ type AntsPlatformEnvVar =
   | "ANTS_PLATFORM_FLUSH_AT"
   | "ANTS_PLATFORM_FLUSH_INTERVAL"
   | "ANTS_PLATFORM_LOG_LEVEL"
+  | "ANTS_PLATFORM_LOG_LEVELS"
+  | "ANTS_PLATFORM_LOG_FORMAT"
+  | "ANTS_PLATFORM_MAX_FIELD_BYTES"
   | "ANTS_PLATFORM_RELEASE"
+  | "ANTS_PLATFORM_SAMPLE_RATE"
   | "ANTS_PLATFORM_TRACING_ENVIRONMENT";
 
 export function getEnv(key: AntsPlatformEnvVar): string | undefined {
@@ -0,0 +1,2 @@
+export { observeGoogleGenAI } from "./observeGoogleGenAI.js";
+export * from "./types.js";
@@ -0,0 +1,204 @@
+import {
+  parseInputArgs,
+  parseModelParameters,
+  toMediaDataUris,
+} from "./parseGoogleGenAI.js";
+import { TracingOptions, withTracing } from "./traceMethod.js";
+import type { AntsPlatformConfig } from "./types.js";
+
+/**
+ * Wraps a Google GenAI SDK client with automatic AntsPlatform tracing.
+ *
+ * This function creates a proxy around the `GoogleGenAI` client of the
+ * `@google/genai` SDK that automatically traces
+ *
+ * - `models.generateContent` and `models.generateContentStream` as generations,
+ * - `sendMessage` and `sendMessageStream` of chat sessions created with
+ *   `chats.create` as generations with the chat history as input,
+ * - `models.embedContent` as embeddings.
+ *
+ * Generations capture the usage metadata including cached and thoughts
+ * tokens, function call parts as tool calls and thought parts as thoughts.
+ * Inline data parts like images are uploaded as media of the observation.
+ * All other methods of the SDK are passed through without tracing.
+ *
+ * @param sdk - The Google GenAI SDK client instance to wrap with tracing
+ * @param antsPlatformConfig - Optional configuration for tracing behavior
+ * @returns A proxied version of the Google GenAI SDK with automatic tracing
+ *
+ * @example
+ * ```typescript
+ * import { GoogleGenAI } from '@google/genai';
+ * import { observeGoogleGenAI } from '@antsplatform/google-genai';
+ *
+ * const ai = observeGoogleGenAI(new GoogleGenAI({
+ *   apiKey: process.env.GEMINI_API_KEY,
+ * }));
+ *
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.5-flash',
+ *   contents: 'Explain quantum computing',
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Chat sessions and streaming responses are also traced
+ * const ai = observeGoogleGenAI(new GoogleGenAI(), {
+ *   traceName: 'support-chat',
+ *   sessionId: 'session-456',
+ * });
+ *
+ * const chat = ai.chats.create({ model: 'gemini-2.5-flash' });
+ * const stream = await chat.sendMessageStream({ message: 'Hello!' });
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk.text ?? '');
+ * }
+ * ```
+ *
+ * @public
+ */
+export const observeGoogleGenAI = <SDKType extends object>(
+  sdk: SDKType,
+  antsPlatformConfig?: AntsPlatformConfig,
+): SDKType => {
+  return observeNestedObject(sdk, antsPlatformConfig, [
+    sdk.constructor?.name ?? "GoogleGenAI",
+  ]);
+};
+
+const parseContentArgs = (args: unknown[]) =>
+  parseInputArgs((args[0] as Record<string, any>) ?? {});
+
+const parseEmbedArgs = (args: unknown[]) => {
+  const params = (args[0] as Record<string, any>) ?? {};
+
+  return {
+    model: params.model,
+    input: toMediaDataUris(params.contents),
+    modelParameters: Object.fromEntries(
+      ["taskType", "outputDimensionality", "title"]
+        .filter((key) => params.config?.[key] !== undefined)
+        .map((key) => [key, params.config[key]]),
+    ),
+  };
+};
+
+const TRACED_MODEL_METHODS: Record<string, TracingOptions> = {
+  generateContent: { asType: "generation", parseArgs: parseContentArgs },
+  generateContentStream: { asType: "generation", parseArgs: parseContentArgs },
+  embedContent: { asType: "embedding", parseArgs: parseEmbedArgs },
+};
+
+const observeNestedObject = <T extends object>(
+  target: T,
+  antsPlatformConfig: AntsPlatformConfig | undefined,
+  path: string[],
+): T => {
+  return new Proxy(target, {
+    get(wrappedTarget, propKey, proxy) {
+      const originalProperty = wrappedTarget[propKey as keyof T];
+      const propertyPath = [...path, propKey.toString()];
+      const resource = path[path.length - 1];
+
+      if (typeof originalProperty === "function") {
+        const boundMethod = originalProperty.bind(wrappedTarget);
+        const generationName =
+          antsPlatformConfig?.generationName ?? propertyPath.join(".");
+
+        // Trace content generation and embedding of the Google GenAI SDK
+        if (
+          resource === "models" &&
+          typeof propKey === "string" &&
+          Object.hasOwn(TRACED_MODEL_METHODS, propKey)
+        ) {
+          return withTracing(
+            boundMethod,
+            { ...antsPlatformConfig, generationName },
+            TRACED_MODEL_METHODS[propKey],
+          );
+        }
+
+        // Trace messages of chat sessions
+        if (resource === "chats" && propKey === "create") {
+          return (params: Record<string, any>, ...rest: unknown[]) =>
+            observeChat(boundMethod(params, ...rest), params ?? {}, {
+              antsPlatformConfig,
+              path,
+            });
+        }
+
+        return boundMethod;
+      }
+
+      const isNestedGoogleGenAIObject =
+        originalProperty &&
+        !Array.isArray(originalProperty) &&
+        !(originalProperty instanceof Date) &&
+        typeof originalProperty === "object";
+
+      // Recursively wrap nested objects to reach nested modules like `models` and `chats`
+      if (isNestedGoogleGenAIObject) {
+        return observeNestedObject(
+          originalProperty,
+          antsPlatformConfig,
+          propertyPath,
+        );
+      }
+
+      // Fallback to returning the original value
+      return Reflect.get(wrappedTarget, propKey, proxy);
+    },
+  });
+};
+
+const observeChat = <T extends object>(
+  chat: T,
+  chatParams: Record<string, any>,
+  context: { antsPlatformConfig?: AntsPlatformConfig; path: string[] },
+): T => {
+  return new Proxy(chat, {
+    get(wrappedChat, propKey, proxy) {
+      const originalProperty = wrappedChat[propKey as keyof T];
+
+      if (
+        typeof originalProperty === "function" &&
+        (propKey === "sendMessage" || propKey === "sendMessageStream")
+      ) {
+        const generationName =
+          context.antsPlatformConfig?.generationName ??
+          [...context.path, propKey].join(".");
+
+        return withTracing(
+          originalProperty.bind(wrappedChat),
+          { ...context.antsPlatformConfig, generationName },
+          {
+            asType: "generation",
+            parseArgs: (args) => {
+              const params = (args[0] as Record<string, any>) ?? {};
+              const config = { ...chatParams.config, ...params.config };
+              const history = (
+                wrappedChat as { getHistory?: () => unknown }
+              ).getHistory?.();
+
+              return {
+                model: chatParams.model,
+                input: toMediaDataUris({
+                  ...(config.systemInstruction !== undefined
+                    ? { systemInstruction: config.systemInstruction }
+                    : {}),
+                  history,
+                  message: params.message,
+                }),
+                modelParameters: parseModelParameters(config),
+              };
+            },
+          },
+        );
+      }
+
+      return Reflect.get(wrappedChat, propKey, proxy);
+    },
+  });
+};
@@ -0,0 +1,322 @@
+/**
+ * Part of a content as used by the Google GenAI API, e.g. text, a function
+ * call or inline data.
+ */
+type GoogleGenAIPart = {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { id?: string; name?: string; args?: Record<string, unknown> };
+  inlineData?: { mimeType?: string; data?: string };
+  [key: string]: unknown;
+};
+
+type GoogleGenAICandidate = {
+  content?: { role?: string; parts?: GoogleGenAIPart[] };
+  finishReason?: string;
+  index?: number;
+  [key: string]: unknown;
+};
+
+type GoogleGenAIUsageMetadata = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+  thoughtsTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  totalTokenCount?: number;
+};
+
+/**
+ * Response of `generateContent` and chunk of `generateContentStream`.
+ */
+type GoogleGenAIResponse = {
+  candidates?: GoogleGenAICandidate[];
+  usageMetadata?: GoogleGenAIUsageMetadata;
+  modelVersion?: string;
+  responseId?: string;
+  promptFeedback?: unknown;
+};
+
+type ParsedGoogleGenAIArguments = {
+  model: string | undefined;
+  input: unknown;
+  modelParameters: Record<string, any>;
+};
+
+const MODEL_PARAMETER_KEYS = [
+  "temperature",
+  "topP",
+  "topK",
+  "candidateCount",
+  "maxOutputTokens",
+  "stopSequences",
+  "presencePenalty",
+  "frequencyPenalty",
+  "seed",
+  "responseMimeType",
+  "thinkingConfig",
+];
+
+export const parseModelParameters = (
+  config: Record<string, any> | undefined,
+): Record<string, any> => {
+  const modelParameters: Record<string, any> = {};
+
+  for (const key of MODEL_PARAMETER_KEYS) {
+    if (config?.[key] !== undefined) {
+      modelParameters[key] = config[key];
+    }
+  }
+
+  return modelParameters;
+};
+
+/**
+ * Parses the arguments of `generateContent` and `generateContentStream`.
+ */
+export const parseInputArgs = (
+  args: Record<string, any>,
+): ParsedGoogleGenAIArguments => {
+  const config = args.config ?? {};
+  const input: Record<string, unknown> = {};
+
+  if (config.systemInstruction !== undefined) {
+    input.systemInstruction = toMediaDataUris(config.systemInstruction);
+  }
+  input.contents = toMediaDataUris(args.contents);
+  if (config.tools !== undefined) {
+    input.tools = config.tools;
+  }
+  if (config.toolConfig !== undefined) {
+    input.toolConfig = config.toolConfig;
+  }
+
+  return {
+    model: args.model,
+    input,
+    modelParameters: parseModelParameters(config),
+  };
+};
+
+/**
+ * Replaces the base64 data of inline data parts with data URIs, so that the
+ * media is uploaded and referenced by the span processor instead of being
+ * stored as part of the input or output.
+ */
+export const toMediaDataUris = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(toMediaDataUris);
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => {
+      if (
+        key === "inlineData" &&
+        typeof nested?.data === "string" &&
+        !nested.data.startsWith("data:")
+      ) {
+        const mimeType = nested.mimeType ?? "application/octet-stream";
+
+        return [
+          key,
+          { ...nested, data: `data:${mimeType};base64,${nested.data}` },
+        ];
+      }
+
+      return [key, toMediaDataUris(nested)];
+    }),
+  );
+};
+
+const isTextPart = (
+  part: GoogleGenAIPart,
+): part is GoogleGenAIPart & { text: string } => typeof part.text === "string";
+
+/**
+ * Parses the output of a candidate as assistant message. Text parts are
+ * joined, function call parts are returned as tool calls and thought parts
+ * as thoughts. Candidates with non-text parts like inline images keep their
+ * parts as content.
+ */
+const parseCandidateOutput = (candidate: GoogleGenAICandidate) => {
+  const parts = candidate.content?.parts ?? [];
+  const contentParts = parts.filter(
+    (part) => !part.thought && part.functionCall === undefined,
+  );
+  const thoughts = parts
+    .filter((part) => part.thought && part.text)
+    .map((part) => part.text)
+    .join("");
+  const functionCalls = parts.flatMap((part) =>
+    part.functionCall ? [part.functionCall] : [],
+  );
+
+  const isTextOnly = contentParts.every(isTextPart);
+
+  return {
+    role: "assistant",
+    content: isTextOnly
+      ? contentParts.map((part) => part.text).join("")
+      : toMediaDataUris(contentParts),
+    ...(functionCalls.length > 0
+      ? {
+          tool_calls: functionCalls.map((functionCall) => ({
+            ...(functionCall.id ? { id: functionCall.id } : {}),
+            type: "function",
+            function: {
+              name: functionCall.name,
+              arguments: JSON.stringify(functionCall.args ?? {}),
+            },
+          })),
+        }
+      : {}),
+    ...(thoughts ? { thoughts } : {}),
+  };
+};
+
+export const parseResponseOutput = (response: GoogleGenAIResponse): unknown => {
+  const candidates = response.candidates ?? [];
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return candidates.length === 1
+    ? parseCandidateOutput(candidates[0])
+    : candidates.map(parseCandidateOutput);
+};
+
+/**
+ * Parses the usage metadata of a response.
+ *
+ * Gemini includes cached tokens in the prompt tokens and reports thoughts
+ * separately from the candidates, so the input is reduced by the cached
+ * tokens and thoughts are reported as reasoning output.
+ */
+export const parseUsageDetails = (
+  usageMetadata: GoogleGenAIUsageMetadata | undefined,
+): Record<string, number> | undefined => {
+  if (!usageMetadata || typeof usageMetadata.promptTokenCount !== "number") {
+    return undefined;
+  }
+
+  const cachedTokens = usageMetadata.cachedContentTokenCount ?? 0;
+  const usageDetails: Record<string, number> = {
+    input: usageMetadata.promptTokenCount - cachedTokens,
+    output: usageMetadata.candidatesTokenCount ?? 0,
+  };
+
+  if (usageMetadata.cachedContentTokenCount !== undefined) {
+    usageDetails.input_cache_read = cachedTokens;
+  }
+  if (usageMetadata.toolUsePromptTokenCount !== undefined) {
+    usageDetails.input_tool_use = usageMetadata.toolUsePromptTokenCount;
+  }
+  if (usageMetadata.thoughtsTokenCount !== undefined) {
+    usageDetails.output_reasoning = usageMetadata.thoughtsTokenCount;
+  }
+  if (usageMetadata.totalTokenCount !== undefined) {
+    usageDetails.total = usageMetadata.totalTokenCount;
+  }
+
+  return usageDetails;
+};
+
+export const parseMetadataFromResponse = (
+  response: GoogleGenAIResponse,
+): Record<string, unknown> | undefined => {
+  const metadata: Record<string, unknown> = {};
+  const finishReasons = (response.candidates ?? [])
+    .map((candidate) => candidate.finishReason)
+    .filter(Boolean);
+
+  if (response.responseId) {
+    metadata.responseId = response.responseId;
+  }
+  if (finishReasons.length > 0) {
+    metadata.finishReason =
+      finishReasons.length === 1 ? finishReasons[0] : finishReasons;
+  }
+  if (response.promptFeedback) {
+    metadata.promptFeedback = response.promptFeedback;
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+};
+
+export const isGoogleGenAIResponse = (
+  res: unknown,
+): res is GoogleGenAIResponse =>
+  typeof res === "object" &&
+  res !== null &&
+  ("candidates" in res || "usageMetadata" in res);
+
+/**
+ * Rebuilds a response from the chunks of a streamed `generateContentStream`
+ * or `sendMessageStream` call.
+ *
+ * Consecutive text parts of a candidate are merged, other parts like function
+ * calls or inline data are appended. Usage metadata, finish reasons and the
+ * model version are taken from the latest chunk providing them.
+ */
+export class ResponseStreamAccumulator {
+  private response: GoogleGenAIResponse = {};
+  private candidates = new Map<number, GoogleGenAICandidate>();
+
+  public add(chunk: unknown): void {
+    if (!isGoogleGenAIResponse(chunk)) {
+      return;
+    }
+
+    this.response.usageMetadata =
+      chunk.usageMetadata ?? this.response.usageMetadata;
+    this.response.modelVersion =
+      chunk.modelVersion ?? this.response.modelVersion;
+    this.response.responseId = chunk.responseId ?? this.response.responseId;
+    this.response.promptFeedback =
+      chunk.promptFeedback ?? this.response.promptFeedback;
+
+    for (const [position, candidate] of (chunk.candidates ?? []).entries()) {
+      const index = candidate.index ?? position;
+      const existing = this.candidates.get(index) ?? {
+        content: { role: candidate.content?.role, parts: [] },
+      };
+      const parts = existing.content!.parts!;
+
+      for (const part of candidate.content?.parts ?? []) {
+        const previous = parts[parts.length - 1];
+
+        if (
+          previous !== undefined &&
+          isTextPart(part) &&
+          isTextPart(previous) &&
+          Boolean(previous.thought) === Boolean(part.thought)
+        ) {
+          parts[parts.length - 1] = {
+            ...previous,
+            ...part,
+            text: previous.text + part.text,
+          };
+        } else {
+          parts.push({ ...part });
+        }
+      }
+
+      existing.finishReason = candidate.finishReason ?? existing.finishReason;
+      this.candidates.set(index, existing);
+    }
+  }
+
+  public getResponse(): GoogleGenAIResponse {
+    return {
+      ...this.response,
+      candidates: [...this.candidates.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, candidate]) => candidate),
+    };
+  }
+}
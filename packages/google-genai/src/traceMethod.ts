@@ -0,0 +1,261 @@
+import {
+  AntsPlatformEmbedding,
+  AntsPlatformGeneration,
+  startObservation,
+} from "@antsplatform/tracing";
+
+import {
+  ResponseStreamAccumulator,
+  isGoogleGenAIResponse,
+  parseMetadataFromResponse,
+  parseResponseOutput,
+  parseUsageDetails,
+} from "./parseGoogleGenAI.js";
+import type { AntsPlatformConfig } from "./types.js";
+import { isAsyncIterable } from "./utils.js";
+
+/**
+ * Generic method type for any function that can be traced.
+ * @internal
+ */
+type GenericMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Model, input and model parameters of a traced call.
+ * @internal
+ */
+export type ParsedCall = {
+  model: string | undefined;
+  input: unknown;
+  modelParameters: Record<string, any>;
+};
+
+/**
+ * Options of a traced method.
+ * @internal
+ */
+export type TracingOptions = {
+  /** The observation type of the traced calls */
+  asType: "generation" | "embedding";
+  /** Parses the model, input and model parameters from the call arguments */
+  parseArgs: (args: unknown[]) => ParsedCall;
+};
+
+type TracedObservation = AntsPlatformGeneration | AntsPlatformEmbedding;
+
+/**
+ * Wraps a method with AntsPlatform tracing functionality.
+ *
+ * This function creates a wrapper around Google GenAI SDK methods that
+ * automatically creates AntsPlatform generations or embeddings, captures
+ * input/output data, handles streaming responses, and records usage metrics
+ * and errors.
+ *
+ * @param tracedMethod - The Google GenAI SDK method to wrap with tracing
+ * @param config - Configuration for the trace and generation
+ * @param options - The observation type and argument parser of the method
+ * @returns A wrapped version of the method that creates AntsPlatform traces
+ *
+ * @internal
+ */
+export const withTracing = <T extends GenericMethod>(
+  tracedMethod: T,
+  config: AntsPlatformConfig & Required<{ generationName: string }>,
+  options: TracingOptions,
+): ((...args: Parameters<T>) => Promise<ReturnType<T>>) => {
+  return (...args) => wrapMethod(tracedMethod, config, options, ...args);
+};
+
+/**
+ * Internal method that handles the actual tracing logic for Google GenAI SDK
+ * methods.
+ *
+ * @param tracedMethod - The original Google GenAI SDK method to execute
+ * @param config - AntsPlatform configuration options
+ * @param options - The observation type and argument parser of the method
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method, potentially wrapped for streaming
+ *
+ * @internal
+ */
+const wrapMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  config: AntsPlatformConfig & Required<{ generationName: string }>,
+  options: TracingOptions,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const { model, input, modelParameters } = options.parseArgs(args);
+  const attributes = {
+    model,
+    input,
+    modelParameters,
+    prompt: config.antsPlatformPrompt,
+    metadata: config.generationMetadata,
+  };
+  const observationOptions = { parentSpanContext: config.parentSpanContext };
+
+  const observation: TracedObservation = (
+    options.asType === "embedding"
+      ? startObservation(config.generationName, attributes, {
+          ...observationOptions,
+          asType: "embedding",
+        })
+      : startObservation(config.generationName, attributes, {
+          ...observationOptions,
+          asType: "generation",
+        })
+  ).updateTrace({
+    userId: config.userId,
+    sessionId: config.sessionId,
+    tags: config.tags,
+    name: config.traceName,
+  });
+
+  try {
+    const res = tracedMethod(...args);
+
+    // Handle stream responses
+    if (isAsyncIterable(res)) {
+      return wrapAsyncIterable(res, observation);
+    }
+
+    if (res instanceof Promise) {
+      const wrappedPromise = res
+        .then((result) => {
+          if (isAsyncIterable(result)) {
+            return wrapAsyncIterable(result, observation);
+          }
+
+          if (options.asType === "embedding") {
+            observation.update(parseEmbeddingResponse(result));
+          } else if (isGoogleGenAIResponse(result)) {
+            observation.update({
+              output: parseResponseOutput(result),
+              usageDetails: parseUsageDetails(result.usageMetadata),
+              model: result.modelVersion,
+              metadata: parseMetadataFromResponse(result),
+            });
+          } else {
+            observation.update({ output: result });
+          }
+
+          observation.end();
+
+          return result;
+        })
+        .catch((err) => {
+          endWithError(observation, err);
+
+          throw err;
+        });
+
+      return wrappedPromise;
+    }
+
+    return res;
+  } catch (error) {
+    endWithError(observation, error);
+
+    throw error;
+  }
+};
+
+function endWithError(observation: TracedObservation, error: unknown) {
+  observation
+    .update({
+      statusMessage: String(error),
+      level: "ERROR",
+      costDetails: {
+        input: 0,
+        output: 0,
+        total: 0,
+      },
+    })
+    .end();
+}
+
+/**
+ * Parses the response of `embedContent`. The embedding vectors are not
+ * recorded, only their number and dimensions.
+ */
+function parseEmbeddingResponse(result: unknown) {
+  const embeddings: {
+    values?: number[];
+    statistics?: { tokenCount?: number };
+  }[] = (result as { embeddings?: [] } | null)?.embeddings ?? [];
+  const tokenCounts = embeddings
+    .map((embedding) => embedding.statistics?.tokenCount)
+    .filter((tokenCount): tokenCount is number => tokenCount !== undefined);
+
+  return {
+    output: {
+      embeddings: embeddings.length,
+      dimensions: embeddings[0]?.values?.length,
+    },
+    usageDetails:
+      tokenCounts.length > 0
+        ? { input: tokenCounts.reduce((sum, count) => sum + count, 0) }
+        : undefined,
+  };
+}
+
+/**
+ * Wraps an async iterable (streaming response) with AntsPlatform tracing.
+ *
+ * This function handles streaming Google GenAI responses by merging the
+ * chunks into a single response and updating the AntsPlatform generation
+ * with the complete output, usage details and finish reason once the stream
+ * is consumed. Streams that fail or are not consumed to the end still end
+ * the generation with the content received so far.
+ *
+ * @param iterable - The async iterable from Google GenAI (streaming response)
+ * @param observation - The AntsPlatform generation to update with stream data
+ * @returns An async generator that yields original chunks while collecting data
+ *
+ * @internal
+ */
+function wrapAsyncIterable<R>(
+  iterable: AsyncIterable<unknown>,
+  observation: TracedObservation,
+): R {
+  async function* tracedOutputGenerator(): AsyncGenerator<
+    unknown,
+    void,
+    unknown
+  > {
+    const accumulator = new ResponseStreamAccumulator();
+    let completionStartTime: Date | undefined = undefined;
+    let error: unknown = undefined;
+
+    try {
+      for await (const rawChunk of iterable) {
+        completionStartTime = completionStartTime ?? new Date();
+        accumulator.add(rawChunk);
+
+        yield rawChunk;
+      }
+    } catch (err) {
+      error = err;
+
+      throw err;
+    } finally {
+      const response = accumulator.getResponse();
+
+      observation.update({
+        output: parseResponseOutput(response),
+        completionStartTime,
+        usageDetails: parseUsageDetails(response.usageMetadata),
+        model: response.modelVersion,
+        metadata: parseMetadataFromResponse(response),
+      });
+
+      if (error !== undefined) {
+        endWithError(observation, error);
+      } else {
+        observation.end();
+      }
+    }
+  }
+
+  return tracedOutputGenerator() as R;
+}
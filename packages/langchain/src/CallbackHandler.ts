@@ -82,7 +82,7 @@ export class CallbackHandler extends BaseCallbackHandler {
   }
 
   get logger() {
-    return getGlobalLogger();
+    return getGlobalLogger().forComponent("CallbackHandler");
   }
 
   async handleLLMNewToken(
@@ -1,2 +1,3 @@
 export { observeOpenAI } from "./observeOpenAI.js";
+export { runTools, type ToolImplementations } from "./toolCalls.js";
 export * from "./types.js";
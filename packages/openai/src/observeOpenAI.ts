@@ -1,3 +1,4 @@
+import { getResourceMethod } from "./resourceMethods.js";
 import { withTracing } from "./traceMethod.js";
 import type { AntsPlatformConfig } from "./types.js";
 
@@ -11,7 +12,16 @@ import type { AntsPlatformConfig } from "./types.js";
  *
  * The wrapper recursively traces nested objects in the OpenAI SDK, ensuring
  * that all API calls (chat completions, embeddings, fine-tuning, etc.) are
- * automatically captured as AntsPlatform generations.
+ * automatically captured. Calls are traced according to their method:
+ *
+ * - `embeddings.create` as embeddings with the number and dimensions of the
+ *   embeddings as output, without the vectors themselves,
+ * - `images.generate`, `images.edit` and `images.createVariation` as
+ *   generations with the generated images uploaded as media,
+ * - `audio.speech.create`, `audio.transcriptions.create` and
+ *   `audio.translations.create` as generations with the audio uploaded as media,
+ * - `moderations.create` as guardrails with the flagged categories as output,
+ * - all other methods as generations.
  *
  * @param sdk - The OpenAI SDK client instance to wrap with tracing
  * @param antsPlatformConfig - Optional configuration for tracing behavior
@@ -92,10 +102,19 @@ import type { AntsPlatformConfig } from "./types.js";
 export const observeOpenAI = <SDKType extends object>(
   sdk: SDKType,
   antsPlatformConfig?: AntsPlatformConfig,
+): SDKType => {
+  return observeNestedObject(sdk, antsPlatformConfig, []);
+};
+
+const observeNestedObject = <SDKType extends object>(
+  sdk: SDKType,
+  antsPlatformConfig: AntsPlatformConfig | undefined,
+  path: string[],
 ): SDKType => {
   return new Proxy(sdk, {
     get(wrappedSdk, propKey, proxy) {
       const originalProperty = wrappedSdk[propKey as keyof SDKType];
+      const propertyPath = [...path, propKey.toString()];
 
       const defaultGenerationName = `${sdk.constructor?.name}.${propKey.toString()}`;
       const generationName =
@@ -104,7 +123,11 @@ export const observeOpenAI = <SDKType extends object>(
 
       // Trace methods of the OpenAI SDK
       if (typeof originalProperty === "function") {
-        return withTracing(originalProperty.bind(wrappedSdk), config);
+        return withTracing(
+          originalProperty.bind(wrappedSdk),
+          config,
+          getResourceMethod(propertyPath),
+        );
       }
 
       const isNestedOpenAIObject =
@@ -115,7 +138,7 @@ export const observeOpenAI = <SDKType extends object>(
 
       // Recursively wrap nested objects to ensure all nested properties or methods are also traced
       if (isNestedOpenAIObject) {
-        return observeOpenAI(originalProperty, config);
+        return observeNestedObject(originalProperty, config, propertyPath);
       }
 
       // Fallback to returning the original value
@@ -0,0 +1,336 @@
+import { AntsPlatformMedia, MediaContentType } from "@antsplatform/core";
+import type OpenAI from "openai";
+
+import { parseUsageDetailsFromResponse } from "./parseOpenAI.js";
+
+/**
+ * Model, input, model parameters and media of a call to a non-completion
+ * OpenAI method.
+ * @internal
+ */
+export type ParsedResourceCall = {
+  model?: string;
+  input: unknown;
+  modelParameters?: Record<string, any>;
+  /** Media attached to the input of the observation */
+  media?: AntsPlatformMedia[];
+};
+
+/**
+ * Parsed result of a call to a non-completion OpenAI method.
+ * @internal
+ */
+export type ParsedResourceResult = {
+  output: unknown;
+  usageDetails?: Record<string, number>;
+  model?: string;
+  metadata?: Record<string, unknown>;
+  level?: "WARNING";
+  statusMessage?: string;
+  /** Media attached to the output of the observation */
+  media?: AntsPlatformMedia[];
+};
+
+/**
+ * Describes how calls to a non-completion OpenAI method are traced.
+ * @internal
+ */
+export type ResourceMethod = {
+  /** The observation type of the traced calls */
+  asType: "generation" | "embedding" | "guardrail";
+  /** Parses the model, input and model parameters from the request parameters */
+  parseArgs: (params: Record<string, any>) => ParsedResourceCall;
+  /** Parses the output, usage and media from the result of the call */
+  parseResult: (
+    result: unknown,
+    params: Record<string, any>,
+  ) => ParsedResourceResult;
+};
+
+const pickDefined = (
+  params: Record<string, any>,
+  keys: string[],
+): Record<string, any> =>
+  Object.fromEntries(
+    keys
+      .filter((key) => params[key] !== undefined)
+      .map((key) => [key, params[key]]),
+  );
+
+/**
+ * Returns the number of dimensions of an embedding, which is a base64
+ * encoded array of float32 values when requested with `encoding_format: "base64"`.
+ */
+const getEmbeddingDimensions = (
+  embedding: number[] | string | undefined,
+): number | undefined => {
+  if (typeof embedding === "string") {
+    const padding = embedding.endsWith("==")
+      ? 2
+      : embedding.endsWith("=")
+        ? 1
+        : 0;
+
+    return ((embedding.length * 3) / 4 - padding) / 4;
+  }
+
+  return embedding?.length;
+};
+
+const embeddingMethod: ResourceMethod = {
+  asType: "embedding",
+  parseArgs: (params) => ({
+    model: params.model,
+    input: params.input,
+    modelParameters: pickDefined(params, [
+      "dimensions",
+      "encoding_format",
+      "user",
+    ]),
+  }),
+  // The embedding vectors are not recorded, only their number and dimensions
+  parseResult: (result) => {
+    const response = result as Partial<OpenAI.CreateEmbeddingResponse>;
+    const data = response?.data ?? [];
+
+    return {
+      output: {
+        embeddings: data.length,
+        dimensions: getEmbeddingDimensions(
+          data[0]?.embedding as number[] | string | undefined,
+        ),
+      },
+      usageDetails: response?.usage
+        ? {
+            input: response.usage.prompt_tokens,
+            total: response.usage.total_tokens,
+          }
+        : undefined,
+      model: response?.model,
+    };
+  },
+};
+
+/**
+ * Returns the files of an uploadable parameter, e.g. the images of
+ * `images.edit`, that can be attached as media. Streams are not attached as
+ * they are consumed by the OpenAI SDK.
+ */
+const getUploadedMedia = (uploadable: unknown): AntsPlatformMedia[] =>
+  (Array.isArray(uploadable) ? uploadable : [uploadable])
+    .filter((file): file is Blob => file instanceof Blob)
+    .map((file) => AntsPlatformMedia.fromBlob(file));
+
+const getFileName = (file: unknown): string | undefined =>
+  typeof file === "object" && file !== null && "name" in file
+    ? String(file.name)
+    : undefined;
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+};
+
+const imageMethod: ResourceMethod = {
+  asType: "generation",
+  parseArgs: (params) => ({
+    model: params.model,
+    input: params.prompt !== undefined ? { prompt: params.prompt } : {},
+    modelParameters: pickDefined(params, [
+      "n",
+      "size",
+      "quality",
+      "style",
+      "background",
+      "moderation",
+      "output_format",
+      "output_compression",
+      "response_format",
+      "input_fidelity",
+    ]),
+    media: [
+      ...getUploadedMedia(params.image),
+      ...getUploadedMedia(params.mask),
+    ],
+  }),
+  // Base64 images are recorded as data URIs, so that they are uploaded as
+  // media by the span processor. Image URLs are attached as media, as they
+  // expire after an hour.
+  parseResult: (result, params) => {
+    const response = result as Partial<OpenAI.ImagesResponse>;
+    const format = response?.output_format ?? params.output_format ?? "png";
+    const contentType = IMAGE_CONTENT_TYPES[format] ?? "image/png";
+    const images = (response?.data ?? []).map((image) => ({
+      ...(image.b64_json
+        ? { b64_json: `data:${contentType};base64,${image.b64_json}` }
+        : {}),
+      ...(image.url ? { url: image.url } : {}),
+      ...(image.revised_prompt ? { revised_prompt: image.revised_prompt } : {}),
+    }));
+
+    return {
+      output: images,
+      usageDetails: parseUsageDetailsFromResponse(response),
+      media: images.flatMap((image) =>
+        image.url ? [AntsPlatformMedia.fromUrl(image.url)] : [],
+      ),
+    };
+  },
+};
+
+const SPEECH_CONTENT_TYPES: Record<string, MediaContentType> = {
+  mp3: "audio/mpeg",
+  opus: "audio/ogg",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  wav: "audio/wav",
+};
+
+const speechMethod: ResourceMethod = {
+  asType: "generation",
+  parseArgs: (params) => ({
+    model: params.model,
+    input: pickDefined(params, ["input", "instructions"]),
+    modelParameters: pickDefined(params, [
+      "voice",
+      "response_format",
+      "speed",
+      "stream_format",
+    ]),
+  }),
+  // The audio is read from a clone of the response when it is uploaded, so
+  // that the caller can consume the original response as usual
+  parseResult: (result, params) => {
+    const contentType = SPEECH_CONTENT_TYPES[params.response_format ?? "mp3"];
+    const body =
+      result instanceof Response && contentType ? result.clone().body : null;
+
+    return {
+      output: { contentType },
+      media: body ? [AntsPlatformMedia.fromStream(body, contentType)] : [],
+    };
+  },
+};
+
+const transcriptionMethod: ResourceMethod = {
+  asType: "generation",
+  parseArgs: (params) => ({
+    model: params.model,
+    input: {
+      file: getFileName(params.file),
+      ...pickDefined(params, ["prompt"]),
+    },
+    modelParameters: pickDefined(params, [
+      "language",
+      "response_format",
+      "temperature",
+      "timestamp_granularities",
+      "include",
+    ]),
+    media: getUploadedMedia(params.file),
+  }),
+  parseResult: (result) => {
+    if (typeof result === "string") {
+      return { output: result };
+    }
+
+    const transcription = result as {
+      text?: string;
+      language?: string;
+      duration?: number;
+      usage?: OpenAI.Audio.Transcription["usage"];
+    } | null;
+    const usage = transcription?.usage;
+    const metadata = pickDefined(transcription ?? {}, ["language", "duration"]);
+
+    if (usage?.type === "duration") {
+      metadata.duration = usage.seconds;
+    }
+
+    return {
+      output: transcription?.text,
+      usageDetails:
+        usage?.type === "tokens"
+          ? {
+              input: usage.input_tokens,
+              output: usage.output_tokens,
+              total: usage.total_tokens,
+              ...pickDefined(
+                {
+                  input_audio: usage.input_token_details?.audio_tokens,
+                  input_text: usage.input_token_details?.text_tokens,
+                },
+                ["input_audio", "input_text"],
+              ),
+            }
+          : undefined,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    };
+  },
+};
+
+const moderationMethod: ResourceMethod = {
+  asType: "guardrail",
+  parseArgs: (params) => ({
+    model: params.model,
+    input: params.input,
+  }),
+  // Only the flagged categories are recorded, the category scores are
+  // available in the response
+  parseResult: (result) => {
+    const response = result as Partial<OpenAI.ModerationCreateResponse>;
+    const results = (response?.results ?? []).map((moderation) => ({
+      flagged: moderation.flagged,
+      categories: Object.entries(moderation.categories ?? {})
+        .filter(([, flagged]) => flagged)
+        .map(([category]) => category),
+    }));
+    const flaggedCategories = [
+      ...new Set(results.flatMap((moderation) => moderation.categories)),
+    ];
+    const isFlagged = results.some((moderation) => moderation.flagged);
+
+    return {
+      output: results.length === 1 ? results[0] : results,
+      metadata: pickDefined(response ?? {}, ["id", "model"]),
+      ...(isFlagged
+        ? {
+            level: "WARNING",
+            statusMessage: `Flagged: ${flaggedCategories.join(", ")}`,
+          }
+        : {}),
+    };
+  },
+};
+
+const RESOURCE_METHODS: Record<string, ResourceMethod> = {
+  "embeddings.create": embeddingMethod,
+  "images.generate": imageMethod,
+  "images.edit": imageMethod,
+  "images.createVariation": imageMethod,
+  "audio.speech.create": speechMethod,
+  "audio.transcriptions.create": transcriptionMethod,
+  "audio.translations.create": transcriptionMethod,
+  "moderations.create": moderationMethod,
+};
+
+/**
+ * Returns how calls to the OpenAI method at the given property path, e.g.
+ * `["embeddings", "create"]`, are traced. Methods without a resource method,
+ * like chat completions and responses, are traced as completions.
+ *
+ * @param path - The property path of the method on the OpenAI client
+ * @returns The resource method, or undefined for completion methods
+ * @internal
+ */
+export const getResourceMethod = (
+  path: string[],
+): ResourceMethod | undefined => {
+  const key = path.join(".");
+
+  return Object.hasOwn(RESOURCE_METHODS, key)
+    ? RESOURCE_METHODS[key]
+    : undefined;
+};
@@ -0,0 +1,312 @@
+import {
+  AntsPlatformGeneration,
+  AntsPlatformTool,
+  startObservation,
+} from "@antsplatform/tracing";
+import type OpenAI from "openai";
+
+import {
+  parseCompletionOutput,
+  parseModelDataFromResponse,
+  parseUsageDetailsFromResponse,
+} from "./parseOpenAI.js";
+
+type ResponseStreamEvent = OpenAI.Responses.ResponseStreamEvent;
+type ResponseOutputItem = OpenAI.Responses.ResponseOutputItem;
+
+/**
+ * Output item types of built-in tools that are traced as child `tool`
+ * observations of the generation, by the name of their observation.
+ */
+const BUILT_IN_TOOL_CALLS: Record<string, string> = {
+  web_search_call: "web_search",
+  file_search_call: "file_search",
+  code_interpreter_call: "code_interpreter",
+};
+
+// Events of tokens generated by the model, the first of which marks the
+// completion start time
+const TOKEN_DELTA_EVENTS = new Set([
+  "response.output_text.delta",
+  "response.refusal.delta",
+  "response.reasoning_text.delta",
+  "response.reasoning_summary_text.delta",
+  "response.function_call_arguments.delta",
+  "response.code_interpreter_call_code.delta",
+  "response.audio.delta",
+]);
+
+/**
+ * Timing of an output item of a streamed response.
+ */
+type OutputItemTiming = {
+  id?: string;
+  type: string;
+  outputIndex: number;
+  startTime: string;
+  endTime?: string;
+  durationMs?: number;
+};
+
+/**
+ * Type guard for events of a Responses API stream, e.g.
+ * `response.output_text.delta`, as opposed to chat completion chunks.
+ * @internal
+ */
+export const isResponsesStreamEvent = (
+  chunk: unknown,
+): chunk is ResponseStreamEvent =>
+  typeof chunk === "object" &&
+  chunk !== null &&
+  "type" in chunk &&
+  typeof chunk.type === "string" &&
+  (chunk.type.startsWith("response.") || chunk.type === "error");
+
+/**
+ * Action of a web search call, e.g. a search with its query and sources.
+ * Not part of the typings of all OpenAI SDK versions.
+ */
+type WebSearchAction = {
+  type: string;
+  query?: string;
+  url?: string;
+  sources?: unknown[];
+};
+
+const getWebSearchAction = (item: ResponseOutputItem) =>
+  (item as { action?: WebSearchAction }).action;
+
+const parseToolCallInput = (item: ResponseOutputItem): unknown => {
+  switch (item.type) {
+    case "web_search_call":
+      return getWebSearchAction(item);
+    case "file_search_call":
+      return { queries: item.queries };
+    case "code_interpreter_call":
+      return { code: item.code, containerId: item.container_id };
+    default:
+      return undefined;
+  }
+};
+
+const parseToolCallOutput = (item: ResponseOutputItem): unknown => {
+  switch (item.type) {
+    case "web_search_call": {
+      const sources = getWebSearchAction(item)?.sources;
+
+      return sources ? { sources } : { status: item.status };
+    }
+    case "file_search_call":
+      return item.results ?? { status: item.status };
+    case "code_interpreter_call":
+      return item.outputs ?? { status: item.status };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Collects the events of a streamed Responses API call.
+ *
+ * Besides the final response, the accumulator records the time of the first
+ * generated token, the start and end time of each output item, reasoning
+ * summaries and refusals. Calls of built-in tools like web search, file
+ * search and code interpreter are traced as child `tool` observations of the
+ * generation, from the time their output item is added until it is done.
+ *
+ * If the stream ends without a final response, e.g. because it was aborted,
+ * the output is built from the output items received so far.
+ *
+ * @internal
+ */
+export class ResponsesStreamAccumulator {
+  private response: OpenAI.Responses.Response | undefined;
+  private completionStartTime: Date | undefined;
+  private items = new Map<number, ResponseOutputItem>();
+  private itemTimings = new Map<number, OutputItemTiming>();
+  private partialText = new Map<number, string>();
+  private toolObservations = new Map<number, AntsPlatformTool>();
+  private reasoningSummaries: string[] = [];
+  private refusals: string[] = [];
+  private errorMessage: string | undefined;
+
+  constructor(private generation: AntsPlatformGeneration) {}
+
+  public add(event: ResponseStreamEvent): void {
+    const now = new Date();
+
+    if (TOKEN_DELTA_EVENTS.has(event.type)) {
+      this.completionStartTime = this.completionStartTime ?? now;
+    }
+
+    switch (event.type) {
+      case "response.created":
+      case "response.in_progress":
+      case "response.completed":
+      case "response.incomplete":
+      case "response.failed":
+        this.response = event.response;
+
+        if (event.type === "response.failed") {
+          this.errorMessage =
+            event.response.error?.message ?? "Response failed";
+        }
+        break;
+
+      case "response.output_item.added":
+        this.items.set(event.output_index, event.item);
+        this.itemTimings.set(event.output_index, {
+          id: event.item.id,
+          type: event.item.type,
+          outputIndex: event.output_index,
+          startTime: now.toISOString(),
+        });
+        this.startToolObservation(event.output_index, event.item, now);
+        break;
+
+      case "response.output_item.done": {
+        const timing = this.itemTimings.get(event.output_index);
+
+        this.items.set(event.output_index, event.item);
+        if (timing) {
+          timing.endTime = now.toISOString();
+          timing.durationMs = now.getTime() - Date.parse(timing.startTime);
+        }
+        this.endToolObservation(event.output_index, event.item);
+        break;
+      }
+
+      case "response.output_text.delta":
+        this.partialText.set(
+          event.output_index,
+          (this.partialText.get(event.output_index) ?? "") + event.delta,
+        );
+        break;
+
+      case "response.reasoning_summary_text.done":
+        this.reasoningSummaries.push(event.text);
+        break;
+
+      case "response.refusal.done":
+        this.refusals.push(event.refusal);
+        break;
+
+      case "error":
+        this.errorMessage = event.message;
+        break;
+    }
+  }
+
+  /**
+   * Returns the attributes to update the generation with once the stream has
+   * ended, and ends the observations of built-in tool calls that were not
+   * done yet.
+   */
+  public getResult() {
+    for (const [outputIndex, tool] of this.toolObservations) {
+      tool.update({
+        level: "WARNING",
+        statusMessage: "Tool call not completed",
+      });
+      tool.end();
+      this.toolObservations.delete(outputIndex);
+    }
+
+    const {
+      model,
+      modelParameters,
+      metadata: metadataFromResponse,
+    } = parseModelDataFromResponse(this.response);
+    const isFinished =
+      this.response?.status === "completed" ||
+      this.response?.status === "incomplete" ||
+      this.response?.status === "failed";
+
+    const metadata: Record<string, unknown> = {
+      ...metadataFromResponse,
+      ...(this.itemTimings.size > 0
+        ? { outputItems: [...this.itemTimings.values()] }
+        : {}),
+      ...(this.reasoningSummaries.length > 0
+        ? { reasoningSummary: this.reasoningSummaries.join("\n\n") }
+        : {}),
+      ...(this.refusals.length > 0
+        ? { refusal: this.refusals.join("\n") }
+        : {}),
+    };
+
+    return {
+      output:
+        isFinished && this.response
+          ? parseCompletionOutput(this.response)
+          : this.getPartialOutput(),
+      usageDetails: parseUsageDetailsFromResponse(this.response),
+      completionStartTime: this.completionStartTime,
+      model,
+      modelParameters,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+      ...(this.errorMessage
+        ? { level: "ERROR" as const, statusMessage: this.errorMessage }
+        : {}),
+    };
+  }
+
+  private getPartialOutput(): unknown {
+    const output = [...this.items.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([outputIndex, item]) => {
+        const text = this.partialText.get(outputIndex);
+
+        if (item.type === "message" && item.content.length === 0 && text) {
+          return {
+            ...item,
+            content: [{ type: "output_text", text, annotations: [] }],
+          };
+        }
+
+        return item;
+      });
+
+    return parseCompletionOutput({ output });
+  }
+
+  private startToolObservation(
+    outputIndex: number,
+    item: ResponseOutputItem,
+    startTime: Date,
+  ) {
+    if (!Object.hasOwn(BUILT_IN_TOOL_CALLS, item.type)) {
+      return;
+    }
+
+    this.toolObservations.set(
+      outputIndex,
+      startObservation(
+        BUILT_IN_TOOL_CALLS[item.type],
+        { metadata: { itemId: item.id } },
+        {
+          asType: "tool",
+          startTime,
+          parentSpanContext: this.generation.otelSpan.spanContext(),
+        },
+      ),
+    );
+  }
+
+  private endToolObservation(outputIndex: number, item: ResponseOutputItem) {
+    const tool = this.toolObservations.get(outputIndex);
+
+    if (!tool) {
+      return;
+    }
+
+    tool
+      .update({
+        input: parseToolCallInput(item),
+        output: parseToolCallOutput(item),
+        metadata: "status" in item ? { status: item.status } : undefined,
+      })
+      .end();
+    this.toolObservations.delete(outputIndex);
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  AntsPlatformGeneration,
+  AntsPlatformTool,
+  startActiveObservation,
+  startObservation,
+} from "@antsplatform/tracing";
+import { SpanContext } from "@opentelemetry/api";
+import type OpenAI from "openai";
+
+/**
+ * Tool call of a chat completion as returned by the OpenAI API, or as
+ * collected from the chunks of a streamed chat completion.
+ * @internal
+ */
+export type ToolCall = {
+  id?: string;
+  function: { name: string; arguments: string };
+};
+
+/**
+ * Implementations of the tools offered to the model, by tool name.
+ *
+ * Each implementation receives the parsed arguments of the tool call and the
+ * tool call itself. Results that are not strings are sent back to the model
+ * as JSON.
+ *
+ * @public
+ */
+export type ToolImplementations = Record<
+  string,
+  (
+    args: any,
+    toolCall: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall,
+  ) => unknown
+>;
+
+// Span contexts of the generations that traced a chat completion, so that
+// tools executed for the completion are nested under its generation
+const completionGenerations = new WeakMap<object, SpanContext>();
+
+/**
+ * Remembers the generation that traced a chat completion.
+ *
+ * @param completion - The chat completion returned by the OpenAI SDK
+ * @param generation - The generation tracing the completion
+ * @internal
+ */
+export const registerCompletionGeneration = (
+  completion: unknown,
+  generation: AntsPlatformGeneration,
+): void => {
+  if (typeof completion === "object" && completion !== null) {
+    completionGenerations.set(completion, generation.otelSpan.spanContext());
+  }
+};
+
+const parseToolArguments = (toolArguments: string): unknown => {
+  try {
+    return JSON.parse(toolArguments);
+  } catch {
+    return toolArguments;
+  }
+};
+
+/**
+ * Records the tool calls requested by a generation as child `tool`
+ * observations. The observations are ended right away, as the tools are
+ * executed by the caller.
+ *
+ * @param generation - The generation that requested the tool calls
+ * @param toolCalls - The tool calls of the generation
+ * @internal
+ */
+export const createToolCallObservations = (
+  generation: AntsPlatformGeneration,
+  toolCalls: ToolCall[],
+): void => {
+  for (const toolCall of toolCalls) {
+    startObservation(
+      toolCall.function.name,
+      {
+        input: parseToolArguments(toolCall.function.arguments),
+        metadata: toolCall.id ? { toolCallId: toolCall.id } : undefined,
+      },
+      {
+        asType: "tool",
+        parentSpanContext: generation.otelSpan.spanContext(),
+      },
+    ).end();
+  }
+};
+
+/**
+ * Returns the function tool calls of the first choice of a chat completion.
+ * @internal
+ */
+export const getCompletionToolCalls = (
+  res: unknown,
+): OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall[] => {
+  const message = (res as OpenAI.Chat.Completions.ChatCompletion | null)
+    ?.choices?.[0]?.message;
+
+  return (message?.tool_calls ?? []).filter(
+    (
+      toolCall,
+    ): toolCall is OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall =>
+      toolCall.type === "function",
+  );
+};
+
+/**
+ * Executes the tool calls of a chat completion and returns the tool messages
+ * to send back to the model.
+ *
+ * Each tool call is executed within a `tool` observation holding the parsed
+ * arguments as input and the result as output. If the completion was created
+ * by a client wrapped with `observeOpenAI`, the tool observations are nested
+ * under the generation of the completion, so that an agent loop of
+ * generations and tool calls is traced as a tree. Otherwise they are nested
+ * under the active observation.
+ *
+ * Tool calls are executed in parallel. Errors of a tool are recorded on its
+ * observation and rethrown, as are calls to tools without implementation.
+ * Use either `runTools` or the `toolCallObservations` option of
+ * `observeOpenAI` for a completion, as both record its tool calls.
+ *
+ * @param completion - The chat completion requesting the tool calls
+ * @param toolImplementations - The implementations of the tools by name
+ * @returns The tool messages, in the order of the tool calls
+ *
+ * @example
+ * ```typescript
+ * import OpenAI from 'openai';
+ * import { observeOpenAI, runTools } from '@antsplatform/openai';
+ *
+ * const openai = observeOpenAI(new OpenAI());
+ * const messages = [{ role: 'user', content: "What's the weather in Paris?" }];
+ *
+ * while (true) {
+ *   const completion = await openai.chat.completions.create({
+ *     model: 'gpt-4o',
+ *     messages,
+ *     tools,
+ *   });
+ *   const message = completion.choices[0].message;
+ *   messages.push(message);
+ *
+ *   if (!message.tool_calls?.length) break;
+ *
+ *   messages.push(...(await runTools(completion, {
+ *     get_weather: async ({ location }) => fetchWeather(location),
+ *   })));
+ * }
+ * ```
+ *
+ * @public
+ */
+export const runTools = async (
+  completion: OpenAI.Chat.Completions.ChatCompletion,
+  toolImplementations: ToolImplementations,
+): Promise<OpenAI.Chat.Completions.ChatCompletionToolMessageParam[]> => {
+  const parentSpanContext = completionGenerations.get(completion);
+
+  return Promise.all(
+    getCompletionToolCalls(completion).map((toolCall) =>
+      startActiveObservation(
+        toolCall.function.name,
+        async (tool: AntsPlatformTool) => {
+          const args = parseToolArguments(toolCall.function.arguments);
+          tool.update({ input: args, metadata: { toolCallId: toolCall.id } });
+
+          try {
+            const implementation = Object.hasOwn(
+              toolImplementations,
+              toolCall.function.name,
+            )
+              ? toolImplementations[toolCall.function.name]
+              : undefined;
+
+            if (!implementation) {
+              throw new Error(
+                `No implementation for tool "${toolCall.function.name}"`,
+              );
+            }
+
+            const result = await implementation(args, toolCall);
+            tool.update({ output: result });
+
+            return {
+              role: "tool" as const,
+              tool_call_id: toolCall.id,
+              // Tools without a result, e.g. side effects, send empty content
+              content:
+                typeof result === "string"
+                  ? result
+                  : (JSON.stringify(result) ?? ""),
+            };
+          } catch (error) {
+            tool.update({ level: "ERROR", statusMessage: String(error) });
+
+            throw error;
+          }
+        },
+        { asType: "tool", parentSpanContext },
+      ),
+    ),
+  );
+};
@@ -1,5 +1,7 @@
 import {
+  AntsPlatformEmbedding,
   AntsPlatformGeneration,
+  AntsPlatformGuardrail,
   startObservation,
 } from "@antsplatform/tracing";
 import type OpenAI from "openai";
@@ -13,6 +15,16 @@ import {
   parseModelDataFromResponse,
   parseUsageDetailsFromResponse,
 } from "./parseOpenAI.js";
+import type { ResourceMethod } from "./resourceMethods.js";
+import {
+  ResponsesStreamAccumulator,
+  isResponsesStreamEvent,
+} from "./responsesStream.js";
+import {
+  createToolCallObservations,
+  getCompletionToolCalls,
+  registerCompletionGeneration,
+} from "./toolCalls.js";
 import type { AntsPlatformConfig } from "./types.js";
 import { isAsyncIterable } from "./utils.js";
 
@@ -29,8 +41,12 @@ type GenericMethod = (...args: unknown[]) => unknown;
  * creates AntsPlatform generations, captures input/output data, handles streaming
  * responses, and records usage metrics and errors.
  *
+ * Methods other than completions, e.g. embeddings or moderations, are traced
+ * according to their resource method.
+ *
  * @param tracedMethod - The OpenAI SDK method to wrap with tracing
  * @param config - Configuration for the trace and generation
+ * @param resourceMethod - How to trace the method if it is not a completion
  * @returns A wrapped version of the method that creates AntsPlatform traces
  *
  * @internal
@@ -38,7 +54,13 @@ type GenericMethod = (...args: unknown[]) => unknown;
 export const withTracing = <T extends GenericMethod>(
   tracedMethod: T,
   config?: AntsPlatformConfig & Required<{ generationName: string }>,
+  resourceMethod?: ResourceMethod,
 ): ((...args: Parameters<T>) => Promise<ReturnType<T>>) => {
+  if (resourceMethod) {
+    return (...args) =>
+      wrapResourceMethod(tracedMethod, config, resourceMethod, ...args);
+  }
+
   return (...args) => wrapMethod(tracedMethod, config, ...args);
 };
 
@@ -97,14 +119,18 @@ const wrapMethod = <T extends GenericMethod>(
 
     // Handle stream responses
     if (isAsyncIterable(res)) {
-      return wrapAsyncIterable(res, generation);
+      return wrapAsyncIterable(res, generation, config?.toolCallObservations);
     }
 
     if (res instanceof Promise) {
       const wrappedPromise = res
         .then((result) => {
           if (isAsyncIterable(result)) {
-            return wrapAsyncIterable(result, generation);
+            return wrapAsyncIterable(
+              result,
+              generation,
+              config?.toolCallObservations,
+            );
           }
 
           const output = parseCompletionOutput(result);
@@ -115,30 +141,28 @@ const wrapMethod = <T extends GenericMethod>(
             metadata: metadataFromResponse,
           } = parseModelDataFromResponse(result);
 
-          generation
-            .update({
-              output,
-              usageDetails,
-              model: modelFromResponse,
-              modelParameters: modelParametersFromResponse,
-              metadata: metadataFromResponse,
-            })
-            .end();
+          generation.update({
+            output,
+            usageDetails,
+            model: modelFromResponse,
+            modelParameters: modelParametersFromResponse,
+            metadata: metadataFromResponse,
+          });
+
+          registerCompletionGeneration(result, generation);
+          if (config?.toolCallObservations) {
+            createToolCallObservations(
+              generation,
+              getCompletionToolCalls(result),
+            );
+          }
+
+          generation.end();
 
           return result;
         })
         .catch((err) => {
-          generation
-            .update({
-              statusMessage: String(err),
-              level: "ERROR",
-              costDetails: {
-                input: 0,
-                output: 0,
-                total: 0,
-              },
-            })
-            .end();
+          endWithError(generation, err);
 
           throw err;
         });
@@ -148,31 +172,141 @@ const wrapMethod = <T extends GenericMethod>(
 
     return res;
   } catch (error) {
-    generation
-      .update({
-        statusMessage: String(error),
-        level: "ERROR",
-        costDetails: {
-          input: 0,
-          output: 0,
-          total: 0,
-        },
-      })
-      .end();
+    endWithError(generation, error);
 
     throw error;
   }
 };
 
+/**
+ * Internal method that handles the tracing of non-completion OpenAI SDK
+ * methods such as embeddings, images, audio and moderations.
+ *
+ * The observation type, input and output are determined by the resource
+ * method. Media of the request and the result is attached to the input and
+ * output of the observation.
+ *
+ * @param tracedMethod - The original OpenAI SDK method to execute
+ * @param config - AntsPlatform configuration options
+ * @param resourceMethod - How to trace the method
+ * @param args - Arguments to pass to the original method
+ * @returns The result from the original method
+ *
+ * @internal
+ */
+const wrapResourceMethod = <T extends GenericMethod>(
+  tracedMethod: T,
+  config: AntsPlatformConfig | undefined,
+  resourceMethod: ResourceMethod,
+  ...args: Parameters<T>
+): ReturnType<T> | any => {
+  const params = (args[0] ?? {}) as Record<string, any>;
+  const { model, input, modelParameters, media } =
+    resourceMethod.parseArgs(params);
+  const name = config?.generationName ?? "OpenAI-completion";
+  const observationOptions = { parentSpanContext: config?.parentSpanContext };
+  const attributes = {
+    model,
+    input,
+    modelParameters,
+    prompt: config?.antsPlatformPrompt,
+    metadata: config?.generationMetadata,
+  };
+
+  const observation: ResourceObservation = (
+    resourceMethod.asType === "guardrail"
+      ? startObservation(
+          name,
+          { input, metadata: { ...config?.generationMetadata, model } },
+          { ...observationOptions, asType: "guardrail" },
+        )
+      : resourceMethod.asType === "embedding"
+        ? startObservation(name, attributes, {
+            ...observationOptions,
+            asType: "embedding",
+          })
+        : startObservation(name, attributes, {
+            ...observationOptions,
+            asType: "generation",
+          })
+  ).updateTrace({
+    userId: config?.userId,
+    sessionId: config?.sessionId,
+    tags: config?.tags,
+    name: config?.traceName,
+  });
+
+  for (const item of media ?? []) {
+    observation.attachMedia("input", item);
+  }
+
+  try {
+    const res = tracedMethod(...args);
+
+    if (res instanceof Promise) {
+      return res
+        .then((result) => {
+          // Streamed images and transcriptions are passed through untraced
+          if (isAsyncIterable(result)) {
+            observation.end();
+
+            return result;
+          }
+
+          const { media: outputMedia, ...parsedResult } =
+            resourceMethod.parseResult(result, params);
+
+          for (const item of outputMedia ?? []) {
+            observation.attachMedia("output", item);
+          }
+
+          observation.update(parsedResult).end();
+
+          return result;
+        })
+        .catch((err) => {
+          endWithError(observation, err);
+
+          throw err;
+        });
+    }
+
+    return res;
+  } catch (error) {
+    endWithError(observation, error);
+
+    throw error;
+  }
+};
+
+type ResourceObservation =
+  AntsPlatformGeneration | AntsPlatformEmbedding | AntsPlatformGuardrail;
+
+function endWithError(observation: ResourceObservation, error: unknown) {
+  observation
+    .update({
+      statusMessage: String(error),
+      level: "ERROR",
+      costDetails: {
+        input: 0,
+        output: 0,
+        total: 0,
+      },
+    })
+    .end();
+}
+
 /**
  * Wraps an async iterable (streaming response) with AntsPlatform tracing.
  *
  * This function handles streaming OpenAI responses by collecting chunks,
  * parsing usage information, and updating the AntsPlatform generation with
- * the complete output and usage details once the stream is consumed.
+ * the complete output and usage details once the stream is consumed. Events
+ * of Responses API streams are collected by a `ResponsesStreamAccumulator`.
  *
  * @param iterable - The async iterable from OpenAI (streaming response)
  * @param generation - The AntsPlatform generation to update with stream data
+ * @param toolCallObservations - Whether to record streamed tool calls as tool observations
  * @returns An async generator that yields original chunks while collecting data
  *
  * @internal
@@ -180,6 +314,7 @@ const wrapMethod = <T extends GenericMethod>(
 function wrapAsyncIterable<R>(
   iterable: AsyncIterable<unknown>,
   generation: AntsPlatformGeneration,
+  toolCallObservations?: boolean,
 ): R {
   async function* tracedOutputGenerator(): AsyncGenerator<
     unknown,
@@ -187,69 +322,81 @@ function wrapAsyncIterable<R>(
     unknown
   > {
     const response = iterable;
+    const responsesStream = new ResponsesStreamAccumulator(generation);
     const textChunks: string[] = [];
     const toolCallChunks: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall[] =
       [];
     let usage: OpenAI.CompletionUsage | null = null;
     let completionStartTime: Date | undefined = undefined;
-    let usageDetails: Record<string, number> | undefined = undefined;
-    let output: unknown = null;
+    let isResponsesStream = false;
+    let error: unknown = undefined;
 
-    for await (const rawChunk of response as AsyncIterable<unknown>) {
-      completionStartTime = completionStartTime ?? new Date();
+    try {
+      for await (const rawChunk of response as AsyncIterable<unknown>) {
+        // Handle Responses API events
+        if (isResponsesStreamEvent(rawChunk)) {
+          isResponsesStream = true;
+          responsesStream.add(rawChunk);
 
-      // Handle Response API chunks
-      if (typeof rawChunk === "object" && rawChunk && "response" in rawChunk) {
-        const result = rawChunk["response"];
-        output = parseCompletionOutput(result);
-        usageDetails = parseUsageDetailsFromResponse(result);
+          yield rawChunk;
+          continue;
+        }
 
-        const {
-          model: modelFromResponse,
-          modelParameters: modelParametersFromResponse,
-          metadata: metadataFromResponse,
-        } = parseModelDataFromResponse(result);
+        completionStartTime = completionStartTime ?? new Date();
 
-        generation.update({
-          model: modelFromResponse,
-          modelParameters: modelParametersFromResponse,
-          metadata: metadataFromResponse,
-        });
-      }
+        if (
+          typeof rawChunk === "object" &&
+          rawChunk != null &&
+          "usage" in rawChunk
+        ) {
+          usage = rawChunk.usage as OpenAI.CompletionUsage | null;
+        }
 
-      if (
-        typeof rawChunk === "object" &&
-        rawChunk != null &&
-        "usage" in rawChunk
-      ) {
-        usage = rawChunk.usage as OpenAI.CompletionUsage | null;
-      }
+        const processedChunk = parseChunk(rawChunk);
 
-      const processedChunk = parseChunk(rawChunk);
+        if (!processedChunk.isToolCall) {
+          textChunks.push(processedChunk.data);
+        } else {
+          toolCallChunks.push(processedChunk.data);
+        }
+
+        yield rawChunk;
+      }
+    } catch (err) {
+      error = err;
 
-      if (!processedChunk.isToolCall) {
-        textChunks.push(processedChunk.data);
+      throw err;
+    } finally {
+      // Streams that fail or are not consumed to the end still end the
+      // generation with the output received so far
+      if (isResponsesStream) {
+        generation.update(responsesStream.getResult());
       } else {
-        toolCallChunks.push(processedChunk.data);
+        let output: unknown = textChunks.join("");
+
+        if (toolCallChunks.length > 0) {
+          const toolCallOutput = getToolCallOutput(toolCallChunks);
+
+          if (toolCallObservations) {
+            createToolCallObservations(generation, toolCallOutput.tool_calls);
+          }
+
+          output = toolCallOutput;
+        }
+
+        generation.update({
+          output,
+          completionStartTime,
+          usageDetails: usage ? parseUsageDetails(usage) : undefined,
+        });
       }
 
-      yield rawChunk;
+      if (error !== undefined) {
+        endWithError(generation, error);
+      } else {
+        generation.end();
+      }
     }
-
-    output =
-      output ??
-      (toolCallChunks.length > 0
-        ? getToolCallOutput(toolCallChunks)
-        : textChunks.join(""));
-
-    generation
-      .update({
-        output,
-        completionStartTime,
-        usageDetails:
-          usageDetails ?? (usage ? parseUsageDetails(usage) : undefined),
-      })
-      .end();
   }
 
   return tracedOutputGenerator() as R;
@@ -25,6 +25,12 @@ export type AntsPlatformConfig = {
   generationName?: string;
   /** Additional metadata to attach to the generation */
   generationMetadata?: Record<string, unknown>;
+  /**
+   * Whether to record the tool calls requested by chat completions as child
+   * `tool` observations of their generation. Not needed when executing the
+   * tools with `runTools`, which records the tool calls it executes.
+   */
+  toolCallObservations?: boolean;
   /** Information about the AntsPlatform prompt used for this generation */
   antsPlatformPrompt?: {
     /** Name of the prompt template in AntsPlatform */
@@ -2,22 +2,41 @@ import {
   AntsPlatformAPIClient,
   AntsPlatformMedia,
   AntsPlatformOtelSpanAttributes,
+  ExportBuffer,
+  ExportBufferRecord,
   Logger,
+  MediaContentType,
   base64ToBytes,
+  bytesToBase64,
+  generateUUID,
   getGlobalLogger,
+  takeMediaAttachments,
 } from "@antsplatform/core";
 import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 
+type BufferedMediaUpload = {
+  traceId: string;
+  observationId?: string;
+  field: string;
+  contentType: MediaContentType;
+  contentBase64: string;
+};
+
 export class MediaService {
   private pendingMediaUploads: Set<Promise<void>> = new Set();
   private apiClient: AntsPlatformAPIClient;
+  private exportBuffer?: ExportBuffer;
 
-  constructor(params: { apiClient: AntsPlatformAPIClient }) {
+  constructor(params: {
+    apiClient: AntsPlatformAPIClient;
+    exportBuffer?: ExportBuffer;
+  }) {
     this.apiClient = params.apiClient;
+    this.exportBuffer = params.exportBuffer;
   }
 
   get logger(): Logger {
-    return getGlobalLogger();
+    return getGlobalLogger().forComponent("MediaService");
   }
 
   public async flush(): Promise<void> {
@@ -25,6 +44,16 @@ export class MediaService {
   }
 
   public async process(span: ReadableSpan) {
+    // Media attached explicitly via observation.attachMedia
+    for (const { field, media } of takeMediaAttachments(span)) {
+      this.scheduleUpload({
+        traceId: span.spanContext().traceId,
+        observationId: span.spanContext().spanId,
+        media,
+        field,
+      });
+    }
+
     const mediaAttributes = [
       AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
       AntsPlatformOtelSpanAttributes.TRACE_INPUT,
@@ -75,7 +104,8 @@ export class MediaService {
           }
 
           this.scheduleUpload({
-            span,
+            traceId: span.spanContext().traceId,
+            observationId: span.spanContext().spanId,
             media,
             field: mediaAttribute.includes("input")
               ? "input"
@@ -149,7 +179,8 @@ export class MediaService {
                     }
 
                     this.scheduleUpload({
-                      span,
+                      traceId: span.spanContext().traceId,
+                      observationId: span.spanContext().spanId,
                       media,
                       field: "input",
                     });
@@ -176,21 +207,52 @@ export class MediaService {
     }
   }
 
+  /**
+   * Schedules uploads of media that were persisted but never uploaded.
+   *
+   * @param records - Pending media records from the export buffer
+   */
+  public async replay(records: ExportBufferRecord[]): Promise<void> {
+    if (records.length > 0) {
+      this.logger.info(
+        `Replaying ${records.length} undelivered media upload(s) from export buffer.`,
+      );
+    }
+
+    for (const record of records) {
+      const { traceId, observationId, field, contentType, contentBase64 } =
+        record.payload as BufferedMediaUpload;
+
+      this.scheduleUpload({
+        traceId,
+        observationId,
+        field,
+        media: new AntsPlatformMedia({
+          contentType,
+          contentBytes: base64ToBytes(contentBase64),
+          source: "bytes",
+        }),
+        bufferRecordId: record.id,
+      });
+    }
+
+    await this.flush();
+  }
+
   private scheduleUpload(params: {
-    span: ReadableSpan;
+    traceId: string;
+    observationId?: string;
     field: string;
     media: AntsPlatformMedia;
+    bufferRecordId?: string;
   }) {
-    const { span, field, media } = params;
-
-    const uploadPromise: Promise<void> = this.handleUpload({
-      media,
-      traceId: span.spanContext().traceId,
-      observationId: span.spanContext().spanId,
-      field,
-    }).catch((err) => {
-      this.logger.error("Media upload failed with error: ", err);
-    });
+    const uploadPromise: Promise<void> = this.persistAndUpload(params).catch(
+      (err) => {
+        this.logger
+          .child({ traceId: params.traceId, spanId: params.observationId })
+          .error("Media upload failed with error: ", err);
+      },
+    );
 
     this.pendingMediaUploads.add(uploadPromise);
 
@@ -199,6 +261,55 @@ export class MediaService {
     });
   }
 
+  private async persistAndUpload(params: {
+    traceId: string;
+    observationId?: string;
+    field: string;
+    media: AntsPlatformMedia;
+    bufferRecordId?: string;
+  }): Promise<void> {
+    const { media, traceId, observationId, field } = params;
+    let bufferRecordId = params.bufferRecordId;
+
+    if (
+      this.exportBuffer &&
+      !bufferRecordId &&
+      media._contentType &&
+      media._contentBytes
+    ) {
+      const payload: BufferedMediaUpload = {
+        traceId,
+        observationId,
+        field,
+        contentType: media._contentType,
+        contentBase64: bytesToBase64(media._contentBytes),
+      };
+
+      try {
+        bufferRecordId = `media-${generateUUID()}`;
+        await this.exportBuffer.append([
+          { id: bufferRecordId, kind: "media", payload },
+        ]);
+      } catch (err) {
+        bufferRecordId = undefined;
+        this.logger.warn(
+          `Failed to persist media upload in export buffer. Uploading without buffering. Error: ${err}`,
+        );
+      }
+    }
+
+    const isUploaded = await this.handleUpload({
+      media,
+      traceId,
+      observationId,
+      field,
+    });
+
+    if (isUploaded && bufferRecordId && this.exportBuffer) {
+      await this.exportBuffer.ack([bufferRecordId]);
+    }
+  }
+
   private async handleUpload({
     media,
     traceId,
@@ -209,21 +320,24 @@ export class MediaService {
     traceId: string;
     observationId?: string;
     field: string;
-  }): Promise<void> {
+  }): Promise<boolean> {
     try {
       const contentSha256Hash = await media.getSha256Hash();
+      const contentLength = await media.getContentLength();
+      const content = await media.getContent();
 
       if (
-        !media.contentLength ||
+        !contentLength ||
         !media._contentType ||
         !contentSha256Hash ||
-        !media._contentBytes
+        !content
       ) {
-        return;
+        // Invalid media can never be uploaded, so it must not be replayed
+        return true;
       }
 
       const { uploadUrl, mediaId } = await this.apiClient.media.getUploadUrl({
-        contentLength: media.contentLength,
+        contentLength,
         traceId,
         observationId,
         field,
@@ -236,7 +350,7 @@ export class MediaService {
           `Media status: Media with ID ${mediaId} already uploaded. Skipping duplicate upload.`,
         );
 
-        return;
+        return true;
       }
 
       const clientSideMediaId = await media.getId();
@@ -245,7 +359,7 @@ export class MediaService {
           `Media integrity error: Media ID mismatch between SDK (${clientSideMediaId}) and Server (${mediaId}). Upload cancelled. Please check media ID generation logic.`,
         );
 
-        return;
+        return true;
       }
 
       this.logger.debug(`Uploading media ${mediaId}...`);
@@ -254,7 +368,7 @@ export class MediaService {
 
       const uploadResponse = await this.uploadWithBackoff({
         uploadUrl,
-        contentBytes: media._contentBytes,
+        content,
         contentType: media._contentType,
         contentSha256Hash: contentSha256Hash,
         maxRetries: 3,
@@ -273,8 +387,12 @@ export class MediaService {
       });
 
       this.logger.debug(`Media upload status reported for ${mediaId}`);
+
+      return true;
     } catch (err) {
       this.logger.error(`Error processing media item: ${err}`);
+
+      return false;
     }
   }
 
@@ -282,7 +400,7 @@ export class MediaService {
     uploadUrl: string;
     contentType: string;
     contentSha256Hash: string;
-    contentBytes: Uint8Array;
+    content: Uint8Array | Blob;
     maxRetries: number;
     baseDelay: number;
   }) {
@@ -290,7 +408,7 @@ export class MediaService {
       uploadUrl,
       contentType,
       contentSha256Hash,
-      contentBytes,
+      content,
       maxRetries,
       baseDelay,
     } = params;
@@ -299,7 +417,7 @@ export class MediaService {
       try {
         const uploadResponse = await fetch(uploadUrl, {
           method: "PUT",
-          body: contentBytes,
+          body: content,
           headers: {
             "Content-Type": contentType,
             "x-amz-checksum-sha256": contentSha256Hash,
@@ -0,0 +1,210 @@
+import { ExportBuffer, Logger, getGlobalLogger } from "@antsplatform/core";
+import {
+  Attributes,
+  HrTime,
+  Link,
+  SpanContext,
+  SpanKind,
+  SpanStatus,
+} from "@opentelemetry/api";
+import {
+  ExportResult,
+  ExportResultCode,
+  InstrumentationScope,
+  TraceState,
+} from "@opentelemetry/core";
+import {
+  ReadableSpan,
+  SpanExporter,
+  TimedEvent,
+} from "@opentelemetry/sdk-trace-base";
+
+type SerializedSpanContext = Omit<SpanContext, "traceState"> & {
+  traceState?: string;
+};
+
+/**
+ * JSON-serializable representation of an ended span.
+ *
+ * @internal
+ */
+export type SerializedSpan = {
+  name: string;
+  kind: SpanKind;
+  spanContext: SerializedSpanContext;
+  parentSpanContext?: SerializedSpanContext;
+  startTime: HrTime;
+  endTime: HrTime;
+  duration: HrTime;
+  status: SpanStatus;
+  attributes: Attributes;
+  links: (Omit<Link, "context"> & { context: SerializedSpanContext })[];
+  events: TimedEvent[];
+  resource: { attributes: Attributes; schemaUrl?: string };
+  instrumentationScope: InstrumentationScope;
+  droppedAttributesCount: number;
+  droppedEventsCount: number;
+  droppedLinksCount: number;
+};
+
+/**
+ * Returns the export buffer record ID of a span.
+ *
+ * @internal
+ */
+export function getSpanRecordId(span: ReadableSpan): string {
+  const { traceId, spanId } = span.spanContext();
+
+  return `span-${traceId}-${spanId}`;
+}
+
+function serializeSpanContext(spanContext: SpanContext): SerializedSpanContext {
+  return {
+    ...spanContext,
+    traceState: spanContext.traceState?.serialize(),
+  };
+}
+
+function deserializeSpanContext(
+  spanContext: SerializedSpanContext,
+): SpanContext {
+  return {
+    ...spanContext,
+    traceState: spanContext.traceState
+      ? new TraceState(spanContext.traceState)
+      : undefined,
+  };
+}
+
+/**
+ * Converts an ended span into a JSON-serializable object.
+ *
+ * @internal
+ */
+export function serializeSpan(span: ReadableSpan): SerializedSpan {
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: serializeSpanContext(span.spanContext()),
+    parentSpanContext: span.parentSpanContext
+      ? serializeSpanContext(span.parentSpanContext)
+      : undefined,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    duration: span.duration,
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links.map((link) => ({
+      ...link,
+      context: serializeSpanContext(link.context),
+    })),
+    events: span.events,
+    resource: {
+      attributes: span.resource.attributes,
+      schemaUrl: span.resource.schemaUrl,
+    },
+    instrumentationScope: span.instrumentationScope,
+    droppedAttributesCount: span.droppedAttributesCount,
+    droppedEventsCount: span.droppedEventsCount,
+    droppedLinksCount: span.droppedLinksCount,
+  };
+}
+
+/**
+ * Restores ended spans from their serialized representation.
+ *
+ * Spans with identical resources share the same resource object so that
+ * exporters group them together.
+ *
+ * @internal
+ */
+export function deserializeSpans(
+  serializedSpans: SerializedSpan[],
+): ReadableSpan[] {
+  const resources: Map<string, ReadableSpan["resource"]> = new Map();
+
+  return serializedSpans.map((serializedSpan) => {
+    const resourceKey = JSON.stringify(serializedSpan.resource);
+    let resource = resources.get(resourceKey);
+
+    if (!resource) {
+      const { attributes, schemaUrl } = serializedSpan.resource;
+
+      resource = {
+        attributes,
+        schemaUrl,
+        asyncAttributesPending: false,
+        waitForAsyncAttributes: async () => {},
+        getRawAttributes: () => Object.entries(attributes),
+        merge: () => resource!,
+      } as ReadableSpan["resource"];
+
+      resources.set(resourceKey, resource);
+    }
+
+    const spanContext = deserializeSpanContext(serializedSpan.spanContext);
+
+    return {
+      ...serializedSpan,
+      spanContext: () => spanContext,
+      parentSpanContext: serializedSpan.parentSpanContext
+        ? deserializeSpanContext(serializedSpan.parentSpanContext)
+        : undefined,
+      links: serializedSpan.links.map((link) => ({
+        ...link,
+        context: deserializeSpanContext(link.context),
+      })),
+      resource,
+      ended: true,
+    };
+  });
+}
+
+/**
+ * Span exporter that acknowledges spans in the export buffer once they were
+ * exported successfully.
+ *
+ * @internal
+ */
+export class BufferedSpanExporter implements SpanExporter {
+  private exporter: SpanExporter;
+  private exportBuffer: ExportBuffer;
+
+  constructor(params: { exporter: SpanExporter; exportBuffer: ExportBuffer }) {
+    this.exporter = params.exporter;
+    this.exportBuffer = params.exportBuffer;
+  }
+
+  private get logger(): Logger {
+    return getGlobalLogger().forComponent("BufferedSpanExporter");
+  }
+
+  public export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    this.exporter.export(spans, (result) => {
+      if (result.code === ExportResultCode.SUCCESS) {
+        this.exportBuffer.ack(spans.map(getSpanRecordId)).catch((err) => {
+          this.logger.warn(
+            `Failed to acknowledge exported spans in export buffer: ${err}`,
+          );
+        });
+      } else {
+        this.logger.warn(
+          `Span export failed. ${spans.length} span(s) remain in export buffer and will be replayed on next startup.`,
+        );
+      }
+
+      resultCallback(result);
+    });
+  }
+
+  public shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+
+  public forceFlush(): Promise<void> {
+    return this.exporter.forceFlush?.() ?? Promise.resolve();
+  }
+}
@@ -0,0 +1,333 @@
+import { appendFile, mkdir, readdir, readFile, unlink } from "node:fs/promises";
+import { join } from "node:path";
+
+import {
+  ExportBuffer,
+  ExportBufferRecord,
+  ExportBufferRecordKind,
+  Logger,
+  getGlobalLogger,
+} from "@antsplatform/core";
+
+/**
+ * Configuration parameters for the FileExportBuffer.
+ *
+ * @public
+ */
+export interface FileExportBufferParams {
+  /**
+   * Directory in which buffer segments are stored. Created if it does not exist.
+   */
+  directory: string;
+
+  /**
+   * Size in bytes after which a new segment file is started.
+   *
+   * @defaultValue 5 MiB
+   */
+  maxSegmentBytes?: number;
+
+  /**
+   * Maximum total size in bytes of all segment files. When exceeded, the oldest
+   * segments are deleted together with any unacknowledged records they hold.
+   *
+   * @defaultValue 100 MiB
+   */
+  maxTotalBytes?: number;
+}
+
+type SegmentEntry =
+  { op: "put"; record: ExportBufferRecord } | { op: "ack"; ids: string[] };
+
+type Segment = {
+  bytes: number;
+  pendingIds: Set<string>;
+};
+
+const DEFAULT_MAX_SEGMENT_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 100 * 1024 * 1024;
+const SEGMENT_FILE_PATTERN = /^segment-[\w-]+\.jsonl$/;
+
+/**
+ * File-backed export buffer for offline and crash-safe delivery.
+ *
+ * Records are appended as JSON lines to segment files in the configured directory.
+ * Acknowledgements are appended as separate lines, and segments are deleted once
+ * all their records have been delivered. On startup, existing segments are read
+ * back and unacknowledged records are compacted into a fresh segment so they can
+ * be replayed. Truncated lines left by a crash during a write are skipped.
+ *
+ * The same instance can be shared between the AntsPlatformSpanProcessor and the
+ * AntsPlatformClient, as records are separated by kind.
+ *
+ * @example
+ * ```typescript
+ * import { AntsPlatformClient } from '@antsplatform/client';
+ * import { AntsPlatformSpanProcessor, FileExportBuffer } from '@antsplatform/otel';
+ *
+ * const exportBuffer = new FileExportBuffer({ directory: '/var/lib/my-app/ants-platform' });
+ *
+ * const spanProcessor = new AntsPlatformSpanProcessor({ exportBuffer });
+ * const client = new AntsPlatformClient({ exportBuffer });
+ * ```
+ *
+ * @public
+ */
+export class FileExportBuffer implements ExportBuffer {
+  private directory: string;
+  private maxSegmentBytes: number;
+  private maxTotalBytes: number;
+  private initPromise?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private segments: Map<string, Segment> = new Map();
+  private records: Map<
+    string,
+    { record: ExportBufferRecord; segmentName: string }
+  > = new Map();
+  private activeSegmentName?: string;
+  private segmentCounter = 0;
+
+  /**
+   * Creates a new FileExportBuffer instance.
+   *
+   * @param params - Configuration parameters for the buffer
+   */
+  constructor(params: FileExportBufferParams) {
+    this.directory = params.directory;
+    this.maxSegmentBytes = params.maxSegmentBytes ?? DEFAULT_MAX_SEGMENT_BYTES;
+    this.maxTotalBytes = params.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  }
+
+  private get logger(): Logger {
+    return getGlobalLogger().forComponent("FileExportBuffer");
+  }
+
+  /**
+   * Persists records before they are exported.
+   *
+   * @param records - Records to persist
+   */
+  public async append(
+    records: Omit<ExportBufferRecord, "createdAt">[],
+  ): Promise<void> {
+    if (records.length === 0) return;
+
+    const createdAt = new Date().toISOString();
+
+    await this.enqueueWrite(async () => {
+      for (const record of records) {
+        await this.writeEntry({ op: "put", record: { ...record, createdAt } });
+      }
+
+      await this.enforceMaxTotalBytes();
+    });
+  }
+
+  /**
+   * Marks records as delivered so they are not replayed.
+   *
+   * @param ids - Identifiers of the delivered records
+   */
+  public async ack(ids: string[]): Promise<void> {
+    await this.enqueueWrite(async () => {
+      const knownIds = ids.filter((id) => this.records.has(id));
+      if (knownIds.length === 0) return;
+
+      await this.writeEntry({ op: "ack", ids: knownIds });
+      await this.deleteDeliveredSegments();
+    });
+  }
+
+  /**
+   * Returns all records of the given kind that were persisted but never acknowledged.
+   *
+   * @param kind - The kind of records to return
+   */
+  public async pending(
+    kind: ExportBufferRecordKind,
+  ): Promise<ExportBufferRecord[]> {
+    await this.init();
+    await this.writeChain;
+
+    return Array.from(this.records.values())
+      .map(({ record }) => record)
+      .filter((record) => record.kind === kind);
+  }
+
+  private init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.loadSegments();
+    }
+
+    return this.initPromise;
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const previousWrite = this.writeChain;
+    const writePromise = this.init()
+      .then(() => previousWrite)
+      .then(write);
+
+    this.writeChain = writePromise.catch(() => {});
+
+    return writePromise;
+  }
+
+  private async loadSegments(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const segmentNames = (await readdir(this.directory))
+      .filter((name) => SEGMENT_FILE_PATTERN.test(name))
+      .sort();
+
+    const pendingRecords: Map<string, ExportBufferRecord> = new Map();
+    let skippedLines = 0;
+
+    for (const segmentName of segmentNames) {
+      const content = await readFile(
+        join(this.directory, segmentName),
+        "utf-8",
+      );
+
+      for (const line of content.split("\n")) {
+        if (!line) continue;
+
+        let entry: SegmentEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          skippedLines++;
+
+          continue;
+        }
+
+        if (entry.op === "put") {
+          pendingRecords.set(entry.record.id, entry.record);
+        } else if (entry.op === "ack") {
+          entry.ids.forEach((id) => pendingRecords.delete(id));
+        }
+      }
+    }
+
+    if (skippedLines > 0) {
+      this.logger.warn(
+        `Skipped ${skippedLines} unreadable line(s) in export buffer at ${this.directory}.`,
+      );
+    }
+
+    // Compact pending records into a fresh segment before removing old segments
+    for (const record of pendingRecords.values()) {
+      await this.writeEntry({ op: "put", record });
+    }
+
+    for (const segmentName of segmentNames) {
+      await unlink(join(this.directory, segmentName));
+    }
+
+    if (pendingRecords.size > 0) {
+      this.logger.debug(
+        `Loaded ${pendingRecords.size} pending record(s) from export buffer at ${this.directory}.`,
+      );
+    }
+  }
+
+  private async writeEntry(entry: SegmentEntry): Promise<void> {
+    const line = JSON.stringify(entry) + "\n";
+    const lineBytes = Buffer.byteLength(line);
+
+    let segmentName = this.activeSegmentName;
+    let segment = segmentName ? this.segments.get(segmentName) : undefined;
+
+    if (
+      !segmentName ||
+      !segment ||
+      (segment.bytes > 0 && segment.bytes + lineBytes > this.maxSegmentBytes)
+    ) {
+      segmentName = this.createSegmentName();
+      segment = { bytes: 0, pendingIds: new Set() };
+
+      this.segments.set(segmentName, segment);
+      this.activeSegmentName = segmentName;
+    }
+
+    await appendFile(join(this.directory, segmentName), line, "utf-8");
+
+    segment.bytes += lineBytes;
+
+    if (entry.op === "put") {
+      const previous = this.records.get(entry.record.id);
+      this.segments
+        .get(previous?.segmentName ?? "")
+        ?.pendingIds.delete(entry.record.id);
+
+      this.records.set(entry.record.id, {
+        record: entry.record,
+        segmentName,
+      });
+      segment.pendingIds.add(entry.record.id);
+    } else {
+      for (const id of entry.ids) {
+        const stored = this.records.get(id);
+        if (!stored) continue;
+
+        this.records.delete(id);
+        this.segments.get(stored.segmentName)?.pendingIds.delete(id);
+      }
+    }
+  }
+
+  private createSegmentName(): string {
+    const timestamp = Date.now().toString().padStart(15, "0");
+    const counter = (this.segmentCounter++).toString().padStart(6, "0");
+    const suffix = Math.random().toString(36).slice(2, 10);
+
+    return `segment-${timestamp}-${counter}-${suffix}.jsonl`;
+  }
+
+  private async deleteDeliveredSegments(): Promise<void> {
+    // Only delete a prefix of fully delivered segments, so acknowledgements are
+    // never removed while the records they refer to are still on disk
+    for (const [segmentName, segment] of this.segments) {
+      if (segmentName === this.activeSegmentName) break;
+      if (segment.pendingIds.size > 0) break;
+
+      await this.deleteSegment(segmentName);
+    }
+  }
+
+  private async enforceMaxTotalBytes(): Promise<void> {
+    let totalBytes = Array.from(this.segments.values()).reduce(
+      (sum, segment) => sum + segment.bytes,
+      0,
+    );
+
+    for (const [segmentName, segment] of this.segments) {
+      if (totalBytes <= this.maxTotalBytes) break;
+      if (segmentName === this.activeSegmentName) break;
+
+      if (segment.pendingIds.size > 0) {
+        this.logger.warn(
+          `Export buffer exceeded ${this.maxTotalBytes} bytes. Dropping ${segment.pendingIds.size} undelivered record(s).`,
+        );
+      }
+
+      totalBytes -= segment.bytes;
+      await this.deleteSegment(segmentName);
+    }
+  }
+
+  private async deleteSegment(segmentName: string): Promise<void> {
+    const segment = this.segments.get(segmentName);
+
+    segment?.pendingIds.forEach((id) => this.records.delete(id));
+    this.segments.delete(segmentName);
+
+    try {
+      await unlink(join(this.directory, segmentName));
+    } catch (err) {
+      this.logger.warn(
+        `Failed to delete export buffer segment ${segmentName}: ${err}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { openAsBlob } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+
+import {
+  AntsPlatformMedia,
+  MediaContentType,
+  MediaFileWriter,
+  generateUUID,
+} from "@antsplatform/core";
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, MediaContentType> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".bmp": "image/bmp",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/oga",
+  ".aac": "audio/aac",
+  ".m4a": "audio/mp4",
+  ".flac": "audio/flac",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".xls": "application/vnd.ms-excel",
+  ".zip": "application/zip",
+  ".json": "application/json",
+  ".xml": "application/xml",
+};
+
+/**
+ * Creates media from a file on disk.
+ *
+ * The file is opened as a `Blob`, so it is hashed and uploaded in chunks
+ * without being read into memory at once.
+ *
+ * @param filePath - Path of the file
+ * @param contentType - The MIME type, inferred from the file extension by default
+ * @returns The media
+ *
+ * @example
+ * ```typescript
+ * const media = await createMediaFromFile("./contract.pdf");
+ *
+ * observation.attachMedia("input", media);
+ * ```
+ *
+ * @public
+ */
+export async function createMediaFromFile(
+  filePath: string,
+  contentType?: MediaContentType,
+): Promise<AntsPlatformMedia> {
+  const resolvedContentType =
+    contentType ??
+    CONTENT_TYPES_BY_EXTENSION[extname(filePath).toLowerCase()] ??
+    "application/octet-stream";
+
+  return new AntsPlatformMedia({
+    source: "file",
+    blob: await openAsBlob(filePath, { type: resolvedContentType }),
+    contentType: resolvedContentType,
+  });
+}
+
+/**
+ * Configuration parameters for the FileMediaWriter.
+ *
+ * @public
+ */
+export interface FileMediaWriterParams {
+  /**
+   * Directory in which media files are written. Created if it does not exist.
+   */
+  directory: string;
+}
+
+/**
+ * Writes media to files named after their media ID in a directory.
+ *
+ * The file extension is derived from the content type. Files are written
+ * atomically via a temporary file and rename.
+ *
+ * @example
+ * ```typescript
+ * import { FileMediaWriter } from '@antsplatform/otel';
+ *
+ * const trace = await antsPlatform.media.resolveReferences({
+ *   obj: await antsPlatform.api.trace.get(traceId),
+ *   resolveWith: 'file',
+ *   fileWriter: new FileMediaWriter({ directory: './media' }),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileMediaWriter implements MediaFileWriter {
+  private directory: string;
+  private ready?: Promise<void>;
+
+  constructor(params: FileMediaWriterParams) {
+    this.directory = params.directory;
+  }
+
+  async write(params: {
+    mediaId: string;
+    contentType: string;
+    content: Uint8Array;
+  }): Promise<string> {
+    await this.ensureDirectory();
+
+    const extension =
+      Object.entries(CONTENT_TYPES_BY_EXTENSION).find(
+        ([, contentType]) => contentType === params.contentType,
+      )?.[0] ?? "";
+    const path = join(this.directory, `${params.mediaId}${extension}`);
+    const tempPath = join(this.directory, `.${generateUUID()}.tmp`);
+
+    await writeFile(tempPath, params.content);
+    await rename(tempPath, path);
+
+    return path;
+  }
+
+  /**
+   * Creates the directory on first use. Failures are thrown by the write that
+   * triggered the creation, which is retried by the next write.
+   */
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true }).then(
+        () => {},
+        (err) => {
+          this.ready = undefined;
+
+          throw err;
+        },
+      );
+    }
+
+    return this.ready;
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+
+import {
+  PromptCacheEntry,
+  PromptCacheStore,
+  generateUUID,
+} from "@antsplatform/core";
+
+/**
+ * Configuration parameters for the FilePromptCacheStore.
+ *
+ * @public
+ */
+export interface FilePromptCacheStoreParams {
+  /**
+   * Directory in which cached prompts are stored. Created if it does not exist.
+   */
+  directory: string;
+}
+
+const ENTRY_FILE_SUFFIX = ".json";
+
+/**
+ * File-backed prompt cache store.
+ *
+ * Each cached prompt is stored as a JSON file in the configured directory, so
+ * prompts survive process restarts and can be shared between processes on the
+ * same machine. Files are written atomically via a temporary file and rename.
+ *
+ * @example
+ * ```typescript
+ * import { AntsPlatformClient } from '@antsplatform/client';
+ * import { FilePromptCacheStore } from '@antsplatform/otel';
+ *
+ * const antsPlatform = new AntsPlatformClient({
+ *   promptCache: {
+ *     store: new FilePromptCacheStore({ directory: '/tmp/ants-platform-prompts' }),
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FilePromptCacheStore implements PromptCacheStore {
+  private directory: string;
+  private ready?: Promise<void>;
+
+  constructor(params: FilePromptCacheStoreParams) {
+    this.directory = params.directory;
+  }
+
+  async get(key: string): Promise<PromptCacheEntry | undefined> {
+    await this.ensureDirectory();
+
+    try {
+      return JSON.parse(await readFile(this.getPath(key), "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+
+      throw err;
+    }
+  }
+
+  async set(key: string, entry: PromptCacheEntry): Promise<void> {
+    await this.ensureDirectory();
+
+    const tempPath = join(this.directory, `.${generateUUID()}.tmp`);
+
+    await writeFile(tempPath, JSON.stringify(entry), "utf8");
+    await rename(tempPath, this.getPath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureDirectory();
+
+    await unlink(this.getPath(key)).catch((err) => {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    });
+  }
+
+  async keys(): Promise<string[]> {
+    await this.ensureDirectory();
+
+    return (await readdir(this.directory))
+      .filter((file) => file.endsWith(ENTRY_FILE_SUFFIX))
+      .map((file) =>
+        decodeURIComponent(file.slice(0, -ENTRY_FILE_SUFFIX.length)),
+      );
+  }
+
+  /**
+   * Creates the directory on first use. Failures are thrown by the operation
+   * that triggered the creation, which is retried by the next operation.
+   */
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true }).then(
+        () => {},
+        (err) => {
+          this.ready = undefined;
+
+          throw err;
+        },
+      );
+    }
+
+    return this.ready;
+  }
+
+  private getPath(key: string): string {
+    return join(this.directory, encodeURIComponent(key) + ENTRY_FILE_SUFFIX);
+  }
+}
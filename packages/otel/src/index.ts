@@ -1 +1,18 @@
 export * from "./span-processor.js";
+export * from "./file-export-buffer.js";
+export * from "./file-prompt-cache-store.js";
+export * from "./file-media.js";
+export { isTraceIdSampled } from "./sampling.js";
+export type {
+  SamplingConfig,
+  HeadSamplingConfig,
+  TailSamplingConfig,
+  ShouldKeepTrace,
+} from "./sampling.js";
+export { Redactor } from "./redaction.js";
+export type {
+  RedactionConfig,
+  RedactionDetector,
+  RedactionResult,
+  BuiltInRedactionDetector,
+} from "./redaction.js";
@@ -0,0 +1,387 @@
+import { getGlobalLogger } from "@antsplatform/core";
+
+/**
+ * A detector that finds sensitive values in strings.
+ *
+ * @example
+ * ```typescript
+ * const employeeIdDetector: RedactionDetector = {
+ *   name: 'employee_id',
+ *   pattern: /EMP-\d{6}/,
+ * };
+ * ```
+ *
+ * @public
+ */
+export type RedactionDetector = {
+  /** Name of the detector, used in replacements and redaction counts */
+  name: string;
+  /** Pattern matching candidate values. Always applied globally. */
+  pattern: RegExp;
+  /** Optional check to discard false positives among the matches */
+  validate?: (match: string) => boolean;
+};
+
+/**
+ * Names of the built-in redaction detectors.
+ *
+ * @public
+ */
+export type BuiltInRedactionDetector =
+  "jwt" | "apiKey" | "email" | "creditCard" | "iban" | "ipAddress" | "phone";
+
+/**
+ * Configuration of the PII redaction engine.
+ *
+ * @public
+ */
+export type RedactionConfig = {
+  /**
+   * Detectors applied to every string value, in order. Built-in detectors are
+   * referenced by name, custom detectors are passed as objects.
+   *
+   * @defaultValue all built-in detectors
+   */
+  detectors?: (BuiltInRedactionDetector | RedactionDetector)[];
+  /**
+   * Key-name rules. Values stored under a matching object key (or flattened
+   * metadata key) are redacted entirely, regardless of their content.
+   * Strings match keys case-insensitively.
+   *
+   * @example ['password', /^x-api-key$/i]
+   */
+  keys?: (string | RegExp)[];
+  /**
+   * Returns the replacement for a redacted value.
+   *
+   * @defaultValue `<redacted:${detector}>`
+   */
+  replacement?: (params: { detector: string; value: string }) => string;
+};
+
+/**
+ * Result of a redaction run.
+ *
+ * @public
+ */
+export type RedactionResult<T> = {
+  /** The redacted data */
+  data: T;
+  /** Number of redacted values per detector name. Key-name rules are counted as `key`. */
+  counts: Record<string, number>;
+};
+
+// Base64 data URIs are kept intact so that they can be uploaded as media
+const DATA_URI_PATTERN = /(data:[^;]+;base64,[A-Za-z0-9+/]+=*)/;
+
+const BOUNDARY_START = "(?<![A-Za-z0-9+/_-])";
+const BOUNDARY_END = "(?![A-Za-z0-9_-])";
+
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  // Restrict to major card networks and lengths to avoid matching timestamps
+  if (digits.length < 14 || digits.length > 19) return false;
+  if (!/^[2-6]/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+function isIbanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+const BUILT_IN_DETECTORS: Record<BuiltInRedactionDetector, RedactionDetector> =
+  {
+    jwt: {
+      name: "jwt",
+      pattern: /eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/,
+    },
+    apiKey: {
+      name: "apiKey",
+      pattern: new RegExp(
+        BOUNDARY_START +
+          "(?:" +
+          [
+            "sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}",
+            "(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}",
+            "sk-lf-[A-Za-z0-9-]{16,}",
+            "gh[pousr]_[A-Za-z0-9]{36,}",
+            "xox[abprs]-[A-Za-z0-9-]{10,}",
+            "AKIA[0-9A-Z]{16}",
+            "AIza[0-9A-Za-z_-]{35}",
+          ].join("|") +
+          ")" +
+          BOUNDARY_END +
+          "|Bearer\\s+[A-Za-z0-9._~+/-]+=*",
+      ),
+    },
+    email: {
+      name: "email",
+      // Bounded parts starting at a boundary avoid quadratic backtracking
+      pattern:
+        /(?<![A-Za-z0-9._%+-])[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9.-]{1,253}\.[A-Za-z]{2,63}/,
+    },
+    creditCard: {
+      name: "creditCard",
+      pattern: new RegExp(
+        BOUNDARY_START + "\\d(?:[ -]?\\d){12,18}" + BOUNDARY_END,
+      ),
+      validate: isLuhnValid,
+    },
+    iban: {
+      name: "iban",
+      pattern: new RegExp(
+        BOUNDARY_START + "[A-Z]{2}\\d{2}(?: ?[A-Z0-9]){11,30}" + BOUNDARY_END,
+      ),
+      validate: isIbanValid,
+    },
+    ipAddress: {
+      name: "ipAddress",
+      pattern: new RegExp(
+        BOUNDARY_START +
+          "(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)(?:\\.(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)){3}" +
+          "|(?:[A-Fa-f0-9]{1,4}:){7}[A-Fa-f0-9]{1,4}" +
+          "|(?:[A-Fa-f0-9]{1,4}:){1,6}:(?:[A-Fa-f0-9]{1,4}(?::[A-Fa-f0-9]{1,4}){0,5})?)" +
+          "(?![\\w.:])",
+      ),
+    },
+    phone: {
+      name: "phone",
+      pattern: new RegExp(
+        BOUNDARY_START +
+          "(?:\\+\\d{1,3}[ -]?)?(?:\\(\\d{1,4}\\)[ -]?)?\\d{2,4}(?:[ -]?\\d{2,4}){1,4}" +
+          BOUNDARY_END,
+      ),
+      validate: (match) => {
+        const digits = match.replace(/\D/g, "");
+
+        // Require separators or a country code to avoid plain integers and dates
+        return (
+          digits.length >= 7 &&
+          digits.length <= 15 &&
+          (match.startsWith("+") || /[ ()-]/.test(match)) &&
+          !/^\d{4}-\d{2}-\d{2}$/.test(match)
+        );
+      },
+    },
+  };
+
+const DEFAULT_DETECTORS: BuiltInRedactionDetector[] = [
+  "jwt",
+  "apiKey",
+  "email",
+  "creditCard",
+  "iban",
+  "ipAddress",
+  "phone",
+];
+
+/**
+ * PII redaction engine working on parsed JSON structures.
+ *
+ * String values are scanned by the configured detectors, and values under keys
+ * matching a key-name rule are replaced entirely. The input is never mutated.
+ *
+ * Can be used standalone, inside a custom mask function, or via the `redaction`
+ * option of the AntsPlatformSpanProcessor.
+ *
+ * @example
+ * ```typescript
+ * const redactor = new Redactor({
+ *   detectors: ['email', 'creditCard', { name: 'ticket', pattern: /TCK-\d+/ }],
+ *   keys: ['password'],
+ * });
+ *
+ * const { data, counts } = redactor.redact({
+ *   user: 'jane@example.com',
+ *   password: 'hunter2',
+ * });
+ * // data: { user: '<redacted:email>', password: '<redacted:key>' }
+ * // counts: { email: 1, key: 1 }
+ * ```
+ *
+ * @public
+ */
+export class Redactor {
+  private detectors: RedactionDetector[];
+  private keys: (string | RegExp)[];
+  private replacement: (params: { detector: string; value: string }) => string;
+
+  /**
+   * Creates a new Redactor instance.
+   *
+   * @param config - Detectors, key-name rules and replacement to use
+   */
+  constructor(config: RedactionConfig = {}) {
+    this.detectors = (config.detectors ?? DEFAULT_DETECTORS).map((detector) => {
+      const resolved =
+        typeof detector === "string" ? BUILT_IN_DETECTORS[detector] : detector;
+
+      if (!resolved) {
+        throw new Error(`Unknown redaction detector: ${detector}`);
+      }
+
+      const flags = resolved.pattern.flags.includes("g")
+        ? resolved.pattern.flags
+        : resolved.pattern.flags + "g";
+
+      return { ...resolved, pattern: new RegExp(resolved.pattern, flags) };
+    });
+    this.keys = config.keys ?? [];
+    this.replacement =
+      config.replacement ?? (({ detector }) => `<redacted:${detector}>`);
+  }
+
+  /**
+   * Redacts sensitive values in the given data.
+   *
+   * @param data - A string or JSON-compatible structure
+   * @returns The redacted copy of the data and the number of redactions per detector
+   */
+  public redact<T>(data: T): RedactionResult<T> {
+    const counts: Record<string, number> = {};
+
+    return { data: this.redactValue(data, counts) as T, counts };
+  }
+
+  /**
+   * Redacts a serialized value, parsing it as JSON if it holds an object or array.
+   *
+   * @param value - The serialized value
+   * @param key - Optional key under which the value is stored, checked against key-name rules
+   * @returns The redacted serialized value and the number of redactions per detector
+   */
+  public redactSerialized(
+    value: string,
+    key?: string,
+  ): RedactionResult<string> {
+    const counts: Record<string, number> = {};
+
+    if (key !== undefined && this.isSensitiveKey(key)) {
+      return { data: this.replaceKeyValue(value, counts), counts };
+    }
+
+    const trimmed = value.trimStart();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        const parsed = JSON.parse(value);
+
+        return {
+          data: JSON.stringify(this.redactValue(parsed, counts)),
+          counts,
+        };
+      } catch {
+        // Not valid JSON, redact as plain string
+      }
+    }
+
+    return { data: this.redactString(value, counts), counts };
+  }
+
+  /**
+   * Checks whether a key matches any of the key-name rules.
+   *
+   * @param key - The key to check
+   */
+  public isSensitiveKey(key: string): boolean {
+    return this.keys.some((rule) =>
+      typeof rule === "string"
+        ? rule.toLowerCase() === key.toLowerCase()
+        : key.search(rule) !== -1,
+    );
+  }
+
+  private redactValue(value: unknown, counts: Record<string, number>): unknown {
+    if (typeof value === "string") {
+      return this.redactString(value, counts);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, counts));
+    }
+
+    if (value !== null && typeof value === "object") {
+      const redacted: Record<string, unknown> = {};
+
+      for (const [key, child] of Object.entries(value)) {
+        redacted[key] = this.isSensitiveKey(key)
+          ? this.replaceKeyValue(child, counts)
+          : this.redactValue(child, counts);
+      }
+
+      return redacted;
+    }
+
+    return value;
+  }
+
+  private replaceKeyValue(
+    value: unknown,
+    counts: Record<string, number>,
+  ): string {
+    counts["key"] = (counts["key"] ?? 0) + 1;
+
+    return this.replacement({
+      detector: "key",
+      value: typeof value === "string" ? value : JSON.stringify(value),
+    });
+  }
+
+  private redactString(value: string, counts: Record<string, number>): string {
+    // Splitting on the captured pattern puts data URIs at odd indices
+    return value
+      .split(DATA_URI_PATTERN)
+      .map((part, index) =>
+        index % 2 === 1 ? part : this.redactText(part, counts),
+      )
+      .join("");
+  }
+
+  private redactText(value: string, counts: Record<string, number>): string {
+    let result = value;
+
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, (match) => {
+        try {
+          if (detector.validate && !detector.validate(match)) return match;
+        } catch (err) {
+          getGlobalLogger().warn(
+            `Redaction detector ${detector.name} failed to validate match. Redacting anyway. Error: ${err}`,
+          );
+        }
+
+        counts[detector.name] = (counts[detector.name] ?? 0) + 1;
+
+        return this.replacement({ detector: detector.name, value: match });
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  AntsPlatformOtelSpanAttributes,
+  getGlobalLogger,
+} from "@antsplatform/core";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+/**
+ * Function type for deciding whether a completed trace should be kept in tail sampling mode.
+ *
+ * @param params - Object containing the buffered trace
+ * @param params.rootSpan - The root span of the trace (or the oldest buffered span if the root was never seen)
+ * @param params.spans - All buffered spans of the trace, including the root span
+ * @returns `true` if the trace should be exported, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * const shouldKeepTrace: ShouldKeepTrace = ({ spans }) =>
+ *   spans.some((span) => span.name === 'checkout');
+ * ```
+ *
+ * @public
+ */
+export type ShouldKeepTrace = (params: {
+  rootSpan: ReadableSpan;
+  spans: ReadableSpan[];
+}) => boolean;
+
+/**
+ * Head sampling configuration.
+ *
+ * The sampling decision is made deterministically from the trace ID, so all spans
+ * of a trace are either exported or dropped together, also across processes that
+ * share the same ratio.
+ *
+ * @public
+ */
+export type HeadSamplingConfig = {
+  mode: "head";
+  /**
+   * Fraction of traces to export, between 0 and 1.
+   * Can also be set via ANTS_PLATFORM_SAMPLE_RATE environment variable.
+   */
+  ratio?: number;
+};
+
+/**
+ * Tail sampling configuration.
+ *
+ * Spans are buffered per trace until the root span ends. The complete trace is then
+ * exported if any of the keep conditions match, otherwise the trace-ID ratio decides.
+ * `forceFlush` only exports traces that were already decided; traces whose root span
+ * has not ended are evaluated on `shutdown`.
+ *
+ * @public
+ */
+export type TailSamplingConfig = {
+  mode: "tail";
+  /**
+   * Fraction of traces that do not match any keep condition to export anyway, between 0 and 1.
+   * Can also be set via ANTS_PLATFORM_SAMPLE_RATE environment variable.
+   *
+   * @defaultValue 0
+   */
+  ratio?: number;
+  /**
+   * Keep traces that contain an observation with level `ERROR` or a span with error status.
+   *
+   * @defaultValue true
+   */
+  keepErrors?: boolean;
+  /**
+   * Keep traces whose root span took longer than this threshold in milliseconds.
+   */
+  latencyThresholdMs?: number;
+  /**
+   * Custom predicate to keep a trace.
+   */
+  shouldKeepTrace?: ShouldKeepTrace;
+  /**
+   * Maximum number of traces held in the buffer. When exceeded, the oldest trace is
+   * evaluated with the spans seen so far.
+   *
+   * @defaultValue 1000
+   */
+  maxBufferedTraces?: number;
+};
+
+/**
+ * Sampling configuration for the AntsPlatformSpanProcessor.
+ *
+ * @public
+ */
+export type SamplingConfig = HeadSamplingConfig | TailSamplingConfig;
+
+const DEFAULT_MAX_BUFFERED_TRACES = 1_000;
+const MAX_REMEMBERED_DECISIONS = 10_000;
+
+/**
+ * Deterministically decides whether a trace is sampled based on its trace ID.
+ *
+ * The lower 32 bits of the trace ID are compared against the ratio, so every
+ * SDK instance using the same ratio reaches the same decision for a trace.
+ *
+ * @param traceId - The 32-character hex trace ID
+ * @param ratio - Fraction of traces to sample, between 0 and 1
+ * @returns `true` if the trace is sampled
+ *
+ * @public
+ */
+export function isTraceIdSampled(traceId: string, ratio: number): boolean {
+  if (ratio >= 1) return true;
+  if (ratio <= 0) return false;
+
+  const lowerBits = parseInt(traceId.slice(-8), 16);
+  if (Number.isNaN(lowerBits)) return true;
+
+  return lowerBits < Math.floor(ratio * 0x100000000);
+}
+
+type BufferedTrace = {
+  spans: ReadableSpan[];
+};
+
+/**
+ * Applies head or tail sampling to ended spans.
+ *
+ * @internal
+ */
+export class TraceSampler {
+  private config: SamplingConfig;
+  private ratio: number;
+  private bufferedTraces: Map<string, BufferedTrace> = new Map();
+  private decisions: Map<string, boolean> = new Map();
+
+  constructor(params: { config: SamplingConfig; defaultRatio?: number }) {
+    this.config = params.config;
+
+    const ratio =
+      params.config.ratio ??
+      params.defaultRatio ??
+      (params.config.mode === "head" ? 1 : 0);
+
+    if (Number.isNaN(ratio) || ratio < 0 || ratio > 1) {
+      this.logger.warn(
+        `Invalid sampling ratio ${ratio}. Expected a number between 0 and 1. Falling back to ${params.config.mode === "head" ? 1 : 0}.`,
+      );
+      this.ratio = params.config.mode === "head" ? 1 : 0;
+    } else {
+      this.ratio = ratio;
+    }
+  }
+
+  private get logger() {
+    return getGlobalLogger().forComponent("TraceSampler");
+  }
+
+  /**
+   * Registers an ended span and returns the spans that are ready for export.
+   *
+   * @param span - The span that ended
+   * @returns Spans released for export, empty if the span was buffered or dropped
+   */
+  public onEnd(span: ReadableSpan): ReadableSpan[] {
+    const { traceId } = span.spanContext();
+
+    if (this.config.mode === "head") {
+      return isTraceIdSampled(traceId, this.ratio) ? [span] : [];
+    }
+
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      return decision ? [span] : [];
+    }
+
+    let bufferedTrace = this.bufferedTraces.get(traceId);
+    if (!bufferedTrace) {
+      bufferedTrace = { spans: [] };
+      this.bufferedTraces.set(traceId, bufferedTrace);
+    }
+    bufferedTrace.spans.push(span);
+
+    const released: ReadableSpan[] = [];
+
+    if (this.isLocalRoot(span)) {
+      released.push(...this.decide(traceId, span));
+    }
+
+    const maxBufferedTraces =
+      this.config.maxBufferedTraces ?? DEFAULT_MAX_BUFFERED_TRACES;
+
+    while (this.bufferedTraces.size > maxBufferedTraces) {
+      const oldestTraceId = this.bufferedTraces.keys().next().value as string;
+
+      this.logger.debug(
+        `Tail sampling buffer full. Evaluating trace ${oldestTraceId} before its root span ended.`,
+      );
+      released.push(...this.decide(oldestTraceId));
+    }
+
+    return released;
+  }
+
+  /**
+   * Evaluates all buffered traces with the spans seen so far.
+   *
+   * Called on shutdown so that no spans remain stuck in the buffer. Flushes do
+   * not drain the buffer, as traces whose root span has not ended yet would be
+   * decided on partial data.
+   *
+   * @returns Spans released for export
+   */
+  public drain(): ReadableSpan[] {
+    const released: ReadableSpan[] = [];
+
+    for (const traceId of Array.from(this.bufferedTraces.keys())) {
+      released.push(...this.decide(traceId));
+    }
+
+    return released;
+  }
+
+  private decide(traceId: string, rootSpan?: ReadableSpan): ReadableSpan[] {
+    const bufferedTrace = this.bufferedTraces.get(traceId);
+    this.bufferedTraces.delete(traceId);
+
+    if (!bufferedTrace || bufferedTrace.spans.length === 0) return [];
+
+    const keep = this.shouldKeep(
+      rootSpan ?? bufferedTrace.spans[0],
+      bufferedTrace.spans,
+    );
+
+    this.rememberDecision(traceId, keep);
+
+    this.logger.debug(
+      `Tail sampling ${keep ? "kept" : "dropped"} trace ${traceId} with ${bufferedTrace.spans.length} span(s).`,
+    );
+
+    return keep ? bufferedTrace.spans : [];
+  }
+
+  private shouldKeep(rootSpan: ReadableSpan, spans: ReadableSpan[]): boolean {
+    if (this.config.mode !== "tail") return true;
+
+    const {
+      keepErrors = true,
+      latencyThresholdMs,
+      shouldKeepTrace,
+    } = this.config;
+
+    if (keepErrors && spans.some((span) => this.isErrorSpan(span))) {
+      return true;
+    }
+
+    if (
+      latencyThresholdMs !== undefined &&
+      hrTimeToMilliseconds(rootSpan.duration) >= latencyThresholdMs
+    ) {
+      return true;
+    }
+
+    if (shouldKeepTrace) {
+      try {
+        if (shouldKeepTrace({ rootSpan, spans })) return true;
+      } catch (err) {
+        this.logger.error(
+          "ShouldKeepTrace failed with error. Falling back to ratio sampling. Error: ",
+          err,
+        );
+      }
+    }
+
+    return isTraceIdSampled(rootSpan.spanContext().traceId, this.ratio);
+  }
+
+  private isErrorSpan(span: ReadableSpan): boolean {
+    return (
+      span.attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL] ===
+        "ERROR" || span.status.code === SpanStatusCode.ERROR
+    );
+  }
+
+  private isLocalRoot(span: ReadableSpan): boolean {
+    const parentSpanContext = span.parentSpanContext;
+
+    return !parentSpanContext || parentSpanContext.isRemote === true;
+  }
+
+  private rememberDecision(traceId: string, keep: boolean) {
+    this.decisions.set(traceId, keep);
+
+    // Late spans of a decided trace follow the decision; bound memory usage
+    if (this.decisions.size > MAX_REMEMBERED_DECISIONS) {
+      const oldestTraceId = this.decisions.keys().next().value as string;
+      this.decisions.delete(oldestTraceId);
+    }
+  }
+}
@@ -6,6 +6,9 @@ import {
   AntsPlatformOtelSpanAttributes,
   getEnv,
   base64Encode,
+  base64Decode,
+  ExportBuffer,
+  ExportBufferRecord,
 } from "@antsplatform/core";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { bytesToHex } from "@noble/hashes/utils.js";
@@ -20,7 +23,16 @@ import {
   SpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
 
+import {
+  BufferedSpanExporter,
+  SerializedSpan,
+  deserializeSpans,
+  getSpanRecordId,
+  serializeSpan,
+} from "./buffered-export.js";
 import { MediaService } from "./MediaService.js";
+import { RedactionConfig, Redactor } from "./redaction.js";
+import { SamplingConfig, TraceSampler } from "./sampling.js";
 
 /**
  * Configuration for agent identification in Ants Platform.
@@ -67,6 +79,37 @@ interface ResolvedAgentConfig {
  */
 const MAX_AGENT_NAME_LENGTH = 255;
 
+const INPUT_OUTPUT_ATTRIBUTES: string[] = [
+  AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+  AntsPlatformOtelSpanAttributes.TRACE_INPUT,
+  AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+  AntsPlatformOtelSpanAttributes.TRACE_OUTPUT,
+];
+
+const METADATA_ATTRIBUTE_PREFIXES: string[] = [
+  AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA,
+  AntsPlatformOtelSpanAttributes.TRACE_METADATA,
+];
+
+/**
+ * Data URI of a value offloaded to media by the attribute size limits.
+ */
+const OFFLOADED_VALUE_PATTERN =
+  /^data:(text\/plain|application\/json);base64,([A-Za-z0-9+/]+=*)$/;
+
+/**
+ * Returns the metadata attribute prefix of a flattened metadata attribute key.
+ */
+function getMetadataPrefix(key: string): string | undefined {
+  return METADATA_ATTRIBUTE_PREFIXES.find(
+    (prefix) => key === prefix || key.startsWith(`${prefix}.`),
+  );
+}
+
+function isInputOutputOrMetadataAttribute(key: string): boolean {
+  return INPUT_OUTPUT_ATTRIBUTES.includes(key) || !!getMetadataPrefix(key);
+}
+
 /**
  * Generates a deterministic agent_id using BLAKE2b-64.
  *
@@ -247,11 +290,73 @@ export interface AntsPlatformSpanProcessorParams {
    */
   mask?: MaskFunction;
 
+  /**
+   * Built-in PII redaction applied to trace and observation input, output and metadata.
+   *
+   * Serialized JSON values are parsed and redacted structurally. The number of redacted
+   * values per detector is reported in the `redaction_counts` observation metadata key.
+   * Redaction runs after the mask function and before media is uploaded, leaving base64
+   * data URIs intact. It fails closed: if a value cannot be redacted, it is replaced
+   * entirely.
+   *
+   * @example
+   * ```typescript
+   * new AntsPlatformSpanProcessor({
+   *   redaction: {
+   *     detectors: ['email', 'phone', 'creditCard', { name: 'ticket', pattern: /TCK-\d+/ }],
+   *     keys: ['password', /token$/i],
+   *   }
+   * });
+   * ```
+   */
+  redaction?: RedactionConfig;
+
   /**
    * Function to determine whether a span should be exported to AntsPlatform.
    */
   shouldExportSpan?: ShouldExportSpan;
 
+  /**
+   * Trace sampling configuration.
+   *
+   * - **head**: Deterministic trace-ID ratio sampling. All spans of a trace are kept or dropped together.
+   * - **tail**: Spans are buffered until the root span of their trace ends. The trace is kept if it
+   *   contains an `ERROR`-level observation, exceeds the latency threshold, or matches the custom
+   *   predicate; otherwise the ratio decides.
+   *
+   * If not provided but ANTS_PLATFORM_SAMPLE_RATE is set, head sampling with that ratio is used.
+   *
+   * @example
+   * ```typescript
+   * new AntsPlatformSpanProcessor({
+   *   sampling: {
+   *     mode: 'tail',
+   *     ratio: 0.05, // keep 5% of healthy traces
+   *     latencyThresholdMs: 10_000,
+   *   }
+   * });
+   * ```
+   */
+  sampling?: SamplingConfig;
+
+  /**
+   * Durable buffer for processed spans and pending media uploads.
+   *
+   * Spans are persisted after masking and media handling, and acknowledged once exported.
+   * Spans and media uploads that were not delivered (e.g. due to a crash or network outage)
+   * are replayed when a processor with the same buffer is created.
+   *
+   * @example
+   * ```typescript
+   * import { AntsPlatformSpanProcessor, FileExportBuffer } from '@antsplatform/otel';
+   *
+   * new AntsPlatformSpanProcessor({
+   *   exportBuffer: new FileExportBuffer({ directory: './.ants-platform-buffer' }),
+   * });
+   * ```
+   */
+  exportBuffer?: ExportBuffer;
+
   /**
    * Environment identifier for the traces. Can also be set via ANTS_PLATFORM_TRACING_ENVIRONMENT environment variable.
    */
@@ -325,7 +430,10 @@ export interface AntsPlatformSpanProcessorParams {
  * - Automatic batching and flushing of spans to AntsPlatform
  * - Media content extraction and upload from base64 data URIs
  * - Data masking capabilities for sensitive information
+ * - Built-in PII redaction with per-detector counts
  * - Conditional span export based on custom logic
+ * - Head and tail-based trace sampling
+ * - Optional durable buffering of spans and media uploads
  * - Environment and release tagging
  *
  * @example
@@ -361,7 +469,14 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
   private environment?: string;
   private release?: string;
   private mask?: MaskFunction;
+  private redactor?: Redactor;
   private shouldExportSpan?: ShouldExportSpan;
+  private sampler?: TraceSampler;
+  private exportBuffer?: ExportBuffer;
+  private pendingRecordsPromise?: Promise<
+    [ExportBufferRecord[], ExportBufferRecord[]]
+  >;
+  private replayPromise?: Promise<void>;
   private apiClient: AntsPlatformAPIClient;
   private processor: SpanProcessor;
   private mediaService: MediaService;
@@ -426,7 +541,7 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
     const timeoutSeconds =
       params?.timeout ?? Number(getEnv("ANTS_PLATFORM_TIMEOUT") ?? 5);
 
-    const exporter =
+    const baseExporter =
       params?.exporter ??
       new OTLPTraceExporter({
         url: `${baseUrl}/api/public/otel/v1/traces`,
@@ -440,6 +555,14 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
         timeoutMillis: timeoutSeconds * 1_000,
       });
 
+    this.exportBuffer = params?.exportBuffer;
+    const exporter = this.exportBuffer
+      ? new BufferedSpanExporter({
+          exporter: baseExporter,
+          exportBuffer: this.exportBuffer,
+        })
+      : baseExporter;
+
     this.processor =
       params?.exportMode === "immediate"
         ? new SimpleSpanProcessor(exporter)
@@ -456,7 +579,24 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
       params?.environment ?? getEnv("ANTS_PLATFORM_TRACING_ENVIRONMENT");
     this.release = params?.release ?? getEnv("ANTS_PLATFORM_RELEASE");
     this.mask = params?.mask;
+    this.redactor = params?.redaction
+      ? new Redactor(params.redaction)
+      : undefined;
     this.shouldExportSpan = params?.shouldExportSpan;
+
+    const envSampleRate = getEnv("ANTS_PLATFORM_SAMPLE_RATE");
+    const sampling: SamplingConfig | undefined =
+      params?.sampling ??
+      (envSampleRate
+        ? { mode: "head", ratio: Number(envSampleRate) }
+        : undefined);
+    if (sampling) {
+      this.sampler = new TraceSampler({
+        config: sampling,
+        defaultRatio: envSampleRate ? Number(envSampleRate) : undefined,
+      });
+    }
+
     this.apiClient = new AntsPlatformAPIClient({
       baseUrl: this.baseUrl,
       username: this.publicKey,
@@ -468,7 +608,20 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
       headers: params?.additionalHeaders,
     });
 
-    this.mediaService = new MediaService({ apiClient: this.apiClient });
+    this.mediaService = new MediaService({
+      apiClient: this.apiClient,
+      exportBuffer: this.exportBuffer,
+    });
+
+    if (this.exportBuffer) {
+      // Undelivered records are read before spans and media uploads of this
+      // processor are persisted, so that these are not replayed as well
+      this.pendingRecordsPromise = Promise.all([
+        this.exportBuffer.pending("span"),
+        this.exportBuffer.pending("media"),
+      ]);
+      this.replayPromise = this.replayExportBuffer(this.pendingRecordsPromise);
+    }
 
     // Store test project ID if provided (for testing only)
     this.testProjectId = params?._testProjectId;
@@ -487,6 +640,9 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
       timeoutSeconds,
       flushAt,
       flushIntervalSeconds,
+      sampling: sampling?.mode,
+      hasExportBuffer: !!this.exportBuffer,
+      hasRedaction: !!this.redactor,
       hasAgentConfig: !!params?.agent,
     });
   }
@@ -568,8 +724,40 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
     }
   }
 
+  /**
+   * Replays spans and media uploads that were persisted but never delivered.
+   *
+   * @param pendingRecords - The undelivered span and media upload records
+   * @internal
+   */
+  private async replayExportBuffer(
+    pendingRecords: Promise<[ExportBufferRecord[], ExportBufferRecord[]]>,
+  ): Promise<void> {
+    try {
+      const [spanRecords, mediaRecords] = await pendingRecords;
+      const spans = deserializeSpans(
+        spanRecords.map((record) => record.payload as SerializedSpan),
+      );
+
+      if (spans.length > 0) {
+        this.logger.info(
+          `Replaying ${spans.length} undelivered span(s) from export buffer.`,
+        );
+      }
+
+      // Persisted spans were already masked and processed before being buffered
+      for (const span of spans) {
+        this.processor.onEnd(span);
+      }
+
+      await this.mediaService.replay(mediaRecords);
+    } catch (err) {
+      this.logger.error("Failed to replay export buffer. Error: ", err);
+    }
+  }
+
   private get logger(): Logger {
-    return getGlobalLogger();
+    return getGlobalLogger().forComponent("AntsPlatformSpanProcessor");
   }
 
   /**
@@ -613,17 +801,28 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
    * Called when a span ends. Processes the span for export to AntsPlatform.
    *
    * This method:
-   * 1. Checks if the span should be exported using the shouldExportSpan function
-   * 2. Applies data masking to sensitive attributes
-   * 3. Handles media content extraction and upload
-   * 4. Logs span details in debug mode
-   * 5. Passes the span to the parent processor for export
+   * 1. Applies trace sampling, buffering the span until its trace is decided in tail mode
+   * 2. Checks if the span should be exported using the shouldExportSpan function
+   * 3. Applies data masking to sensitive attributes
+   * 4. Redacts PII if redaction is configured
+   * 5. Handles media content extraction and upload
+   * 6. Logs span details in debug mode
+   * 7. Persists the span in the export buffer if configured
+   * 8. Passes the span to the parent processor for export
    *
    * @param span - The span that ended
    *
    * @override
    */
   public onEnd(span: ReadableSpan): void {
+    const spansToProcess = this.sampler ? this.sampler.onEnd(span) : [span];
+
+    for (const spanToProcess of spansToProcess) {
+      this.enqueueEndedSpan(spanToProcess);
+    }
+  }
+
+  private enqueueEndedSpan(span: ReadableSpan): void {
     const processEndedSpanPromise = this.processEndedSpan(span).catch((err) => {
       this.logger.error(err);
     });
@@ -641,6 +840,7 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
     if (this.agentConfigPromise) {
       await this.agentConfigPromise;
     }
+    await this.replayPromise;
     await Promise.all(Array.from(this.pendingEndedSpans));
     await this.mediaService.flush();
   }
@@ -648,6 +848,9 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
   /**
    * Forces an immediate flush of all pending spans and media uploads.
    *
+   * With an export buffer, the flush also completes if the export fails, as
+   * the undelivered spans are replayed on next startup.
+   *
    * @returns Promise that resolves when all pending operations are complete
    *
    * @override
@@ -655,17 +858,35 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
   public async forceFlush(): Promise<void> {
     await this.flush();
 
-    return this.processor.forceFlush();
+    try {
+      await this.processor.forceFlush();
+    } catch (err) {
+      if (!this.exportBuffer) {
+        throw err;
+      }
+
+      // Spans that failed to export remain in the export buffer
+      this.logger.warn(
+        `Failed to export spans on flush. Undelivered spans will be replayed on next startup. Error: ${err}`,
+      );
+    }
   }
 
   /**
    * Gracefully shuts down the processor, ensuring all pending operations are completed.
    *
+   * With tail sampling, traces whose root span has not ended yet are evaluated
+   * with the spans seen so far.
+   *
    * @returns Promise that resolves when shutdown is complete
    *
    * @override
    */
   public async shutdown(): Promise<void> {
+    for (const span of this.sampler?.drain() ?? []) {
+      this.enqueueEndedSpan(span);
+    }
+
     await this.flush();
 
     return this.processor.shutdown();
@@ -685,7 +906,13 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
       }
     }
 
+    // Failures to read the export buffer are logged by the replay
+    await this.pendingRecordsPromise?.catch(() => {});
+
+    const offloadedKeys = this.decodeOffloadedValuesInPlace(span);
     this.applyMaskInPlace(span);
+    this.applyRedactionInPlace(span);
+    this.encodeOffloadedValuesInPlace(span, offloadedKeys);
     await this.mediaService.process(span);
 
     this.logger.debug(
@@ -709,8 +936,66 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
       )}`,
     );
 
+    if (this.exportBuffer) {
+      try {
+        await this.exportBuffer.append([
+          {
+            id: getSpanRecordId(span),
+            kind: "span",
+            payload: serializeSpan(span),
+          },
+        ]);
+      } catch (err) {
+        this.logger.warn(
+          `Failed to persist span ${span.spanContext().spanId} in export buffer. Exporting without buffering. Error: ${err}`,
+        );
+      }
+    }
+
     this.processor.onEnd(span);
   }
+
+  /**
+   * Decodes values that were offloaded to media by the attribute size limits,
+   * so that the mask function and redaction apply to them before upload.
+   *
+   * @returns The decoded attribute keys with the content type of their data URI
+   */
+  private decodeOffloadedValuesInPlace(
+    span: ReadableSpan,
+  ): Map<string, string> {
+    const offloadedKeys = new Map<string, string>();
+    if (!this.mask && !this.redactor) return offloadedKeys;
+
+    for (const key of Object.keys(span.attributes)) {
+      if (!isInputOutputOrMetadataAttribute(key)) continue;
+
+      const value = span.attributes[key];
+      const match =
+        typeof value === "string" ? OFFLOADED_VALUE_PATTERN.exec(value) : null;
+      if (!match) continue;
+
+      span.attributes[key] = base64Decode(match[2]);
+      offloadedKeys.set(key, match[1]);
+    }
+
+    return offloadedKeys;
+  }
+
+  private encodeOffloadedValuesInPlace(
+    span: ReadableSpan,
+    offloadedKeys: Map<string, string>,
+  ): void {
+    for (const [key, contentType] of offloadedKeys) {
+      const value = span.attributes[key];
+      const serialized =
+        typeof value === "string" ? value : JSON.stringify(value);
+
+      span.attributes[key] =
+        `data:${contentType};base64,${base64Encode(serialized)}`;
+    }
+  }
+
   private applyMaskInPlace(span: ReadableSpan): void {
     const maskCandidates = [
       AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
@@ -730,6 +1015,48 @@ export class AntsPlatformSpanProcessor implements SpanProcessor {
     }
   }
 
+  private applyRedactionInPlace(span: ReadableSpan): void {
+    if (!this.redactor) return;
+
+    const counts: Record<string, number> = {};
+
+    for (const key of Object.keys(span.attributes)) {
+      if (!isInputOutputOrMetadataAttribute(key)) continue;
+
+      const metadataPrefix = getMetadataPrefix(key);
+
+      const value = span.attributes[key];
+      if (typeof value !== "string") continue;
+
+      // Flattened metadata keys are checked against key-name rules
+      const metadataKey =
+        metadataPrefix && key !== metadataPrefix
+          ? key.slice(metadataPrefix.length + 1)
+          : undefined;
+
+      try {
+        const result = this.redactor.redactSerialized(value, metadataKey);
+
+        span.attributes[key] = result.data;
+        for (const [detector, count] of Object.entries(result.counts)) {
+          counts[detector] = (counts[detector] ?? 0) + count;
+        }
+      } catch (err) {
+        this.logger.warn(
+          `Redaction failed due to error, fully redacting property. Error: ${err}`,
+        );
+
+        span.attributes[key] = "<fully redacted due to failed redaction>";
+      }
+    }
+
+    if (Object.keys(counts).length > 0) {
+      span.attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.redaction_counts`
+      ] = JSON.stringify(counts);
+    }
+  }
+
   private applyMask<T>(data: T): T | string {
     if (!this.mask) return data;
 
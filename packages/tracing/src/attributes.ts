@@ -1,6 +1,12 @@
-import { AntsPlatformOtelSpanAttributes } from "@antsplatform/core";
+import {
+  AntsPlatformOtelSpanAttributes,
+  getEnv,
+  getGlobalLogger,
+} from "@antsplatform/core";
 import { type Attributes } from "@opentelemetry/api";
 
+import { getAntsPlatformAttributeLimits } from "./tracerProvider.js";
+import { limitSerializedValue } from "./truncation.js";
 import {
   AntsPlatformObservationAttributes,
   AntsPlatformObservationType,
@@ -46,18 +52,34 @@ export function createTraceAttributes({
   environment,
   public: isPublic,
 }: AntsPlatformTraceAttributes = {}): Attributes {
+  const truncation = { truncated: false };
+
   const attributes = {
     [AntsPlatformOtelSpanAttributes.TRACE_NAME]: name,
     [AntsPlatformOtelSpanAttributes.TRACE_USER_ID]: userId,
     [AntsPlatformOtelSpanAttributes.TRACE_SESSION_ID]: sessionId,
     [AntsPlatformOtelSpanAttributes.VERSION]: version,
     [AntsPlatformOtelSpanAttributes.RELEASE]: release,
-    [AntsPlatformOtelSpanAttributes.TRACE_INPUT]: _serialize(input),
-    [AntsPlatformOtelSpanAttributes.TRACE_OUTPUT]: _serialize(output),
+    [AntsPlatformOtelSpanAttributes.TRACE_INPUT]: _serializeWithLimit(
+      input,
+      "input",
+      truncation,
+    ),
+    [AntsPlatformOtelSpanAttributes.TRACE_OUTPUT]: _serializeWithLimit(
+      output,
+      "output",
+      truncation,
+    ),
     [AntsPlatformOtelSpanAttributes.TRACE_TAGS]: tags,
     [AntsPlatformOtelSpanAttributes.ENVIRONMENT]: environment,
     [AntsPlatformOtelSpanAttributes.TRACE_PUBLIC]: isPublic,
-    ..._flattenAndSerializeMetadata(metadata, "trace"),
+    ..._flattenAndSerializeMetadata(metadata, "trace", truncation),
+    ...(truncation.truncated
+      ? {
+          [`${AntsPlatformOtelSpanAttributes.TRACE_METADATA}.truncated`]:
+            "true",
+        }
+      : {}),
   };
 
   return Object.fromEntries(
@@ -84,13 +106,23 @@ export function createObservationAttributes(
     prompt,
   } = attributes;
 
+  const truncation = { truncated: false };
+
   let otelAttributes: Attributes = {
     [AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]: type,
     [AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL]: level,
     [AntsPlatformOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE]: statusMessage,
     [AntsPlatformOtelSpanAttributes.VERSION]: version,
-    [AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT]: _serialize(input),
-    [AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT]: _serialize(output),
+    [AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT]: _serializeWithLimit(
+      input,
+      "input",
+      truncation,
+    ),
+    [AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT]: _serializeWithLimit(
+      output,
+      "output",
+      truncation,
+    ),
     [AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL]: model,
     [AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS]:
       _serialize(usageDetails),
@@ -107,9 +139,15 @@ export function createObservationAttributes(
             prompt.version,
         }
       : {}),
-    ..._flattenAndSerializeMetadata(metadata, "observation"),
+    ..._flattenAndSerializeMetadata(metadata, "observation", truncation),
   };
 
+  if (truncation.truncated) {
+    otelAttributes[
+      `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.truncated`
+    ] = "true";
+  }
+
   return Object.fromEntries(
     Object.entries(otelAttributes).filter(([_, v]) => v != null),
   );
@@ -132,6 +170,91 @@ function _serialize(obj: unknown): string | undefined {
   }
 }
 
+/**
+ * Serializes a field and fits it into the configured size limit, if any.
+ *
+ * @param obj - Object to serialize
+ * @param field - The field whose limit applies
+ * @param truncation - Tracks whether any field was truncated
+ * @returns Serialized value within the size limit, or undefined if null/undefined
+ * @internal
+ */
+function _serializeWithLimit(
+  obj: unknown,
+  field: "input" | "output" | "metadata",
+  truncation: { truncated: boolean },
+): string | undefined {
+  const serialized = _serialize(obj);
+  if (serialized === undefined) return undefined;
+
+  const limits = getAntsPlatformAttributeLimits();
+  const maxBytes = _getMaxFieldBytes(field);
+  if (maxBytes === undefined) return serialized;
+
+  const result = limitSerializedValue(
+    obj,
+    serialized,
+    maxBytes,
+    limits?.offloadToMedia ?? false,
+  );
+  if (result.truncated) truncation.truncated = true;
+
+  return result.value;
+}
+
+const warnedInvalidLimits = new Set<string>();
+
+/**
+ * Parses a configured size limit, which must be a non-negative number of
+ * bytes. Invalid limits are ignored with a warning, once per value.
+ *
+ * @param source - Name of the setting, used in the warning
+ * @param value - The configured limit, a string if set via environment variable
+ * @returns The limit in bytes, or undefined if unset or invalid
+ * @internal
+ */
+function _parseLimit(source: string, value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+
+  const limit = typeof value === "string" ? Number(value) : value;
+  if (typeof limit === "number" && Number.isFinite(limit) && limit >= 0) {
+    return limit;
+  }
+
+  const key = `${source}=${String(value)}`;
+  if (!warnedInvalidLimits.has(key)) {
+    warnedInvalidLimits.add(key);
+    getGlobalLogger().warn(
+      `Ignoring invalid size limit ${key}, expected a non-negative number of bytes`,
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the size limit of a field from the configured attribute limits
+ * and the ANTS_PLATFORM_MAX_FIELD_BYTES environment variable.
+ *
+ * @param field - The field whose limit applies
+ * @returns The limit in bytes, or undefined if no valid limit is configured
+ * @internal
+ */
+function _getMaxFieldBytes(
+  field: "input" | "output" | "metadata",
+): number | undefined {
+  const limits = getAntsPlatformAttributeLimits();
+
+  return (
+    _parseLimit(`fieldLimits.${field}`, limits?.fieldLimits?.[field]) ??
+    _parseLimit("maxFieldBytes", limits?.maxFieldBytes) ??
+    _parseLimit(
+      "ANTS_PLATFORM_MAX_FIELD_BYTES",
+      getEnv("ANTS_PLATFORM_MAX_FIELD_BYTES"),
+    )
+  );
+}
+
 /**
  * Flattens and serializes metadata into OpenTelemetry attribute format.
  *
@@ -141,12 +264,14 @@ function _serialize(obj: unknown): string | undefined {
  *
  * @param metadata - Metadata object to flatten
  * @param type - Whether this is for observation or trace metadata
+ * @param truncation - Tracks whether any metadata value was truncated
  * @returns Flattened metadata attributes
  * @internal
  */
 function _flattenAndSerializeMetadata(
   metadata: unknown,
   type: "observation" | "trace",
+  truncation: { truncated: boolean },
 ): Record<string, string> {
   const prefix =
     type === "observation"
@@ -160,13 +285,13 @@ function _flattenAndSerializeMetadata(
   }
 
   if (typeof metadata !== "object" || Array.isArray(metadata)) {
-    const serialized = _serialize(metadata);
+    const serialized = _serializeWithLimit(metadata, "metadata", truncation);
     if (serialized) {
       metadataAttributes[prefix] = serialized;
     }
   } else {
     for (const [key, value] of Object.entries(metadata)) {
-      const serialized = typeof value === "string" ? value : _serialize(value);
+      const serialized = _serializeWithLimit(value, "metadata", truncation);
       if (serialized) {
         metadataAttributes[`${prefix}.${key}`] = serialized;
       }
@@ -54,6 +54,7 @@ export type {
   AntsPlatformGenerationAttributes,
   AntsPlatformObservationAttributes,
   AntsPlatformTraceAttributes,
+  AntsPlatformAttributeLimits,
 } from "./types.js";
 
 export * from "./spanWrapper.js";
@@ -65,6 +66,8 @@ export {
   setAntsPlatformTracerProvider,
   getAntsPlatformTracerProvider,
   getAntsPlatformTracer,
+  setAntsPlatformAttributeLimits,
+  getAntsPlatformAttributeLimits,
 } from "./tracerProvider.js";
 
 export {
@@ -1,3 +1,8 @@
+import {
+  AntsPlatformMedia,
+  MediaAttachment,
+  attachMediaToSpan,
+} from "@antsplatform/core";
 import { Span, TimeInput } from "@opentelemetry/api";
 
 import {
@@ -206,6 +211,40 @@ abstract class AntsPlatformBaseObservation {
     return this;
   }
 
+  /**
+   * Attaches media to a field of this observation.
+   *
+   * The media is uploaded when the observation ends, without being serialized
+   * into the observation's attributes. Use this for large files, blobs,
+   * streams or remote URLs instead of embedding base64 data URIs.
+   *
+   * @param field - The observation field the media belongs to
+   * @param media - The media to upload
+   * @returns This observation for method chaining
+   *
+   * @example
+   * ```typescript
+   * import { AntsPlatformMedia } from '@antsplatform/core';
+   * import { createMediaFromFile } from '@antsplatform/otel';
+   *
+   * const span = startObservation('summarize-report');
+   * span.attachMedia('input', await createMediaFromFile('./report.pdf'));
+   * span.attachMedia(
+   *   'output',
+   *   AntsPlatformMedia.fromUrl('https://example.com/chart.png'),
+   * );
+   * span.end();
+   * ```
+   */
+  public attachMedia(
+    field: MediaAttachment["field"],
+    media: AntsPlatformMedia,
+  ) {
+    attachMediaToSpan(this.otelSpan, { field, media });
+
+    return this;
+  }
+
   /**
    * Creates a new child observation within this observation's context with full type safety.
    *
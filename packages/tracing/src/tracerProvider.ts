@@ -5,15 +5,19 @@ import {
 } from "@antsplatform/core";
 import { TracerProvider, trace } from "@opentelemetry/api";
 
+import { AntsPlatformAttributeLimits } from "./types.js";
+
 const ANTS_PLATFORM_GLOBAL_SYMBOL = Symbol.for("antsPlatform");
 
 type AntsPlatformGlobalState = {
   isolatedTracerProvider: TracerProvider | null;
+  attributeLimits?: AntsPlatformAttributeLimits | null;
 };
 
 function createState(): AntsPlatformGlobalState {
   return {
     isolatedTracerProvider: null,
+    attributeLimits: null,
   };
 }
 
@@ -153,3 +157,35 @@ export function getAntsPlatformTracer() {
     ANTS_PLATFORM_SDK_VERSION,
   );
 }
+
+/**
+ * Sets the size limits applied to serialized input, output and metadata attributes.
+ *
+ * @example
+ * ```typescript
+ * import { setAntsPlatformAttributeLimits } from '@antsplatform/tracing';
+ *
+ * setAntsPlatformAttributeLimits({
+ *   maxFieldBytes: 256_000,
+ *   fieldLimits: { output: 1_000_000 },
+ * });
+ * ```
+ *
+ * @param limits - The limits to apply, or null to remove them
+ * @public
+ */
+export function setAntsPlatformAttributeLimits(
+  limits: AntsPlatformAttributeLimits | null,
+) {
+  getGlobalState().attributeLimits = limits;
+}
+
+/**
+ * Gets the size limits applied to serialized attributes.
+ *
+ * @returns The configured limits, or null if none are configured
+ * @public
+ */
+export function getAntsPlatformAttributeLimits(): AntsPlatformAttributeLimits | null {
+  return getGlobalState().attributeLimits ?? null;
+}
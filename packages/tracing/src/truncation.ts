@@ -0,0 +1,163 @@
+import { base64Encode } from "@antsplatform/core";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const MIN_STRING_BYTES = 16;
+
+/**
+ * Result of fitting a serialized value into a byte limit.
+ *
+ * @internal
+ */
+export type LimitedValue = {
+  /** The serialized value, possibly truncated or offloaded */
+  value: string;
+  /** Whether content was removed to fit the limit */
+  truncated: boolean;
+};
+
+function byteLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+function truncationMarker(bytes: number): string {
+  return `<truncated ${bytes} bytes>`;
+}
+
+function decodePrefix(bytes: Uint8Array, maxBytes: number): string {
+  // Drop a partially cut multi-byte character at the end
+  return decoder
+    .decode(bytes.slice(0, Math.max(0, maxBytes)))
+    .replace(/\uFFFD$/, "");
+}
+
+/**
+ * Cuts a string to at most `maxBytes` UTF-8 bytes and appends a truncation marker.
+ * If the limit is too small to hold the marker, the string is cut without it.
+ *
+ * @internal
+ */
+export function truncateString(value: string, maxBytes: number): string {
+  const bytes = encoder.encode(value);
+  if (bytes.length <= maxBytes) return value;
+
+  // Reserve room for the marker so the result stays within the limit
+  const markerBytes = truncationMarker(bytes.length).length;
+  if (markerBytes > maxBytes) return decodePrefix(bytes, maxBytes);
+
+  const prefix = decodePrefix(bytes, maxBytes - markerBytes);
+
+  return prefix + truncationMarker(bytes.length - byteLength(prefix));
+}
+
+function truncateStructure(
+  value: unknown,
+  maxStringBytes: number,
+  maxArrayItems: number,
+): unknown {
+  if (typeof value === "string") {
+    return truncateString(value, maxStringBytes);
+  }
+
+  if (Array.isArray(value)) {
+    const kept = value
+      .slice(0, maxArrayItems)
+      .map((item) => truncateStructure(item, maxStringBytes, maxArrayItems));
+
+    if (value.length > maxArrayItems) {
+      const removedBytes = byteLength(
+        JSON.stringify(value.slice(maxArrayItems)) ?? "",
+      );
+      kept.push(truncationMarker(removedBytes));
+    }
+
+    return kept;
+  }
+
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        truncateStructure(child, maxStringBytes, maxArrayItems),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Fits a value into a byte limit once serialized.
+ *
+ * Strings are cut with a truncation marker. Objects and arrays are truncated
+ * structurally, shortening long strings and arrays inside them, so the result
+ * remains valid JSON. If `offload` is set, oversized values are instead encoded
+ * as a base64 data URI, which the AntsPlatformSpanProcessor uploads as media.
+ *
+ * @param value - The original value
+ * @param serialized - The serialized value
+ * @param maxBytes - Maximum size of the serialized value in bytes
+ * @param offload - Whether to offload oversized values via media upload
+ * @returns The limited serialized value
+ *
+ * @internal
+ */
+export function limitSerializedValue(
+  value: unknown,
+  serialized: string,
+  maxBytes: number,
+  offload: boolean,
+): LimitedValue {
+  // Without a usable limit the loop below would never end
+  if (!(maxBytes >= 0)) return { value: serialized, truncated: false };
+
+  // UTF-8 uses at most 3 bytes per UTF-16 code unit, skip encoding small values
+  if (serialized.length * 3 <= maxBytes || byteLength(serialized) <= maxBytes) {
+    return { value: serialized, truncated: false };
+  }
+
+  if (offload) {
+    const contentType =
+      typeof value === "string" ? "text/plain" : "application/json";
+
+    return {
+      value: `data:${contentType};base64,${base64Encode(serialized)}`,
+      truncated: false,
+    };
+  }
+
+  if (
+    typeof value === "string" ||
+    value === null ||
+    typeof value !== "object"
+  ) {
+    return { value: truncateString(serialized, maxBytes), truncated: true };
+  }
+
+  let maxStringBytes = Math.max(MIN_STRING_BYTES, Math.floor(maxBytes / 4));
+  let maxArrayItems = Math.max(1, Math.floor(maxBytes / 64));
+
+  while (true) {
+    const candidate = JSON.stringify(
+      truncateStructure(value, maxStringBytes, maxArrayItems),
+    );
+
+    if (byteLength(candidate) <= maxBytes) {
+      return { value: candidate, truncated: true };
+    }
+
+    if (maxStringBytes <= MIN_STRING_BYTES && maxArrayItems <= 1) break;
+
+    maxStringBytes = Math.max(MIN_STRING_BYTES, Math.floor(maxStringBytes / 2));
+    maxArrayItems = Math.max(1, Math.floor(maxArrayItems / 2));
+  }
+
+  // Too many keys to fit even with minimal values
+  const marker = truncationMarker(byteLength(serialized));
+
+  return {
+    value: byteLength(marker) <= maxBytes ? marker : "",
+    truncated: true,
+  };
+}
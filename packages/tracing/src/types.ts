@@ -33,6 +33,42 @@ export type AntsPlatformObservationType =
  * @public
  */
 export type ObservationLevel = "DEBUG" | "DEFAULT" | "WARNING" | "ERROR";
+
+/**
+ * Size limits for serialized input, output and metadata attributes.
+ *
+ * Limits are opt-in: unless a limit is configured, values are exported in full.
+ * Values exceeding the limit are truncated structurally: long strings and arrays
+ * inside JSON are shortened and annotated with `<truncated N bytes>` markers, so
+ * the result stays valid JSON. Truncated observations and traces are flagged with
+ * a `truncated` metadata key.
+ *
+ * @public
+ */
+export type AntsPlatformAttributeLimits = {
+  /**
+   * Maximum size in bytes of each serialized field.
+   * Can also be set via ANTS_PLATFORM_MAX_FIELD_BYTES environment variable.
+   *
+   * @defaultValue no limit
+   */
+  maxFieldBytes?: number;
+  /** Per-field overrides of `maxFieldBytes`. The metadata limit applies to each top-level metadata key. */
+  fieldLimits?: {
+    input?: number;
+    output?: number;
+    metadata?: number;
+  };
+  /**
+   * Offload oversized values through the media upload of the AntsPlatformSpanProcessor
+   * instead of truncating them. The attribute then references the uploaded media.
+   * The processor applies its mask function and redaction to the offloaded value before
+   * uploading it, as it does for values that are not offloaded.
+   *
+   * @defaultValue false
+   */
+  offloadToMedia?: boolean;
+};
 /**
  * Attributes for AntsPlatform span observations.
  *
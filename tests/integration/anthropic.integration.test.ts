@@ -0,0 +1,217 @@
+import { observeAnthropic } from "@ants-platform/anthropic";
+import { AntsPlatformOtelSpanAttributes } from "@ants-platform/core";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  anthropicMessage,
+  anthropicRequest,
+  anthropicStreamEvents,
+} from "./fixtures/anthropic.js";
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+class Messages {
+  create = vi.fn(async (params: { stream?: boolean }) => {
+    if (params.stream) {
+      return (async function* () {
+        yield* anthropicStreamEvents;
+      })();
+    }
+
+    return anthropicMessage;
+  });
+
+  countTokens = vi.fn(async () => ({ input_tokens: 42 }));
+}
+
+class Anthropic {
+  messages = new Messages();
+  beta = { messages: new Messages() };
+}
+
+const expectedOutput = {
+  role: "assistant",
+  content: anthropicMessage.content,
+};
+
+const expectedUsageDetails = {
+  input: 42,
+  output: 96,
+  input_cache_read: 1310,
+  input_cache_creation: 0,
+  total: 1448,
+};
+
+describe("observeAnthropic", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should trace messages as generations with thinking, tool use and cache usage", async () => {
+    const anthropic = observeAnthropic(new Anthropic(), {
+      traceName: "weather-chat",
+      userId: "user-123",
+      generationMetadata: { feature: "weather" },
+    });
+
+    const message = await anthropic.messages.create(anthropicRequest);
+    await anthropic.messages.countTokens();
+
+    expect(message).toBe(anthropicMessage);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+    expect(testEnv.mockExporter.getSpanCount()).toBe(1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "Anthropic.messages.create",
+    )!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "generation",
+    );
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL]).toBe(
+      "claude-sonnet-4-5-20250929",
+    );
+    expect(
+      JSON.parse(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT]),
+    ).toEqual({
+      system: anthropicRequest.system,
+      messages: anthropicRequest.messages,
+      tools: anthropicRequest.tools,
+    });
+    expect(
+      JSON.parse(
+        attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS],
+      ),
+    ).toMatchObject({
+      max_tokens: 2048,
+      thinking: { type: "enabled", budget_tokens: 1024 },
+    });
+    expect(
+      JSON.parse(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT]),
+    ).toEqual(expectedOutput);
+    expect(
+      JSON.parse(
+        attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS],
+      ),
+    ).toEqual(expectedUsageDetails);
+    expect(
+      attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.stop_reason`
+      ],
+    ).toContain("tool_use");
+    expect(
+      attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.feature`
+      ],
+    ).toContain("weather");
+    expect(attributes[AntsPlatformOtelSpanAttributes.TRACE_NAME]).toBe(
+      "weather-chat",
+    );
+  });
+
+  it("should rebuild streamed messages from their events", async () => {
+    const anthropic = observeAnthropic(new Anthropic());
+
+    const stream = await anthropic.beta.messages.create({
+      ...anthropicRequest,
+      stream: true,
+    });
+
+    const events: unknown[] = [];
+    for await (const event of stream as AsyncIterable<unknown>) {
+      events.push(event);
+    }
+
+    expect(events).toEqual(anthropicStreamEvents);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "Anthropic.beta.messages.create",
+    )!;
+    expect(
+      JSON.parse(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT]),
+    ).toEqual(expectedOutput);
+    expect(
+      JSON.parse(
+        attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS],
+      ),
+    ).toEqual(expectedUsageDetails);
+    expect(
+      attributes[
+        AntsPlatformOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME
+      ],
+    ).toBeDefined();
+    expect(
+      attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.stop_reason`
+      ],
+    ).toContain("tool_use");
+  });
+
+  it("should record failed and interrupted calls", async () => {
+    const client = new Anthropic();
+    client.messages.create.mockRejectedValueOnce(new Error("529 Overloaded"));
+    const anthropic = observeAnthropic(client, {
+      generationName: "weather-message",
+    });
+
+    await expect(anthropic.messages.create(anthropicRequest)).rejects.toThrow(
+      "529 Overloaded",
+    );
+
+    client.messages.create.mockResolvedValueOnce(
+      (async function* () {
+        yield* anthropicStreamEvents.slice(0, 8);
+        throw new Error("Connection reset");
+      })(),
+    );
+    const stream = await anthropic.messages.create({
+      ...anthropicRequest,
+      stream: true,
+    });
+    await expect(async () => {
+      for await (const _event of stream as AsyncIterable<unknown>) {
+        // consume
+      }
+    }).rejects.toThrow("Connection reset");
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const [failed, interrupted] = testEnv.mockExporter
+      .getSpansByName("weather-message")
+      .map((span) => span.attributes);
+    expect(failed[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL]).toBe(
+      "ERROR",
+    );
+    expect(
+      failed[AntsPlatformOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE],
+    ).toContain("529 Overloaded");
+    expect(interrupted[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL]).toBe(
+      "ERROR",
+    );
+    expect(
+      JSON.parse(
+        interrupted[
+          AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT
+        ] as string,
+      ),
+    ).toEqual({
+      role: "assistant",
+      content: [
+        anthropicMessage.content[0],
+        { type: "text", text: "Let me check " },
+      ],
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  setAntsPlatformAttributeLimits,
+  startObservation,
+} from "@ants-platform/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { SpanAssertions } from "./helpers/assertions.js";
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Attribute Size Limits", () => {
+  let testEnv: TestEnvironment;
+  let assertions: SpanAssertions;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+    assertions = new SpanAssertions(testEnv.mockExporter);
+  });
+
+  afterEach(async () => {
+    delete process.env.ANTS_PLATFORM_MAX_FIELD_BYTES;
+    setAntsPlatformAttributeLimits(null);
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should not limit values by default", async () => {
+    const output = "x".repeat(1_100_000);
+
+    startObservation("unlimited", { output }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("unlimited");
+    expect(span.attributes["ants-platform.observation.output"]).toBe(output);
+  });
+
+  it("should keep values within the limit unchanged", async () => {
+    setAntsPlatformAttributeLimits({ maxFieldBytes: 1_000 });
+
+    startObservation("small", { input: { question: "hello" } }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("small");
+    expect(span.attributes["ants-platform.observation.input"]).toBe(
+      JSON.stringify({ question: "hello" }),
+    );
+    expect(
+      span.attributes["ants-platform.observation.metadata.truncated"],
+    ).toBeUndefined();
+  });
+
+  it("should truncate oversized strings with a marker", async () => {
+    setAntsPlatformAttributeLimits({ maxFieldBytes: 100 });
+
+    startObservation("long-string", { output: "x".repeat(1_000) }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("long-string");
+    const output = span.attributes[
+      "ants-platform.observation.output"
+    ] as string;
+
+    expect(new TextEncoder().encode(output).length).toBeLessThanOrEqual(100);
+    expect(output).toMatch(/^x+<truncated \d+ bytes>$/);
+    expect(
+      span.attributes["ants-platform.observation.metadata.truncated"],
+    ).toBe("true");
+  });
+
+  it("should stay within limits smaller than the marker", async () => {
+    setAntsPlatformAttributeLimits({ maxFieldBytes: 8 });
+
+    startObservation("tiny-limit", {
+      input: "x".repeat(1_000),
+      output: { documents: ["lorem ipsum ".repeat(10)] },
+    }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("tiny-limit");
+
+    expect(span.attributes["ants-platform.observation.input"]).toBe(
+      "x".repeat(8),
+    );
+    expect(span.attributes["ants-platform.observation.output"]).toBe("");
+  });
+
+  it("should apply the limit from the environment variable", async () => {
+    process.env.ANTS_PLATFORM_MAX_FIELD_BYTES = "100";
+
+    startObservation("env-limit", { output: "x".repeat(1_000) }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("env-limit");
+    const output = span.attributes[
+      "ants-platform.observation.output"
+    ] as string;
+
+    expect(new TextEncoder().encode(output).length).toBeLessThanOrEqual(100);
+    expect(output).toMatch(/^x+<truncated \d+ bytes>$/);
+  });
+
+  it("should ignore invalid limits", async () => {
+    process.env.ANTS_PLATFORM_MAX_FIELD_BYTES = "64kb";
+    setAntsPlatformAttributeLimits({
+      maxFieldBytes: Number.NaN,
+      fieldLimits: { input: -1 },
+    });
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const input = { documents: ["lorem ipsum ".repeat(100)] };
+    startObservation("invalid-limit", { input }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("invalid-limit");
+    expect(span.attributes["ants-platform.observation.input"]).toBe(
+      JSON.stringify(input),
+    );
+    expect(
+      span.attributes["ants-platform.observation.metadata.truncated"],
+    ).toBeUndefined();
+
+    consoleWarn.mockRestore();
+  });
+
+  it("should truncate structures while keeping valid JSON", async () => {
+    setAntsPlatformAttributeLimits({ maxFieldBytes: 500 });
+
+    const documents = Array.from({ length: 50 }, (_, i) => ({
+      id: i,
+      content: "lorem ipsum ".repeat(100),
+    }));
+
+    startObservation(
+      "retrieval",
+      { input: { query: "short query" }, output: { documents } },
+      { asType: "retriever" },
+    ).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("retrieval");
+    const output = span.attributes[
+      "ants-platform.observation.output"
+    ] as string;
+
+    expect(new TextEncoder().encode(output).length).toBeLessThanOrEqual(500);
+
+    const parsed = JSON.parse(output);
+    expect(parsed.documents[0].id).toBe(0);
+    expect(parsed.documents[0].content).toMatch(/<truncated \d+ bytes>$/);
+    expect(parsed.documents[parsed.documents.length - 1]).toMatch(
+      /^<truncated \d+ bytes>$/,
+    );
+
+    expect(span.attributes["ants-platform.observation.input"]).toBe(
+      JSON.stringify({ query: "short query" }),
+    );
+  });
+
+  it("should apply per-field limits to each metadata key", async () => {
+    setAntsPlatformAttributeLimits({
+      maxFieldBytes: 10_000,
+      fieldLimits: { metadata: 50 },
+    });
+
+    startObservation("metadata", {
+      input: "i".repeat(1_000),
+      metadata: { small: "ok", large: "m".repeat(1_000) },
+    }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("metadata");
+
+    expect(span.attributes["ants-platform.observation.input"]).toBe(
+      "i".repeat(1_000),
+    );
+    expect(span.attributes["ants-platform.observation.metadata.small"]).toBe(
+      "ok",
+    );
+    expect(span.attributes["ants-platform.observation.metadata.large"]).toMatch(
+      /^m+<truncated \d+ bytes>$/,
+    );
+    expect(
+      span.attributes["ants-platform.observation.metadata.truncated"],
+    ).toBe("true");
+  });
+
+  it("should offload oversized values through media upload", async () => {
+    setAntsPlatformAttributeLimits({
+      maxFieldBytes: 100,
+      offloadToMedia: true,
+    });
+
+    startObservation("offloaded", {
+      output: { text: "y".repeat(1_000) },
+    }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("offloaded");
+
+    expect(span.attributes["ants-platform.observation.output"]).toMatch(
+      /^@@@antsPlatformMedia:type=application\/json\|id=.+\|source=base64_data_uri@@@$/,
+    );
+    expect(
+      span.attributes["ants-platform.observation.metadata.truncated"],
+    ).toBeUndefined();
+  });
+
+  it("should mask and redact offloaded values before upload", async () => {
+    await teardownTestEnvironment(testEnv);
+
+    const mask = vi.fn(({ data }: { data: unknown }) => data);
+    testEnv = await setupTestEnvironment({
+      spanProcessorConfig: { mask, redaction: {} },
+    });
+    assertions = new SpanAssertions(testEnv.mockExporter);
+    setAntsPlatformAttributeLimits({
+      maxFieldBytes: 100,
+      offloadToMedia: true,
+    });
+
+    const output = { text: "y".repeat(1_000), contact: "jane@example.com" };
+    startObservation("offloaded-redacted", { output }).end();
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const span = assertions.expectSpanWithName("offloaded-redacted");
+
+    expect(mask).toHaveBeenCalledWith({ data: JSON.stringify(output) });
+    expect(
+      span.attributes["ants-platform.observation.metadata.redaction_counts"],
+    ).toBe(JSON.stringify({ email: 1 }));
+    expect(span.attributes["ants-platform.observation.output"]).toMatch(
+      /^@@@antsPlatformMedia:type=application\/json\|id=.+\|source=base64_data_uri@@@$/,
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { DatasetManager, ScoreManager } from "@ants-platform/client";
+import { AntsPlatformAPIClient, resetGlobalLogger } from "@ants-platform/core";
+import { describe, it, expect, beforeEach, beforeAll, vi } from "vitest";
+
+const runItems: Record<string, { datasetItemId: string; traceId: string }[]> = {
+  main: [
+    { datasetItemId: "item-1", traceId: "main-1" },
+    { datasetItemId: "item-2", traceId: "main-2" },
+    { datasetItemId: "item-3", traceId: "main-3" },
+  ],
+  feature: [
+    { datasetItemId: "item-1", traceId: "feature-1" },
+    { datasetItemId: "item-2", traceId: "feature-2" },
+    { datasetItemId: "item-3", traceId: "feature-3" },
+  ],
+};
+
+const score = (
+  traceId: string,
+  name: string,
+  value: number | string,
+): Record<string, unknown> =>
+  typeof value === "string"
+    ? { traceId, name, dataType: "CATEGORICAL", stringValue: value }
+    : { traceId, name, dataType: "NUMERIC", value };
+
+const scores = [
+  score("main-1", "accuracy", 1),
+  score("main-2", "accuracy", 0),
+  score("main-3", "accuracy", 0.5),
+  score("feature-1", "accuracy", 1),
+  score("feature-2", "accuracy", 1),
+  score("feature-3", "accuracy", 0.25),
+  score("main-1", "latency", 2),
+  score("main-2", "latency", 4),
+  score("feature-1", "latency", 1),
+  score("feature-2", "latency", 2),
+  score("feature-2", "latency", 4),
+  score("feature-3", "label", "billing|refund"),
+  score("unrelated-trace", "accuracy", 0),
+];
+
+class MockAPIClient {
+  public datasets = {
+    getRun: vi.fn().mockImplementation(async (datasetName, runName) => ({
+      id: `run-${runName}`,
+      name: runName,
+      datasetId: "dataset-1",
+      datasetName,
+      createdAt:
+        runName === "main" ? "2026-01-01T00:00:00Z" : "2026-02-01T00:00:00Z",
+      datasetRunItems: [],
+    })),
+  };
+  public datasetRunItems = {
+    list: vi.fn().mockImplementation(async ({ runName, page }) => ({
+      data: runItems[runName]
+        .slice((page - 1) * 2, page * 2)
+        .map((item) => ({ ...item, datasetRunName: runName })),
+      meta: { totalPages: 2 },
+    })),
+  };
+  public scoreV2 = {
+    get: vi.fn().mockImplementation(async ({ name, page }) => {
+      const matching = scores.filter((s) => !name || s.name === name);
+
+      return {
+        data: matching.slice((page - 1) * 5, page * 5),
+        meta: { totalPages: Math.ceil(matching.length / 5) },
+      };
+    }),
+  };
+  public trace = {
+    get: vi.fn().mockImplementation(async (traceId) => ({
+      id: traceId,
+      scores: scores.filter((s) => s.traceId === traceId),
+    })),
+  };
+}
+
+describe("Dataset run comparison", () => {
+  let apiClient: MockAPIClient;
+  let datasetManager: DatasetManager;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+
+    const client = apiClient as unknown as AntsPlatformAPIClient;
+    datasetManager = new DatasetManager({
+      apiClient: client,
+      scoreManager: new ScoreManager({ apiClient: client }),
+    });
+  });
+
+  it("should join run items and scores and compute deltas to the baseline", async () => {
+    const comparison = await datasetManager.compareRuns({
+      datasetName: "tickets",
+      runNames: ["main", "feature"],
+      lowerIsBetter: ["latency"],
+    });
+
+    expect(apiClient.trace.get).toHaveBeenCalledTimes(6);
+    expect(apiClient.scoreV2.get).not.toHaveBeenCalled();
+    expect(apiClient.datasetRunItems.list).toHaveBeenCalledTimes(4);
+
+    expect(comparison.baseline).toBe("main");
+    expect(comparison.items).toHaveLength(3);
+    expect(comparison.items[1]).toEqual({
+      datasetItemId: "item-2",
+      runs: {
+        main: { traceId: "main-2", scores: { accuracy: 0, latency: 4 } },
+        feature: { traceId: "feature-2", scores: { accuracy: 1, latency: 3 } },
+      },
+    });
+
+    const [accuracy, latency] = comparison.scores;
+    expect(accuracy.name).toBe("accuracy");
+    expect(accuracy.runs.main).toEqual({
+      count: 3,
+      mean: 0.5,
+      p50: 0.5,
+      p95: 1,
+    });
+    expect(accuracy.deltas.feature).toMatchObject({
+      wins: 1,
+      losses: 1,
+      ties: 1,
+    });
+    expect(accuracy.deltas.feature?.mean).toBeCloseTo(0.25);
+
+    expect(latency.name).toBe("latency");
+    expect(latency.deltas.feature).toEqual({
+      mean: -1,
+      p50: -1,
+      p95: -1,
+      wins: 2,
+      losses: 0,
+      ties: 0,
+    });
+  });
+
+  it("should render the comparison as Markdown and CSV", async () => {
+    const comparison = await datasetManager.compareRuns({
+      datasetName: "tickets",
+      runNames: ["main", "feature"],
+      scoreNames: ["latency", "label"],
+    });
+
+    expect(apiClient.trace.get).not.toHaveBeenCalled();
+    expect(apiClient.scoreV2.get).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "latency",
+        fromTimestamp: "2026-01-01T00:00:00Z",
+      }),
+    );
+    expect(apiClient.scoreV2.get).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "label" }),
+    );
+    expect(comparison.scores.map((s) => s.name)).toEqual(["latency"]);
+
+    const markdown = comparison.toMarkdown({ includeItems: true });
+    expect(markdown).toContain("Baseline: `main`");
+    expect(markdown).toContain(
+      "| latency | main | 2 | 3 | 2 | 4 |  |  |  |  |",
+    );
+    expect(markdown).toContain(
+      "| latency | feature | 2 | 2 | 1 | 3 | -1 | -1 | -1 | 0 / 2 / 0 |",
+    );
+    expect(markdown).toContain("| item-3 |  | billing\\|refund |  |  |");
+
+    expect(comparison.toCsv().split("\n").slice(0, 2)).toEqual([
+      "datasetItemId,traceId (main),traceId (feature),label (main),label (feature),latency (main),latency (feature)",
+      "item-1,main-1,feature-1,,,2,1",
+    ]);
+  });
+
+  it("should require at least two runs", async () => {
+    await expect(
+      datasetManager.compareRuns({
+        datasetName: "tickets",
+        runNames: ["main"],
+      }),
+    ).rejects.toThrow("At least two run names are required");
+  });
+});
@@ -0,0 +1,265 @@
+import { DatasetManager, ScoreManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  DatasetItem,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import { describe, it, expect, beforeEach, beforeAll, vi } from "vitest";
+
+class MockAPIClient {
+  public items = new Map<string, DatasetItem>();
+
+  public datasets = {
+    get: vi.fn().mockResolvedValue({ id: "dataset-1", name: "tickets" }),
+    getRuns: vi.fn().mockResolvedValue({
+      data: [{ id: "run-1", name: "baseline" }],
+      meta: { totalPages: 1 },
+    }),
+  };
+  public datasetItems = {
+    create: vi.fn().mockImplementation(async (body) => {
+      if (body.input?.subject === "boom") {
+        throw new Error("Server error");
+      }
+
+      const item = {
+        ...body,
+        id: body.id ?? `generated-${this.items.size}`,
+        datasetId: "dataset-1",
+        status: "ACTIVE",
+      } as DatasetItem;
+      this.items.set(item.id, item);
+
+      return item;
+    }),
+    list: vi.fn().mockImplementation(async () => ({
+      data: [...this.items.values()],
+      meta: { totalPages: 1 },
+    })),
+  };
+  public datasetRunItems = {
+    list: vi.fn().mockImplementation(async ({ runName }) => ({
+      data: [
+        {
+          id: "run-item-1",
+          datasetRunId: "run-1",
+          datasetRunName: runName,
+          datasetItemId: "t-1",
+          traceId: "trace-1",
+        },
+      ],
+      meta: { totalPages: 1 },
+    })),
+  };
+  public trace = {
+    get: vi.fn().mockResolvedValue({
+      id: "trace-1",
+      scores: [
+        { name: "accuracy", dataType: "NUMERIC", value: 0.5 },
+        { name: "label", dataType: "CATEGORICAL", stringValue: "billing" },
+      ],
+    }),
+  };
+}
+
+const csv = [
+  "ticket_id,subject,body,category,metadata",
+  't-1,Refund,"I want my money back, please",billing,"{""lang"":""en""}"',
+  't-2,Login,"Line one',
+  'line two",account,',
+  "t-1,Duplicate,body,billing,",
+  ",,,other,",
+  "t-3,boom,body,other,",
+  "",
+].join("\r\n");
+
+describe("Dataset import and export", () => {
+  let apiClient: MockAPIClient;
+  let datasetManager: DatasetManager;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+
+    const client = apiClient as unknown as AntsPlatformAPIClient;
+    datasetManager = new DatasetManager({
+      apiClient: client,
+      scoreManager: new ScoreManager({ apiClient: client }),
+    });
+  });
+
+  it("should upsert mapped CSV rows and report failing rows", async () => {
+    const progress: number[] = [];
+
+    const result = await datasetManager.importItems({
+      datasetName: "tickets",
+      content: csv,
+      format: "csv",
+      mapping: {
+        id: "ticket_id",
+        input: ["subject", "body"],
+        expectedOutput: "category",
+      },
+      concurrency: 2,
+      onProgress: ({ processed }) => progress.push(processed),
+    });
+
+    expect(result).toEqual({
+      total: 5,
+      succeeded: 2,
+      failures: [
+        { row: 3, id: "t-1", error: "Duplicate item id 't-1'" },
+        { row: 4, error: "Missing input in column(s) 'subject, body'" },
+        { row: 5, id: "t-3", error: "Server error" },
+      ],
+    });
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+
+    expect(apiClient.datasetItems.create).toHaveBeenCalledWith({
+      datasetName: "tickets",
+      id: "t-1",
+      input: { subject: "Refund", body: "I want my money back, please" },
+      expectedOutput: "billing",
+      metadata: { lang: "en" },
+    });
+    expect(apiClient.items.get("t-2")?.input).toEqual({
+      subject: "Login",
+      body: "Line one\r\nline two",
+    });
+  });
+
+  it("should import JSONL with the default column mapping", async () => {
+    const result = await datasetManager
+      .importItems({
+        datasetName: "tickets",
+        content: [
+          JSON.stringify({ id: "a", input: { q: 1 }, expectedOutput: 2 }),
+          JSON.stringify({ input: "no id" }),
+          "not json",
+        ].join("\n"),
+        format: "jsonl",
+      })
+      .catch((err: Error) => err);
+
+    expect(result).toBeInstanceOf(Error);
+    expect((result as Error).message).toMatch(/^Invalid JSON on line 3/);
+    expect(apiClient.datasetItems.create).not.toHaveBeenCalled();
+
+    await datasetManager.importItems({
+      datasetName: "tickets",
+      content: JSON.stringify({ id: "a", input: { q: 1 }, expectedOutput: 2 }),
+      format: "jsonl",
+    });
+
+    expect(apiClient.datasetItems.create).toHaveBeenCalledWith({
+      datasetName: "tickets",
+      id: "a",
+      input: { q: 1 },
+      expectedOutput: 2,
+      metadata: undefined,
+    });
+  });
+
+  it("should export items with run items and scores and re-import them", async () => {
+    await datasetManager.importItems({
+      datasetName: "tickets",
+      content: csv,
+      format: "csv",
+      mapping: {
+        id: "ticket_id",
+        input: ["subject", "body"],
+        expectedOutput: "category",
+      },
+    });
+
+    const jsonl = await datasetManager.export("tickets", {
+      format: "jsonl",
+      includeRuns: true,
+      includeScores: true,
+    });
+    const rows = jsonl
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(apiClient.datasetRunItems.list).toHaveBeenCalledWith(
+      expect.objectContaining({ datasetId: "dataset-1", runName: "baseline" }),
+    );
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      id: "t-1",
+      input: { subject: "Refund", body: "I want my money back, please" },
+      runs: [
+        {
+          runName: "baseline",
+          traceId: "trace-1",
+          scores: { accuracy: 0.5, label: "billing" },
+        },
+      ],
+    });
+    expect(rows[1].runs).toEqual([]);
+
+    const exportedCsv = await datasetManager.export("tickets", {
+      format: "csv",
+    });
+    expect(exportedCsv.split("\n")[0]).toBe(
+      "id,status,input,expectedOutput,metadata,sourceTraceId,sourceObservationId",
+    );
+
+    apiClient.datasetItems.create.mockClear();
+    const reimported = await datasetManager.importItems({
+      datasetName: "tickets",
+      content: exportedCsv,
+      format: "csv",
+    });
+
+    expect(reimported).toEqual({ total: 2, succeeded: 2, failures: [] });
+    expect(apiClient.datasetItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "t-2",
+        input: { subject: "Login", body: "Line one\r\nline two" },
+        expectedOutput: "account",
+      }),
+    );
+  });
+
+  it("should round-trip strings, objects and arrays through CSV", async () => {
+    const items = [
+      {
+        id: "r-1",
+        input: { question: "Refund?" },
+        expectedOutput: '{"looks":"like json"}',
+        metadata: { tags: ["a", "b"] },
+      },
+      { id: "r-2", input: '"quoted"', expectedOutput: [1, 2], metadata: 42 },
+    ];
+
+    await datasetManager.importItems({
+      datasetName: "tickets",
+      content: items.map((item) => JSON.stringify(item)).join("\n"),
+      format: "jsonl",
+    });
+
+    const exportedCsv = await datasetManager.export("tickets", {
+      format: "csv",
+    });
+
+    apiClient.datasetItems.create.mockClear();
+    await datasetManager.importItems({
+      datasetName: "tickets",
+      content: exportedCsv,
+      format: "csv",
+    });
+
+    expect(apiClient.datasetItems.create).toHaveBeenCalledWith(
+      expect.objectContaining(items[0]),
+    );
+    // Numbers are not preserved by CSV
+    expect(apiClient.datasetItems.create).toHaveBeenCalledWith(
+      expect.objectContaining({ ...items[1], metadata: "42" }),
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { DatasetManager, ScoreManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  AntsPlatformOtelSpanAttributes,
+  DatasetItem,
+  IngestionEvent,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  beforeAll,
+  vi,
+} from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const items = [1, 2, 3, 4].map(
+  (n) =>
+    ({
+      id: `item-${n}`,
+      datasetId: "dataset-1",
+      datasetName: "arithmetic",
+      input: { n },
+      expectedOutput: n * 2,
+      status: "ACTIVE",
+      createdAt: "2026-01-01T00:00:00Z",
+      updatedAt: "2026-01-01T00:00:00Z",
+    }) as unknown as DatasetItem,
+);
+
+class MockAPIClient {
+  public datasets = {
+    get: vi.fn().mockResolvedValue({ id: "dataset-1", name: "arithmetic" }),
+  };
+  public datasetItems = {
+    list: vi.fn().mockResolvedValue({ data: items, meta: { totalPages: 1 } }),
+  };
+  public datasetRunItems = {
+    create: vi.fn().mockImplementation(async (body) => ({
+      id: `run-item-${body.datasetItemId}`,
+      datasetRunId: "run-1",
+      datasetRunName: body.runName,
+      datasetItemId: body.datasetItemId,
+      traceId: body.traceId,
+    })),
+  };
+  public ingestion = {
+    batch: vi.fn().mockResolvedValue({ successes: [], errors: [] }),
+  };
+
+  get scoreBodies() {
+    return this.ingestion.batch.mock.calls.flatMap(([{ batch }]) =>
+      (batch as IngestionEvent[]).map((event) => event.body),
+    ) as Record<string, unknown>[];
+  }
+}
+
+describe("Dataset experiments", () => {
+  let testEnv: TestEnvironment;
+  let apiClient: MockAPIClient;
+  let datasetManager: DatasetManager;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+    apiClient = new MockAPIClient();
+
+    const client = apiClient as unknown as AntsPlatformAPIClient;
+    datasetManager = new DatasetManager({
+      apiClient: client,
+      scoreManager: new ScoreManager({ apiClient: client }),
+    });
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should trace, link and score each item and summarize the run", async () => {
+    const dataset = await datasetManager.get("arithmetic");
+
+    const result = await dataset.runExperiment({
+      name: "double-v1",
+      description: "Doubles numbers",
+      task: async (item) => (item.input as { n: number }).n * 2,
+      evaluators: [
+        ({ output, expectedOutput }) => ({
+          name: "exact-match",
+          value: output === expectedOutput,
+        }),
+      ],
+      runEvaluators: [
+        ({ itemResults }) => ({
+          name: "items",
+          value: itemResults.length,
+        }),
+      ],
+      concurrency: 2,
+    });
+
+    expect(result.datasetRunId).toBe("run-1");
+    expect(result.itemResults.map((r) => r.output)).toEqual([2, 4, 6, 8]);
+    expect(result.summary).toMatchObject({
+      totalItems: 4,
+      succeeded: 4,
+      failed: 0,
+      averageScores: { "exact-match": 1 },
+    });
+    expect(result.runEvaluations).toEqual([{ name: "items", value: 4 }]);
+
+    await waitForSpanExport(testEnv.mockExporter, 4);
+    const traceIds = testEnv.mockExporter.exportedSpans.map(
+      (span) => span.spanContext().traceId,
+    );
+    expect(new Set(traceIds).size).toBe(4);
+
+    expect(apiClient.datasetRunItems.create).toHaveBeenCalledTimes(4);
+    for (const [body] of apiClient.datasetRunItems.create.mock.calls) {
+      expect(body).toMatchObject({
+        runName: "double-v1",
+        runDescription: "Doubles numbers",
+      });
+      expect(traceIds).toContain(body.traceId);
+    }
+
+    const scores = apiClient.scoreBodies;
+    expect(scores.filter((s) => s.name === "exact-match")).toHaveLength(4);
+    expect(scores.find((s) => s.name === "exact-match")).toMatchObject({
+      value: 1,
+      dataType: "BOOLEAN",
+      datasetRunId: "run-1",
+    });
+    expect(scores.find((s) => s.name === "items")).toMatchObject({
+      value: 4,
+      dataType: "NUMERIC",
+      datasetRunId: "run-1",
+    });
+  });
+
+  it("should limit the number of items processed in parallel", async () => {
+    const dataset = await datasetManager.get("arithmetic");
+    let running = 0;
+    let maxRunning = 0;
+
+    await dataset.runExperiment({
+      name: "concurrency",
+      concurrency: 2,
+      task: async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        running--;
+      },
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should retry failing tasks and record items that keep failing", async () => {
+    const dataset = await datasetManager.get("arithmetic");
+    const attempts: Record<string, number> = {};
+
+    const result = await dataset.runExperiment({
+      name: "flaky",
+      maxRetries: 1,
+      task: async (item, { attempt }) => {
+        attempts[item.id] = attempt + 1;
+        if (item.id === "item-1" && attempt === 0) throw new Error("flaky");
+        if (item.id === "item-2") throw new Error("broken");
+
+        return "ok";
+      },
+      evaluators: [() => ({ name: "evaluated", value: 1 })],
+    });
+
+    expect(attempts).toMatchObject({ "item-1": 2, "item-2": 2, "item-3": 1 });
+    expect(result.summary).toMatchObject({ succeeded: 3, failed: 1 });
+    expect(result.itemResults[1].error).toBeInstanceOf(Error);
+    expect(result.itemResults[1].evaluations).toEqual([]);
+    expect(apiClient.datasetRunItems.create).toHaveBeenCalledTimes(4);
+
+    await waitForSpanExport(testEnv.mockExporter, 4);
+    const failedSpan = testEnv.mockExporter.exportedSpans.find(
+      (span) => span.spanContext().traceId === result.itemResults[1].traceId,
+    );
+    expect(
+      failedSpan?.attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL],
+    ).toBe("ERROR");
+  });
+});
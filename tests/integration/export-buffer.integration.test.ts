@@ -0,0 +1,243 @@
+import { appendFile, mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { ScoreManager } from "@ants-platform/client";
+import { AntsPlatformAPIClient } from "@ants-platform/core";
+import { FileExportBuffer } from "@ants-platform/otel";
+import { startObservation } from "@ants-platform/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitFor,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("Export Buffer", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "ants-platform-export-buffer-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe("FileExportBuffer", () => {
+    it("should return unacknowledged records after restart", async () => {
+      const buffer = new FileExportBuffer({ directory });
+
+      await buffer.append([
+        { id: "a", kind: "span", payload: { name: "a" } },
+        { id: "b", kind: "span", payload: { name: "b" } },
+        { id: "c", kind: "ingestion", payload: { name: "c" } },
+      ]);
+      await buffer.ack(["a"]);
+
+      const restartedBuffer = new FileExportBuffer({ directory });
+
+      const pendingSpans = await restartedBuffer.pending("span");
+      expect(pendingSpans.map((record) => record.id)).toEqual(["b"]);
+      expect(pendingSpans[0].payload).toEqual({ name: "b" });
+      expect(pendingSpans[0].createdAt).toBeDefined();
+
+      const pendingIngestion = await restartedBuffer.pending("ingestion");
+      expect(pendingIngestion.map((record) => record.id)).toEqual(["c"]);
+    });
+
+    it("should skip truncated lines left by a crash", async () => {
+      const buffer = new FileExportBuffer({ directory });
+      await buffer.append([{ id: "a", kind: "span", payload: {} }]);
+
+      const [segmentName] = await readdir(directory);
+      await appendFile(join(directory, segmentName), '{"op":"put","rec');
+
+      const restartedBuffer = new FileExportBuffer({ directory });
+      const pending = await restartedBuffer.pending("span");
+
+      expect(pending.map((record) => record.id)).toEqual(["a"]);
+    });
+
+    it("should rotate segments and delete delivered ones", async () => {
+      const buffer = new FileExportBuffer({ directory, maxSegmentBytes: 200 });
+      const ids = Array.from({ length: 10 }, (_, i) => `record-${i}`);
+
+      for (const id of ids) {
+        await buffer.append([{ id, kind: "span", payload: { id } }]);
+      }
+      expect((await readdir(directory)).length).toBeGreaterThan(1);
+
+      await buffer.ack(ids);
+
+      expect(await readdir(directory)).toHaveLength(1);
+      expect(await buffer.pending("span")).toHaveLength(0);
+    });
+
+    it("should drop the oldest records when exceeding the total size", async () => {
+      const buffer = new FileExportBuffer({
+        directory,
+        maxSegmentBytes: 200,
+        maxTotalBytes: 600,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        await buffer.append([
+          { id: `record-${i}`, kind: "span", payload: { i } },
+        ]);
+      }
+
+      const pending = await buffer.pending("span");
+
+      expect(pending.length).toBeLessThan(20);
+      expect(pending[pending.length - 1].id).toBe("record-19");
+      expect(pending.map((record) => record.id)).not.toContain("record-0");
+    });
+  });
+
+  describe("AntsPlatformSpanProcessor", () => {
+    let testEnv: TestEnvironment;
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should replay spans that failed to export on next startup", async () => {
+      testEnv = await setupTestEnvironment({
+        mockExporterConfig: { shouldFail: true },
+        spanProcessorConfig: {
+          exportBuffer: new FileExportBuffer({ directory }),
+        },
+      });
+
+      const root = startObservation("buffered-root", {
+        input: { question: "What is buffered?" },
+      });
+      root.startObservation("buffered-child").end();
+      root.end();
+
+      await testEnv.spanProcessor.forceFlush();
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: {
+          exportBuffer: new FileExportBuffer({ directory }),
+        },
+      });
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitForSpanExport(testEnv.mockExporter, 2);
+
+      const replayedRoot = testEnv.mockExporter.exportedSpans.find(
+        (span) => span.name === "buffered-root",
+      );
+      expect(replayedRoot?.spanContext().traceId).toBe(root.traceId);
+      expect(replayedRoot?.attributes["ants-platform.observation.input"]).toBe(
+        JSON.stringify({ question: "What is buffered?" }),
+      );
+
+      const replayedChild = testEnv.mockExporter.exportedSpans.find(
+        (span) => span.name === "buffered-child",
+      );
+      expect(replayedChild?.parentSpanContext?.spanId).toBe(root.id);
+
+      await waitFor(100);
+      const restartedBuffer = new FileExportBuffer({ directory });
+      expect(await restartedBuffer.pending("span")).toHaveLength(0);
+    });
+
+    it("should export spans ended during replay only once", async () => {
+      testEnv = await setupTestEnvironment({
+        mockExporterConfig: { shouldFail: true },
+        spanProcessorConfig: {
+          exportBuffer: new FileExportBuffer({ directory }),
+        },
+      });
+
+      startObservation("undelivered").end();
+
+      await testEnv.spanProcessor.forceFlush();
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: {
+          exportBuffer: new FileExportBuffer({ directory }),
+        },
+      });
+
+      startObservation("fresh").end();
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      await waitFor(100);
+
+      expect(
+        testEnv.mockExporter.exportedSpans.map((span) => span.name).sort(),
+      ).toEqual(["fresh", "undelivered"]);
+    });
+
+    it("should acknowledge exported spans", async () => {
+      const exportBuffer = new FileExportBuffer({ directory });
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { exportBuffer },
+      });
+
+      startObservation("delivered").end();
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      await waitFor(100);
+
+      expect(await exportBuffer.pending("span")).toHaveLength(0);
+    });
+  });
+
+  describe("ScoreManager", () => {
+    it("should replay score events that failed to deliver", async () => {
+      const batch = vi.fn().mockRejectedValue(new Error("Network error"));
+      const apiClient = {
+        ingestion: { batch },
+      } as unknown as AntsPlatformAPIClient;
+
+      const scoreManager = new ScoreManager({
+        apiClient,
+        exportBuffer: new FileExportBuffer({ directory }),
+        delivery: { maxRetries: 0 },
+      });
+
+      scoreManager.create({ name: "quality", value: 0.9, traceId: "trace-1" });
+      await scoreManager.flush();
+      await waitFor(50);
+
+      batch.mockImplementation(async ({ batch: events }) => ({
+        successes: events.map((event: { id: string }) => ({
+          id: event.id,
+          status: 201,
+        })),
+        errors: [],
+      }));
+
+      const restartedBuffer = new FileExportBuffer({ directory });
+      const restartedScoreManager = new ScoreManager({
+        apiClient,
+        exportBuffer: restartedBuffer,
+      });
+
+      await restartedScoreManager.flush();
+      await waitFor(50);
+
+      const replayedEvents = batch.mock.calls[1][0].batch;
+      expect(replayedEvents).toHaveLength(1);
+      expect(replayedEvents[0].body).toMatchObject({
+        name: "quality",
+        value: 0.9,
+        traceId: "trace-1",
+      });
+      expect(await restartedBuffer.pending("ingestion")).toHaveLength(0);
+    });
+  });
+});
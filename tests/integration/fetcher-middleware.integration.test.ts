@@ -0,0 +1,133 @@
+import { AntsPlatformClient } from "@ants-platform/client";
+import { AntsPlatformAPIClient, FetcherMiddleware } from "@ants-platform/core";
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+const healthy = () =>
+  Response.json({ status: "OK", version: "1.0.0" }, { status: 200 });
+
+describe("Fetcher middleware", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createClient = (
+    params: ConstructorParameters<typeof AntsPlatformClient>[0],
+  ) =>
+    new AntsPlatformClient({
+      publicKey: "pk-test",
+      secretKey: "sk-test",
+      baseUrl: "http://localhost:3000",
+      ...params,
+    });
+
+  it("should run middleware around each attempt with a custom fetch", async () => {
+    const customFetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(healthy());
+    const events: string[] = [];
+    let token = 0;
+
+    const middleware: FetcherMiddleware[] = [
+      {
+        onRequest: (request) => {
+          request.init.headers["Authorization"] = `Bearer token-${++token}`;
+        },
+      },
+      {
+        onRequest: ({ url, init }) => ({
+          url,
+          init: {
+            ...init,
+            headers: { ...init.headers, "X-Correlation-Id": "request-1" },
+          },
+        }),
+        onResponse: ({ request, response, durationMs }) => {
+          expect(durationMs).toBeGreaterThanOrEqual(0);
+          events.push(`${request.init.method} ${response.status}`);
+        },
+      },
+    ];
+
+    const client = createClient({
+      fetch: customFetch as typeof fetch,
+      middleware,
+    });
+
+    await expect(client.api.health.health()).resolves.toMatchObject({
+      status: "OK",
+    });
+
+    expect(events).toEqual(["GET 503", "GET 200"]);
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    expect(customFetch.mock.calls.map(([, init]) => init.headers)).toEqual([
+      expect.objectContaining({
+        Authorization: "Bearer token-1",
+        "X-Correlation-Id": "request-1",
+      }),
+      expect.objectContaining({
+        Authorization: "Bearer token-2",
+        "X-Correlation-Id": "request-1",
+      }),
+    ]);
+  });
+
+  it("should allow middleware to mock responses and recover from errors", async () => {
+    const customFetch = vi.fn().mockRejectedValue(new Error("Proxy refused"));
+    const onError = vi.fn().mockReturnValue(healthy());
+
+    const mocked = createClient({
+      fetch: customFetch as typeof fetch,
+      middleware: [
+        {
+          onRequest: ({ url }) =>
+            url.endsWith("/api/public/health")
+              ? Response.json({ status: "MOCKED", version: "0.0.0" })
+              : undefined,
+        },
+      ],
+    });
+    await expect(mocked.api.health.health()).resolves.toMatchObject({
+      status: "MOCKED",
+    });
+    expect(customFetch).not.toHaveBeenCalled();
+
+    const recovering = createClient({
+      fetch: customFetch as typeof fetch,
+      middleware: [{ onError }],
+    });
+    await expect(recovering.api.health.health()).resolves.toMatchObject({
+      status: "OK",
+    });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error: new Error("Proxy refused") }),
+    );
+  });
+
+  it("should send all requests of a client with its custom fetch", async () => {
+    const globalFetch = vi.fn().mockImplementation(async () => healthy());
+    vi.stubGlobal("fetch", globalFetch);
+    const customFetch = vi.fn().mockImplementation(async () => healthy());
+
+    const client = new AntsPlatformAPIClient({
+      baseUrl: "http://localhost:3000",
+      environment: "",
+      fetch: customFetch as typeof fetch,
+    });
+    await client.health.health();
+    await client.health.health();
+
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    expect(customFetch.mock.calls[0][0]).toBe(
+      "http://localhost:3000/api/public/health",
+    );
+
+    await new AntsPlatformAPIClient({
+      baseUrl: "http://localhost:3000",
+      environment: "",
+    }).health.health();
+
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    expect(globalFetch).toHaveBeenCalledTimes(1);
+  });
+});
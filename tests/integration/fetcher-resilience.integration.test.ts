@@ -0,0 +1,103 @@
+import { AntsPlatformAPIClient } from "@ants-platform/core";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const healthy = () =>
+  Response.json({ status: "OK", version: "1.0.0" }, { status: 200 });
+
+describe("Fetcher resilience", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const createClient = (options: Partial<AntsPlatformAPIClient.Options> = {}) =>
+    new AntsPlatformAPIClient({
+      baseUrl: "http://localhost:3000",
+      environment: "",
+      ...options,
+    });
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should honor Retry-After and retry network errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(null, { status: 429, headers: { "Retry-After": "0.05" } }),
+      )
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(healthy());
+
+    const random = vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const startTime = Date.now();
+
+    const response = await createClient().health.health({ maxRetries: 2 });
+
+    const elapsed = Date.now() - startTime;
+    random.mockRestore();
+
+    expect(response.status).toBe("OK");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    // 50ms as requested by the server, plus 2s of backoff after the network error
+    expect(elapsed).toBeGreaterThanOrEqual(2_000);
+    expect(elapsed).toBeLessThan(3_000);
+  });
+
+  it("should fail fast while the circuit is open", async () => {
+    const client = createClient({
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 },
+    });
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 503 }),
+    );
+
+    for (let i = 0; i < 2; i++) {
+      await expect(client.health.health({ maxRetries: 0 })).rejects.toThrow(
+        "Status code: 503",
+      );
+    }
+    await expect(client.health.health({ maxRetries: 0 })).rejects.toThrow(
+      "Circuit breaker is open",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // A single trial request closes the circuit once the API recovers
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    fetchMock.mockImplementation(async () => healthy());
+
+    await expect(client.health.health()).resolves.toMatchObject({
+      status: "OK",
+    });
+    await expect(client.health.health()).resolves.toMatchObject({
+      status: "OK",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("should rate limit requests of a client", async () => {
+    const client = createClient({
+      rateLimit: { requestsPerSecond: 20, burst: 2 },
+    });
+    fetchMock.mockImplementation(async () => healthy());
+
+    const startTime = Date.now();
+    await Promise.all(Array.from({ length: 4 }, () => client.health.health()));
+
+    // Two requests in the burst, then one every 50ms
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(Object.keys(fetchMock.mock.calls[0][1].headers)).not.toContain(
+      "X-Ants-Platform-Fetcher-Options",
+    );
+
+    // Other clients are not limited
+    const otherStartTime = Date.now();
+    await Promise.all(
+      Array.from({ length: 4 }, () => createClient().health.health()),
+    );
+    expect(Date.now() - otherStartTime).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Responses of the Anthropic Messages API recorded for a request with
+ * extended thinking, a tool and a cached system prompt.
+ */
+export const anthropicRequest = {
+  model: "claude-sonnet-4-5-20250929",
+  max_tokens: 2048,
+  system: [
+    {
+      type: "text",
+      text: "You are a weather assistant.",
+      cache_control: { type: "ephemeral" },
+    },
+  ],
+  thinking: { type: "enabled", budget_tokens: 1024 },
+  tools: [
+    {
+      name: "get_weather",
+      description: "Get the current weather in a given location",
+      input_schema: {
+        type: "object",
+        properties: { location: { type: "string" } },
+        required: ["location"],
+      },
+    },
+  ],
+  messages: [{ role: "user", content: "What's the weather in Paris?" }],
+};
+
+export const anthropicMessage = {
+  id: "msg_01XFDUDYJgAACzvnptvVoYEL",
+  type: "message",
+  role: "assistant",
+  model: "claude-sonnet-4-5-20250929",
+  content: [
+    {
+      type: "thinking",
+      thinking:
+        "The user wants the weather in Paris. I should call get_weather.",
+      signature: "EqQBCgIYAhIM1gbcDa9GJwZA2b3hGgxBdjrkzLoky3dl1pkiMOYds",
+    },
+    { type: "text", text: "Let me check the weather in Paris." },
+    {
+      type: "tool_use",
+      id: "toolu_01A09q90qw90lq917835lq9",
+      name: "get_weather",
+      input: { location: "Paris, France" },
+    },
+  ],
+  stop_reason: "tool_use",
+  stop_sequence: null,
+  usage: {
+    input_tokens: 42,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 1310,
+    output_tokens: 96,
+    service_tier: "standard",
+  },
+};
+
+export const anthropicStreamEvents = [
+  {
+    type: "message_start",
+    message: {
+      ...anthropicMessage,
+      content: [],
+      stop_reason: null,
+      usage: {
+        input_tokens: 42,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 1310,
+        output_tokens: 1,
+        service_tier: "standard",
+      },
+    },
+  },
+  {
+    type: "content_block_start",
+    index: 0,
+    content_block: { type: "thinking", thinking: "", signature: "" },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: {
+      type: "thinking_delta",
+      thinking: "The user wants the weather in Paris. ",
+    },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "thinking_delta", thinking: "I should call get_weather." },
+  },
+  {
+    type: "content_block_delta",
+    index: 0,
+    delta: {
+      type: "signature_delta",
+      signature: "EqQBCgIYAhIM1gbcDa9GJwZA2b3hGgxBdjrkzLoky3dl1pkiMOYds",
+    },
+  },
+  { type: "content_block_stop", index: 0 },
+  {
+    type: "content_block_start",
+    index: 1,
+    content_block: { type: "text", text: "" },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "text_delta", text: "Let me check " },
+  },
+  {
+    type: "content_block_delta",
+    index: 1,
+    delta: { type: "text_delta", text: "the weather in Paris." },
+  },
+  { type: "content_block_stop", index: 1 },
+  {
+    type: "content_block_start",
+    index: 2,
+    content_block: {
+      type: "tool_use",
+      id: "toolu_01A09q90qw90lq917835lq9",
+      name: "get_weather",
+      input: {},
+    },
+  },
+  {
+    type: "content_block_delta",
+    index: 2,
+    delta: { type: "input_json_delta", partial_json: "" },
+  },
+  {
+    type: "content_block_delta",
+    index: 2,
+    delta: { type: "input_json_delta", partial_json: '{"location": "Par' },
+  },
+  {
+    type: "content_block_delta",
+    index: 2,
+    delta: { type: "input_json_delta", partial_json: 'is, France"}' },
+  },
+  { type: "content_block_stop", index: 2 },
+  {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { output_tokens: 96 },
+  },
+  { type: "message_stop" },
+];
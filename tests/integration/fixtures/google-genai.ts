@@ -0,0 +1,177 @@
+/**
+ * Responses of the Gemini API recorded for a request with thinking, a
+ * function declaration and cached content.
+ */
+export const generateContentRequest = {
+  model: "gemini-2.5-flash",
+  contents: [
+    { role: "user", parts: [{ text: "What's the weather in Paris?" }] },
+  ],
+  config: {
+    temperature: 0.2,
+    thinkingConfig: { includeThoughts: true, thinkingBudget: 512 },
+    systemInstruction: "You are a weather assistant.",
+    tools: [
+      {
+        functionDeclarations: [
+          {
+            name: "get_weather",
+            description: "Get the current weather in a given location",
+            parameters: {
+              type: "OBJECT",
+              properties: { location: { type: "STRING" } },
+            },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+export const generateContentResponse = {
+  candidates: [
+    {
+      content: {
+        role: "model",
+        parts: [
+          {
+            text: "The user asks for the weather, so I call get_weather.",
+            thought: true,
+          },
+          { text: "Let me check the weather in Paris." },
+          {
+            functionCall: {
+              name: "get_weather",
+              args: { location: "Paris, France" },
+            },
+            thoughtSignature: "CiQB0e2Kb7V1w5cJ0n5SbWl3Y0V0b3F0",
+          },
+        ],
+      },
+      finishReason: "STOP",
+      index: 0,
+    },
+  ],
+  usageMetadata: {
+    promptTokenCount: 1290,
+    candidatesTokenCount: 24,
+    cachedContentTokenCount: 1024,
+    thoughtsTokenCount: 61,
+    totalTokenCount: 1375,
+  },
+  modelVersion: "gemini-2.5-flash",
+  responseId: "3M0maJ-OBoaa1MkP5tDJ8Qo",
+};
+
+export const generateContentStreamChunks = [
+  {
+    candidates: [
+      {
+        content: {
+          role: "model",
+          parts: [
+            {
+              text: "The user asks for the weather, ",
+              thought: true,
+            },
+          ],
+        },
+        index: 0,
+      },
+    ],
+    modelVersion: "gemini-2.5-flash",
+    responseId: "3M0maJ-OBoaa1MkP5tDJ8Qo",
+  },
+  {
+    candidates: [
+      {
+        content: {
+          role: "model",
+          parts: [{ text: "so I call get_weather.", thought: true }],
+        },
+        index: 0,
+      },
+    ],
+    modelVersion: "gemini-2.5-flash",
+    responseId: "3M0maJ-OBoaa1MkP5tDJ8Qo",
+  },
+  {
+    candidates: [
+      {
+        content: { role: "model", parts: [{ text: "Let me check " }] },
+        index: 0,
+      },
+    ],
+    modelVersion: "gemini-2.5-flash",
+    responseId: "3M0maJ-OBoaa1MkP5tDJ8Qo",
+  },
+  {
+    candidates: [
+      {
+        content: {
+          role: "model",
+          parts: [
+            { text: "the weather in Paris." },
+            {
+              functionCall: {
+                name: "get_weather",
+                args: { location: "Paris, France" },
+              },
+              thoughtSignature: "CiQB0e2Kb7V1w5cJ0n5SbWl3Y0V0b3F0",
+            },
+          ],
+        },
+        finishReason: "STOP",
+        index: 0,
+      },
+    ],
+    usageMetadata: generateContentResponse.usageMetadata,
+    modelVersion: "gemini-2.5-flash",
+    responseId: "3M0maJ-OBoaa1MkP5tDJ8Qo",
+  },
+];
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+export const imageEditRequest = {
+  model: "gemini-2.5-flash-image",
+  contents: [
+    {
+      role: "user",
+      parts: [
+        { text: "Make the background blue." },
+        { inlineData: { mimeType: "image/png", data: PNG_BASE64 } },
+      ],
+    },
+  ],
+};
+
+export const imageEditResponse = {
+  candidates: [
+    {
+      content: {
+        role: "model",
+        parts: [
+          { text: "Here is the edited image." },
+          { inlineData: { mimeType: "image/png", data: PNG_BASE64 } },
+        ],
+      },
+      finishReason: "STOP",
+      index: 0,
+    },
+  ],
+  usageMetadata: {
+    promptTokenCount: 265,
+    candidatesTokenCount: 1297,
+    totalTokenCount: 1562,
+  },
+  modelVersion: "gemini-2.5-flash-image",
+};
+
+export const embedContentResponse = {
+  embeddings: [
+    { values: [0.012, -0.034, 0.056, 0.078] },
+    { values: [0.021, -0.043, 0.065, 0.087] },
+  ],
+};
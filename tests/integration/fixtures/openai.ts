@@ -0,0 +1,296 @@
+/**
+ * Responses of the OpenAI API for embeddings, images, audio and moderations.
+ */
+export const embeddingResponse = {
+  object: "list",
+  data: [
+    { object: "embedding", index: 0, embedding: [0.0023, -0.0093, 0.0158] },
+    { object: "embedding", index: 1, embedding: [0.0112, -0.0201, 0.0042] },
+  ],
+  model: "text-embedding-3-small",
+  usage: { prompt_tokens: 12, total_tokens: 12 },
+};
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+export const imagesResponse = {
+  created: 1751900000,
+  background: "opaque",
+  output_format: "png",
+  quality: "low",
+  size: "1024x1024",
+  data: [{ b64_json: PNG_BASE64 }],
+  usage: {
+    input_tokens: 14,
+    input_tokens_details: { image_tokens: 0, text_tokens: 14 },
+    output_tokens: 272,
+    total_tokens: 286,
+  },
+};
+
+export const transcriptionResponse = {
+  text: "Hello, this is a test recording.",
+  usage: {
+    type: "tokens",
+    input_tokens: 28,
+    input_token_details: { audio_tokens: 21, text_tokens: 7 },
+    output_tokens: 9,
+    total_tokens: 37,
+  },
+};
+
+export const moderationResponse = {
+  id: "modr-5558",
+  model: "omni-moderation-latest",
+  results: [
+    {
+      flagged: true,
+      categories: {
+        harassment: true,
+        "harassment/threatening": true,
+        hate: false,
+        violence: false,
+      },
+      category_scores: {
+        harassment: 0.91,
+        "harassment/threatening": 0.62,
+        hate: 0.02,
+        violence: 0.31,
+      },
+    },
+  ],
+};
+
+export const weatherTool = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    parameters: {
+      type: "object",
+      properties: { location: { type: "string" } },
+      required: ["location"],
+    },
+  },
+};
+
+export const toolCallCompletion = {
+  id: "chatcmpl-tool",
+  object: "chat.completion",
+  created: 1751900000,
+  model: "gpt-4o-2024-08-06",
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_paris",
+            type: "function",
+            function: {
+              name: "get_weather",
+              arguments: '{"location":"Paris"}',
+            },
+          },
+          {
+            id: "call_berlin",
+            type: "function",
+            function: {
+              name: "get_weather",
+              arguments: '{"location":"Berlin"}',
+            },
+          },
+        ],
+      },
+      finish_reason: "tool_calls",
+    },
+  ],
+  usage: { prompt_tokens: 82, completion_tokens: 46, total_tokens: 128 },
+};
+
+export const answerCompletion = {
+  id: "chatcmpl-answer",
+  object: "chat.completion",
+  created: 1751900001,
+  model: "gpt-4o-2024-08-06",
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: "assistant",
+        content: "It is 18°C in Paris and 12°C in Berlin.",
+      },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 160, completion_tokens: 16, total_tokens: 176 },
+};
+
+const webSearchResponse = {
+  id: "resp_web",
+  object: "response",
+  created_at: 1751900000,
+  model: "o4-mini-2025-04-16",
+  status: "in_progress",
+  output: [] as unknown[],
+  reasoning: { effort: "low", summary: "auto" },
+  tools: [{ type: "web_search" }],
+  usage: null as unknown,
+};
+
+const webSearchOutput = [
+  {
+    id: "rs_1",
+    type: "reasoning",
+    summary: [{ type: "summary_text", text: "Searching for today's news." }],
+  },
+  {
+    id: "ws_1",
+    type: "web_search_call",
+    status: "completed",
+    action: {
+      type: "search",
+      query: "positive news today",
+      sources: [{ type: "url", url: "https://example.com/news" }],
+    },
+  },
+  {
+    id: "msg_1",
+    type: "message",
+    role: "assistant",
+    status: "completed",
+    content: [
+      {
+        type: "output_text",
+        text: "A sea turtle sanctuary opened today.",
+        annotations: [],
+      },
+    ],
+  },
+];
+
+/**
+ * Events of a streamed Responses API call with reasoning summaries and a
+ * web search call.
+ */
+export const webSearchStreamEvents = [
+  { type: "response.created", sequence_number: 0, response: webSearchResponse },
+  {
+    type: "response.output_item.added",
+    sequence_number: 1,
+    output_index: 0,
+    item: { id: "rs_1", type: "reasoning", summary: [] },
+  },
+  {
+    type: "response.reasoning_summary_text.delta",
+    sequence_number: 2,
+    item_id: "rs_1",
+    output_index: 0,
+    summary_index: 0,
+    delta: "Searching for ",
+  },
+  {
+    type: "response.reasoning_summary_text.delta",
+    sequence_number: 3,
+    item_id: "rs_1",
+    output_index: 0,
+    summary_index: 0,
+    delta: "today's news.",
+  },
+  {
+    type: "response.reasoning_summary_text.done",
+    sequence_number: 4,
+    item_id: "rs_1",
+    output_index: 0,
+    summary_index: 0,
+    text: "Searching for today's news.",
+  },
+  {
+    type: "response.output_item.done",
+    sequence_number: 5,
+    output_index: 0,
+    item: webSearchOutput[0],
+  },
+  {
+    type: "response.output_item.added",
+    sequence_number: 6,
+    output_index: 1,
+    item: { id: "ws_1", type: "web_search_call", status: "in_progress" },
+  },
+  {
+    type: "response.web_search_call.searching",
+    sequence_number: 7,
+    item_id: "ws_1",
+    output_index: 1,
+  },
+  {
+    type: "response.web_search_call.completed",
+    sequence_number: 8,
+    item_id: "ws_1",
+    output_index: 1,
+  },
+  {
+    type: "response.output_item.done",
+    sequence_number: 9,
+    output_index: 1,
+    item: webSearchOutput[1],
+  },
+  {
+    type: "response.output_item.added",
+    sequence_number: 10,
+    output_index: 2,
+    item: {
+      id: "msg_1",
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [],
+    },
+  },
+  {
+    type: "response.output_text.delta",
+    sequence_number: 11,
+    item_id: "msg_1",
+    output_index: 2,
+    content_index: 0,
+    delta: "A sea turtle sanctuary ",
+  },
+  {
+    type: "response.output_text.delta",
+    sequence_number: 12,
+    item_id: "msg_1",
+    output_index: 2,
+    content_index: 0,
+    delta: "opened today.",
+  },
+  {
+    type: "response.output_item.done",
+    sequence_number: 13,
+    output_index: 2,
+    item: webSearchOutput[2],
+  },
+  {
+    type: "response.completed",
+    sequence_number: 14,
+    response: {
+      ...webSearchResponse,
+      status: "completed",
+      output: webSearchOutput,
+      usage: {
+        input_tokens: 310,
+        input_tokens_details: { cached_tokens: 0 },
+        output_tokens: 148,
+        output_tokens_details: { reasoning_tokens: 64 },
+        total_tokens: 458,
+      },
+    },
+  },
+];
+
+/**
+ * Events of a streamed Responses API call that is aborted after the model
+ * started to answer.
+ */
+export const abortedStreamEvents = webSearchStreamEvents.slice(0, 12);
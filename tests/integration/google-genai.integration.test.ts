@@ -0,0 +1,304 @@
+import { AntsPlatformOtelSpanAttributes } from "@ants-platform/core";
+import { observeGoogleGenAI } from "@ants-platform/google-genai";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  embedContentResponse,
+  generateContentRequest,
+  generateContentResponse,
+  generateContentStreamChunks,
+  imageEditRequest,
+  imageEditResponse,
+} from "./fixtures/google-genai.js";
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+class Models {
+  generateContent = vi.fn(async (params: { model: string }) =>
+    params.model === imageEditRequest.model
+      ? imageEditResponse
+      : generateContentResponse,
+  );
+
+  generateContentStream = vi.fn(async () =>
+    (async function* () {
+      yield* generateContentStreamChunks;
+    })(),
+  );
+
+  embedContent = vi.fn(async () => embedContentResponse);
+}
+
+class Chat {
+  private history: unknown[] = [];
+
+  constructor(
+    private models: Models,
+    private params: { model: string },
+  ) {}
+
+  async sendMessage({ message }: { message: string }) {
+    const userContent = { role: "user", parts: [{ text: message }] };
+    const response = await this.models.generateContent({
+      ...this.params,
+      contents: [...this.history, userContent],
+    } as { model: string });
+
+    this.history.push(userContent, response.candidates[0].content);
+
+    return response;
+  }
+
+  getHistory() {
+    return this.history;
+  }
+}
+
+class Chats {
+  constructor(private models: Models) {}
+
+  create(params: { model: string; config?: Record<string, unknown> }) {
+    return new Chat(this.models, params);
+  }
+}
+
+class GoogleGenAI {
+  models = new Models();
+  chats = new Chats(this.models);
+}
+
+const expectedOutput = {
+  role: "assistant",
+  content: "Let me check the weather in Paris.",
+  tool_calls: [
+    {
+      type: "function",
+      function: {
+        name: "get_weather",
+        arguments: JSON.stringify({ location: "Paris, France" }),
+      },
+    },
+  ],
+  thoughts: "The user asks for the weather, so I call get_weather.",
+};
+
+const expectedUsageDetails = {
+  input: 266,
+  input_cache_read: 1024,
+  output: 24,
+  output_reasoning: 61,
+  total: 1375,
+};
+
+const parseAttribute = (
+  attributes: Record<string, any>,
+  key: AntsPlatformOtelSpanAttributes,
+) => JSON.parse(attributes[key]);
+
+describe("observeGoogleGenAI", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should trace generateContent with function calls, thoughts and cached usage", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI(), {
+      traceName: "weather-chat",
+      generationMetadata: { feature: "weather" },
+    });
+
+    const response = await ai.models.generateContent(generateContentRequest);
+    expect(response).toBe(generateContentResponse);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "GoogleGenAI.models.generateContent",
+    )!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "generation",
+    );
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL]).toBe(
+      "gemini-2.5-flash",
+    );
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toEqual({
+      systemInstruction: generateContentRequest.config.systemInstruction,
+      contents: generateContentRequest.contents,
+      tools: generateContentRequest.config.tools,
+    });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS,
+      ),
+    ).toEqual({
+      temperature: 0.2,
+      thinkingConfig: { includeThoughts: true, thinkingBudget: 512 },
+    });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual(expectedOutput);
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toEqual(expectedUsageDetails);
+    expect(
+      attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.finishReason`
+      ],
+    ).toContain("STOP");
+  });
+
+  it("should merge streamed chunks into a single generation", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI());
+
+    const stream = await ai.models.generateContentStream(
+      generateContentRequest,
+    );
+    const chunks: unknown[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(generateContentStreamChunks);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "GoogleGenAI.models.generateContentStream",
+    )!;
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual(expectedOutput);
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toEqual(expectedUsageDetails);
+    expect(
+      attributes[
+        AntsPlatformOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME
+      ],
+    ).toBeDefined();
+  });
+
+  it("should trace chat messages with their history", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI());
+    const chat = ai.chats.create({
+      model: "gemini-2.5-flash",
+      config: { temperature: 0.5 },
+    });
+
+    await chat.sendMessage({ message: "What's the weather in Paris?" });
+    await chat.sendMessage({ message: "And in Berlin?" });
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const spans = testEnv.mockExporter.getSpansByName(
+      "GoogleGenAI.chats.sendMessage",
+    );
+    expect(spans).toHaveLength(2);
+    expect(
+      parseAttribute(
+        spans[1].attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toEqual({
+      history: [
+        {
+          role: "user",
+          parts: [{ text: "What's the weather in Paris?" }],
+        },
+        generateContentResponse.candidates[0].content,
+      ],
+      message: "And in Berlin?",
+    });
+    expect(
+      parseAttribute(
+        spans[1].attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS,
+      ),
+    ).toEqual({ temperature: 0.5 });
+  });
+
+  it("should trace embedContent as embedding", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI());
+
+    await ai.models.embedContent({
+      model: "gemini-embedding-001",
+      contents: ["What is the meaning of life?", "How do I bake a cake?"],
+      config: { taskType: "RETRIEVAL_DOCUMENT" },
+    });
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "GoogleGenAI.models.embedContent",
+    )!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "embedding",
+    );
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({ embeddings: 2, dimensions: 4 });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS,
+      ),
+    ).toEqual({ taskType: "RETRIEVAL_DOCUMENT" });
+  });
+
+  it("should replace inline image parts with media references", async () => {
+    const ai = observeGoogleGenAI(new GoogleGenAI());
+
+    await ai.models.generateContent(imageEditRequest);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes(
+      "GoogleGenAI.models.generateContent",
+    )!;
+    const mediaTag =
+      /@@@antsPlatformMedia:type=image\/png\|id=[^|]+\|source=base64_data_uri@@@/;
+
+    for (const key of [
+      AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+    ]) {
+      expect(attributes[key]).toMatch(mediaTag);
+      expect(attributes[key]).not.toContain("base64,");
+    }
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ).content[0],
+    ).toEqual({ text: "Here is the edited image." });
+  });
+});
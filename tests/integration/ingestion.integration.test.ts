@@ -0,0 +1,248 @@
+import { IngestionEventError, IngestionManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  IngestionEvent,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  beforeAll,
+  vi,
+} from "vitest";
+
+class MockAPIClient {
+  public ingestion = {
+    batch: vi.fn().mockResolvedValue({ successes: [], errors: [] }),
+  };
+
+  get sentEvents(): IngestionEvent[] {
+    return this.ingestion.batch.mock.calls.flatMap(([{ batch }]) => batch);
+  }
+}
+
+describe("IngestionManager", () => {
+  let apiClient: MockAPIClient;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+  });
+
+  afterEach(() => {
+    delete process.env.ANTS_PLATFORM_FLUSH_AT;
+    delete process.env.ANTS_PLATFORM_TRACING_ENVIRONMENT;
+  });
+
+  const createIngestionManager = (
+    options?: ConstructorParameters<typeof IngestionManager>[0]["options"],
+  ) =>
+    new IngestionManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+      options,
+    });
+
+  it("should batch traces and observations with ids and defaults", async () => {
+    process.env.ANTS_PLATFORM_TRACING_ENVIRONMENT = "backfill";
+    const ingestion = createIngestionManager();
+
+    const traceId = ingestion.createTrace({
+      name: "ticket",
+      timestamp: "2026-01-15T09:30:00.000Z",
+    });
+    const spanId = ingestion.createSpan({ traceId, name: "retrieval" });
+    ingestion.updateSpan({
+      id: spanId,
+      traceId,
+      endTime: "2026-01-15T09:30:01.000Z",
+    });
+    const generationId = ingestion.createGeneration({
+      id: "generation-1",
+      traceId,
+      parentObservationId: spanId,
+      name: "answer",
+      model: "gpt-4o",
+    });
+    ingestion.updateGeneration({
+      id: generationId,
+      traceId,
+      usageDetails: { input: 10, output: 5 },
+    });
+    ingestion.createEvent({ traceId, name: "feedback" });
+
+    expect(apiClient.ingestion.batch).not.toHaveBeenCalled();
+    await ingestion.flush();
+
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1);
+    expect(generationId).toBe("generation-1");
+
+    const events = apiClient.sentEvents;
+    expect(events.map((event) => event.type)).toEqual([
+      "trace-create",
+      "span-create",
+      "span-update",
+      "generation-create",
+      "generation-update",
+      "event-create",
+    ]);
+    expect(new Set(events.map((event) => event.id)).size).toBe(6);
+
+    expect(events[0].body).toEqual({
+      id: traceId,
+      name: "ticket",
+      timestamp: "2026-01-15T09:30:00.000Z",
+      environment: "backfill",
+    });
+    expect(events[1].body).toMatchObject({
+      id: spanId,
+      traceId,
+      environment: "backfill",
+      startTime: expect.any(String),
+    });
+    expect(events[2].body).toEqual({
+      id: spanId,
+      traceId,
+      endTime: "2026-01-15T09:30:01.000Z",
+    });
+  });
+
+  it("should flush in batches when reaching the flush threshold", async () => {
+    process.env.ANTS_PLATFORM_FLUSH_AT = "5";
+    const ingestion = createIngestionManager();
+
+    for (let i = 0; i < 5; i++) {
+      ingestion.createTrace({ name: `trace-${i}` });
+    }
+
+    await vi.waitFor(() =>
+      expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1),
+    );
+
+    for (let i = 0; i < 150; i++) {
+      ingestion.createEvent({ name: `event-${i}` });
+    }
+    await ingestion.flush();
+
+    const batchSizes = apiClient.ingestion.batch.mock.calls.map(
+      ([{ batch }]) => batch.length,
+    );
+    expect(batchSizes.reduce((sum, size) => sum + size, 0)).toBe(155);
+    expect(Math.max(...batchSizes)).toBeLessThanOrEqual(100);
+  });
+
+  it("should send the batches of a flush one after another", async () => {
+    process.env.ANTS_PLATFORM_FLUSH_AT = "1000";
+    const ingestion = createIngestionManager();
+
+    let resolveFirstBatch = () => {};
+    apiClient.ingestion.batch.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          resolveFirstBatch = () => resolve({ successes: [], errors: [] });
+        }),
+    );
+
+    const traceId = ingestion.createTrace({ name: "ordered" });
+    for (let i = 0; i < 150; i++) {
+      ingestion.createEvent({ traceId, name: `event-${i}` });
+    }
+    const flushed = ingestion.flush();
+
+    await vi.waitFor(() =>
+      expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1);
+
+    resolveFirstBatch();
+    await flushed;
+
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(2);
+    expect(apiClient.sentEvents.map((event) => event.body.name)).toEqual([
+      "ordered",
+      ...Array.from({ length: 150 }, (_, i) => `event-${i}`),
+    ]);
+  });
+
+  it("should not overlap an explicit flush with a threshold flush", async () => {
+    process.env.ANTS_PLATFORM_FLUSH_AT = "10";
+    const ingestion = createIngestionManager();
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    let resolveFirstBatch = () => {};
+    apiClient.ingestion.batch.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      if (apiClient.ingestion.batch.mock.calls.length === 1) {
+        await new Promise<void>((resolve) => (resolveFirstBatch = resolve));
+      }
+      inFlight--;
+
+      return { successes: [], errors: [] };
+    });
+
+    ingestion.createTrace({ name: "first" });
+    const flushed = ingestion.flush();
+
+    await vi.waitFor(() =>
+      expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1),
+    );
+
+    for (let i = 0; i < 10; i++) {
+      ingestion.createTrace({ name: `trace-${i}` });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1);
+
+    resolveFirstBatch();
+    await flushed;
+
+    expect(maxInFlight).toBe(1);
+    expect(apiClient.sentEvents.map((event) => event.body.name)).toEqual([
+      "first",
+      ...Array.from({ length: 10 }, (_, i) => `trace-${i}`),
+    ]);
+  });
+
+  it("should retry retryable errors and report undelivered events", async () => {
+    const onError = vi.fn();
+    const ingestion = createIngestionManager({
+      maxRetries: 1,
+      initialRetryDelayMs: 1,
+      onError,
+    });
+
+    apiClient.ingestion.batch
+      .mockImplementationOnce(async ({ batch }) => ({
+        successes: [],
+        errors: [
+          { id: batch[0].id, status: 503 },
+          { id: batch[1].id, status: 400, message: "Invalid trace" },
+        ],
+      }))
+      .mockImplementationOnce(async ({ batch }) => ({
+        successes: [{ id: batch[0].id, status: 201 }],
+        errors: [],
+      }));
+
+    ingestion.createTrace({ name: "retried" });
+    ingestion.createTrace({ name: "invalid" });
+    await ingestion.flush();
+
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(2);
+    expect(apiClient.ingestion.batch.mock.calls[1][0].batch).toHaveLength(1);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    const error: IngestionEventError = onError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(IngestionEventError);
+    expect(error.status).toBe(400);
+    expect(error.event.body).toMatchObject({ name: "invalid" });
+  });
+});
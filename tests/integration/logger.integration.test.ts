@@ -0,0 +1,163 @@
+import { IngestionManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  IngestionEvent,
+  LogLevel,
+  LogRecord,
+  configureGlobalLogger,
+  getGlobalLogger,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+describe("Logger transports", () => {
+  afterEach(() => {
+    resetGlobalLogger();
+    vi.restoreAllMocks();
+  });
+
+  it("should pass structured records to transports and honor component levels", () => {
+    const records: LogRecord[] = [];
+    configureGlobalLogger({
+      level: LogLevel.WARN,
+      componentLevels: { MediaService: LogLevel.DEBUG },
+      transports: [
+        { log: (record) => records.push(record) },
+        {
+          log: () => {
+            throw new Error("Broken transport");
+          },
+        },
+      ],
+    });
+
+    const mediaLogger = getGlobalLogger().forComponent("MediaService");
+    const error = new Error("Upload failed");
+    expect(getGlobalLogger().forComponent("MediaService")).toBe(mediaLogger);
+
+    mediaLogger.debug("Uploading media");
+    mediaLogger
+      .child({ traceId: "trace-1", spanId: "span-1" })
+      .error("Media upload failed", error);
+    getGlobalLogger().forComponent("ScoreManager").info("Skipped");
+    getGlobalLogger().warn("Queue is full", { size: 10 });
+
+    expect(
+      records.map(({ levelName, message, fields, error, args }) => ({
+        levelName,
+        message,
+        fields,
+        error,
+        args,
+      })),
+    ).toEqual([
+      {
+        levelName: "DEBUG",
+        message: "Uploading media",
+        fields: { component: "MediaService" },
+        error: undefined,
+        args: [],
+      },
+      {
+        levelName: "ERROR",
+        message: "Media upload failed",
+        fields: {
+          component: "MediaService",
+          traceId: "trace-1",
+          spanId: "span-1",
+        },
+        error,
+        args: [error],
+      },
+      {
+        levelName: "WARN",
+        message: "Queue is full",
+        fields: {},
+        error: undefined,
+        args: [{ size: 10 }],
+      },
+    ]);
+  });
+
+  it("should write JSON records to the console", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    configureGlobalLogger({ level: LogLevel.INFO, format: "json" });
+    getGlobalLogger()
+      .child({ component: "MediaService", traceId: "trace-1" })
+      .error("Media upload failed", new Error("Network down"), { attempt: 2 });
+
+    configureGlobalLogger({ level: LogLevel.INFO, enableTimestamp: false });
+    getGlobalLogger()
+      .child({ component: "ScoreManager" })
+      .warn("Dropping score", { name: "quality" });
+
+    expect(JSON.parse(consoleError.mock.calls[0][0])).toEqual({
+      timestamp: expect.any(String),
+      level: "ERROR",
+      message: "Media upload failed",
+      component: "MediaService",
+      traceId: "trace-1",
+      error: expect.objectContaining({
+        name: "Error",
+        message: "Network down",
+      }),
+      args: [{ attempt: 2 }],
+    });
+    expect(consoleWarn).toHaveBeenCalledWith(
+      "[AntsPlatform SDK] [WARN] [ScoreManager] Dropping score",
+      { name: "quality" },
+    );
+  });
+
+  it("should forward error logs as SDK log events", async () => {
+    const apiClient = {
+      ingestion: {
+        batch: vi.fn().mockResolvedValue({ successes: [], errors: [] }),
+      },
+    };
+    const ingestion = new IngestionManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+    });
+    configureGlobalLogger({ level: LogLevel.DEBUG, transports: [] });
+    const transport = ingestion.createLogTransport();
+    getGlobalLogger().addTransport(transport);
+
+    const logger = getGlobalLogger().forComponent("MediaService");
+    logger.warn("Retrying media upload");
+    logger
+      .child({ traceId: "trace-1" })
+      .error("Media upload failed", new Error("Timeout"));
+    getGlobalLogger()
+      .forComponent("IngestionManager")
+      .error("Failed to export ingestion batch");
+
+    getGlobalLogger().removeTransport(transport);
+    logger.error("Not forwarded after removal");
+    await ingestion.flush();
+
+    const events: IngestionEvent[] =
+      apiClient.ingestion.batch.mock.calls.flatMap(([{ batch }]) => batch);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: "sdk-log",
+        body: {
+          log: {
+            component: "MediaService",
+            traceId: "trace-1",
+            level: "ERROR",
+            message: "Media upload failed",
+            timestamp: expect.any(String),
+            error: expect.objectContaining({
+              name: "Error",
+              message: "Timeout",
+            }),
+          },
+        },
+      }),
+    ]);
+  });
+});
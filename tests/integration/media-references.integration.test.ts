@@ -0,0 +1,171 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { MediaManager } from "@ants-platform/client";
+import { AntsPlatformAPIClient, resetGlobalLogger } from "@ants-platform/core";
+import { FileMediaWriter } from "@ants-platform/otel";
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+
+const imageReference =
+  "@@@antsPlatformMedia:type=image/png|id=image-1|source=bytes@@@";
+const pdfReference =
+  "@@@antsPlatformMedia:type=application/pdf|id=pdf-1|source=file@@@";
+const missingReference =
+  "@@@antsPlatformMedia:type=image/png|id=missing|source=bytes@@@";
+
+const contents: Record<string, Uint8Array> = {
+  "image-1": new Uint8Array([137, 80, 78, 71]),
+  "pdf-1": new Uint8Array([37, 80, 68, 70]),
+};
+
+class MockAPIClient {
+  public media = {
+    get: vi.fn().mockImplementation(async (mediaId: string) => {
+      if (!contents[mediaId]) throw new Error("Media not found");
+
+      return {
+        mediaId,
+        contentType: mediaId === "pdf-1" ? "application/pdf" : "image/png",
+        contentLength: contents[mediaId].length,
+        uploadedAt: "2026-01-01T00:00:00Z",
+        url: `https://media.example.com/${mediaId}`,
+        urlExpiry: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      };
+    }),
+  };
+}
+
+describe("Media reference resolution", () => {
+  let apiClient: MockAPIClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let media: MediaManager;
+
+  const trace = {
+    input: { image: imageReference, text: `See ${pdfReference}` },
+    output: [imageReference, imageReference, missingReference],
+  };
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+    fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const mediaId = url.split("/").pop()!;
+
+      return new Response(contents[mediaId]);
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    media = new MediaManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should resolve each media once and report failures", async () => {
+    const { obj, failures } = await media.resolveReferencesWithReport({
+      obj: trace,
+      resolveWith: "base64DataUri",
+      concurrency: 2,
+    });
+
+    expect(obj).toEqual({
+      input: {
+        image: "data:image/png;base64,iVBORw==",
+        text: "See data:application/pdf;base64,JVBERg==",
+      },
+      output: [
+        "data:image/png;base64,iVBORw==",
+        "data:image/png;base64,iVBORw==",
+        missingReference,
+      ],
+    });
+    expect(failures).toEqual([
+      {
+        referenceString: missingReference,
+        mediaId: "missing",
+        error: expect.any(Error),
+      },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Served from the cache on subsequent calls
+    const urls = await media.resolveReferences({
+      obj: trace,
+      resolveWith: "url",
+    });
+    const bytes = await media.resolveReferences({
+      obj: trace,
+      resolveWith: "bytes",
+    });
+
+    expect(urls.input.image).toBe("https://media.example.com/image-1");
+    expect(bytes.input.image).toEqual(contents["image-1"]);
+    expect(apiClient.media.get).toHaveBeenCalledTimes(5);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not embed bytes in longer strings", async () => {
+    const { obj, failures } = await media.resolveReferencesWithReport({
+      obj: trace.input,
+      resolveWith: "bytes",
+    });
+
+    expect(obj).toEqual({
+      image: contents["image-1"],
+      text: `See ${pdfReference}`,
+    });
+    expect(failures).toEqual([
+      expect.objectContaining({ referenceString: pdfReference }),
+    ]);
+  });
+
+  it("should evict the least recently used media from the cache", async () => {
+    media = new MediaManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+      cache: { maxEntries: 1 },
+    });
+
+    for (const reference of [imageReference, pdfReference, imageReference]) {
+      await media.resolveReferences({ obj: reference, resolveWith: "bytes" });
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should write media to files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "ants-platform-media-"));
+
+    try {
+      const obj = await media.resolveReferences({
+        obj: trace.input,
+        resolveWith: "file",
+        fileWriter: new FileMediaWriter({ directory }),
+      });
+
+      expect(obj).toEqual({
+        image: join(directory, "image-1.png"),
+        text: `See ${join(directory, "pdf-1.pdf")}`,
+      });
+      expect(new Uint8Array(await readFile(obj.image))).toEqual(
+        contents["image-1"],
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import { createReadStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { AntsPlatformMedia, resetGlobalLogger } from "@ants-platform/core";
+import { createMediaFromFile } from "@ants-platform/otel";
+import { startObservation } from "@ants-platform/tracing";
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+const PDF_PATH = join(__dirname, "../static/bitcoin.pdf");
+
+describe("Media sources", () => {
+  let pdfBytes: Uint8Array;
+
+  beforeAll(async () => {
+    resetGlobalLogger();
+    pdfBytes = new Uint8Array(await readFile(PDF_PATH));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should hash blobs, streams and files like in-memory bytes", async () => {
+    const reference = new AntsPlatformMedia({
+      source: "bytes",
+      contentBytes: pdfBytes,
+      contentType: "application/pdf",
+    });
+    const expectedId = await reference.getId();
+
+    const sources = [
+      AntsPlatformMedia.fromBlob(
+        new Blob([pdfBytes], { type: "application/pdf" }),
+      ),
+      AntsPlatformMedia.fromStream(
+        createReadStream(PDF_PATH, { highWaterMark: 1024 }),
+        "application/pdf",
+      ),
+      AntsPlatformMedia.fromStream(
+        new Blob([pdfBytes]).stream(),
+        "application/pdf",
+      ),
+      await createMediaFromFile(PDF_PATH),
+    ];
+
+    for (const media of sources) {
+      expect(await media.getId()).toBe(expectedId);
+      expect(await media.getContentLength()).toBe(pdfBytes.length);
+      expect(await media.getTag()).toContain("type=application/pdf");
+      expect(media.base64DataUri).toBeNull();
+    }
+
+    expect(await sources[3].getTag()).toContain("source=file");
+  });
+
+  it("should fetch URL content once and report failures", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async () =>
+        new Response(pdfBytes, {
+          headers: { "Content-Type": "application/pdf; qs=0.8" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const media = AntsPlatformMedia.fromUrl("https://example.com/paper.pdf");
+    const [tag, content] = await Promise.all([
+      media.getTag(),
+      media.getContent(),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(tag).toMatch(
+      /^@@@antsPlatformMedia:type=application\/pdf\|id=.+\|source=url@@@$/,
+    );
+    expect((content as Blob).size).toBe(pdfBytes.length);
+
+    fetchMock.mockResolvedValue(new Response("Not found", { status: 404 }));
+    const missing = AntsPlatformMedia.fromUrl(
+      "https://example.com/missing.pdf",
+    );
+
+    expect(await missing.getTag()).toBeNull();
+    expect(await missing.getContent()).toBeUndefined();
+  });
+
+  describe("attachMedia", () => {
+    let testEnv: TestEnvironment;
+
+    beforeEach(async () => {
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: {
+          publicKey: "pk-test",
+          secretKey: "sk-test",
+          baseUrl: "http://localhost:3000",
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await teardownTestEnvironment(testEnv);
+    });
+
+    it("should upload media attached to an observation when it ends", async () => {
+      const media = await createMediaFromFile(PDF_PATH);
+      const mediaId = await media.getId();
+
+      const requests: { url: string; method?: string; body?: unknown }[] = [];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+          requests.push({
+            url: String(url),
+            method: init?.method,
+            body: init?.body,
+          });
+
+          if (String(url).endsWith("/api/public/media")) {
+            return Response.json({
+              uploadUrl: "https://uploads.example.com/paper.pdf",
+              mediaId,
+            });
+          }
+
+          return new Response(null, { status: 200 });
+        }),
+      );
+
+      const span = startObservation("summarize-paper", {
+        input: { question: "What is this paper about?" },
+      });
+      span.attachMedia("input", media).end();
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitForSpanExport(testEnv.mockExporter, 1);
+
+      const uploadUrlRequest = requests.find((request) =>
+        request.url.endsWith("/api/public/media"),
+      );
+      expect(JSON.parse(uploadUrlRequest?.body as string)).toMatchObject({
+        traceId: span.traceId,
+        observationId: span.id,
+        field: "input",
+        contentType: "application/pdf",
+        contentLength: pdfBytes.length,
+        sha256Hash: await media.getSha256Hash(),
+      });
+
+      const upload = requests.find((request) => request.method === "PUT");
+      expect(upload?.url).toBe("https://uploads.example.com/paper.pdf");
+      expect(upload?.body).toBeInstanceOf(Blob);
+
+      expect(
+        requests.some(
+          (request) =>
+            request.method === "PATCH" &&
+            request.url.endsWith(`/api/public/media/${mediaId}`),
+        ),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { MetricsManager } from "@ants-platform/client";
+import { AntsPlatformAPIClient, resetGlobalLogger } from "@ants-platform/core";
+import { describe, it, expect, beforeEach, beforeAll, vi } from "vitest";
+
+class MockAPIClient {
+  public metrics = {
+    metrics: vi.fn().mockResolvedValue({ data: [] }),
+  };
+
+  get lastQuery() {
+    const [{ query }] = this.metrics.metrics.mock.lastCall!;
+
+    return JSON.parse(query);
+  }
+}
+
+describe("Metrics queries", () => {
+  let apiClient: MockAPIClient;
+  let metrics: MetricsManager;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+    metrics = new MetricsManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+    });
+  });
+
+  it("should build the query and parse numeric metric values", async () => {
+    apiClient.metrics.metrics.mockResolvedValue({
+      data: [
+        {
+          name: "chat",
+          environment: "42",
+          count_count: "12",
+          p95_latency: 1830.5,
+          histogram_latency: [[0, 100, 3]],
+        },
+      ],
+    });
+
+    const query = metrics
+      .query("observations")
+      .dimensions("name", "environment")
+      .metric("count", "count")
+      .metric("latency", "p95")
+      .metric("latency", "histogram")
+      .where("type", "=", "GENERATION")
+      .where("level", "any of", ["ERROR", "WARNING"])
+      .where("promptVersion", ">=", 2)
+      .whereMetadata("tenant", "=", "acme")
+      .from(new Date("2026-01-01T00:00:00Z"))
+      .to("2026-01-08T00:00:00Z")
+      .orderBy("p95_latency", "desc")
+      .limit(20)
+      .bins(5);
+
+    const rows = await query.execute();
+
+    expect(apiClient.lastQuery).toEqual({
+      view: "observations",
+      dimensions: [{ field: "name" }, { field: "environment" }],
+      metrics: [
+        { measure: "count", aggregation: "count" },
+        { measure: "latency", aggregation: "p95" },
+        { measure: "latency", aggregation: "histogram" },
+      ],
+      filters: [
+        { column: "type", type: "string", operator: "=", value: "GENERATION" },
+        {
+          column: "level",
+          type: "stringOptions",
+          operator: "any of",
+          value: ["ERROR", "WARNING"],
+        },
+        { column: "promptVersion", type: "number", operator: ">=", value: 2 },
+        {
+          column: "metadata",
+          type: "stringObject",
+          key: "tenant",
+          operator: "=",
+          value: "acme",
+        },
+      ],
+      fromTimestamp: "2026-01-01T00:00:00.000Z",
+      toTimestamp: "2026-01-08T00:00:00Z",
+      orderBy: [{ field: "p95_latency", direction: "desc" }],
+      config: { row_limit: 20, bins: 5 },
+    });
+
+    expect(rows).toEqual([
+      {
+        name: "chat",
+        environment: "42",
+        count_count: 12,
+        p95_latency: 1830.5,
+        histogram_latency: [[0, 100, 3]],
+      },
+    ]);
+  });
+
+  it("should keep builders immutable and reject incomplete queries", () => {
+    const base = metrics.query("traces").metric("totalCost", "sum");
+    const tagged = base.where("tags", "all of", ["production"]);
+
+    expect(() => base.toQuery()).toThrow(
+      "Metrics query on view 'traces' requires a start of the time range.",
+    );
+    expect(() => metrics.query("traces").from("2026-01-01").toQuery()).toThrow(
+      "Metrics query on view 'traces' requires at least one metric.",
+    );
+
+    expect(base.from("2026-01-01").toQuery().filters).toEqual([]);
+    expect(tagged.from("2026-01-01").toQuery().filters).toEqual([
+      {
+        column: "tags",
+        type: "arrayOptions",
+        operator: "all of",
+        value: ["production"],
+      },
+    ]);
+  });
+
+  it("should provide convenience queries for common reports", async () => {
+    await metrics.costPerModelPerDay({
+      from: "2026-01-01T00:00:00Z",
+      to: "2026-02-01T00:00:00Z",
+    });
+    expect(apiClient.lastQuery).toMatchObject({
+      view: "observations",
+      dimensions: [{ field: "providedModelName" }],
+      metrics: [{ measure: "totalCost", aggregation: "sum" }],
+      timeDimension: { granularity: "day" },
+      filters: [{ column: "type", value: "GENERATION" }],
+    });
+
+    await metrics.latencyPercentilesByObservationName({
+      from: "2026-01-01T00:00:00Z",
+    });
+    expect(
+      apiClient.lastQuery.metrics.map(
+        (metric: { aggregation: string }) => metric.aggregation,
+      ),
+    ).toEqual(["p50", "p90", "p95", "p99"]);
+    expect(apiClient.lastQuery.toTimestamp).toEqual(expect.any(String));
+
+    await metrics.scoreAveragesByRelease({
+      from: "2026-01-01T00:00:00Z",
+      name: "accuracy",
+    });
+    expect(apiClient.lastQuery).toMatchObject({
+      view: "scores-numeric",
+      dimensions: [{ field: "name" }, { field: "traceRelease" }],
+      metrics: [
+        { measure: "value", aggregation: "avg" },
+        { measure: "count", aggregation: "count" },
+      ],
+      filters: [{ column: "name", operator: "=", value: "accuracy" }],
+    });
+  });
+});
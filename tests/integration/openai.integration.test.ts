@@ -0,0 +1,537 @@
+import { AntsPlatformOtelSpanAttributes } from "@ants-platform/core";
+import { observeOpenAI, runTools } from "@ants-platform/openai";
+import { startActiveObservation } from "@ants-platform/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  answerCompletion,
+  embeddingResponse,
+  imagesResponse,
+  moderationResponse,
+  toolCallCompletion,
+  abortedStreamEvents,
+  transcriptionResponse,
+  weatherTool,
+  webSearchStreamEvents,
+} from "./fixtures/openai.js";
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+class OpenAI {
+  chat = {
+    completions: {
+      create: vi.fn(async (params: { messages: { role: string }[] }) =>
+        structuredClone(
+          params.messages.some((message) => message.role === "tool")
+            ? answerCompletion
+            : toolCallCompletion,
+        ),
+      ),
+    },
+  };
+  embeddings = { create: vi.fn(async () => embeddingResponse) };
+  images = { generate: vi.fn(async () => imagesResponse) };
+  audio = {
+    speech: {
+      create: vi.fn(
+        async () =>
+          new Response(new Uint8Array([0xff, 0xfb, 0x90, 0x64]), {
+            headers: { "content-type": "audio/mpeg" },
+          }),
+      ),
+    },
+    transcriptions: { create: vi.fn(async () => transcriptionResponse) },
+  };
+  moderations = { create: vi.fn(async () => moderationResponse) };
+  responses = {
+    create: vi.fn(async (params: { input: string }) =>
+      (async function* () {
+        yield* params.input === "abort"
+          ? abortedStreamEvents
+          : webSearchStreamEvents;
+      })(),
+    ),
+  };
+}
+
+const parseAttribute = (
+  attributes: Record<string, any>,
+  key: AntsPlatformOtelSpanAttributes,
+) => JSON.parse(attributes[key]);
+
+describe("observeOpenAI resource methods", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should trace embeddings without the embedding vectors", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const response = await openai.embeddings.create({
+      model: "text-embedding-3-small",
+      input: ["The food was delicious", "The waiter was friendly"],
+      dimensions: 3,
+    });
+    expect(response).toBe(embeddingResponse);
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes =
+      testEnv.mockExporter.getSpanAttributes("OpenAI.embeddings")!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "embedding",
+    );
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL]).toBe(
+      "text-embedding-3-small",
+    );
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({ embeddings: 2, dimensions: 3 });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toEqual({ input: 12, total: 12 });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS,
+      ),
+    ).toEqual({ dimensions: 3 });
+    expect(
+      attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT],
+    ).not.toContain("0.0023");
+  });
+
+  it("should replace generated images with media references", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.images.generate({
+      model: "gpt-image-1",
+      prompt: "A lighthouse at dawn",
+      size: "1024x1024",
+      quality: "low",
+    });
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes = testEnv.mockExporter.getSpanAttributes("OpenAI.images")!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "generation",
+    );
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toEqual({ prompt: "A lighthouse at dawn" });
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual([
+      {
+        b64_json: expect.stringMatching(
+          /^@@@antsPlatformMedia:type=image\/png\|id=[^|]+\|source=base64_data_uri@@@$/,
+        ),
+      },
+    ]);
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toEqual({
+      input: 14,
+      output: 272,
+      total: 286,
+      input_image_tokens: 0,
+      input_text_tokens: 14,
+    });
+  });
+
+  it("should trace speech and transcriptions with audio parameters", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const speech = await openai.audio.speech.create({
+      model: "gpt-4o-mini-tts",
+      input: "Hello, this is a test recording.",
+      voice: "alloy",
+    });
+    expect(new Uint8Array(await speech.arrayBuffer())).toHaveLength(4);
+
+    await openai.audio.transcriptions.create({
+      model: "gpt-4o-transcribe",
+      file: new File([new Uint8Array([0xff, 0xfb])], "recording.mp3", {
+        type: "audio/mpeg",
+      }),
+      language: "en",
+    });
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const [speechSpan, transcriptionSpan] =
+      testEnv.mockExporter.getSpansByName("OpenAI.audio");
+    expect(
+      parseAttribute(
+        speechSpan.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({ contentType: "audio/mpeg" });
+    expect(
+      parseAttribute(
+        speechSpan.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_MODEL_PARAMETERS,
+      ),
+    ).toEqual({ voice: "alloy" });
+
+    expect(
+      parseAttribute(
+        transcriptionSpan.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toEqual({ file: "recording.mp3" });
+    expect(
+      transcriptionSpan.attributes[
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT
+      ],
+    ).toBe("Hello, this is a test recording.");
+    expect(
+      parseAttribute(
+        transcriptionSpan.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toEqual({
+      input: 28,
+      output: 9,
+      total: 37,
+      input_audio: 21,
+      input_text: 7,
+    });
+  });
+
+  it("should trace moderations as guardrails with flagged categories", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    await openai.moderations.create({
+      model: "omni-moderation-latest",
+      input: "I will find you.",
+    });
+
+    await waitForSpanExport(testEnv.mockExporter, 1);
+
+    const attributes =
+      testEnv.mockExporter.getSpanAttributes("OpenAI.moderations")!;
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE]).toBe(
+      "guardrail",
+    );
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({
+      flagged: true,
+      categories: ["harassment", "harassment/threatening"],
+    });
+    expect(attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL]).toBe(
+      "WARNING",
+    );
+    expect(
+      attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_STATUS_MESSAGE],
+    ).toBe("Flagged: harassment, harassment/threatening");
+  });
+});
+
+describe("observeOpenAI tool calls", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should nest tools executed with runTools under their generation", async () => {
+    const client = new OpenAI();
+    const openai = observeOpenAI(client);
+    const getWeather = vi.fn(async ({ location }: { location: string }) => ({
+      location,
+      temperature: location === "Paris" ? 18 : 12,
+    }));
+
+    const answer = await startActiveObservation(
+      "weather-agent",
+      async () => {
+        const messages: any[] = [
+          { role: "user", content: "What's the weather in Paris and Berlin?" },
+        ];
+
+        while (true) {
+          const completion = await openai.chat.completions.create({
+            model: "gpt-4o",
+            messages,
+            tools: [weatherTool],
+          });
+          const message = completion.choices[0].message;
+          messages.push(message);
+
+          if (!message.tool_calls?.length) {
+            return message.content;
+          }
+
+          messages.push(
+            ...(await runTools(completion as any, {
+              get_weather: getWeather,
+            })),
+          );
+        }
+      },
+      { asType: "agent" },
+    );
+
+    expect(answer).toBe(answerCompletion.choices[0].message.content);
+    expect(getWeather).toHaveBeenCalledTimes(2);
+    expect(client.chat.completions.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        messages: expect.arrayContaining([
+          {
+            role: "tool",
+            tool_call_id: "call_paris",
+            content: JSON.stringify({ location: "Paris", temperature: 18 }),
+          },
+        ]),
+      }),
+    );
+
+    await waitForSpanExport(testEnv.mockExporter, 5);
+
+    const agent = testEnv.mockExporter.getSpanByName("weather-agent")!;
+    const [toolCallGeneration, answerGeneration] =
+      testEnv.mockExporter.getSpansByName("OpenAI.chat");
+    const tools = testEnv.mockExporter.getSpansByName("get_weather");
+
+    expect(toolCallGeneration.parentSpanContext?.spanId).toBe(
+      agent.spanContext().spanId,
+    );
+    expect(answerGeneration.parentSpanContext?.spanId).toBe(
+      agent.spanContext().spanId,
+    );
+    expect(tools).toHaveLength(2);
+    for (const tool of tools) {
+      expect(tool.parentSpanContext?.spanId).toBe(
+        toolCallGeneration.spanContext().spanId,
+      );
+      expect(
+        tool.attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE],
+      ).toBe("tool");
+    }
+    expect(
+      parseAttribute(
+        tools[0].attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({ location: "Paris", temperature: 18 });
+  });
+
+  it("should send empty content for tools without a result", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "What's the weather in Paris?" }],
+    });
+
+    const messages = await runTools(completion as any, {
+      get_weather: async () => undefined,
+    });
+
+    expect(messages.length).toBeGreaterThan(0);
+    for (const message of messages) {
+      expect(message).toMatchObject({ role: "tool", content: "" });
+    }
+  });
+
+  it("should record errors of tools without implementation", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "What's the weather in Paris?" }],
+    });
+
+    await expect(runTools(completion as any, {})).rejects.toThrow(
+      'No implementation for tool "get_weather"',
+    );
+
+    await waitForSpanExport(testEnv.mockExporter, 3);
+
+    const [tool] = testEnv.mockExporter.getSpansByName("get_weather");
+    expect(
+      tool.attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_LEVEL],
+    ).toBe("ERROR");
+  });
+
+  it("should record requested tool calls with toolCallObservations", async () => {
+    const openai = observeOpenAI(new OpenAI(), { toolCallObservations: true });
+
+    await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "What's the weather in Paris?" }],
+    });
+
+    await waitForSpanExport(testEnv.mockExporter, 3);
+
+    const generation = testEnv.mockExporter.getSpanByName("OpenAI.chat")!;
+    const tools = testEnv.mockExporter.getSpansByName("get_weather");
+
+    expect(tools).toHaveLength(2);
+    expect(tools[0].parentSpanContext?.spanId).toBe(
+      generation.spanContext().spanId,
+    );
+    expect(
+      parseAttribute(
+        tools[1].attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toEqual({ location: "Berlin" });
+    expect(
+      tools[1].attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.toolCallId`
+      ],
+    ).toBe("call_berlin");
+  });
+});
+
+describe("observeOpenAI Responses API streaming", () => {
+  let testEnv: TestEnvironment;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  it("should trace reasoning summaries, item timings and web search calls", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const stream = await openai.responses.create({
+      model: "o4-mini",
+      input: "What is a positive news story from today?",
+      stream: true,
+    });
+    for await (const event of stream) {
+      expect(event).toBeDefined();
+    }
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const generation = testEnv.mockExporter.getSpanByName("OpenAI.responses")!;
+    const webSearch = testEnv.mockExporter.getSpanByName("web_search")!;
+    const attributes = generation.attributes;
+    const metadata = (key: string) =>
+      attributes[
+        `${AntsPlatformOtelSpanAttributes.OBSERVATION_METADATA}.${key}`
+      ];
+
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toHaveLength(3);
+    expect(
+      parseAttribute(
+        attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_USAGE_DETAILS,
+      ),
+    ).toMatchObject({
+      input: 310,
+      output: 148,
+      total: 458,
+      output_reasoning_tokens: 64,
+    });
+    expect(metadata("reasoningSummary")).toBe("Searching for today's news.");
+    expect(JSON.parse(metadata("outputItems") as string)).toEqual([
+      expect.objectContaining({
+        id: "rs_1",
+        type: "reasoning",
+        outputIndex: 0,
+      }),
+      expect.objectContaining({ id: "ws_1", type: "web_search_call" }),
+      expect.objectContaining({ id: "msg_1", type: "message" }),
+    ]);
+    expect(
+      attributes[
+        AntsPlatformOtelSpanAttributes.OBSERVATION_COMPLETION_START_TIME
+      ],
+    ).toBeDefined();
+
+    expect(webSearch.parentSpanContext?.spanId).toBe(
+      generation.spanContext().spanId,
+    );
+    expect(
+      webSearch.attributes[AntsPlatformOtelSpanAttributes.OBSERVATION_TYPE],
+    ).toBe("tool");
+    expect(
+      parseAttribute(
+        webSearch.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_INPUT,
+      ),
+    ).toMatchObject({ type: "search", query: "positive news today" });
+    expect(
+      parseAttribute(
+        webSearch.attributes,
+        AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+      ),
+    ).toEqual({ sources: [{ type: "url", url: "https://example.com/news" }] });
+  });
+
+  it("should end aborted streams with the partial output", async () => {
+    const openai = observeOpenAI(new OpenAI());
+
+    const stream = await openai.responses.create({
+      model: "o4-mini",
+      input: "abort",
+      stream: true,
+    });
+    for await (const event of stream) {
+      if ((event as { type: string }).type === "response.output_text.delta") {
+        break;
+      }
+    }
+
+    await waitForSpanExport(testEnv.mockExporter, 2);
+
+    const attributes =
+      testEnv.mockExporter.getSpanAttributes("OpenAI.responses")!;
+    const output = parseAttribute(
+      attributes,
+      AntsPlatformOtelSpanAttributes.OBSERVATION_OUTPUT,
+    );
+
+    expect(output).toHaveLength(3);
+    expect(output[2].content).toEqual([
+      { type: "output_text", text: "A sea turtle sanctuary ", annotations: [] },
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { PromptManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  InMemoryPromptCacheStore,
+} from "@ants-platform/core";
+import { FilePromptCacheStore } from "@ants-platform/otel";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { waitFor } from "./helpers/testSetup.js";
+
+function createPromptsApi() {
+  const get = vi.fn(
+    async (
+      name: string,
+      request: { version?: number; label?: string },
+    ): Promise<any> => {
+      if (name === "missing") {
+        throw new Error("Prompt not found");
+      }
+
+      const version = request.version ?? get.mock.calls.length;
+
+      return {
+        name,
+        version,
+        type: "text",
+        prompt: `${name} v${version}`,
+        labels: request.label ? [request.label] : ["production"],
+        tags: [],
+        config: {},
+      };
+    },
+  );
+
+  return {
+    get,
+    apiClient: { prompts: { get } } as unknown as AntsPlatformAPIClient,
+  };
+}
+
+describe("Prompt Cache", () => {
+  it("should cache prompts per version", async () => {
+    const { get, apiClient } = createPromptsApi();
+    const promptManager = new PromptManager({ apiClient });
+
+    const v2 = await promptManager.get("greeting", { version: 2 });
+    const v3 = await promptManager.get("greeting", { version: 3 });
+    const v2Cached = await promptManager.get("greeting", { version: 2 });
+
+    expect(v2.version).toBe(2);
+    expect(v3.version).toBe(3);
+    expect(v2Cached.version).toBe(2);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("should serve prompts from the store of a previous instance", async () => {
+    const store = new InMemoryPromptCacheStore();
+    const first = createPromptsApi();
+
+    await new PromptManager({
+      apiClient: first.apiClient,
+      cache: { store },
+    }).get("greeting", { label: "staging" });
+
+    await waitFor(10);
+
+    const second = createPromptsApi();
+    const prompt = await new PromptManager({
+      apiClient: second.apiClient,
+      cache: { store },
+    }).get("greeting", { label: "staging" });
+
+    expect(prompt.prompt).toBe("greeting v1");
+    expect(second.get).not.toHaveBeenCalled();
+  });
+
+  it("should prefetch prompts and tolerate failures", async () => {
+    const { get, apiClient } = createPromptsApi();
+    const promptManager = new PromptManager({ apiClient });
+
+    await promptManager.prefetch([
+      "greeting",
+      { name: "summarizer", version: 4 },
+      "missing",
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(3);
+
+    await promptManager.get("greeting");
+    await promptManager.get("summarizer", { version: 4 });
+
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("should refresh used prompts in the background before they expire", async () => {
+    const { get, apiClient } = createPromptsApi();
+    const promptManager = new PromptManager({
+      apiClient,
+      cache: { defaultTtlSeconds: 0.2, backgroundRefresh: true },
+    });
+
+    await promptManager.get("greeting");
+    await promptManager.prefetch(["idle"]);
+    expect(get).toHaveBeenCalledTimes(2);
+
+    await waitFor(200);
+
+    // Only the prompt that was used since it was fetched is refreshed
+    expect(get).toHaveBeenCalledTimes(3);
+    expect(get.mock.calls[2][0]).toBe("greeting");
+
+    const refreshed = await promptManager.get("greeting");
+    expect(refreshed.prompt).toBe("greeting v3");
+  });
+
+  describe("FilePromptCacheStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "ants-platform-prompt-cache-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should persist entries and invalidate them on update", async () => {
+      const { apiClient } = createPromptsApi();
+      const store = new FilePromptCacheStore({ directory });
+      const promptManager = new PromptManager({
+        apiClient: {
+          ...apiClient,
+          promptVersion: { update: vi.fn().mockResolvedValue({}) },
+        } as unknown as AntsPlatformAPIClient,
+        cache: { store },
+      });
+
+      await promptManager.get("greeting", { version: 1 });
+      await promptManager.get("greeting-v2", { label: "latest" });
+      await waitFor(50);
+
+      expect((await store.keys()).sort()).toEqual([
+        "greeting-v2-label:latest",
+        "greeting-version:1",
+      ]);
+      expect((await store.get("greeting-version:1"))?.prompt).toMatchObject({
+        name: "greeting",
+        version: 1,
+      });
+
+      await promptManager.update({
+        name: "greeting",
+        version: 1,
+        newLabels: ["production"],
+      });
+      await waitFor(50);
+
+      expect(await store.keys()).toEqual(["greeting-v2-label:latest"]);
+    });
+
+    it("should reject operations if the directory cannot be created", async () => {
+      const file = join(directory, "file");
+      await writeFile(file, "");
+
+      const store = new FilePromptCacheStore({
+        directory: join(file, "cache"),
+      });
+
+      await expect(store.get("greeting-version:1")).rejects.toThrow();
+      await expect(store.keys()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { PromptSync, runCli } from "@ants-platform/cli";
+import { AntsPlatformClient } from "@ants-platform/client";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+type StoredPrompt = {
+  name: string;
+  version: number;
+  type: "text" | "chat";
+  prompt: unknown;
+  config: unknown;
+  labels: string[];
+  tags: string[];
+  commitMessage?: string;
+};
+
+/**
+ * Minimal in-memory implementation of the prompts API.
+ */
+function createMockPromptServer(initialPrompts: StoredPrompt[]) {
+  const prompts = [...initialPrompts];
+
+  const versionsOf = (name: string) =>
+    prompts
+      .filter((prompt) => prompt.name === name)
+      .sort((a, b) => a.version - b.version);
+
+  const withLatestLabel = (prompt: StoredPrompt) => {
+    const versions = versionsOf(prompt.name);
+    const isLatest = versions[versions.length - 1] === prompt;
+
+    return {
+      ...prompt,
+      labels: isLatest ? [...prompt.labels, "latest"] : prompt.labels,
+    };
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const body = chunks.length
+      ? JSON.parse(Buffer.concat(chunks).toString())
+      : undefined;
+
+    const send = (status: number, data: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    const versionMatch = url.pathname.match(
+      /^\/api\/public\/v2\/prompts\/(.+)\/versions\/(\d+)$/,
+    );
+    const promptMatch = url.pathname.match(
+      /^\/api\/public\/v2\/prompts\/(.+)$/,
+    );
+
+    if (req.method === "PATCH" && versionMatch) {
+      const name = decodeURIComponent(versionMatch[1]);
+      const target = versionsOf(name).find(
+        (prompt) => prompt.version === Number(versionMatch[2]),
+      );
+      if (!target) return send(404, { message: "Not found" });
+
+      for (const prompt of versionsOf(name)) {
+        prompt.labels = prompt.labels.filter(
+          (label) => !body.newLabels.includes(label),
+        );
+      }
+      target.labels = body.newLabels;
+
+      return send(200, withLatestLabel(target));
+    }
+
+    if (req.method === "GET" && promptMatch) {
+      const name = decodeURIComponent(promptMatch[1]);
+      const versions = versionsOf(name);
+      const version = url.searchParams.get("version");
+      const label = url.searchParams.get("label") ?? "production";
+
+      const prompt = version
+        ? versions.find((prompt) => prompt.version === Number(version))
+        : label === "latest"
+          ? versions[versions.length - 1]
+          : versions.find((prompt) => prompt.labels.includes(label));
+
+      return prompt
+        ? send(200, withLatestLabel(prompt))
+        : send(404, { message: "Not found" });
+    }
+
+    if (req.method === "GET" && url.pathname === "/api/public/v2/prompts") {
+      const names = [...new Set(prompts.map((prompt) => prompt.name))];
+
+      return send(200, {
+        data: names.map((name) => ({
+          name,
+          versions: versionsOf(name).map((prompt) => prompt.version),
+          labels: [],
+          tags: [],
+          lastUpdatedAt: new Date().toISOString(),
+        })),
+        meta: { page: 1, limit: 100, totalItems: names.length, totalPages: 1 },
+      });
+    }
+
+    if (req.method === "POST" && url.pathname === "/api/public/v2/prompts") {
+      const created: StoredPrompt = {
+        ...body,
+        config: body.config ?? {},
+        labels: body.labels ?? [],
+        tags: body.tags ?? [],
+        version: versionsOf(body.name).length + 1,
+      };
+      for (const prompt of versionsOf(body.name)) {
+        prompt.labels = prompt.labels.filter(
+          (label) => !created.labels.includes(label),
+        );
+      }
+      prompts.push(created);
+
+      return send(200, withLatestLabel(created));
+    }
+
+    send(404, { message: "Not found" });
+  });
+
+  return { server, prompts };
+}
+
+describe("Prompt Sync", () => {
+  let directory: string;
+  let server: Server;
+  let prompts: StoredPrompt[];
+  let baseUrl: string;
+  let sync: PromptSync;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "ants-platform-prompt-sync-"));
+
+    ({ server, prompts } = createMockPromptServer([
+      {
+        name: "greeting",
+        version: 1,
+        type: "text",
+        prompt: "Hello {{name}}!",
+        config: { temperature: 0.2 },
+        labels: ["production"],
+        tags: ["onboarding"],
+      },
+      {
+        name: "support/agent",
+        version: 1,
+        type: "chat",
+        prompt: [
+          {
+            type: "chatmessage",
+            role: "system",
+            content: "You are a support agent.",
+          },
+          { type: "placeholder", name: "history" },
+        ],
+        config: {},
+        labels: [],
+        tags: [],
+      },
+    ]));
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    sync = new PromptSync({
+      client: new AntsPlatformClient({
+        publicKey: "pk-test",
+        secretKey: "sk-test",
+        baseUrl,
+      }),
+      directory,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should pull text and chat prompts into YAML files", async () => {
+    const results = await sync.pull();
+
+    expect(results.map((result) => result.name)).toEqual([
+      "greeting",
+      "support/agent",
+    ]);
+
+    const chatFile = await readFile(
+      join(directory, "support", "agent.yaml"),
+      "utf8",
+    );
+    expect(chatFile).toContain("name: support/agent");
+    expect(chatFile).toContain("type: placeholder");
+    expect(chatFile).not.toContain("latest");
+
+    const diffs = await sync.diff();
+    expect(diffs.map((diff) => diff.status)).toEqual([
+      "unchanged",
+      "unchanged",
+    ]);
+  });
+
+  it("should diff and push changed and new files as new versions", async () => {
+    await sync.pull();
+
+    const path = join(directory, "greeting.yaml");
+    const content = await readFile(path, "utf8");
+    await writeFile(path, content.replace("Hello", "Hi"));
+    await writeFile(
+      join(directory, "farewell.json"),
+      JSON.stringify({ name: "farewell", type: "text", prompt: "Bye!" }),
+    );
+
+    const diffs = await sync.diff();
+    expect(diffs.find((diff) => diff.name === "greeting")).toMatchObject({
+      status: "modified",
+      remoteVersion: 1,
+      lines: expect.arrayContaining([
+        "- prompt: Hello {{name}}!",
+        "+ prompt: Hi {{name}}!",
+      ]),
+    });
+    expect(diffs.find((diff) => diff.name === "farewell")?.status).toBe("new");
+
+    expect(await sync.push({ dryRun: true })).toHaveLength(2);
+    expect(prompts).toHaveLength(2);
+
+    const pushed = await sync.push({ commitMessage: "Friendlier greeting" });
+
+    expect(pushed.map(({ name, version }) => ({ name, version }))).toEqual([
+      { name: "farewell", version: 1 },
+      { name: "greeting", version: 2 },
+    ]);
+    expect(prompts.find((prompt) => prompt.version === 2)).toMatchObject({
+      name: "greeting",
+      prompt: "Hi {{name}}!",
+      commitMessage: "Friendlier greeting",
+    });
+    expect(await readFile(path, "utf8")).toContain("version: 2");
+    expect(
+      (await sync.diff()).every((diff) => diff.status === "unchanged"),
+    ).toBe(true);
+  });
+
+  it("should push new versions without labels or a stored commit message", async () => {
+    prompts[0].commitMessage = "Initial greeting";
+    await sync.pull();
+
+    const path = join(directory, "greeting.yaml");
+    const content = await readFile(path, "utf8");
+    expect(content).toContain("production");
+    expect(content).toContain("commitMessage: Initial greeting");
+    await writeFile(path, content.replace("Hello", "Hi"));
+
+    await sync.push();
+
+    const [original, pushed] = prompts.filter(
+      (prompt) => prompt.name === "greeting",
+    );
+    expect(original.labels).toEqual(["production"]);
+    expect(pushed.version).toBe(2);
+    expect(pushed.labels).not.toContain("production");
+    expect(pushed.commitMessage).toBeUndefined();
+
+    const pushedFile = await readFile(path, "utf8");
+    expect(pushedFile).not.toContain("production");
+    expect(pushedFile).not.toContain("commitMessage");
+  });
+
+  it("should not pull prompts outside of the directory", async () => {
+    prompts.push({
+      name: "../escaped",
+      version: 1,
+      type: "text",
+      prompt: "Escaped",
+      config: {},
+      labels: [],
+      tags: [],
+    });
+
+    await expect(sync.pull({ names: ["../escaped"] })).rejects.toThrow(
+      "cannot be stored outside of the directory",
+    );
+  });
+
+  it("should promote labels and report differences via the CLI", async () => {
+    const stdout: string[] = [];
+    const output = {
+      stdout: (line: string) => stdout.push(line),
+      stderr: (line: string) => stdout.push(line),
+    };
+    const args = [
+      "--dir",
+      directory,
+      "--base-url",
+      baseUrl,
+      "--public-key",
+      "pk-test",
+      "--secret-key",
+      "sk-test",
+    ];
+
+    expect(await runCli(["prompts", "pull", ...args], output)).toBe(0);
+    expect(
+      await runCli(["prompts", "diff", "--exit-code", ...args], output),
+    ).toBe(0);
+
+    await writeFile(
+      join(directory, "support", "agent.yaml"),
+      (
+        await readFile(join(directory, "support", "agent.yaml"), "utf8")
+      ).replace("support agent", "friendly support agent"),
+    );
+    expect(
+      await runCli(["prompts", "diff", "--exit-code", ...args], output),
+    ).toBe(1);
+    expect(stdout).toContain("1 of 2 prompt(s) differ from the server");
+
+    expect(
+      await runCli(
+        ["prompts", "promote", "support/agent", "staging", ...args],
+        output,
+      ),
+    ).toBe(0);
+    expect(
+      prompts.find((prompt) => prompt.name === "support/agent")?.labels,
+    ).toEqual(["staging"]);
+
+    expect(await runCli(["prompts", "unknown", ...args], output)).toBe(2);
+  });
+});
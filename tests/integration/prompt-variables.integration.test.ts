@@ -0,0 +1,176 @@
+import { generatePromptTypes } from "@ants-platform/cli";
+import {
+  ChatPromptClient,
+  PromptCompileError,
+  TextPromptClient,
+} from "@ants-platform/client";
+import { describe, it, expect } from "vitest";
+
+const basePrompt = {
+  version: 1,
+  labels: ["production"],
+  tags: [],
+  config: {},
+};
+
+const textPrompt = new TextPromptClient({
+  ...basePrompt,
+  name: "greeting",
+  type: "text",
+  prompt:
+    "Hello {{name}}, welcome to {{{product}}}!{{#vip}} Thanks for being a VIP, {{name}}.{{/vip}} {{account.id}}",
+});
+
+const chatPrompt = new ChatPromptClient({
+  ...basePrompt,
+  name: "support/agent",
+  type: "chat",
+  prompt: [
+    {
+      type: "chatmessage",
+      role: "system",
+      content: "You support {{product}} users.",
+    },
+    { type: "placeholder", name: "history" },
+    { type: "chatmessage", role: "user", content: "{{question}}" },
+  ],
+});
+
+describe("Prompt Variables", () => {
+  it("should expose the variables and placeholders of a prompt", () => {
+    expect(textPrompt.variables).toEqual(["name", "product", "vip", "account"]);
+    expect(textPrompt.placeholders).toEqual([]);
+
+    expect(chatPrompt.variables).toEqual(["product", "question"]);
+    expect(chatPrompt.placeholders).toEqual(["history"]);
+  });
+
+  it("should not require names inside a section's context", () => {
+    const prompt = new TextPromptClient({
+      ...basePrompt,
+      name: "profile",
+      type: "text",
+      prompt: "{{#user}}{{name}} ({{email}}){{/user}} asked {{question}}",
+    });
+
+    expect(prompt.variables).toEqual(["user", "question"]);
+    expect(prompt.optionalVariables).toEqual(["name", "email"]);
+    expect(
+      prompt.compile(
+        {
+          user: { name: "Alice", email: "alice@example.com" } as any,
+          question: "Hi?",
+        },
+        undefined,
+        { strict: true },
+      ),
+    ).toBe("Alice (alice@example.com) asked Hi?");
+  });
+
+  it("should treat inverted section keys as optional", () => {
+    const prompt = new TextPromptClient({
+      ...basePrompt,
+      name: "welcome",
+      type: "text",
+      prompt: "Welcome {{^name}}guest{{/name}}{{name}} to {{product}}!",
+    });
+
+    expect(prompt.variables).toEqual(["product"]);
+    expect(prompt.optionalVariables).toEqual(["name"]);
+    expect(
+      prompt.compile({ product: "Ants" }, undefined, { strict: true }),
+    ).toBe("Welcome guest to Ants!");
+    expect(
+      prompt.compile({ name: "Alice", product: "Ants" }, undefined, {
+        strict: true,
+      }),
+    ).toBe("Welcome Alice to Ants!");
+  });
+
+  it("should keep rendering missing variables as empty strings by default", () => {
+    expect(textPrompt.compile({ name: "Alice" })).toBe(
+      "Hello Alice, welcome to ! ",
+    );
+  });
+
+  it("should throw on missing and unknown variables in strict mode", () => {
+    let error: unknown;
+    try {
+      textPrompt.compile(
+        { nmae: "Alice", product: "Ants", vip: "", account: "" },
+        undefined,
+        { strict: true },
+      );
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(PromptCompileError);
+    expect(error).toMatchObject({
+      promptName: "greeting",
+      missingVariables: ["name"],
+      unknownVariables: ["nmae"],
+      missingPlaceholders: [],
+      unknownPlaceholders: [],
+    });
+    expect((error as Error).message).toBe(
+      "Failed to compile prompt 'greeting': missing variables: name; unknown variables: nmae",
+    );
+  });
+
+  it("should validate placeholders of chat prompts in strict mode", () => {
+    expect(() =>
+      chatPrompt.compile({ product: "Ants", question: "Hi?" }, undefined, {
+        strict: true,
+      }),
+    ).toThrow("missing placeholders: history");
+
+    expect(
+      chatPrompt.compile(
+        { product: "Ants", question: "Hi?" },
+        { history: [] },
+        { strict: true },
+      ),
+    ).toEqual([
+      { role: "system", content: "You support Ants users." },
+      { role: "user", content: "Hi?" },
+    ]);
+  });
+
+  it("should generate prompt types for the registry", () => {
+    const generated = generatePromptTypes([
+      {
+        name: "support/agent",
+        type: "chat",
+        prompt: [
+          { role: "system", content: "You support {{product}} users." },
+          { type: "placeholder", name: "history" },
+        ],
+      },
+      { name: "farewell", type: "text", prompt: "Goodbye!" },
+      {
+        name: "welcome",
+        type: "text",
+        prompt: "Welcome {{^name}}guest{{/name}}{{name}} to {{product}}!",
+      },
+    ]);
+
+    expect(generated).toContain(`declare module "@antsplatform/client" {`);
+    expect(generated).toContain(
+      [
+        `    "farewell": {`,
+        `      variables: {};`,
+        `      placeholders: {};`,
+        `    };`,
+        `    "support/agent": {`,
+        `      variables: { "product": string };`,
+        `      placeholders: { "history": { role: string; content: string }[] };`,
+        `    };`,
+        `    "welcome": {`,
+        `      variables: { "product": string; "name"?: string };`,
+        `      placeholders: {};`,
+        `    };`,
+      ].join("\n"),
+    );
+  });
+});
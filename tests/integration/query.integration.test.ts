@@ -0,0 +1,153 @@
+import { QueryManager } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  AntsPlatformAPIError,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import { describe, it, expect, beforeEach, beforeAll, vi } from "vitest";
+
+const traces = Array.from({ length: 25 }, (_, i) => ({
+  id: `trace-${i}`,
+  name: "chat",
+}));
+
+const paginate = <T>(items: T[]) =>
+  vi.fn().mockImplementation(async ({ page = 1, limit = 50 }) => ({
+    data: items.slice((page - 1) * limit, page * limit),
+    meta: {
+      page,
+      limit,
+      totalItems: items.length,
+      totalPages: Math.ceil(items.length / limit),
+    },
+  }));
+
+class MockAPIClient {
+  public trace = { list: paginate(traces) };
+  public observations = { getMany: paginate([{ id: "observation-1" }]) };
+  public sessions = { list: paginate([{ id: "session-1" }]) };
+  public scoreV2 = { get: paginate([{ id: "score-1", name: "accuracy" }]) };
+}
+
+describe("Query builders", () => {
+  let apiClient: MockAPIClient;
+  let query: QueryManager;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+    query = new QueryManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+    });
+  });
+
+  it("should translate filters into requests and page through all results", async () => {
+    const results = [];
+    for await (const trace of query
+      .traces()
+      .user("user-1")
+      .tags("production", "chat")
+      .environment("prod")
+      .from(new Date("2026-01-01T00:00:00Z"))
+      .to("2026-02-01T00:00:00Z")
+      .orderBy("timestamp", "asc")
+      .pageSize(10)) {
+      results.push(trace.id);
+    }
+
+    expect(results).toEqual(traces.map((trace) => trace.id));
+    expect(apiClient.trace.list).toHaveBeenCalledTimes(3);
+    expect(apiClient.trace.list).toHaveBeenLastCalledWith({
+      userId: "user-1",
+      tags: ["production", "chat"],
+      environment: ["prod"],
+      fromTimestamp: "2026-01-01T00:00:00.000Z",
+      toTimestamp: "2026-02-01T00:00:00Z",
+      orderBy: "timestamp.asc",
+      page: 3,
+      limit: 10,
+    });
+
+    await query.observations().type("GENERATION").level("ERROR").toArray();
+    expect(apiClient.observations.getMany).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "GENERATION", level: "ERROR" }),
+    );
+
+    await query.scores().name("accuracy").value("<", 0.5).toArray();
+    expect(apiClient.scoreV2.get).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "accuracy", operator: "<", value: 0.5 }),
+    );
+  });
+
+  it("should fetch pages concurrently in order and stop at the maximum number of items", async () => {
+    const delays = [0, 30, 10, 0, 20];
+    const list = paginate(traces);
+    apiClient.trace.list.mockImplementation(async (request) => {
+      await new Promise((resolve) => setTimeout(resolve, delays[request.page]));
+
+      return list(request);
+    });
+
+    const all = await query.traces().pageSize(5).concurrency(3).toArray();
+    expect(all.map((trace) => trace.id)).toEqual(
+      traces.map((trace) => trace.id),
+    );
+    expect(apiClient.trace.list).toHaveBeenCalledTimes(5);
+
+    apiClient.trace.list.mockClear();
+    const first = await query
+      .traces()
+      .pageSize(5)
+      .concurrency(3)
+      .maxItems(7)
+      .toArray();
+
+    expect(first).toHaveLength(7);
+    expect(apiClient.trace.list).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait and retry when rate limited", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(null, { status: 429, headers: { "Retry-After": "0" } }),
+      )
+      .mockImplementation(async () =>
+        Response.json({
+          data: traces.slice(0, 2),
+          meta: { page: 1, limit: 2, totalItems: 25, totalPages: 13 },
+        }),
+      );
+    const rateLimitedQuery = new QueryManager({
+      apiClient: new AntsPlatformAPIClient({
+        baseUrl: "http://localhost:3000",
+        environment: "",
+        fetch: fetchMock,
+      }),
+    });
+
+    const lines = [];
+    for await (const line of rateLimitedQuery
+      .traces()
+      .pageSize(2)
+      .maxItems(2)
+      .toJsonl()) {
+      lines.push(line);
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(lines).toEqual([
+      '{"id":"trace-0","name":"chat"}\n',
+      '{"id":"trace-1","name":"chat"}\n',
+    ]);
+
+    apiClient.trace.list.mockRejectedValueOnce(
+      new AntsPlatformAPIError({ statusCode: 500 }),
+    );
+    await expect(query.traces().toArray()).rejects.toThrow("Status code: 500");
+    expect(apiClient.trace.list).toHaveBeenCalledTimes(1);
+  });
+});
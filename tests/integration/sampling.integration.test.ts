@@ -0,0 +1,237 @@
+import { isTraceIdSampled } from "@ants-platform/otel";
+import { startObservation } from "@ants-platform/tracing";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { SpanAssertions } from "./helpers/assertions.js";
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  waitFor,
+  waitForSpanExport,
+  type TestEnvironment,
+} from "./helpers/testSetup.js";
+
+describe("AntsPlatformSpanProcessor Sampling", () => {
+  let testEnv: TestEnvironment;
+  let assertions: SpanAssertions;
+
+  beforeEach(async () => {
+    testEnv = await setupTestEnvironment();
+    assertions = new SpanAssertions(testEnv.mockExporter);
+  });
+
+  afterEach(async () => {
+    await teardownTestEnvironment(testEnv);
+  });
+
+  describe("isTraceIdSampled", () => {
+    it("should be deterministic for the same trace ID", () => {
+      const traceId = "0af7651916cd43dd8448eb211c80319c";
+
+      expect(isTraceIdSampled(traceId, 0.5)).toBe(
+        isTraceIdSampled(traceId, 0.5),
+      );
+    });
+
+    it("should respect ratio bounds", () => {
+      expect(isTraceIdSampled("0af7651916cd43dd8448eb21ffffffff", 1)).toBe(
+        true,
+      );
+      expect(isTraceIdSampled("0af7651916cd43dd8448eb2100000000", 0)).toBe(
+        false,
+      );
+      expect(isTraceIdSampled("0af7651916cd43dd8448eb2100000000", 0.01)).toBe(
+        true,
+      );
+      expect(isTraceIdSampled("0af7651916cd43dd8448eb21ffffffff", 0.99)).toBe(
+        false,
+      );
+    });
+
+    it("should sample roughly the configured ratio", () => {
+      let sampled = 0;
+      for (let i = 0; i < 10_000; i++) {
+        const traceId = Math.floor(Math.random() * 0xffffffff)
+          .toString(16)
+          .padStart(32, "0");
+        if (isTraceIdSampled(traceId, 0.25)) sampled++;
+      }
+
+      expect(sampled / 10_000).toBeGreaterThan(0.2);
+      expect(sampled / 10_000).toBeLessThan(0.3);
+    });
+  });
+
+  describe("Head sampling", () => {
+    it("should drop all spans of a trace with ratio 0", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { sampling: { mode: "head", ratio: 0 } },
+      });
+      assertions = new SpanAssertions(testEnv.mockExporter);
+
+      const root = startObservation("root");
+      root.startObservation("child").end();
+      root.end();
+
+      await waitFor(200);
+
+      assertions.expectSpanCount(0);
+    });
+
+    it("should keep or drop all spans of a trace together", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { sampling: { mode: "head", ratio: 0.5 } },
+      });
+
+      const roots = Array.from({ length: 20 }, (_, i) => {
+        const root = startObservation(`root-${i}`);
+        root.startObservation(`child-${i}`).end();
+        root.end();
+
+        return root;
+      });
+
+      await testEnv.spanProcessor.forceFlush();
+      await waitFor(100);
+
+      for (const root of roots) {
+        const exportedSpans = testEnv.mockExporter.exportedSpans.filter(
+          (span) => span.spanContext().traceId === root.traceId,
+        );
+        const expectedCount = isTraceIdSampled(root.traceId, 0.5) ? 2 : 0;
+
+        expect(exportedSpans).toHaveLength(expectedCount);
+      }
+    });
+  });
+
+  describe("Tail sampling", () => {
+    it("should buffer spans until the root span ends", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { sampling: { mode: "tail", ratio: 1 } },
+      });
+      assertions = new SpanAssertions(testEnv.mockExporter);
+
+      const root = startObservation("root");
+      root.startObservation("child").end();
+
+      await waitFor(100);
+      assertions.expectSpanCount(0);
+
+      root.end();
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      assertions.expectSpanWithName("root");
+      assertions.expectSpanWithName("child");
+    });
+
+    it("should keep traces containing an ERROR observation", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { sampling: { mode: "tail", ratio: 0 } },
+      });
+      assertions = new SpanAssertions(testEnv.mockExporter);
+
+      const failingRoot = startObservation("failing-root");
+      failingRoot.startObservation("failing-child", { level: "ERROR" }).end();
+      failingRoot.end();
+
+      const healthyRoot = startObservation("healthy-root");
+      healthyRoot.startObservation("healthy-child").end();
+      healthyRoot.end();
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      await waitFor(100);
+
+      assertions.expectSpanCount(2);
+      assertions.expectSpanWithName("failing-root");
+      assertions.expectSpanWithName("failing-child");
+    });
+
+    it("should keep traces exceeding the latency threshold", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: {
+          sampling: { mode: "tail", ratio: 0, latencyThresholdMs: 50 },
+        },
+      });
+      assertions = new SpanAssertions(testEnv.mockExporter);
+
+      const fastRoot = startObservation("fast-root");
+      fastRoot.end();
+
+      const slowRoot = startObservation("slow-root");
+      await waitFor(80);
+      slowRoot.end();
+
+      await waitForSpanExport(testEnv.mockExporter, 1);
+      await waitFor(100);
+
+      assertions.expectSpanCount(1);
+      assertions.expectSpanWithName("slow-root");
+    });
+
+    it("should keep traces matching the custom predicate", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: {
+          sampling: {
+            mode: "tail",
+            ratio: 0,
+            shouldKeepTrace: ({ spans }) =>
+              spans.some((span) => span.name === "checkout"),
+          },
+        },
+      });
+      assertions = new SpanAssertions(testEnv.mockExporter);
+
+      const keptRoot = startObservation("kept-root");
+      keptRoot.startObservation("checkout").end();
+      keptRoot.end();
+
+      const droppedRoot = startObservation("dropped-root");
+      droppedRoot.startObservation("browse").end();
+      droppedRoot.end();
+
+      await waitForSpanExport(testEnv.mockExporter, 2);
+      await waitFor(100);
+
+      assertions.expectSpanCount(2);
+      assertions.expectSpanWithName("kept-root");
+      assertions.expectSpanWithName("checkout");
+    });
+
+    it("should evaluate unfinished traces on shutdown", async () => {
+      await teardownTestEnvironment(testEnv);
+
+      testEnv = await setupTestEnvironment({
+        spanProcessorConfig: { sampling: { mode: "tail", ratio: 1 } },
+      });
+
+      // The mock exporter clears its spans on shutdown, so inspect export calls
+      const exportSpy = vi.spyOn(testEnv.mockExporter, "export");
+
+      const root = startObservation("unfinished-root");
+      root.startObservation("finished-child").end();
+
+      await waitFor(100);
+      expect(exportSpy).not.toHaveBeenCalled();
+
+      await testEnv.spanProcessor.shutdown();
+
+      const exportedSpanNames = exportSpy.mock.calls.flatMap(([spans]) =>
+        spans.map((span) => span.name),
+      );
+      expect(exportedSpanNames).toEqual(["finished-child"]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  ScoreDeliveryError,
+  ScoreDeliveryOptions,
+  ScoreManager,
+} from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  AntsPlatformAPIError,
+  AntsPlatformAPITimeoutError,
+  IngestionEvent,
+  ScoreBody,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  beforeAll,
+  vi,
+} from "vitest";
+
+type BatchResponse = {
+  successes: { id: string; status: number }[];
+  errors: { id: string; status: number; message?: string }[];
+};
+
+class MockAPIClient {
+  public ingestion = {
+    batch: vi.fn(),
+  };
+
+  /** Per score name, the statuses returned for successive attempts */
+  public statuses: Record<string, number[]> = {};
+
+  constructor() {
+    this.ingestion.batch.mockImplementation(
+      async ({
+        batch,
+      }: {
+        batch: IngestionEvent[];
+      }): Promise<BatchResponse> => {
+        const response: BatchResponse = { successes: [], errors: [] };
+
+        for (const event of batch) {
+          const name = (event.body as ScoreBody).name;
+          const status = this.statuses[name]?.shift() ?? 201;
+
+          if (status < 300) {
+            response.successes.push({ id: event.id, status });
+          } else {
+            response.errors.push({
+              id: event.id,
+              status,
+              message: `Failed with ${status}`,
+            });
+          }
+        }
+
+        return response;
+      },
+    );
+  }
+
+  get sentScoreNames() {
+    return this.ingestion.batch.mock.calls.map(([{ batch }]) =>
+      (batch as IngestionEvent[]).map(
+        (event) => (event.body as ScoreBody).name,
+      ),
+    );
+  }
+}
+
+describe("Score delivery", () => {
+  let apiClient: MockAPIClient;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+    process.env.ANTS_PLATFORM_FLUSH_AT = "1000";
+  });
+
+  afterEach(() => {
+    delete process.env.ANTS_PLATFORM_FLUSH_AT;
+  });
+
+  const createScoreManager = (delivery: ScoreDeliveryOptions) =>
+    new ScoreManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+      delivery: { initialRetryDelayMs: 1, maxRetryDelayMs: 5, ...delivery },
+    });
+
+  it("should retry scores with retryable errors and report the outcome of each score", async () => {
+    const onDelivery = vi.fn();
+    const onError = vi.fn();
+    const scoreManager = createScoreManager({
+      maxRetries: 2,
+      onDelivery,
+      onError,
+    });
+
+    apiClient.statuses = {
+      flaky: [500, 429],
+      invalid: [400],
+      down: [503, 503, 503],
+    };
+
+    scoreManager.create({ name: "ok", value: 1 });
+    scoreManager.create({ name: "flaky", value: 1 });
+    scoreManager.create({ name: "invalid", value: 1 });
+    scoreManager.create({ name: "down", value: 1 });
+    await scoreManager.flush();
+
+    expect(apiClient.sentScoreNames).toEqual([
+      ["ok", "flaky", "invalid", "down"],
+      ["flaky", "down"],
+      ["flaky", "down"],
+    ]);
+    expect(apiClient.ingestion.batch).toHaveBeenCalledWith(expect.anything(), {
+      maxRetries: 0,
+    });
+
+    expect(onDelivery.mock.calls.map(([score]) => score.name)).toEqual([
+      "ok",
+      "flaky",
+    ]);
+
+    const errors: ScoreDeliveryError[] = onError.mock.calls.map(
+      ([error]) => error,
+    );
+    expect(errors.map((error) => [error.score.name, error.reason])).toEqual([
+      ["invalid", "rejected"],
+      ["down", "retries_exhausted"],
+    ]);
+    expect(errors[0]).toBeInstanceOf(ScoreDeliveryError);
+    expect(errors[0].status).toBe(400);
+    expect(errors[0].message).toBe(
+      "Score 'invalid' was not delivered: Failed with 400",
+    );
+  });
+
+  it("should retry failed requests unless the error is not retryable", async () => {
+    const onError = vi.fn();
+    const scoreManager = createScoreManager({ maxRetries: 3, onError });
+
+    apiClient.ingestion.batch
+      .mockRejectedValueOnce(
+        new AntsPlatformAPIError({ message: "fetch failed" }),
+      )
+      .mockRejectedValueOnce(new AntsPlatformAPITimeoutError("Timeout"))
+      .mockRejectedValueOnce(
+        new AntsPlatformAPIError({ statusCode: 502, body: "Bad gateway" }),
+      );
+
+    const delivered = scoreManager.send({ name: "network", value: 1 });
+    await scoreManager.flush();
+
+    await expect(delivered).resolves.toMatchObject({
+      status: "delivered",
+      score: { name: "network" },
+    });
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(4);
+    expect(apiClient.ingestion.batch).toHaveBeenCalledWith(expect.anything(), {
+      maxRetries: 0,
+    });
+
+    apiClient.ingestion.batch.mockClear();
+    apiClient.ingestion.batch.mockRejectedValueOnce(
+      new AntsPlatformAPIError({
+        message:
+          "Circuit breaker is open after repeated failures of the API. Failing fast.",
+      }),
+    );
+
+    const failFast = scoreManager.send({ name: "circuit-open", value: 1 });
+    await scoreManager.flush();
+
+    await expect(failFast).resolves.toMatchObject({
+      status: "failed",
+      error: { reason: "rejected" },
+    });
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1);
+
+    apiClient.ingestion.batch.mockClear();
+    onError.mockClear();
+    apiClient.ingestion.batch.mockRejectedValueOnce(
+      new AntsPlatformAPIError({ statusCode: 401, body: "Unauthorized" }),
+    );
+
+    const failed = scoreManager.send({ name: "unauthorized", value: 1 });
+    await scoreManager.flush();
+
+    const result = await failed;
+    expect(apiClient.ingestion.batch).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("failed");
+    expect(result.status === "failed" && result.error).toMatchObject({
+      reason: "rejected",
+      status: 401,
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop the newest or oldest score when the queue is full", async () => {
+    const onError = vi.fn();
+    const newest = createScoreManager({ maxQueueSize: 2, onError });
+
+    newest.create({ name: "first", value: 1 });
+    newest.create({ name: "second", value: 1 });
+    const dropped = newest.send({ name: "third", value: 1 });
+    await newest.flush();
+
+    await expect(dropped).resolves.toMatchObject({
+      status: "failed",
+      error: { reason: "queue_full" },
+    });
+    expect(apiClient.sentScoreNames).toEqual([["first", "second"]]);
+
+    apiClient.ingestion.batch.mockClear();
+    onError.mockClear();
+
+    const oldest = createScoreManager({
+      maxQueueSize: 2,
+      dropPolicy: "oldest",
+      onError,
+    });
+
+    oldest.create({ name: "first", value: 1 });
+    oldest.create({ name: "second", value: 1 });
+    oldest.create({ name: "third", value: 1 });
+    await oldest.flush();
+
+    expect(apiClient.sentScoreNames).toEqual([["second", "third"]]);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      reason: "queue_full",
+      score: { name: "first" },
+    });
+  });
+
+  it("should wait for room in the queue when blocking", async () => {
+    const scoreManager = createScoreManager({
+      maxQueueSize: 1,
+      dropPolicy: "block",
+    });
+
+    const first = scoreManager.send({ name: "first", value: 1 });
+    const second = scoreManager.send({ name: "second", value: 1 });
+    await scoreManager.flush();
+
+    await expect(first).resolves.toMatchObject({ status: "delivered" });
+    await expect(second).resolves.toMatchObject({ status: "delivered" });
+    expect(apiClient.sentScoreNames).toEqual([["first"], ["second"]]);
+  });
+
+  it("should queue created scores once there is room when blocking", async () => {
+    const onError = vi.fn();
+    const scoreManager = createScoreManager({
+      maxQueueSize: 1,
+      dropPolicy: "block",
+      onError,
+    });
+
+    scoreManager.create({ name: "first", value: 1 });
+    scoreManager.create({ name: "second", value: 1 });
+    await scoreManager.flush();
+    await scoreManager.flush();
+
+    expect(apiClient.sentScoreNames).toEqual([["first"], ["second"]]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
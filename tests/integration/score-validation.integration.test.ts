@@ -0,0 +1,218 @@
+import { ScoreManager, ScoreValidationError } from "@ants-platform/client";
+import {
+  AntsPlatformAPIClient,
+  IngestionEvent,
+  ScoreBody,
+  resetGlobalLogger,
+} from "@ants-platform/core";
+import { describe, it, expect, beforeEach, beforeAll, vi } from "vitest";
+
+const configs = [
+  {
+    id: "config-accuracy",
+    name: "accuracy",
+    dataType: "NUMERIC",
+    minValue: 0,
+    maxValue: 1,
+    isArchived: false,
+  },
+  {
+    id: "config-sentiment",
+    name: "sentiment",
+    dataType: "CATEGORICAL",
+    categories: [
+      { value: 0, label: "negative" },
+      { value: 1, label: "positive" },
+    ],
+    isArchived: false,
+  },
+  {
+    id: "config-helpful",
+    name: "helpful",
+    dataType: "BOOLEAN",
+    isArchived: false,
+  },
+  {
+    id: "config-old",
+    name: "legacy",
+    dataType: "NUMERIC",
+    isArchived: true,
+  },
+  {
+    id: "config-delta",
+    name: "delta",
+    dataType: "NUMERIC",
+    minValue: null,
+    maxValue: null,
+    isArchived: false,
+  },
+];
+
+class MockAPIClient {
+  public scoreConfigs = {
+    get: vi.fn().mockImplementation(async ({ page }) => ({
+      data: configs.slice((page - 1) * 2, page * 2),
+      meta: { totalPages: Math.ceil(configs.length / 2) },
+    })),
+  };
+  public ingestion = {
+    batch: vi.fn().mockResolvedValue({ successes: [], errors: [] }),
+  };
+
+  get sentScores() {
+    return this.ingestion.batch.mock.calls.flatMap(([{ batch }]) =>
+      (batch as IngestionEvent[]).map((event) => event.body as ScoreBody),
+    );
+  }
+}
+
+describe("Score validation", () => {
+  let apiClient: MockAPIClient;
+
+  beforeAll(() => {
+    resetGlobalLogger();
+  });
+
+  beforeEach(() => {
+    apiClient = new MockAPIClient();
+  });
+
+  const createScoreManager = (
+    validation: ConstructorParameters<typeof ScoreManager>[0]["validation"],
+  ) =>
+    new ScoreManager({
+      apiClient: apiClient as unknown as AntsPlatformAPIClient,
+      validation,
+    });
+
+  it("should throw for invalid scores and fill in config id and data type", async () => {
+    const scoreManager = createScoreManager({ mode: "throw" });
+    await scoreManager.loadConfigs();
+
+    expect(apiClient.scoreConfigs.get).toHaveBeenCalledTimes(3);
+
+    const invalidScores: [ScoreBody, string][] = [
+      [
+        { name: "accuracy", value: 1.5 },
+        "value 1.5 is greater than the maximum 1",
+      ],
+      [{ name: "accuracy", value: "high" }, 'value "high" is not a number'],
+      [
+        { name: "sentiment", value: "neutral" },
+        'value "neutral" is not one of the categories negative, positive',
+      ],
+      [{ name: "helpful", value: 2 }, "value 2 is not a boolean (0 or 1)"],
+      [
+        { name: "accuracy", value: 1, dataType: "BOOLEAN" },
+        "data type BOOLEAN does not match the config data type NUMERIC",
+      ],
+      [
+        { name: "legacy", value: 1, configId: "config-old" },
+        "score config 'legacy' is archived",
+      ],
+    ];
+
+    for (const [score, problem] of invalidScores) {
+      let error: unknown;
+      try {
+        scoreManager.create({ ...score, traceId: "trace-1" });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(ScoreValidationError);
+      expect((error as ScoreValidationError).problems).toEqual([problem]);
+    }
+
+    scoreManager.create({ name: "accuracy", value: 0.9, traceId: "trace-1" });
+    scoreManager.create({ name: "sentiment", value: "positive" });
+    scoreManager.create({ name: "unconfigured", value: "anything" });
+    await scoreManager.flush();
+
+    expect(apiClient.sentScores).toMatchObject([
+      { name: "accuracy", configId: "config-accuracy", dataType: "NUMERIC" },
+      {
+        name: "sentiment",
+        configId: "config-sentiment",
+        dataType: "CATEGORICAL",
+      },
+      { name: "unconfigured", value: "anything" },
+    ]);
+  });
+
+  it("should accept any value for unset numeric bounds", async () => {
+    const scoreManager = createScoreManager({ mode: "throw" });
+    await scoreManager.loadConfigs();
+
+    scoreManager.create({ name: "delta", value: -5, traceId: "trace-1" });
+    scoreManager.create({ name: "delta", value: 1e6, traceId: "trace-1" });
+    await scoreManager.flush();
+
+    expect(apiClient.sentScores).toMatchObject([
+      { name: "delta", value: -5, configId: "config-delta" },
+      { name: "delta", value: 1e6, configId: "config-delta" },
+    ]);
+  });
+
+  it("should report invalid scores and optionally require a config", async () => {
+    const onInvalidScore = vi.fn();
+    const scoreManager = createScoreManager({
+      mode: "report",
+      requireConfig: true,
+      onInvalidScore,
+    });
+    await scoreManager.loadConfigs();
+
+    scoreManager.create({ name: "accuracy", value: -1 });
+    scoreManager.create({ name: "unconfigured", value: 1 });
+    scoreManager.create({ name: "helpful", value: 1 });
+    await scoreManager.flush();
+
+    expect(onInvalidScore).toHaveBeenCalledTimes(2);
+    expect(onInvalidScore.mock.calls.map(([err]) => err.message)).toEqual([
+      "Invalid score 'accuracy': value -1 is less than the minimum 0",
+      "Invalid score 'unconfigured': no score config exists for this name",
+    ]);
+    expect(apiClient.sentScores).toMatchObject([
+      { name: "helpful", dataType: "BOOLEAN" },
+    ]);
+  });
+
+  it("should validate scores created before configs are loaded on flush", async () => {
+    let resolveConfigs!: () => void;
+    apiClient.scoreConfigs.get.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          resolveConfigs = () =>
+            resolve({ data: configs, meta: { totalPages: 1 } });
+        }),
+    );
+
+    const onInvalidScore = vi.fn();
+    const scoreManager = createScoreManager({ mode: "throw", onInvalidScore });
+
+    expect(() =>
+      scoreManager.create({ name: "accuracy", value: 2 }),
+    ).not.toThrow();
+    scoreManager.create({ name: "accuracy", value: 0.5 });
+
+    const flushPromise = scoreManager.flush();
+    resolveConfigs();
+    await flushPromise;
+
+    expect(onInvalidScore).toHaveBeenCalledTimes(1);
+    expect(apiClient.sentScores).toMatchObject([
+      { name: "accuracy", value: 0.5, configId: "config-accuracy" },
+    ]);
+  });
+
+  it("should send scores unvalidated if configs cannot be loaded", async () => {
+    apiClient.scoreConfigs.get.mockRejectedValue(new Error("Unavailable"));
+    const scoreManager = createScoreManager({ mode: "report" });
+
+    scoreManager.create({ name: "accuracy", value: 2 });
+    await scoreManager.flush();
+
+    expect(apiClient.sentScores).toMatchObject([{ name: "accuracy" }]);
+  });
+});
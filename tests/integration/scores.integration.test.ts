@@ -56,9 +56,13 @@ class MockAPIClient {
   }
 }
 
-function createScoreManager(mockAPIClient: MockAPIClient): ScoreManager {
+function createScoreManager(
+  mockAPIClient: MockAPIClient,
+  delivery?: ConstructorParameters<typeof ScoreManager>[0]["delivery"],
+): ScoreManager {
   return new ScoreManager({
     apiClient: mockAPIClient as unknown as AntsPlatformAPIClient,
+    delivery,
   });
 }
 
@@ -379,7 +383,7 @@ describe("ScoreManager Integration Tests", () => {
         callCount++;
         // Simulate queue being at max size after 3 calls
         if (callCount > 3) {
-          if ((this as any).eventQueue.length >= 100_000) {
+          if ((this as any).queue.events.length >= 100_000) {
             this.logger.error(
               `Score queue is at max size 100000. Dropping score.`,
             );
@@ -423,7 +427,9 @@ describe("ScoreManager Integration Tests", () => {
 
   describe("Error Handling", () => {
     it("should handle API errors gracefully", async () => {
-      const scoreManager = createScoreManager(mockAPIClient);
+      const scoreManager = createScoreManager(mockAPIClient, {
+        maxRetries: 0,
+      });
       const loggerSpy = vi.spyOn(scoreManager.logger, "error");
       mockAPIClient.setFailure(true);
 
@@ -441,7 +447,9 @@ describe("ScoreManager Integration Tests", () => {
     it("should continue processing other batches if one fails", async () => {
       // Set high flush count so items accumulate
       process.env.ANTS_PLATFORM_FLUSH_AT = "200";
-      const scoreManager = createScoreManager(mockAPIClient);
+      const scoreManager = createScoreManager(mockAPIClient, {
+        maxRetries: 0,
+      });
 
       // Add enough scores to create multiple batches
       for (let i = 0; i < 150; i++) {
@@ -476,21 +484,22 @@ describe("ScoreManager Integration Tests", () => {
       const scoreManager = createScoreManager(mockAPIClient);
       const loggerSpy = vi.spyOn(scoreManager.logger, "error");
 
-      // Mock Promise.all to throw
-      const originalPromiseAll = Promise.all;
-      Promise.all = vi.fn().mockRejectedValue(new Error("Promise.all failed"));
+      // Make preparing the flush throw
+      const validateSpy = vi
+        .spyOn(scoreManager as any, "validatePendingScores")
+        .mockRejectedValue(new Error("Validation failed"));
 
       scoreManager.create({ name: "promise-error", value: 1 });
       await scoreManager.flush();
       await waitFor(100);
 
       expect(loggerSpy).toHaveBeenCalledWith(
-        "Error flushing Score Manager: ",
+        "Error flushing ScoreManager: ",
         expect.any(Error),
       );
 
-      // Restore original Promise.all
-      Promise.all = originalPromiseAll;
+      validateSpy.mockRestore();
+      await scoreManager.shutdown();
     });
   });
 
@@ -575,8 +584,8 @@ describe("ScoreManager Integration Tests", () => {
     it("should use default configuration values", () => {
       const scoreManager = createScoreManager(mockAPIClient);
 
-      expect((scoreManager as any).flushAtCount).toBe(10);
-      expect((scoreManager as any).flushIntervalSeconds).toBe(1);
+      expect((scoreManager as any).queue.flushAtCount).toBe(10);
+      expect((scoreManager as any).queue.flushIntervalSeconds).toBe(1);
     });
 
     it("should use environment configuration values", () => {
@@ -585,8 +594,8 @@ describe("ScoreManager Integration Tests", () => {
 
       const scoreManager = createScoreManager(mockAPIClient);
 
-      expect((scoreManager as any).flushAtCount).toBe(25);
-      expect((scoreManager as any).flushIntervalSeconds).toBe(5);
+      expect((scoreManager as any).queue.flushAtCount).toBe(25);
+      expect((scoreManager as any).queue.flushIntervalSeconds).toBe(5);
 
       delete process.env.ANTS_PLATFORM_FLUSH_AT;
       delete process.env.ANTS_PLATFORM_FLUSH_INTERVAL;
@@ -689,8 +698,8 @@ describe("ScoreManager Integration Tests", () => {
       const scoreManager = createScoreManager(mockAPIClient);
 
       // Should fallback to defaults when env vars are invalid
-      expect((scoreManager as any).flushAtCount).toBeNaN(); // Number("invalid-number") returns NaN
-      expect((scoreManager as any).flushIntervalSeconds).toBeNaN();
+      expect((scoreManager as any).queue.flushAtCount).toBeNaN(); // Number("invalid-number") returns NaN
+      expect((scoreManager as any).queue.flushIntervalSeconds).toBeNaN();
 
       // Should still work despite invalid config
       scoreManager.create({ name: "invalid-config-test", value: 1 });
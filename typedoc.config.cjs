@@ -1,8 +1,11 @@
 /** @type {import('typedoc').TypeDocOptions} */
 module.exports = {
   entryPoints: [
+    "./packages/anthropic",
+    "./packages/cli",
     "./packages/core",
     "./packages/client",
+    "./packages/google-genai",
     "./packages/langchain",
     "./packages/openai",
     "./packages/otel",
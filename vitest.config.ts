@@ -49,6 +49,14 @@ export default defineConfig({
         "./packages/openai/src/index.ts",
         import.meta.url,
       ).pathname,
+      "@ants-platform/anthropic": new URL(
+        "./packages/anthropic/src/index.ts",
+        import.meta.url,
+      ).pathname,
+      "@ants-platform/google-genai": new URL(
+        "./packages/google-genai/src/index.ts",
+        import.meta.url,
+      ).pathname,
     },
   },
 });
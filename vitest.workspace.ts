@@ -30,10 +30,22 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@ants-platform/anthropic": new URL(
+          "./packages/anthropic/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@ants-platform/google-genai": new URL(
+          "./packages/google-genai/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@ants-platform/core": new URL(
           "./packages/core/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@ants-platform/cli": new URL(
+          "./packages/cli/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
       },
     },
   },
@@ -67,10 +79,22 @@ export default defineWorkspace([
           "./packages/openai/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@ants-platform/anthropic": new URL(
+          "./packages/anthropic/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
+        "@ants-platform/google-genai": new URL(
+          "./packages/google-genai/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
         "@ants-platform/core": new URL(
           "./packages/core/dist/index.mjs",
           import.meta.url,
         ).pathname,
+        "@ants-platform/cli": new URL(
+          "./packages/cli/dist/index.mjs",
+          import.meta.url,
+        ).pathname,
       },
     },
   },